@@ -8,7 +8,21 @@ module.exports = {
       env: {
         NODE_ENV: "production",
         PORT: process.env.PORT || 3001,
-        NUM_WORKERS: process.env.NUM_WORKERS || 2,
+        NUM_WORKERS: process.env.NUM_WORKERS,
+        RESOURCE_POOLS: process.env.RESOURCE_POOLS,
+        PISTACHIO_PROFILE: process.env.PISTACHIO_PROFILE || "local-skills",
+        SESSION_IDLE_TIMEOUT_MS: process.env.SESSION_IDLE_TIMEOUT_MS || 1800000,
+        QUEUE_AGING_INTERVAL_MS: process.env.QUEUE_AGING_INTERVAL_MS || 60000,
+        QUEUE_MAX_WAIT_MS: process.env.QUEUE_MAX_WAIT_MS,
+        TOOL_TIMEOUTS_MS: process.env.TOOL_TIMEOUTS_MS,
+        JOBS_DIR: process.env.JOBS_DIR,
+        PISTACHIO_DEVICE_LOCK_DIR: process.env.PISTACHIO_DEVICE_LOCK_DIR,
+        ANDROID_EMULATORS: process.env.ANDROID_EMULATORS,
+        ANDROID_EMULATOR_IDLE_TIMEOUT_MS: process.env.ANDROID_EMULATOR_IDLE_TIMEOUT_MS,
+        IOS_SIMULATOR_POOL_SIZE: process.env.IOS_SIMULATOR_POOL_SIZE,
+        IOS_SIMULATOR_DEVICE_TYPES: process.env.IOS_SIMULATOR_DEVICE_TYPES,
+        AUTH_TOKENS_FILE: process.env.AUTH_TOKENS_FILE,
+        CORS_ALLOWED_ORIGINS: process.env.CORS_ALLOWED_ORIGINS,
         LOG_LEVEL: process.env.LOG_LEVEL || "info",
       },
       // Log configuration
@@ -41,6 +55,7 @@ module.exports = {
         PORT: process.env.WEBDAV_PROXY_PORT || 8080,
         TARGET_URL: process.env.WEBDAV_TARGET_URL || "http://localhost:8081",
         PROJECTS_ROOT: process.env.PROJECTS_ROOT || "~/PistachioMCPProjects",
+        AUTH_TOKENS_FILE: process.env.AUTH_TOKENS_FILE,
         LOG_LEVEL: process.env.LOG_LEVEL || "info",
       },
       // Log configuration
@@ -3,8 +3,31 @@
 import { exec } from "child_process";
 import { promisify } from "util";
 import { join } from "path";
-import { existsSync, unlinkSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
-import { tmpdir, platform } from "os";
+import { existsSync, unlinkSync, mkdirSync, readdirSync } from "fs";
+import { platform } from "os";
+import { acquireDeviceFileLock } from "../shared/device-lock.js";
+import {
+    collectAndroidLogs,
+    formatDeviceLogSummary,
+    isDeviceLogsEmpty,
+    startAndroidLogCapture,
+    summarizeDeviceLogs,
+    writeDeviceLogs,
+    type DeviceLogs,
+} from "../shared/device-logs.js";
+import { getAdbDeviceState, killEmulator, prepareDevice, waitForDeviceReady } from "../shared/device-readiness.js";
+import {
+    ALL_TEST_CLASSES,
+    buildInstrumentCommand,
+    describeTestSelection,
+    isInstrumentationSuccessful,
+    runInstrumentation,
+    validatePackageName,
+    validateTestSelection,
+    type AndroidTestSelection,
+    type InstrumentationTestCase,
+} from "../shared/instrumentation.js";
+import { createInstrumentationReport, getTestReportFormat, writeTestReport, type TestReport } from "../shared/test-report.js";
 
 // Constants
 const PORT = 5554;
@@ -12,27 +35,15 @@ const LOCK_TIMEOUT_MS = 30000;
 const LOCK_POLL_INTERVAL_MS = 1000;
 const EMULATOR_BOOT_TIMEOUT_MS = 120000;
 const EMULATOR_POLL_INTERVAL_MS = 2000;
-const EMULATOR_BOOT_WAIT_MS = 10000;
 const DEBUG_APK_PATH_SUFFIX = "composeApp/build/outputs/apk/debug/composeApp-debug.apk";
 const TEST_APK_PATH_SUFFIX = "composeApp/build/outputs/apk/androidTest/debug/composeApp-debug-androidTest.apk";
+const DEVICE_LOGS_FILE = "device.log";
 
 const execAsync = promisify(exec);
 
 /** Gradle wrapper command: gradlew.bat on Windows, ./gradlew on Unix */
 const GRADLEW = platform() === "win32" ? "gradlew.bat" : "./gradlew";
 
-/**
- * Type guard to check if an error has stdout/stderr properties
- */
-interface ExecError extends Error {
-    stdout?: string;
-    stderr?: string;
-}
-
-function isExecError(error: unknown): error is ExecError {
-    return error instanceof Error && ('stdout' in error || 'stderr' in error);
-}
-
 /** Result of successful argument parsing */
 export type ParseArgsSuccess = {
     ok: true;
@@ -40,6 +51,10 @@ export type ParseArgsSuccess = {
     package_name: string;
     test_suite_name: string;
     test_name: string;
+    /** Fully qualified annotation the tests must have, from --annotation */
+    annotation?: string;
+    /** File to write the test report to, from --report: JUnit XML for .xml, JSON for .json */
+    report?: string;
 };
 
 /** Result of failed argument parsing; message is full text for stderr */
@@ -49,15 +64,37 @@ export type ParseArgsResult = ParseArgsSuccess | ParseArgsFailure;
 
 /**
  * Parse command line arguments. Returns a discriminated union; does not exit or log.
+ * test_suite_name may be "all" to run every test class, and test_name may be "all" to run the
+ * whole class or a comma-separated list of tests. --annotation filters the tests by annotation.
  */
 export function parseArgs(argv?: string[]): ParseArgsResult {
-    const args = argv ?? process.argv.slice(2);
+    const args = [...(argv ?? process.argv.slice(2))];
+
+    let annotation: string | undefined;
+    const annotationIndex = args.indexOf("--annotation");
+    if (annotationIndex !== -1) {
+        annotation = args[annotationIndex + 1];
+        if (!annotation || annotation.trim().length === 0) {
+            return { ok: false, message: "Invalid arguments:\n  - --annotation: must be followed by an annotation name" };
+        }
+        args.splice(annotationIndex, 2);
+    }
+
+    let report: string | undefined;
+    const reportIndex = args.indexOf("--report");
+    if (reportIndex !== -1) {
+        report = args[reportIndex + 1];
+        if (!report || !getTestReportFormat(report)) {
+            return { ok: false, message: "Invalid arguments:\n  - --report: must be followed by a .xml (JUnit) or .json file" };
+        }
+        args.splice(reportIndex, 2);
+    }
 
     if (args.length !== 4) {
         return {
             ok: false,
             message:
-                "Usage: npx tsx test-android.ts <project_dir> <package_name> <test_suite_name> <test_name>\n\nExample:\n  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest testSvgIconExampleDisplaysAllElements",
+                "Usage: npx tsx test-android.ts <project_dir> <package_name> <test_suite_name|all> <test_name|test_name,...|all> [--annotation <annotation>] [--report <report.xml|report.json>]\n\nExamples:\n  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest testSvgIconExampleDisplaysAllElements\n  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest all\n  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} all all --annotation androidx.test.filters.SmallTest\n  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest all --report report.xml",
         };
     }
 
@@ -69,6 +106,10 @@ export function parseArgs(argv?: string[]): ParseArgsResult {
     if (!package_name || package_name.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - package_name: must be a non-empty string" };
     }
+    const packageNameError = validatePackageName(package_name);
+    if (packageNameError) {
+        return { ok: false, message: `Invalid arguments:\n  - package_name: ${packageNameError}` };
+    }
     if (!test_suite_name || test_suite_name.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - test_suite_name: must be a non-empty string" };
     }
@@ -76,76 +117,50 @@ export function parseArgs(argv?: string[]): ParseArgsResult {
         return { ok: false, message: "Invalid arguments:\n  - test_name: must be a non-empty string" };
     }
 
-    return { ok: true, project_dir, package_name, test_suite_name, test_name };
+    if (test_suite_name === ALL_TEST_CLASSES && test_name !== "all") {
+        return { ok: false, message: "Invalid arguments:\n  - test_name: must be \"all\" when test_suite_name is \"all\"" };
+    }
+    const selectionError = validateTestSelection(toTestSelection(test_suite_name, test_name, annotation));
+    if (selectionError) {
+        return { ok: false, message: `Invalid arguments:\n  - ${selectionError}` };
+    }
+
+    return { ok: true, project_dir, package_name, test_suite_name, test_name, annotation, report };
+}
+
+/**
+ * Builds the test selection from the test_suite_name and test_name arguments.
+ */
+export function toTestSelection(test_suite_name: string, test_name: string, annotation?: string): AndroidTestSelection {
+    const testNames = test_name === "all"
+        ? []
+        : test_name.split(",").map((name) => name.trim()).filter((name) => name.length > 0);
+    return { testClass: test_suite_name, testNames, annotation };
 }
 
 /**
  * Acquire a device lock to prevent concurrent use. Returns a release callback.
+ * The lock is shared with the MCP server and the other skill scripts on this host.
  * Throws on timeout or non-EEXIST mkdir errors.
  */
 export async function acquireDeviceLock(
     serial: string,
     options?: { timeoutMs?: number; pollIntervalMs?: number }
 ): Promise<{ release: () => void }> {
-    const timeoutMs = options?.timeoutMs ?? LOCK_TIMEOUT_MS;
-    const pollIntervalMs = options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS;
-    const lockDir = join(tmpdir(), `pistachio-device-lock-${serial}`);
-    const lockPidFile = join(lockDir, "pid");
-    let acquired = false;
-
-    const release = (): void => {
-        if (!acquired) return;
-        try {
-            if (existsSync(lockDir)) {
-                rmSync(lockDir, { recursive: true, force: true });
-                console.log("✓ Device lock released");
-            }
-        } catch {
-            // Ignore cleanup errors
-        } finally {
-            acquired = false;
-        }
-    };
-
     console.log("Acquiring device lock...");
-    const lockStartTime = Date.now();
-
-    while (!acquired) {
-        if (Date.now() - lockStartTime >= timeoutMs) {
-            throw new Error(`Failed to acquire device lock within ${timeoutMs / 1000} seconds. Please try again later.`);
-        }
+    const lock = await acquireDeviceFileLock(serial, {
+        timeoutMs: options?.timeoutMs ?? LOCK_TIMEOUT_MS,
+        pollIntervalMs: options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS,
+    });
+    console.log("✓ Device lock acquired");
 
-        try {
-            mkdirSync(lockDir);
-            writeFileSync(lockPidFile, process.pid.toString());
-            acquired = true;
-            console.log("✓ Device lock acquired");
-        } catch (err: unknown) {
-            if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "EEXIST") {
-                try {
-                    const lockedPid = parseInt(readFileSync(lockPidFile, "utf8"), 10);
-                    if (!Number.isNaN(lockedPid)) {
-                        // process.kill(pid, 0) checks if process exists without killing it
-                        process.kill(lockedPid, 0);
-                    }
-                    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-                } catch {
-                    // PID invalid, missing, or process no longer exists — treat as stale lock
-                    console.log("Removing stale device lock...");
-                    try {
-                        rmSync(lockDir, { recursive: true, force: true });
-                    } catch {
-                        // Ignore
-                    }
-                }
-            } else {
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                throw new Error(`Error acquiring device lock: ${errorMessage}`);
+    return {
+        release: () => {
+            if (lock.release()) {
+                console.log("✓ Device lock released");
             }
-        }
-    }
-
-    return { release };
+        },
+    };
 }
 
 /** Result returned by runAndroidTest when the test run has completed */
@@ -153,24 +168,20 @@ export type RunAndroidTestResult = {
     success: boolean;
     output: string;
     logcatErrors: string;
+    /** Result of each test case reported by the instrumentation */
+    testCases: InstrumentationTestCase[];
+    /** Why the run did not complete, e.g. because the app crashed */
+    runError?: string;
+    /** Report of the run, for writing as JUnit XML or JSON */
+    report: TestReport;
+    /** Logcat of the app during the run, with its crashes and ANRs; missing when logcat could not be read */
+    deviceLogs?: DeviceLogs;
+    /** Number of frames extracted from all screen recordings */
     frameCount: number;
-    framesDir?: string;
+    /** Folders holding the extracted frames, one per recorded test */
+    framesDirs: string[];
 };
 
-/**
- * Check instrumentation output for test failure indicators.
- */
-export function hasTestFailureIndicators(output: string): boolean {
-    return (
-        output.includes("FAILURES!!!") ||
-        /Tests run:\s*\d+,\s*Failures:\s*[1-9]\d*/.test(output) ||
-        /INSTRUMENTATION_(?:FAILED|STATUS_CODE:\s*-1)\b/.test(output) ||
-        /INSTRUMENTATION_RESULT:.*(?:shortMsg|longMsg)=.*(?:fail|crash|exception)/i.test(output) ||
-        output.includes("Test failed") ||
-        /(java\.lang\.\w+(?:Exception|Error)|kotlin\.\w+Exception)/.test(output)
-    );
-}
-
 /**
  * Extract logcat error content between ERROR_LOGS_START and ERROR_LOGS_END.
  */
@@ -239,16 +250,54 @@ export async function extractFramesFromVideo(
 }
 
 /**
- * Run the Android test (build, emulator, install, instrument, screen record, cleanup).
+ * Returns the first AVD, used when the emulator has to be started.
+ */
+async function findAvd(): Promise<string> {
+    let avds: string[];
+    try {
+        const { stdout } = await execAsync("emulator -list-avds");
+        avds = stdout
+            .split("\n")
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to start emulator: ${errorMessage}`);
+    }
+
+    if (avds.length === 0) {
+        throw new Error(
+            "No Android Virtual Devices (AVDs) found. Please create an AVD using Android Studio."
+        );
+    }
+    return avds[0];
+}
+
+/**
+ * Starts the AVD in the background on the emulator port.
+ */
+function launchEmulator(avdName: string): void {
+    exec(`emulator -avd ${avdName} -port ${PORT} -no-snapshot-load -no-audio`, (error) => {
+        if (error) {
+            console.error(`Error starting emulator on port ${PORT}: ${error.message}`);
+        }
+    });
+}
+
+/**
+ * Run the Android tests (build, emulator, install, instrument, screen record, cleanup).
+ * test_suite_name and test_name select the tests as described in parseArgs.
  * Throws on fatal errors; returns a result when the test run has completed (pass or fail).
  */
 export async function runAndroidTest(
     project_dir: string,
     package_name: string,
     test_suite_name: string,
-    test_name: string
+    test_name: string,
+    annotation?: string
 ): Promise<RunAndroidTestResult> {
     const serial = `emulator-${PORT}`;
+    const selection = toTestSelection(test_suite_name, test_name, annotation);
 
     if (!existsSync(project_dir)) {
         throw new Error(`Project directory not found: ${project_dir}`);
@@ -279,78 +328,36 @@ export async function runAndroidTest(
     console.log("Step 3: Checking for running emulator...");
     try {
         const { stdout } = await execAsync("adb devices");
-        const lines = stdout.split("\n").filter((line) => line.trim());
-        for (const line of lines) {
-            if (line.includes(serial) && line.includes("\tdevice")) {
-                hasRunningEmulator = true;
-                break;
-            }
-        }
+        hasRunningEmulator = getAdbDeviceState(stdout, serial) !== undefined;
     } catch {
         throw new Error(
             "adb command not found. Please ensure Android SDK platform-tools are installed and available in PATH."
         );
     }
 
-    // Step 4: Start emulator if one is not running
+    // Step 4: Start emulator if one is not running, and wait until it finished booting
+    let avdName: string | undefined;
     if (!hasRunningEmulator) {
         console.log("Step 4: Starting emulator...");
-        try {
-            const { stdout: avdList } = await execAsync("emulator -list-avds");
-            const avds = avdList
-                .split("\n")
-                .map((line) => line.trim())
-                .filter((line) => line.length > 0);
-
-            if (avds.length === 0) {
-                throw new Error(
-                    "No Android Virtual Devices (AVDs) found. Please create an AVD using Android Studio."
-                );
-            }
-
-            const avdName = avds[0];
-            console.log(`Using AVD: ${avdName}`);
-
-            exec(`emulator -avd ${avdName} -port ${PORT} -no-snapshot-load -no-audio`, (error) => {
-                if (error) {
-                    console.error(`Error starting emulator on port ${PORT}: ${error.message}`);
-                }
-            });
-
-            let deviceAvailable = false;
-            const startTime = Date.now();
-            console.log("Waiting for emulator to boot...");
-            while (!deviceAvailable && Date.now() - startTime < EMULATOR_BOOT_TIMEOUT_MS) {
-                await new Promise((resolve) => setTimeout(resolve, EMULATOR_POLL_INTERVAL_MS));
-                try {
-                    const { stdout } = await execAsync("adb devices");
-                    const lines = stdout.split("\n").filter((line) => line.trim());
-                    for (const line of lines) {
-                        if (line.includes(serial) && line.includes("\tdevice")) {
-                            deviceAvailable = true;
-                            break;
-                        }
-                    }
-                } catch {
-                    // Continue polling
-                }
-            }
-
-            if (!deviceAvailable) {
-                throw new Error(
-                    `Emulator failed to start within ${EMULATOR_BOOT_TIMEOUT_MS / 1000} seconds. Please check emulator logs.`
-                );
-            }
-            // Wait for Android to finish booting
-            await new Promise((resolve) => setTimeout(resolve, EMULATOR_BOOT_WAIT_MS));
-            console.log("✓ Emulator started successfully");
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error(`Failed to start emulator: ${String(error)}`);
-        }
+        avdName = await findAvd();
+        console.log(`Using AVD: ${avdName}`);
+        launchEmulator(avdName);
+        console.log("Waiting for emulator to boot...");
     } else {
-        console.log("✓ Emulator already running");
+        console.log("Step 4: Waiting for running emulator to be ready...");
     }
+    await waitForDeviceReady(serial, {
+        timeoutMs: EMULATOR_BOOT_TIMEOUT_MS,
+        pollIntervalMs: EMULATOR_POLL_INTERVAL_MS,
+        restart: async (error) => {
+            console.warn(`${error.message} Restarting emulator...`);
+            avdName ??= await findAvd();
+            await killEmulator(serial);
+            launchEmulator(avdName);
+        },
+    });
+    await prepareDevice(serial);
+    console.log(hasRunningEmulator ? "✓ Emulator ready" : "✓ Emulator started successfully");
 
     // Step 5: Install debug APK
     console.log("Step 5: Installing debug APK...");
@@ -374,47 +381,71 @@ export async function runAndroidTest(
         throw new Error(`Failed to install test APK: ${errorMessage}`);
     }
 
-    // Step 7: Run instrument
-    console.log(`Step 7: Running test: ${test_name}...`);
-    let output = "";
+    // Clear logcat, so the logs collected after the run only hold the run
+    let logsSince: string | undefined;
     try {
-        const { stdout, stderr } = await execAsync(
-            `adb -s ${serial} shell am instrument -w -r -e class "${package_name}.${test_suite_name}#${test_name}" ${package_name}.test/androidx.test.runner.AndroidJUnitRunner`
-        );
-        output = stdout + (stderr ? `\n${stderr}` : "");
+        logsSince = await startAndroidLogCapture(serial);
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        if (isExecError(error)) {
-            output = (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
-        } else {
-            output = errorMessage;
-        }
+        console.warn(`Could not clear logcat: ${errorMessage}`);
     }
 
+    // Step 7: Run instrument
+    console.log(`Step 7: Running ${describeTestSelection(selection)}...`);
+    const startTime = new Date();
+    const { output, run } = await runInstrumentation(buildInstrumentCommand(serial, package_name, selection));
+    const report = createInstrumentationReport(run, {
+        name: describeTestSelection(selection),
+        startTime,
+        durationMs: Date.now() - startTime.getTime(),
+    });
+    const testCases = run.testCases;
     const logcatErrors = extractLogcatErrors(output);
 
-    // Step 8: Screen recording and frames
-    const screenRecordPath = `/storage/emulated/0/Android/data/${package_name}/files/screenrecord_${test_name}.mp4`;
-    const localScreenRecordPath = join(project_dir, `screenrecord_${test_name}.mp4`);
-    let frameCount = 0;
-    let framesDir: string | undefined;
-    try {
-        await execAsync(`adb -s ${serial} pull "${screenRecordPath}" "${localScreenRecordPath}"`);
-        console.log("✓ Screen recording retrieved");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(`Could not pull screen recording: ${errorMessage}`);
+    let deviceLogs: DeviceLogs | undefined;
+    if (logsSince !== undefined) {
+        try {
+            deviceLogs = await collectAndroidLogs(serial, package_name, logsSince);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.warn(`Could not collect device logs: ${errorMessage}`);
+        }
     }
 
-    if (existsSync(localScreenRecordPath)) {
+    // Step 8: Screen recording and frames of each test
+    // Frames are only extracted for a single test, or for the failed tests of a larger run
+    const recordedTests = testCases.length > 0
+        ? testCases
+            .filter((testCase) => testCase.status !== "ignored")
+            .map((testCase) => ({ testName: testCase.testName, failed: testCase.status === "failed" }))
+        : (selection.testNames ?? []).map((testName) => ({ testName, failed: true }));
+    let frameCount = 0;
+    const framesDirs: string[] = [];
+    for (const { testName, failed } of recordedTests) {
+        const screenRecordPath = `/storage/emulated/0/Android/data/${package_name}/files/screenrecord_${testName}.mp4`;
+        const localScreenRecordPath = join(project_dir, `screenrecord_${testName}.mp4`);
         try {
-            console.log("Extracting frames from video...");
-            framesDir = join(project_dir, `frames_${test_name}`);
-            const result = await extractFramesFromVideo(localScreenRecordPath, framesDir);
-            frameCount = result.frameCount;
+            await execAsync(`adb -s ${serial} pull "${screenRecordPath}" "${localScreenRecordPath}"`);
+            console.log(`✓ Screen recording of ${testName} retrieved`);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            console.warn(`Could not extract frames from video: ${errorMessage}`);
+            console.warn(`Could not pull screen recording: ${errorMessage}`);
+        }
+
+        if (!existsSync(localScreenRecordPath)) {
+            continue;
+        }
+        if (recordedTests.length === 1 || failed) {
+            try {
+                console.log("Extracting frames from video...");
+                const framesDir = join(project_dir, `frames_${testName}`);
+                const result = await extractFramesFromVideo(localScreenRecordPath, framesDir);
+                frameCount += result.frameCount;
+                framesDirs.push(framesDir);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.warn(`Could not extract frames from video: ${errorMessage}`);
+            }
         }
         try {
             unlinkSync(localScreenRecordPath);
@@ -424,7 +455,7 @@ export async function runAndroidTest(
         }
     }
 
-    const success = !hasTestFailureIndicators(output);
+    const success = isInstrumentationSuccessful(run);
 
     // Step 9: Clean up
     console.log("Step 9: Cleaning up...");
@@ -441,7 +472,7 @@ export async function runAndroidTest(
         console.warn(`Could not uninstall main app: ${errorMessage}`);
     }
 
-    return { success, output, logcatErrors, frameCount, framesDir };
+    return { success, output, logcatErrors, testCases, runError: run.error, report, deviceLogs, frameCount, framesDirs };
 }
 
 /**
@@ -454,10 +485,10 @@ async function main() {
         process.exit(1);
     }
 
-    const { project_dir, package_name, test_suite_name, test_name } = parsed;
+    const { project_dir, package_name, test_suite_name, test_name, annotation, report } = parsed;
     const serial = `emulator-${PORT}`;
 
-    console.log(`Running Android test: ${test_name}`);
+    console.log(`Running Android tests: ${describeTestSelection(toTestSelection(test_suite_name, test_name, annotation))}`);
     console.log(`Project Directory: ${project_dir}`);
     console.log(`Package: ${package_name}`);
     console.log(`Device: ${serial}`);
@@ -490,7 +521,7 @@ async function main() {
 
     let result: RunAndroidTestResult;
     try {
-        result = await runAndroidTest(project_dir, package_name, test_suite_name, test_name);
+        result = await runAndroidTest(project_dir, package_name, test_suite_name, test_name, annotation);
     } catch (e) {
         console.error("Fatal error:", e);
         process.exit(1);
@@ -501,10 +532,36 @@ async function main() {
     console.log("");
     console.log("TEST RESULTS");
     console.log(`Status: ${result.success ? "✓ PASSED" : "✗ FAILED"}`);
+    if (result.testCases.length > 1) {
+        for (const testCase of result.testCases) {
+            const duration = testCase.durationMs !== undefined ? ` (${(testCase.durationMs / 1000).toFixed(1)}s)` : "";
+            console.log(`  ${testCase.status.toUpperCase()} ${testCase.className}#${testCase.testName}${duration}`);
+        }
+    }
+    if (result.runError) {
+        console.log(`Run failed: ${result.runError}`);
+    }
     if (result.frameCount > 0) {
-        console.log(
-            `Frames Extracted: ${result.frameCount}${result.framesDir ? ` (from ${result.framesDir})` : ""}`
-        );
+        console.log(`Frames Extracted: ${result.frameCount} (in ${result.framesDirs.join(", ")})`);
+    }
+    if (report) {
+        try {
+            writeTestReport(result.report, report);
+            console.log(`Report: ${report}`);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            console.warn(`Could not write test report: ${message}`);
+        }
+    }
+    if (result.deviceLogs && !isDeviceLogsEmpty(result.deviceLogs)) {
+        const deviceLogsPath = join(project_dir, DEVICE_LOGS_FILE);
+        try {
+            writeDeviceLogs(result.deviceLogs, deviceLogsPath);
+            console.log(`Device Logs: ${deviceLogsPath} (${formatDeviceLogSummary(summarizeDeviceLogs(result.deviceLogs))})`);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            console.warn(`Could not write device logs: ${message}`);
+        }
     }
     console.log("");
     if (!result.success) {
@@ -515,6 +572,12 @@ async function main() {
         } else {
             console.log(result.output);
         }
+        for (const crash of result.deviceLogs?.crashes ?? []) {
+            console.log(`\nCrash:\n${crash}`);
+        }
+        for (const anr of result.deviceLogs?.anrs ?? []) {
+            console.log(`\nANR:\n${anr}`);
+        }
         console.log("-".repeat(60));
     }
 
@@ -2,13 +2,25 @@
 
 import { exec } from "child_process";
 import { promisify } from "util";
-import { join } from "path";
-import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, unlinkSync, writeFileSync } from "fs";
-import { tmpdir } from "os";
+import { basename, join } from "path";
+import { existsSync, mkdirSync, readdirSync, rmSync, statSync, unlinkSync } from "fs";
 import { randomUUID } from "crypto";
+import { acquireDeviceFileLock } from "../shared/device-lock.js";
+import {
+    collectSimulatorLogs,
+    formatDeviceLogSummary,
+    isDeviceLogsEmpty,
+    summarizeDeviceLogs,
+    writeDeviceLogs,
+    type DeviceLogs,
+} from "../shared/device-logs.js";
+import { createXcresultReport, getTestReportFormat, writeTestReport, type TestReport } from "../shared/test-report.js";
+import { isXcresultSuccessful, readXcresult, type XcresultRun, type XcresultTestCase } from "../shared/xcresult.js";
 
 // Constants
 const SCHEME = "iosApp";
+const LOGGED_PROCESSES = [SCHEME, `${SCHEME}UITests-Runner`];
+const DEVICE_LOGS_FILE = "device.log";
 const MIN_SIMULATOR_OS = "15.3";
 const LOCK_TIMEOUT_MS = 30000;
 const LOCK_POLL_INTERVAL_MS = 1000;
@@ -90,6 +102,8 @@ export type ParseArgsSuccess = {
     ok: true;
     project_dir: string;
     test_name: string;
+    /** File to write the test report to, from --report: JUnit XML for .xml, JSON for .json */
+    report?: string;
 };
 
 /** Result of failed argument parsing; message is full text for stderr */
@@ -101,13 +115,23 @@ export type ParseArgsResult = ParseArgsSuccess | ParseArgsFailure;
  * Parse command line arguments. Returns a discriminated union; does not exit or log.
  */
 export function parseArgs(argv?: string[]): ParseArgsResult {
-    const args = argv ?? process.argv.slice(2);
+    const args = [...(argv ?? process.argv.slice(2))];
+
+    let report: string | undefined;
+    const reportIndex = args.indexOf("--report");
+    if (reportIndex !== -1) {
+        report = args[reportIndex + 1];
+        if (!report || !getTestReportFormat(report)) {
+            return { ok: false, message: "Invalid arguments:\n  - --report: must be followed by a .xml (JUnit) or .json file" };
+        }
+        args.splice(reportIndex, 2);
+    }
 
     if (args.length !== 2) {
         return {
             ok: false,
             message:
-                "Usage: npx tsx test-ios.ts <project_dir> <test_name>\n\nExample:\n  npx tsx test-ios.ts /path/to/iosApp testScrollingDownGesture",
+                "Usage: npx tsx test-ios.ts <project_dir> <test_name> [--report <report.xml|report.json>]\n\nExamples:\n  npx tsx test-ios.ts /path/to/iosApp testScrollingDownGesture\n  npx tsx test-ios.ts /path/to/iosApp testScrollingDownGesture --report report.xml",
         };
     }
 
@@ -120,98 +144,50 @@ export function parseArgs(argv?: string[]): ParseArgsResult {
         return { ok: false, message: "Invalid arguments:\n  - test_name: must be a non-empty string" };
     }
 
-    return { ok: true, project_dir, test_name };
+    return { ok: true, project_dir, test_name, report };
 }
 
 /**
  * Acquire a device lock to prevent concurrent use. Returns a release callback.
+ * The lock is shared with the MCP server and the other skill scripts on this host.
  * Throws on timeout or non-EEXIST mkdir errors.
  */
 export async function acquireDeviceLock(
     serial: string,
     options?: { timeoutMs?: number; pollIntervalMs?: number }
 ): Promise<{ release: () => void }> {
-    const timeoutMs = options?.timeoutMs ?? LOCK_TIMEOUT_MS;
-    const pollIntervalMs = options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS;
-    const lockDir = join(tmpdir(), `pistachio-device-lock-${serial}`);
-    const lockPidFile = join(lockDir, "pid");
-    let acquired = false;
-
-    const release = (): void => {
-        if (!acquired) return;
-        try {
-            if (existsSync(lockDir)) {
-                rmSync(lockDir, { recursive: true, force: true });
-                console.log("✓ Device lock released");
-            }
-        } catch {
-            // Ignore cleanup errors
-        } finally {
-            acquired = false;
-        }
-    };
-
     console.log("Acquiring device lock...");
-    const lockStartTime = Date.now();
-
-    while (!acquired) {
-        if (Date.now() - lockStartTime >= timeoutMs) {
-            throw new Error(`Failed to acquire device lock within ${timeoutMs / 1000} seconds. Please try again later.`);
-        }
+    const lock = await acquireDeviceFileLock(serial, {
+        timeoutMs: options?.timeoutMs ?? LOCK_TIMEOUT_MS,
+        pollIntervalMs: options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS,
+    });
+    console.log("✓ Device lock acquired");
 
-        try {
-            mkdirSync(lockDir);
-            writeFileSync(lockPidFile, process.pid.toString());
-            acquired = true;
-            console.log("✓ Device lock acquired");
-        } catch (err: unknown) {
-            if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "EEXIST") {
-                try {
-                    const lockedPid = parseInt(readFileSync(lockPidFile, "utf8"), 10);
-                    if (!Number.isNaN(lockedPid)) {
-                        process.kill(lockedPid, 0);
-                    }
-                    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-                } catch {
-                    console.log("Removing stale device lock...");
-                    try {
-                        rmSync(lockDir, { recursive: true, force: true });
-                    } catch {
-                        // Ignore
-                    }
-                }
-            } else {
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                throw new Error(`Error acquiring device lock: ${errorMessage}`);
+    return {
+        release: () => {
+            if (lock.release()) {
+                console.log("✓ Device lock released");
             }
-        }
-    }
-
-    return { release };
+        },
+    };
 }
 
 /** Result returned by runIosTest when the test run has completed */
 export type RunIosTestResult = {
     success: boolean;
     output: string;
+    /** Result of each test, read from the result bundle */
+    testCases: XcresultTestCase[];
+    /** Why the run did not complete, e.g. because the build failed */
+    runError?: string;
+    /** Report of the run, for writing as JUnit XML or JSON */
+    report: TestReport;
+    /** Simulator logs of the app and its UI tests, with crash reports; missing when the log could not be read */
+    deviceLogs?: DeviceLogs;
     frameCount: number;
     framesDir?: string;
 };
 
-/**
- * Check xcodebuild/test output for test failure indicators.
- */
-export function hasTestFailureIndicators(output: string): boolean {
-    return (
-        output.includes("Test Suite 'All tests' failed") ||
-        output.includes("Test Failed") ||
-        /Test Suite '[^']+' failed/.test(output) ||
-        /\bTest\s+.*\s+failed\b/i.test(output) ||
-        output.includes("BUILD FAILED") ||
-        output.includes("xcodebuild: error:")
-    );
-}
-
 /**
  * Extract frames from a screen recording video. Caller is responsible for deleting the video file.
  */
@@ -339,6 +315,7 @@ export async function runIosTest(
 
     // Step 2: Run xcodebuild test
     console.log(`Step 2: Running test: ${test_name}...`);
+    const startTime = new Date();
     let output = "";
     try {
         const { stdout, stderr } = await execAsync(
@@ -354,10 +331,31 @@ export async function runIosTest(
             output = errorMessage;
         }
     }
+    const durationMs = Date.now() - startTime.getTime();
+
+    // Step 3: Read the result of the test from the result bundle
+    console.log("Step 3: Reading test results...");
+    let run: XcresultRun = { testCases: [], error: "xcodebuild did not write a result bundle" };
+    if (existsSync(resultBundlePath)) {
+        try {
+            run = await readXcresult(resultBundlePath);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            run = { testCases: [], error: `Could not read test results from result bundle: ${errorMessage}` };
+        }
+    }
+    const success = isXcresultSuccessful(run);
+    const report = createXcresultReport(run, { name: test_name, startTime, durationMs });
 
-    const success = !hasTestFailureIndicators(output);
+    let deviceLogs: DeviceLogs | undefined;
+    try {
+        deviceLogs = await collectSimulatorLogs(udid, LOGGED_PROCESSES, startTime);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`Could not collect device logs: ${errorMessage}`);
+    }
 
-    // Step 3: Extract attachments with xcparse and frames from largest video
+    // Step 4: Extract attachments with xcparse and frames from largest video
     let frameCount = 0;
     let framesDir: string | undefined;
 
@@ -430,7 +428,7 @@ export async function runIosTest(
         console.warn(`No result bundle found in ${resultBundlePath}`);
     }
 
-    return { success, output, frameCount, framesDir };
+    return { success, output, testCases: run.testCases, runError: run.error, report, deviceLogs, frameCount, framesDir };
 }
 
 /**
@@ -443,7 +441,7 @@ async function main() {
         process.exit(1);
     }
 
-    const { project_dir, test_name } = parsed;
+    const { project_dir, test_name, report } = parsed;
 
     let simulator: FirstIphoneSimulator;
     try {
@@ -505,16 +503,49 @@ async function main() {
     console.log("");
     console.log("TEST RESULTS");
     console.log(`Status: ${result.success ? "✓ PASSED" : "✗ FAILED"}`);
+    for (const testCase of result.testCases) {
+        const duration = testCase.durationMs !== undefined ? ` (${(testCase.durationMs / 1000).toFixed(1)}s)` : "";
+        console.log(`  ${testCase.status.toUpperCase()} ${testCase.className}#${testCase.testName}${duration}`);
+        for (const failure of testCase.failures) {
+            const location = failure.file ? `${basename(failure.file)}${failure.line !== undefined ? `:${failure.line}` : ""}: ` : "";
+            console.log(`    ${location}${failure.message}`);
+        }
+    }
+    if (result.runError) {
+        console.log(`Run failed: ${result.runError}`);
+    }
     if (result.frameCount > 0) {
         console.log(
             `Frames Extracted: ${result.frameCount}${result.framesDir ? ` (from ${result.framesDir})` : ""}`
         );
     }
+    if (report) {
+        try {
+            writeTestReport(result.report, report);
+            console.log(`Report: ${report}`);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            console.warn(`Could not write test report: ${message}`);
+        }
+    }
+    if (result.deviceLogs && !isDeviceLogsEmpty(result.deviceLogs)) {
+        const deviceLogsPath = join(project_dir, DEVICE_LOGS_FILE);
+        try {
+            writeDeviceLogs(result.deviceLogs, deviceLogsPath);
+            console.log(`Device Logs: ${deviceLogsPath} (${formatDeviceLogSummary(summarizeDeviceLogs(result.deviceLogs))})`);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            console.warn(`Could not write device logs: ${message}`);
+        }
+    }
     console.log("");
     if (!result.success) {
         console.log("Output:");
         console.log("-".repeat(60));
         console.log(result.output);
+        for (const crash of result.deviceLogs?.crashes ?? []) {
+            console.log(`\nCrash:\n${crash}`);
+        }
         console.log("-".repeat(60));
     }
 
@@ -0,0 +1,215 @@
+import { join } from "path";
+import { mkdirSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+
+/**
+ * How long a lock stays valid without renewal. The holder renews it every third of this time,
+ * so a lock whose holder hangs or whose PID was reused is recovered after the lease runs out.
+ */
+export const DEFAULT_LEASE_MS = 60000;
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Error thrown when a device lock is not acquired in time
+ */
+export class DeviceLockTimeoutError extends Error {
+    constructor(
+        readonly serial: string,
+        readonly timeoutMs: number
+    ) {
+        super(`Failed to acquire device lock within ${timeoutMs}ms: ${serial} is in use by another test`);
+        this.name = "DeviceLockTimeoutError";
+    }
+}
+
+/**
+ * Options for acquiring a device lock
+ */
+export interface DeviceFileLockOptions {
+    /** Maximum time to wait for the lock; no limit when unset */
+    timeoutMs?: number;
+    /** How often to check whether the lock was released (default: 1 second) */
+    pollIntervalMs?: number;
+    /** How long the lock stays valid without renewal (default: DEFAULT_LEASE_MS) */
+    leaseMs?: number;
+    /** Aborting the signal stops waiting and rejects with the signal's reason */
+    signal?: AbortSignal;
+}
+
+/**
+ * A held device lock
+ */
+export interface DeviceFileLock {
+    /**
+     * Releases the lock. Returns false if it was already released.
+     */
+    release: () => boolean;
+}
+
+/**
+ * Returns the directory of the lock on a device.
+ * The MCP server and the skill scripts must agree on it, so it can be moved with PISTACHIO_DEVICE_LOCK_DIR.
+ */
+export function getDeviceLockDir(serial: string): string {
+    return join(process.env.PISTACHIO_DEVICE_LOCK_DIR || tmpdir(), `pistachio-device-lock-${serial}`);
+}
+
+/**
+ * Returns true if a process with the given PID exists.
+ */
+function isProcessAlive(pid: number): boolean {
+    try {
+        // process.kill(pid, 0) checks if process exists without killing it
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+/**
+ * Returns true if a lock can be taken over: its holder exited, or it was not renewed within the lease.
+ */
+function isStale(lockDir: string, leaseMs: number): boolean {
+    const pidFile = join(lockDir, "pid");
+    let pid: number;
+    try {
+        pid = parseInt(readFileSync(pidFile, "utf8"), 10);
+    } catch {
+        // The holder may not have written its PID yet; only a lock that stays without one is stale
+        try {
+            return Date.now() - statSync(lockDir).mtimeMs > leaseMs;
+        } catch {
+            return false;
+        }
+    }
+
+    if (Number.isNaN(pid) || !isProcessAlive(pid)) {
+        return true;
+    }
+    try {
+        return Date.now() - statSync(pidFile).mtimeMs > leaseMs;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Removes a stale lock while holding its takeover lock, a second directory created with mkdir.
+ * Staleness is checked again under the takeover lock, so a lock that another process took over
+ * and recreated since the caller's check is never removed. The takeover lock is only held during
+ * synchronous calls; one left behind by a process that died holding it is removed after the lease.
+ * Returns false if another process is taking the lock over or the lock is no longer stale.
+ */
+function removeStaleLock(lockDir: string, leaseMs: number): boolean {
+    const takeoverDir = `${lockDir}.takeover`;
+    try {
+        mkdirSync(takeoverDir);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Error acquiring device lock: ${errorMessage}`);
+        }
+        try {
+            if (Date.now() - statSync(takeoverDir).mtimeMs > leaseMs) {
+                rmSync(takeoverDir, { recursive: true, force: true });
+            }
+        } catch {
+            // The takeover finished in the meantime
+        }
+        return false;
+    }
+
+    try {
+        if (!isStale(lockDir, leaseMs)) {
+            return false;
+        }
+        rmSync(lockDir, { recursive: true, force: true });
+        return true;
+    } finally {
+        rmSync(takeoverDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Waits for the given time, or rejects early with the signal's reason.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason as Error);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Acquires the lock on a device, shared by all processes on the host: the MCP server and the skill scripts.
+ * The lock is a directory created with mkdir, holding the PID of its owner, so creating it is atomic.
+ * Locks of exited processes, and locks not renewed within the lease, are removed and taken over (see removeStaleLock).
+ * Throws a DeviceLockTimeoutError on timeout, the signal's reason on abort, and on unexpected mkdir errors.
+ */
+export async function acquireDeviceFileLock(serial: string, options: DeviceFileLockOptions = {}): Promise<DeviceFileLock> {
+    const { timeoutMs, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS, leaseMs = DEFAULT_LEASE_MS, signal } = options;
+    const lockDir = getDeviceLockDir(serial);
+    const pidFile = join(lockDir, "pid");
+    const startTime = Date.now();
+
+    for (;;) {
+        signal?.throwIfAborted();
+
+        try {
+            mkdirSync(lockDir);
+            writeFileSync(pidFile, process.pid.toString());
+            break;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Error acquiring device lock: ${errorMessage}`);
+            }
+        }
+
+        if (isStale(lockDir, leaseMs) && removeStaleLock(lockDir, leaseMs)) {
+            continue;
+        }
+        if (timeoutMs !== undefined && Date.now() - startTime >= timeoutMs) {
+            throw new DeviceLockTimeoutError(serial, timeoutMs);
+        }
+        await sleep(pollIntervalMs, signal);
+    }
+
+    // Renew the lease while the lock is held; the timer does not keep the process alive
+    const renewal = setInterval(() => {
+        try {
+            const now = new Date();
+            utimesSync(pidFile, now, now);
+        } catch {
+            // Ignore; the lock is recreated by the next holder if it was removed
+        }
+    }, leaseMs / 3);
+    renewal.unref();
+
+    let held = true;
+    return {
+        release: () => {
+            if (!held) {
+                return false;
+            }
+            held = false;
+            clearInterval(renewal);
+            try {
+                rmSync(lockDir, { recursive: true, force: true });
+            } catch {
+                // Ignore cleanup errors
+            }
+            return true;
+        },
+    };
+}
@@ -0,0 +1,359 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { join } from "path";
+import { homedir } from "os";
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+
+const execAsync = promisify(exec);
+
+/**
+ * Logs of long test runs exceed exec's default buffer of 1 MB
+ */
+const DEVICE_LOGS_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Logcat buffers read after a run: app logs, system logs such as ANRs, and crashes
+ */
+const LOGCAT_BUFFERS = "main,system,crash";
+
+/**
+ * Severity of a log entry. Logcat's assert level and unified logging's faults are "fatal".
+ */
+export type DeviceLogLevel = "fatal" | "error" | "warning" | "info" | "debug" | "verbose";
+
+/**
+ * Entry of a device log
+ */
+export interface DeviceLogEntry {
+    /** Time as written by the device, e.g. "10-19 10:03:05.123" for logcat */
+    time: string;
+    pid?: number;
+    level: DeviceLogLevel;
+    /** Logcat tag, or the process and subsystem of a simulator log */
+    tag: string;
+    message: string;
+    /** Logcat buffer the entry was read from, e.g. "main" or "crash" */
+    buffer?: string;
+}
+
+/**
+ * Logs of the app under test during a run
+ */
+export interface DeviceLogs {
+    platform: "android" | "ios";
+    entries: DeviceLogEntry[];
+    /** Crashes of the app: the logcat crash buffer on Android, crash reports on iOS */
+    crashes: string[];
+    /** Traces of the app's ANRs (Android only) */
+    anrs: string[];
+}
+
+/**
+ * Number of log entries by severity, and of crashes and ANRs
+ */
+export interface DeviceLogSummary {
+    fatal: number;
+    error: number;
+    warning: number;
+    info: number;
+    debug: number;
+    verbose: number;
+    crashes: number;
+    anrs: number;
+}
+
+const LOGCAT_LEVELS: Record<string, DeviceLogLevel> = {
+    V: "verbose",
+    D: "debug",
+    I: "info",
+    W: "warning",
+    E: "error",
+    F: "fatal",
+    A: "fatal",
+};
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parses logcat output in the threadtime format, e.g.
+ * `10-19 10:03:05.123  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main`. Buffer headers such as
+ * `--------- beginning of crash` set the buffer of the entries that follow.
+ */
+export function parseLogcat(output: string): DeviceLogEntry[] {
+    const entries: DeviceLogEntry[] = [];
+    let buffer: string | undefined;
+    for (const line of output.split(/\r?\n/)) {
+        const header = /^-+ (?:beginning of|switch to) (\w+)/.exec(line);
+        if (header) {
+            buffer = header[1];
+            continue;
+        }
+        const entry = /^(\d\d-\d\d \d\d:\d\d:\d\d\.\d+)\s+(\d+)\s+\d+\s+([VDIWEFA])\s+(.*?)\s*: (.*)$/.exec(line);
+        if (entry) {
+            entries.push({
+                time: entry[1],
+                pid: Number(entry[2]),
+                level: LOGCAT_LEVELS[entry[3]],
+                tag: entry[4],
+                message: entry[5],
+                buffer,
+            });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Keeps the logcat entries of an app: those of its processes, found from the "Start proc" messages
+ * of the ActivityManager and the "Process:" line of a crash, and system entries naming the package,
+ * such as "ANR in com.example.app". Crash buffer entries are grouped into one crash per process.
+ */
+export function extractAndroidAppLogs(output: string, packageName: string): { entries: DeviceLogEntry[]; crashes: string[] } {
+    const allEntries = parseLogcat(output);
+    const pids = new Set<number>();
+    const startProc = new RegExp(`Start proc (\\d+):${escapeRegExp(packageName)}(?:[:/\\s]|$)`);
+    const crashProcess = new RegExp(`^Process: ${escapeRegExp(packageName)}(?::\\S+)?, PID: (\\d+)`);
+    for (const entry of allEntries) {
+        const pid = startProc.exec(entry.message)?.[1] ?? crashProcess.exec(entry.message)?.[1];
+        if (pid) {
+            pids.add(Number(pid));
+        }
+    }
+
+    const isAppEntry = (entry: DeviceLogEntry) => (entry.pid !== undefined && pids.has(entry.pid)) || entry.message.includes(packageName);
+    const entries = allEntries.filter((entry) => entry.buffer !== "crash" && isAppEntry(entry));
+
+    // Native crashes are written by crash_dump, so a crash is kept when any of its lines names the package
+    const crashBlocks: DeviceLogEntry[][] = [];
+    for (const entry of allEntries.filter((entry) => entry.buffer === "crash")) {
+        const block = crashBlocks[crashBlocks.length - 1];
+        if (block && block[0].pid === entry.pid && !entry.message.startsWith("FATAL EXCEPTION")) {
+            block.push(entry);
+        } else {
+            crashBlocks.push([entry]);
+        }
+    }
+    const crashes = crashBlocks
+        .filter((block) => block.some(isAppEntry))
+        .map((block) => block.map((entry) => entry.message).join("\n"));
+
+    return { entries, crashes };
+}
+
+/**
+ * Parses the output of `dumpsys dropbox --print data_app_anr` and returns the ANR traces of an app
+ * written since the given device time ("YYYY-MM-DD HH:MM:SS"). The drop box keeps entries across runs.
+ */
+export function parseAnrTraces(output: string, packageName: string, since: string): string[] {
+    const anrs: string[] = [];
+    for (const section of output.split(/^={10,}\s*$/m)) {
+        const header = /^\s*(\d{4}-\d\d-\d\d \d\d:\d\d:\d\d) data_app_anr\b.*$/m.exec(section);
+        if (!header || header[1] < since) {
+            continue;
+        }
+        const trace = section.slice(header.index + header[0].length).trim();
+        if (new RegExp(`^Process: ${escapeRegExp(packageName)}$`, "m").test(trace)) {
+            anrs.push(trace);
+        }
+    }
+    return anrs;
+}
+
+/**
+ * Clears the logcat buffers of a device before a run, so the logs collected after it only hold the run.
+ * Returns the device time the run starts at, for finding the ANRs written during it.
+ */
+export async function startAndroidLogCapture(serial: string, options: { signal?: AbortSignal } = {}): Promise<string> {
+    const { signal } = options;
+    await execAsync(`adb -s ${serial} logcat -b all -c`, { signal });
+    const { stdout } = await execAsync(`adb -s ${serial} shell date "+%Y-%m-%d %H:%M:%S"`, { signal });
+    return stdout.trim();
+}
+
+/**
+ * Collects the logs an app wrote since startAndroidLogCapture: its logcat entries, the crash buffer,
+ * and its ANR traces from the drop box. Throws if logcat cannot be read.
+ */
+export async function collectAndroidLogs(
+    serial: string,
+    packageName: string,
+    since: string,
+    options: { signal?: AbortSignal } = {}
+): Promise<DeviceLogs> {
+    const { signal } = options;
+    const { stdout } = await execAsync(`adb -s ${serial} logcat -d -v threadtime -b ${LOGCAT_BUFFERS}`, {
+        signal,
+        maxBuffer: DEVICE_LOGS_MAX_BUFFER,
+    });
+    const { entries, crashes } = extractAndroidAppLogs(stdout, packageName);
+
+    let anrs: string[] = [];
+    try {
+        const { stdout: dropbox } = await execAsync(`adb -s ${serial} shell dumpsys dropbox --print data_app_anr`, {
+            signal,
+            maxBuffer: DEVICE_LOGS_MAX_BUFFER,
+        });
+        anrs = parseAnrTraces(dropbox, packageName, since);
+    } catch {
+        // The drop box is not readable on every image; ANRs are still logged by the ActivityManager
+    }
+
+    return { platform: "android", entries, crashes, anrs };
+}
+
+/**
+ * Formats a time for the --start option of `log show`, in local time as the simulator shares the host clock.
+ */
+function toLogShowTime(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+        + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function toSimulatorLogLevel(messageType: string | undefined): DeviceLogLevel {
+    switch (messageType) {
+        case "Fault":
+            return "fatal";
+        case "Error":
+            return "error";
+        case "Debug":
+            return "debug";
+        default:
+            return "info";
+    }
+}
+
+/**
+ * Parses the output of `log show --style ndjson`: one JSON event per line, with its messageType
+ * ("Default", "Info", "Debug", "Error" or "Fault"), process and message.
+ */
+export function parseSimulatorLog(output: string): DeviceLogEntry[] {
+    const entries: DeviceLogEntry[] = [];
+    for (const line of output.split("\n")) {
+        let event: Record<string, unknown>;
+        try {
+            event = JSON.parse(line) as Record<string, unknown>;
+        } catch {
+            continue;
+        }
+        if (typeof event.eventMessage !== "string") {
+            continue;
+        }
+        const processPath = typeof event.processImagePath === "string" ? event.processImagePath : "";
+        const process = processPath.slice(processPath.lastIndexOf("/") + 1);
+        const subsystem = typeof event.subsystem === "string" && event.subsystem ? ` [${event.subsystem}]` : "";
+        entries.push({
+            time: typeof event.timestamp === "string" ? event.timestamp : "",
+            pid: typeof event.processID === "number" ? event.processID : undefined,
+            level: toSimulatorLogLevel(typeof event.messageType === "string" ? event.messageType : undefined),
+            tag: `${process}${subsystem}`,
+            message: event.eventMessage,
+        });
+    }
+    return entries;
+}
+
+/**
+ * Reads the crash reports the host wrote for the given processes since a time. Crashes of simulator apps
+ * are reported in the host's DiagnosticReports as `<process>-<date>.ips`.
+ */
+function readSimulatorCrashReports(processNames: string[], since: Date): string[] {
+    const reportsDir = join(homedir(), "Library", "Logs", "DiagnosticReports");
+    if (!existsSync(reportsDir)) {
+        return [];
+    }
+    return readdirSync(reportsDir)
+        .map((file) => String(file))
+        .filter((file) => file.endsWith(".ips") && processNames.some((name) => file.startsWith(`${name}-`)))
+        .filter((file) => statSync(join(reportsDir, file)).mtimeMs >= since.getTime())
+        .sort()
+        .map((file) => readFileSync(join(reportsDir, file), "utf-8"));
+}
+
+/**
+ * Collects the logs the given processes wrote on a simulator since a time, with their crash reports.
+ * Throws if the log cannot be read.
+ */
+export async function collectSimulatorLogs(
+    udid: string,
+    processNames: string[],
+    since: Date,
+    options: { signal?: AbortSignal } = {}
+): Promise<DeviceLogs> {
+    const { signal } = options;
+    const predicate = processNames.map((name) => `process == "${name}"`).join(" OR ");
+    const { stdout } = await execAsync(
+        `xcrun simctl spawn ${udid} log show --style ndjson --info --debug --start "${toLogShowTime(since)}" --predicate '${predicate}'`,
+        { signal, maxBuffer: DEVICE_LOGS_MAX_BUFFER }
+    );
+    return {
+        platform: "ios",
+        entries: parseSimulatorLog(stdout),
+        crashes: readSimulatorCrashReports(processNames, since),
+        anrs: [],
+    };
+}
+
+/**
+ * Counts the entries of device logs by severity, and their crashes and ANRs.
+ */
+export function summarizeDeviceLogs(logs: DeviceLogs): DeviceLogSummary {
+    const count = (level: DeviceLogLevel) => logs.entries.filter((entry) => entry.level === level).length;
+    return {
+        fatal: count("fatal"),
+        error: count("error"),
+        warning: count("warning"),
+        info: count("info"),
+        debug: count("debug"),
+        verbose: count("verbose"),
+        crashes: logs.crashes.length,
+        anrs: logs.anrs.length,
+    };
+}
+
+/**
+ * Describes a summary of device logs, e.g. "1 crash, 3 errors, 12 warnings".
+ */
+export function formatDeviceLogSummary(summary: DeviceLogSummary): string {
+    const counts: [number, string, string][] = [
+        [summary.crashes, "crash", "crashes"],
+        [summary.anrs, "ANR", "ANRs"],
+        [summary.fatal, "fatal", "fatal"],
+        [summary.error, "error", "errors"],
+        [summary.warning, "warning", "warnings"],
+    ];
+    const parts = counts
+        .filter(([count]) => count > 0)
+        .map(([count, singular, plural]) => `${count} ${count === 1 ? singular : plural}`);
+    return parts.length > 0 ? parts.join(", ") : "no errors or warnings";
+}
+
+/**
+ * Returns true if the logs hold nothing worth keeping.
+ */
+export function isDeviceLogsEmpty(logs: DeviceLogs): boolean {
+    return logs.entries.length === 0 && logs.crashes.length === 0 && logs.anrs.length === 0;
+}
+
+/**
+ * Formats device logs as the text of a log file: the entries, then each crash and ANR.
+ */
+export function formatDeviceLogs(logs: DeviceLogs): string {
+    const sections = [
+        logs.entries
+            .map((entry) => `${entry.time} ${entry.pid ?? "-"} ${entry.level.toUpperCase()} ${entry.tag}: ${entry.message}`)
+            .join("\n"),
+        ...logs.crashes.map((crash, index) => `===== Crash ${index + 1} =====\n${crash}`),
+        ...logs.anrs.map((anr, index) => `===== ANR ${index + 1} =====\n${anr}`),
+    ];
+    return `${sections.filter(Boolean).join("\n\n")}\n`;
+}
+
+/**
+ * Writes device logs to a text file.
+ */
+export function writeDeviceLogs(logs: DeviceLogs, path: string): void {
+    writeFileSync(path, formatDeviceLogs(logs));
+}
@@ -0,0 +1,218 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+
+const execAsync = promisify(exec);
+
+const DEFAULT_READY_TIMEOUT_MS = 120000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_MAX_RESTARTS = 1;
+const EMULATOR_KILL_TIMEOUT_MS = 30000;
+
+/**
+ * State of a device as listed by `adb devices`, or "missing" when it is not listed.
+ * A device that is listed as "device" may still be booting; "ready" means the boot completed
+ * and the package manager answers.
+ */
+export type DeviceReadinessState = "missing" | "offline" | "unauthorized" | "booting" | "starting_services" | "ready";
+
+/**
+ * Error thrown when a device does not become ready in time
+ */
+export class DeviceNotReadyError extends Error {
+    constructor(
+        readonly serial: string,
+        readonly state: DeviceReadinessState,
+        readonly timeoutMs: number
+    ) {
+        super(describeNotReady(serial, state, timeoutMs));
+        this.name = "DeviceNotReadyError";
+    }
+}
+
+function describeNotReady(serial: string, state: DeviceReadinessState, timeoutMs: number): string {
+    const seconds = timeoutMs / 1000;
+    switch (state) {
+        case "missing":
+            return `Emulator failed to start within ${seconds} seconds. Please check emulator logs.`;
+        case "offline":
+            return `Device ${serial} was still offline after ${seconds} seconds. Please check emulator logs.`;
+        case "unauthorized":
+            return `Device ${serial} was still unauthorized after ${seconds} seconds. Restart adb with "adb kill-server" or wipe the emulator data.`;
+        case "booting":
+            return `Device ${serial} did not finish booting within ${seconds} seconds (sys.boot_completed is not set). Please check emulator logs.`;
+        default:
+            return `Device ${serial} booted but its package manager did not answer within ${seconds} seconds. Please check emulator logs.`;
+    }
+}
+
+/**
+ * Options for waiting until a device is ready
+ */
+export interface DeviceReadinessOptions {
+    /** Maximum time to wait for the device, per attempt (default: 2 minutes) */
+    timeoutMs?: number;
+    /** How often to check the device (default: 2 seconds) */
+    pollIntervalMs?: number;
+    /** Aborting the signal stops waiting and rejects with the signal's reason */
+    signal?: AbortSignal;
+    /**
+     * Restarts a device that came up but got stuck, e.g. offline or never finishing its boot.
+     * Called with the error the attempt failed with; without it, a stuck device fails right away.
+     */
+    restart?: (error: DeviceNotReadyError) => Promise<void>;
+    /** How many times a stuck device is restarted before giving up (default: 1) */
+    maxRestarts?: number;
+}
+
+/**
+ * Gets the state of a device in the output of `adb devices`, or undefined when it is not listed.
+ */
+export function getAdbDeviceState(adbDevicesOutput: string, serial: string): string | undefined {
+    for (const line of adbDevicesOutput.split("\n")) {
+        const [lineSerial, state] = line.trim().split(/\s+/);
+        if (lineSerial === serial && state) {
+            return state;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Waits for the given time, or rejects early with the signal's reason.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason as Error);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Checks how far a device got in its boot. Commands that fail count as not ready yet,
+ * since adb drops connections while a device boots.
+ */
+export async function checkDeviceReadiness(serial: string, signal?: AbortSignal): Promise<DeviceReadinessState> {
+    let state: string | undefined;
+    try {
+        const { stdout } = await execAsync("adb devices", { signal });
+        state = getAdbDeviceState(stdout, serial);
+    } catch {
+        return "missing";
+    }
+    if (state === undefined) {
+        return "missing";
+    }
+    if (state === "offline" || state === "unauthorized") {
+        return state;
+    }
+    if (state !== "device") {
+        return "offline";
+    }
+
+    try {
+        const { stdout } = await execAsync(`adb -s ${serial} shell getprop sys.boot_completed`, { signal });
+        if (stdout.trim() !== "1") {
+            return "booting";
+        }
+    } catch {
+        return "booting";
+    }
+
+    try {
+        const { stdout } = await execAsync(`adb -s ${serial} shell pm path android`, { signal });
+        return stdout.includes("package:") ? "ready" : "starting_services";
+    } catch {
+        return "starting_services";
+    }
+}
+
+/**
+ * Waits until a device finished booting: adb lists it as online, sys.boot_completed is set, and the
+ * package manager answers, so installing APKs works. A device that shows up but gets stuck is restarted
+ * with `options.restart`, if given. Throws a DeviceNotReadyError on timeout, and the signal's reason on abort.
+ */
+export async function waitForDeviceReady(serial: string, options: DeviceReadinessOptions = {}): Promise<void> {
+    const {
+        timeoutMs = DEFAULT_READY_TIMEOUT_MS,
+        pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+        signal,
+        restart,
+        maxRestarts = DEFAULT_MAX_RESTARTS,
+    } = options;
+    let restarts = 0;
+    let startTime = Date.now();
+
+    for (;;) {
+        signal?.throwIfAborted();
+        const state = await checkDeviceReadiness(serial, signal);
+        if (state === "ready") {
+            return;
+        }
+
+        if (Date.now() - startTime >= timeoutMs) {
+            const error = new DeviceNotReadyError(serial, state, timeoutMs);
+            // A device that never showed up did not start at all; restarting it would not help
+            if (!restart || state === "missing" || restarts >= maxRestarts) {
+                throw error;
+            }
+            restarts++;
+            await restart(error);
+            startTime = Date.now();
+        }
+        await sleep(pollIntervalMs, signal);
+    }
+}
+
+/**
+ * Kills an emulator and waits until adb no longer lists it. Errors are ignored: the emulator may
+ * already be gone, and a wedged one may not answer.
+ */
+export async function killEmulator(serial: string, signal?: AbortSignal): Promise<void> {
+    try {
+        await execAsync(`adb -s ${serial} emu kill`, { signal });
+    } catch {
+        // Ignore; checked below
+    }
+
+    const startTime = Date.now();
+    while (Date.now() - startTime < EMULATOR_KILL_TIMEOUT_MS) {
+        try {
+            const { stdout } = await execAsync("adb devices", { signal });
+            if (getAdbDeviceState(stdout, serial) === undefined) {
+                return;
+            }
+        } catch {
+            return;
+        }
+        await sleep(DEFAULT_POLL_INTERVAL_MS, signal);
+    }
+}
+
+/**
+ * Prepares a ready device for UI tests: wakes and unlocks the screen, and disables animations,
+ * which make Espresso and Compose tests flaky. Throws if the device rejects the commands.
+ */
+export async function prepareDevice(serial: string, signal?: AbortSignal): Promise<void> {
+    try {
+        await execAsync(
+            `adb -s ${serial} shell "input keyevent KEYCODE_WAKEUP && wm dismiss-keyguard"`,
+            { signal }
+        );
+        await execAsync(
+            `adb -s ${serial} shell "settings put global window_animation_scale 0`
+            + " && settings put global transition_animation_scale 0"
+            + " && settings put global animator_duration_scale 0\"",
+            { signal }
+        );
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to prepare device ${serial}: ${errorMessage}`);
+    }
+}
@@ -0,0 +1,364 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+
+const execAsync = promisify(exec);
+
+/**
+ * Output of large test runs exceeds exec's default buffer of 1 MB
+ */
+const INSTRUMENTATION_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Instrumentation runner of the test APKs built by Pistachio projects
+ */
+export const ANDROID_TEST_RUNNER = "androidx.test.runner.AndroidJUnitRunner";
+
+/**
+ * Value of the test class that selects every test in the test APK
+ */
+export const ALL_TEST_CLASSES = "all";
+
+/**
+ * Which instrumented tests to run
+ */
+export interface AndroidTestSelection {
+    /** Test class, relative to the package or fully qualified; ALL_TEST_CLASSES runs every class */
+    testClass: string;
+    /** Test methods of the class; the whole class when empty */
+    testNames?: string[];
+    /** Only run tests with this fully qualified annotation, e.g. "androidx.test.filters.SmallTest" */
+    annotation?: string;
+}
+
+/**
+ * Returns the fully qualified name of a test class given relative to the package.
+ */
+function qualifyTestClass(packageName: string, testClass: string): string {
+    return testClass.includes(".") ? testClass : `${packageName}.${testClass}`;
+}
+
+/**
+ * Characters allowed in test classes, test names and annotations. The command is run by the
+ * device shell, so values with any other character could run commands of their own.
+ */
+const TEST_SELECTION_PATTERN = /^[\w.$#,]+$/;
+
+/**
+ * Java package name of the app under test, e.g. "com.example.app". It is put into
+ * `am instrument`, `adb uninstall` and `adb pull` commands as it is.
+ */
+export const PACKAGE_NAME_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)+$/;
+
+/**
+ * Returns why a package name can't be used in adb commands, or undefined if it is valid.
+ */
+export function validatePackageName(packageName: string): string | undefined {
+    return PACKAGE_NAME_PATTERN.test(packageName)
+        ? undefined
+        : `Invalid package name '${packageName}': must be a Java package name such as 'com.example.app'`;
+}
+
+/**
+ * Quotes a validated selection value for `adb shell`: the host shell removes the single quotes
+ * and the device shell the backslashes, so the `$` of nested classes reaches the runner unexpanded.
+ */
+function quoteForAdbShell(value: string): string {
+    return `'${value.replace(/\$/g, "\\$&")}'`;
+}
+
+/**
+ * Returns why the selected tests can't be run, or undefined if the selection is valid.
+ */
+export function validateTestSelection(selection: AndroidTestSelection): string | undefined {
+    const values = [selection.testClass, ...(selection.testNames ?? [])];
+    if (selection.annotation !== undefined) {
+        values.push(selection.annotation);
+    }
+    const invalid = values.find((value) => !TEST_SELECTION_PATTERN.test(value));
+    return invalid !== undefined
+        ? `Invalid test selection '${invalid}': only letters, digits, '_', '.', '$', '#' and ',' are allowed`
+        : undefined;
+}
+
+/**
+ * Builds the `am instrument` command running the selected tests with raw (-r) output.
+ * Throws if the package name or the selection is invalid (see validatePackageName and validateTestSelection).
+ */
+export function buildInstrumentCommand(serial: string, packageName: string, selection: AndroidTestSelection): string {
+    const inputError = validatePackageName(packageName) ?? validateTestSelection(selection);
+    if (inputError) {
+        throw new Error(inputError);
+    }
+
+    const filters: string[] = [];
+    if (selection.testClass !== ALL_TEST_CLASSES) {
+        const testClass = qualifyTestClass(packageName, selection.testClass);
+        const testNames = selection.testNames ?? [];
+        const targets = testNames.length > 0 ? testNames.map((testName) => `${testClass}#${testName}`) : [testClass];
+        filters.push(`-e class ${quoteForAdbShell(targets.join(","))}`);
+    }
+    if (selection.annotation) {
+        filters.push(`-e annotation ${quoteForAdbShell(selection.annotation)}`);
+    }
+    return `adb -s ${serial} shell am instrument -w -r ${filters.map((filter) => `${filter} `).join("")}${packageName}.test/${ANDROID_TEST_RUNNER}`;
+}
+
+/**
+ * Describes the selected tests for progress messages and logs, e.g. "LoginTest#testLogin" or "all tests".
+ */
+export function describeTestSelection(selection: AndroidTestSelection): string {
+    const testNames = selection.testNames ?? [];
+    let description: string;
+    if (selection.testClass === ALL_TEST_CLASSES) {
+        description = "all tests";
+    } else if (testNames.length === 1) {
+        description = `${selection.testClass}#${testNames[0]}`;
+    } else if (testNames.length > 1) {
+        description = `${testNames.length} tests of ${selection.testClass}`;
+    } else {
+        description = selection.testClass;
+    }
+    return selection.annotation ? `${description} annotated with @${selection.annotation}` : description;
+}
+
+/**
+ * Outcome of a test case, from the status code that ended it
+ */
+export type InstrumentationTestStatus = "passed" | "failed" | "ignored" | "assumption_failure";
+
+/**
+ * Result of a test case reported by the instrumentation
+ */
+export interface InstrumentationTestCase {
+    className: string;
+    testName: string;
+    status: InstrumentationTestStatus;
+    /** Time between the start and end of the test, when the output was read as it was written */
+    durationMs?: number;
+    /** Stack trace of a failed test, or of the assumption that did not hold */
+    stackTrace?: string;
+}
+
+/**
+ * Result of an instrumentation run
+ */
+export interface InstrumentationRun {
+    testCases: InstrumentationTestCase[];
+    /** Why the run did not complete: the app crashed, or the instrumentation could not start */
+    error?: string;
+}
+
+/**
+ * Status codes of the AndroidJUnitRunner raw protocol
+ */
+const STATUS_CODE_START = 1;
+const STATUS_CODE_IN_PROGRESS = 2;
+const STATUS_CODE_OK = 0;
+const STATUS_CODE_ERROR = -1;
+const STATUS_CODE_IGNORED = -3;
+const STATUS_CODE_ASSUMPTION_FAILURE = -4;
+
+function toTestStatus(statusCode: number): InstrumentationTestStatus {
+    switch (statusCode) {
+        case STATUS_CODE_OK:
+            return "passed";
+        case STATUS_CODE_IGNORED:
+            return "ignored";
+        case STATUS_CODE_ASSUMPTION_FAILURE:
+            return "assumption_failure";
+        default:
+            return "failed";
+    }
+}
+
+/**
+ * Parser of the raw output of `am instrument -r`. Tests report blocks of `INSTRUMENTATION_STATUS: key=value`
+ * lines, ended by `INSTRUMENTATION_STATUS_CODE: n`, when they start (1) and when they end (0 passed,
+ * -1 error, -2 failure, -3 ignored, -4 assumption failure). Values such as stack traces span several lines.
+ * The run ends with `INSTRUMENTATION_RESULT` lines and `INSTRUMENTATION_CODE`, and carries a shortMsg
+ * when the app crashed. Output can be pushed as it arrives, with its arrival time, to measure durations.
+ */
+export class InstrumentationParser {
+    private readonly testCases: InstrumentationTestCase[] = [];
+    private readonly resultFields: Record<string, string> = {};
+    private statusFields: Record<string, string> = {};
+    /** Field that continuation lines are appended to */
+    private currentField?: { fields: Record<string, string>; key: string };
+    private running?: { testCase: InstrumentationTestCase; startTime?: number };
+    private partialLine = "";
+    private completed = false;
+    private failure?: string;
+
+    /**
+     * Parses a chunk of output. `time` is when the chunk arrived; without it durations are not measured.
+     */
+    push(chunk: string, time?: number): void {
+        const lines = (this.partialLine + chunk).split(/\r?\n/);
+        this.partialLine = lines.pop() ?? "";
+        for (const line of lines) {
+            this.parseLine(line, time);
+        }
+    }
+
+    /**
+     * Parses the rest of the output and returns the result of the run.
+     */
+    end(time?: number): InstrumentationRun {
+        if (this.partialLine) {
+            this.parseLine(this.partialLine, time);
+            this.partialLine = "";
+        }
+
+        let error = this.failure;
+        if (!error && (this.resultFields.shortMsg || this.resultFields.longMsg)) {
+            error = [this.resultFields.shortMsg, this.resultFields.longMsg].filter(Boolean).join(": ");
+        }
+        if (!error && !this.completed) {
+            error = "The instrumentation output ended before the run completed";
+        }
+        // A test that started but never ended was interrupted by the crash
+        if (this.running) {
+            this.running.testCase.stackTrace = error ?? "The test did not finish";
+            this.running = undefined;
+        }
+        if (!error && this.testCases.length === 0) {
+            error = "No tests were run";
+        }
+
+        return { testCases: this.testCases, error };
+    }
+
+    private parseLine(line: string, time?: number): void {
+        const status = /^INSTRUMENTATION_STATUS: (\w+)=(.*)$/.exec(line);
+        if (status) {
+            this.setField(this.statusFields, status[1], status[2]);
+            return;
+        }
+        const result = /^INSTRUMENTATION_RESULT: (\w+)=(.*)$/.exec(line);
+        if (result) {
+            this.setField(this.resultFields, result[1], result[2]);
+            return;
+        }
+        const statusCode = /^INSTRUMENTATION_STATUS_CODE: (-?\d+)/.exec(line);
+        if (statusCode) {
+            this.currentField = undefined;
+            this.endStatus(Number(statusCode[1]), time);
+            return;
+        }
+        if (/^INSTRUMENTATION_CODE: /.test(line)) {
+            this.currentField = undefined;
+            this.completed = true;
+            return;
+        }
+        const failed = /^INSTRUMENTATION_(?:FAILED|ABORTED): (.*)$/.exec(line);
+        if (failed) {
+            this.currentField = undefined;
+            this.failure = `Instrumentation failed: ${failed[1]}`;
+            return;
+        }
+        if (this.currentField) {
+            const { fields, key } = this.currentField;
+            fields[key] += `\n${line}`;
+        }
+    }
+
+    private setField(fields: Record<string, string>, key: string, value: string): void {
+        fields[key] = value;
+        this.currentField = { fields, key };
+    }
+
+    private endStatus(statusCode: number, time?: number): void {
+        const { class: className, test: testName, stack, Error: statusError } = this.statusFields;
+        this.statusFields = {};
+        if (statusCode === STATUS_CODE_IN_PROGRESS) {
+            return;
+        }
+        if (!className || !testName) {
+            // Errors outside of any test: the runner could not load the test classes (stack),
+            // or the instrumentation could not start, e.g. because the test APK is not installed (Error)
+            const message = statusError ?? stack;
+            if (statusCode === STATUS_CODE_ERROR && message) {
+                this.failure = message.trim();
+            }
+            return;
+        }
+
+        if (statusCode === STATUS_CODE_START) {
+            const testCase: InstrumentationTestCase = { className, testName, status: "failed" };
+            this.testCases.push(testCase);
+            this.running = { testCase, startTime: time };
+            return;
+        }
+
+        let testCase = this.running?.testCase;
+        const startTime = this.running?.startTime;
+        if (testCase?.className !== className || testCase.testName !== testName) {
+            testCase = { className, testName, status: "failed" };
+            this.testCases.push(testCase);
+        }
+        this.running = undefined;
+        testCase.status = toTestStatus(statusCode);
+        if (stack) {
+            testCase.stackTrace = stack.trim();
+        }
+        if (startTime !== undefined && time !== undefined) {
+            testCase.durationMs = time - startTime;
+        }
+    }
+}
+
+/**
+ * Parses the complete raw output of `am instrument -r`. Durations are not known.
+ */
+export function parseInstrumentationOutput(output: string): InstrumentationRun {
+    const parser = new InstrumentationParser();
+    parser.push(output);
+    return parser.end();
+}
+
+/**
+ * Returns true if the run completed and each test passed, or was ignored or skipped by an assumption.
+ */
+export function isInstrumentationSuccessful(run: InstrumentationRun): boolean {
+    return !run.error && run.testCases.every((testCase) => testCase.status !== "failed");
+}
+
+/**
+ * Runs `am instrument -r` and parses its output as it arrives, so test durations can be measured.
+ * A failing or cancelled command is not an error: its output holds the test failures.
+ */
+export async function runInstrumentation(
+    command: string,
+    options: { signal?: AbortSignal } = {}
+): Promise<{ output: string; run: InstrumentationRun }> {
+    const parser = new InstrumentationParser();
+    let streamed = false;
+    const running = execAsync(command, { signal: options.signal, maxBuffer: INSTRUMENTATION_MAX_BUFFER });
+    // The child is missing when exec is replaced, e.g. in tests; the output is then parsed at the end
+    running.child?.stdout?.on("data", (chunk: Buffer | string) => {
+        streamed = true;
+        parser.push(chunk.toString(), Date.now());
+    });
+
+    let stdout = "";
+    let output: string;
+    try {
+        const result = await running;
+        stdout = result.stdout;
+        output = result.stdout + (result.stderr ? `\n${result.stderr}` : "");
+    } catch (error) {
+        // Test failures make the command fail, but still produce output
+        if (error instanceof Error && ("stdout" in error || "stderr" in error)) {
+            const execError = error as Error & { stdout?: string; stderr?: string };
+            stdout = execError.stdout || "";
+            output = stdout + (execError.stderr ? `\n${execError.stderr}` : "");
+        } else {
+            output = error instanceof Error ? error.message : String(error);
+        }
+    }
+    if (!streamed) {
+        parser.push(stdout);
+    }
+
+    return { output, run: parser.end(streamed ? Date.now() : undefined) };
+}
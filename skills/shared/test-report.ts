@@ -0,0 +1,261 @@
+import { writeFileSync } from "fs";
+import type { InstrumentationRun } from "./instrumentation.js";
+import type { XcresultRun } from "./xcresult.js";
+
+/**
+ * Version of the JSON report format; changes that break readers of the report increase it
+ */
+export const TEST_REPORT_SCHEMA_VERSION = 1;
+
+/**
+ * Outcome of a test case in a report. Runner statuses are mapped onto these, e.g. an ignored
+ * Android test or an XCTSkip is "skipped", and an expected iOS failure is "passed".
+ */
+export type TestReportStatus = "passed" | "failed" | "skipped";
+
+/**
+ * Failure of a test case in a report
+ */
+export interface TestReportFailure {
+    message: string;
+    file?: string;
+    line?: number;
+    stackTrace?: string;
+}
+
+/**
+ * Result of a test case in a report
+ */
+export interface TestReportCase {
+    className: string;
+    testName: string;
+    status: TestReportStatus;
+    /** Status reported by the test runner, e.g. "assumption_failure" or "expected_failure" */
+    runnerStatus: string;
+    durationMs?: number;
+    failures: TestReportFailure[];
+}
+
+/**
+ * Report of a test run on Android or iOS, which can be written as JUnit XML or JSON
+ */
+export interface TestReport {
+    /** Name of the run, e.g. the tests that were selected */
+    name: string;
+    platform: "android" | "ios";
+    /** When the run started */
+    startTime: Date;
+    durationMs?: number;
+    /** Why the run did not complete, e.g. because the app crashed or the build failed */
+    error?: string;
+    testCases: TestReportCase[];
+}
+
+/**
+ * Options describing a run, for creating its report
+ */
+export interface TestReportOptions {
+    name: string;
+    startTime: Date;
+    durationMs?: number;
+}
+
+/**
+ * Format of a report file, from its extension
+ */
+export type TestReportFormat = "junit" | "json";
+
+/**
+ * Creates the report of an Android instrumentation run.
+ */
+export function createInstrumentationReport(run: InstrumentationRun, options: TestReportOptions): TestReport {
+    return {
+        ...options,
+        platform: "android",
+        error: run.error,
+        testCases: run.testCases.map((testCase) => ({
+            className: testCase.className,
+            testName: testCase.testName,
+            status: testCase.status === "passed" ? "passed" : testCase.status === "failed" ? "failed" : "skipped",
+            runnerStatus: testCase.status,
+            durationMs: testCase.durationMs,
+            // The first line of a stack trace holds the exception and its message
+            failures: testCase.status === "failed" && testCase.stackTrace
+                ? [{ message: testCase.stackTrace.split("\n")[0], stackTrace: testCase.stackTrace }]
+                : [],
+        })),
+    };
+}
+
+/**
+ * Creates the report of an iOS run read from its result bundle.
+ */
+export function createXcresultReport(run: XcresultRun, options: TestReportOptions): TestReport {
+    return {
+        ...options,
+        platform: "ios",
+        error: run.error,
+        testCases: run.testCases.map((testCase) => ({
+            className: testCase.className,
+            testName: testCase.testName,
+            status: testCase.status === "skipped" ? "skipped" : testCase.status === "failed" ? "failed" : "passed",
+            runnerStatus: testCase.status,
+            durationMs: testCase.durationMs,
+            failures: testCase.status === "failed" ? testCase.failures : [],
+        })),
+    };
+}
+
+/**
+ * Counts the test cases of a report by status.
+ */
+export function summarizeTestReport(report: TestReport): { tests: number; passed: number; failed: number; skipped: number } {
+    const count = (status: TestReportStatus) => report.testCases.filter((testCase) => testCase.status === status).length;
+    return { tests: report.testCases.length, passed: count("passed"), failed: count("failed"), skipped: count("skipped") };
+}
+
+/**
+ * Returns true if the run of a report completed and no test failed.
+ */
+export function isTestReportSuccessful(report: TestReport): boolean {
+    return !report.error && report.testCases.every((testCase) => testCase.status !== "failed");
+}
+
+/**
+ * Serializes a report as JSON with snake_case keys. Fields are only added to the format;
+ * renaming or removing one increases TEST_REPORT_SCHEMA_VERSION.
+ */
+export function toJsonReport(report: TestReport): string {
+    const json = {
+        schema_version: TEST_REPORT_SCHEMA_VERSION,
+        name: report.name,
+        platform: report.platform,
+        timestamp: report.startTime.toISOString(),
+        duration_ms: report.durationMs,
+        success: isTestReportSuccessful(report),
+        error: report.error,
+        summary: summarizeTestReport(report),
+        test_cases: report.testCases.map((testCase) => ({
+            class_name: testCase.className,
+            test_name: testCase.testName,
+            status: testCase.status,
+            runner_status: testCase.runnerStatus,
+            duration_ms: testCase.durationMs,
+            failures: testCase.failures.map((failure) => ({
+                message: failure.message,
+                file: failure.file,
+                line: failure.line,
+                stack_trace: failure.stackTrace,
+            })),
+        })),
+    };
+    return `${JSON.stringify(json, null, 2)}\n`;
+}
+
+/**
+ * Escapes text for XML attributes and content, dropping characters XML 1.0 does not allow.
+ */
+function escapeXml(text: string): string {
+    return text
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Formats a duration in milliseconds as JUnit seconds.
+ */
+function toJUnitTime(durationMs: number | undefined): string {
+    return ((durationMs ?? 0) / 1000).toFixed(3);
+}
+
+/**
+ * Serializes a report as JUnit XML, with a test suite per test class. An error that stopped the run
+ * is reported as an errored test case named after the run, so CI does not mistake it for a pass.
+ */
+export function toJUnitXml(report: TestReport): string {
+    const timestamp = report.startTime.toISOString().replace(/\.\d+Z$/, "");
+    const suites = new Map<string, TestReportCase[]>();
+    for (const testCase of report.testCases) {
+        suites.set(testCase.className, [...(suites.get(testCase.className) ?? []), testCase]);
+    }
+
+    const lines: string[] = [];
+    for (const [className, testCases] of suites) {
+        const failed = testCases.filter((testCase) => testCase.status === "failed").length;
+        const skipped = testCases.filter((testCase) => testCase.status === "skipped").length;
+        const time = testCases.reduce((total, testCase) => total + (testCase.durationMs ?? 0), 0);
+        lines.push(
+            `  <testsuite name="${escapeXml(className)}" tests="${testCases.length}" failures="${failed}" errors="0" `
+            + `skipped="${skipped}" time="${toJUnitTime(time)}" timestamp="${timestamp}">`
+        );
+        for (const testCase of testCases) {
+            const attributes = `classname="${escapeXml(className)}" name="${escapeXml(testCase.testName)}" time="${toJUnitTime(testCase.durationMs)}"`;
+            if (testCase.status === "passed") {
+                lines.push(`    <testcase ${attributes}/>`);
+                continue;
+            }
+            lines.push(`    <testcase ${attributes}>`);
+            if (testCase.status === "skipped") {
+                lines.push(`      <skipped message="${escapeXml(testCase.runnerStatus)}"/>`);
+            }
+            for (const failure of testCase.failures) {
+                const location = failure.file ? `${failure.file}${failure.line !== undefined ? `:${failure.line}` : ""}` : undefined;
+                const details = [location, failure.stackTrace ?? failure.message].filter(Boolean).join("\n");
+                lines.push(`      <failure message="${escapeXml(failure.message)}">${escapeXml(details)}</failure>`);
+            }
+            if (testCase.status === "failed" && testCase.failures.length === 0) {
+                lines.push(`      <failure message="Test failed"/>`);
+            }
+            lines.push("    </testcase>");
+        }
+        lines.push("  </testsuite>");
+    }
+    if (report.error) {
+        lines.push(
+            `  <testsuite name="${escapeXml(report.name)}" tests="1" failures="0" errors="1" skipped="0" time="${toJUnitTime(report.durationMs)}" timestamp="${timestamp}">`,
+            `    <testcase classname="${escapeXml(report.name)}" name="run" time="${toJUnitTime(report.durationMs)}">`,
+            `      <error message="${escapeXml(report.error.split("\n")[0])}">${escapeXml(report.error)}</error>`,
+            "    </testcase>",
+            "  </testsuite>"
+        );
+    }
+
+    const summary = summarizeTestReport(report);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(report.name)}" tests="${summary.tests + (report.error ? 1 : 0)}" failures="${summary.failed}" `
+        + `errors="${report.error ? 1 : 0}" skipped="${summary.skipped}" time="${toJUnitTime(report.durationMs)}">`,
+        ...lines,
+        "</testsuites>",
+        "",
+    ].join("\n");
+}
+
+/**
+ * Gets the format of a report file from its extension: ".xml" for JUnit XML, ".json" for JSON.
+ */
+export function getTestReportFormat(path: string): TestReportFormat | undefined {
+    if (path.toLowerCase().endsWith(".xml")) {
+        return "junit";
+    }
+    if (path.toLowerCase().endsWith(".json")) {
+        return "json";
+    }
+    return undefined;
+}
+
+/**
+ * Writes a report to a file, as JUnit XML or JSON depending on its extension.
+ */
+export function writeTestReport(report: TestReport, path: string): void {
+    const format = getTestReportFormat(path);
+    if (!format) {
+        throw new Error(`Unsupported report file ${path}: use a .xml (JUnit) or .json file`);
+    }
+    writeFileSync(path, format === "junit" ? toJUnitXml(report) : toJsonReport(report));
+}
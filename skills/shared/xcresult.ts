@@ -0,0 +1,225 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+
+const execAsync = promisify(exec);
+
+/**
+ * Result bundles of large test runs exceed exec's default buffer of 1 MB
+ */
+const XCRESULT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Outcome of a test case, from its testStatus in the result bundle
+ */
+export type XcresultTestStatus = "passed" | "failed" | "skipped" | "expected_failure";
+
+/**
+ * Failed assertion or error of a test case, with where it happened when known
+ */
+export interface XcresultFailure {
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+/**
+ * File attached to a test case, e.g. a screenshot or the screen recording
+ */
+export interface XcresultAttachment {
+    name: string;
+    filename: string;
+    /** Type of the file, e.g. "public.png" or "public.mpeg-4" */
+    uniformTypeIdentifier?: string;
+}
+
+/**
+ * Result of a test case in a result bundle
+ */
+export interface XcresultTestCase {
+    className: string;
+    testName: string;
+    status: XcresultTestStatus;
+    durationMs?: number;
+    failures: XcresultFailure[];
+    attachments: XcresultAttachment[];
+    /** Id of the test's summary, which holds its failures and attachments */
+    summaryRefId?: string;
+}
+
+/**
+ * Result of a test run read from a result bundle
+ */
+export interface XcresultRun {
+    testCases: XcresultTestCase[];
+    /** Why the run did not complete: the build failed, or the test runner crashed */
+    error?: string;
+}
+
+/**
+ * Value in the JSON of `xcresulttool get --legacy --format json`. Each value is wrapped in an
+ * object naming its type: strings and numbers in `_value`, arrays in `_values`, and objects
+ * have their fields as keys.
+ */
+interface XcresultNode {
+    _type?: { _name?: string };
+    _value?: string;
+    _values?: XcresultNode[];
+    [key: string]: unknown;
+}
+
+function field(node: XcresultNode | undefined, key: string): XcresultNode | undefined {
+    const value = node?.[key];
+    return typeof value === "object" && value !== null ? (value as XcresultNode) : undefined;
+}
+
+function stringField(node: XcresultNode | undefined, key: string): string | undefined {
+    return field(node, key)?._value;
+}
+
+function arrayField(node: XcresultNode | undefined, key: string): XcresultNode[] {
+    return field(node, key)?._values ?? [];
+}
+
+function toTestStatus(testStatus: string | undefined): XcresultTestStatus {
+    switch (testStatus) {
+        case "Success":
+            return "passed";
+        case "Skipped":
+            return "skipped";
+        case "Expected Failure":
+            return "expected_failure";
+        default:
+            return "failed";
+    }
+}
+
+/**
+ * Parses the root ActionsInvocationRecord of a result bundle: the ids of the test results of each
+ * action, and the errors that stopped the run, such as build errors.
+ */
+export function parseInvocationRecord(record: unknown): { testsRefIds: string[]; errors: string[] } {
+    const root = record as XcresultNode;
+    const testsRefIds = arrayField(root, "actions")
+        .map((action) => stringField(field(field(action, "actionResult"), "testsRef"), "id"))
+        .filter((id): id is string => id !== undefined);
+    const errors = arrayField(field(root, "issues"), "errorSummaries")
+        .map((issue) => stringField(issue, "message"))
+        .filter((message): message is string => message !== undefined);
+    return { testsRefIds, errors };
+}
+
+/**
+ * Parses the ActionTestPlanRunSummaries of a test action. Tests are nested in groups for the test
+ * bundle and class; their failures and attachments are in the summary each test refers to.
+ */
+export function parseTestPlanRunSummaries(summaries: unknown): XcresultTestCase[] {
+    const testCases: XcresultTestCase[] = [];
+    const visit = (node: XcresultNode) => {
+        if (node._type?._name !== "ActionTestMetadata") {
+            arrayField(node, "subtests").forEach(visit);
+            return;
+        }
+        // Identifiers are "Class/test()", names "test()"
+        const identifier = stringField(node, "identifier") ?? "";
+        const name = stringField(node, "name") ?? identifier;
+        const duration = stringField(node, "duration");
+        testCases.push({
+            className: identifier.includes("/") ? identifier.slice(0, identifier.lastIndexOf("/")) : "",
+            testName: name.replace(/\(\)$/, ""),
+            status: toTestStatus(stringField(node, "testStatus")),
+            durationMs: duration !== undefined ? Math.round(parseFloat(duration) * 1000) : undefined,
+            failures: [],
+            attachments: [],
+            summaryRefId: stringField(field(node, "summaryRef"), "id"),
+        });
+    };
+
+    for (const summary of arrayField(summaries as XcresultNode, "summaries")) {
+        for (const testable of arrayField(summary, "testableSummaries")) {
+            arrayField(testable, "tests").forEach(visit);
+        }
+    }
+    return testCases;
+}
+
+/**
+ * Parses the ActionTestSummary of a test: its failures and the attachments of its activities.
+ */
+export function parseTestSummary(summary: unknown): { failures: XcresultFailure[]; attachments: XcresultAttachment[] } {
+    const root = summary as XcresultNode;
+    const failures = arrayField(root, "failureSummaries").map((failure): XcresultFailure => {
+        // Uncaught errors carry their location in the source code context instead
+        const location = field(field(failure, "sourceCodeContext"), "location");
+        const file = stringField(failure, "fileName") ?? stringField(location, "filePath");
+        const line = stringField(failure, "lineNumber") ?? stringField(location, "lineNumber");
+        return {
+            message: stringField(failure, "message") ?? "Unknown failure",
+            file,
+            line: line !== undefined ? Number(line) : undefined,
+        };
+    });
+
+    const attachments: XcresultAttachment[] = [];
+    const visit = (activity: XcresultNode) => {
+        for (const attachment of arrayField(activity, "attachments")) {
+            const filename = stringField(attachment, "filename");
+            if (filename) {
+                attachments.push({
+                    name: stringField(attachment, "name") ?? filename,
+                    filename,
+                    uniformTypeIdentifier: stringField(attachment, "uniformTypeIdentifier"),
+                });
+            }
+        }
+        arrayField(activity, "subactivities").forEach(visit);
+    };
+    arrayField(root, "activitySummaries").forEach(visit);
+
+    return { failures, attachments };
+}
+
+/**
+ * Reads an object of a result bundle, or its root when no id is given.
+ * `--legacy` is required since Xcode 16 to read the object graph.
+ */
+async function readXcresultObject(bundlePath: string, id: string | undefined, signal?: AbortSignal): Promise<unknown> {
+    const { stdout } = await execAsync(
+        `xcrun xcresulttool get --legacy --format json --path "${bundlePath}"${id ? ` --id "${id}"` : ""}`,
+        { signal, maxBuffer: XCRESULT_MAX_BUFFER }
+    );
+    return JSON.parse(stdout);
+}
+
+/**
+ * Reads the result of each test from a result bundle written by `xcodebuild test -resultBundlePath`.
+ * Throws if the bundle cannot be read.
+ */
+export async function readXcresult(bundlePath: string, options: { signal?: AbortSignal } = {}): Promise<XcresultRun> {
+    const { signal } = options;
+    const { testsRefIds, errors } = parseInvocationRecord(await readXcresultObject(bundlePath, undefined, signal));
+
+    const testCases: XcresultTestCase[] = [];
+    for (const testsRefId of testsRefIds) {
+        testCases.push(...parseTestPlanRunSummaries(await readXcresultObject(bundlePath, testsRefId, signal)));
+    }
+    for (const testCase of testCases) {
+        if (testCase.summaryRefId) {
+            Object.assign(testCase, parseTestSummary(await readXcresultObject(bundlePath, testCase.summaryRefId, signal)));
+        }
+    }
+
+    let error: string | undefined;
+    if (errors.length > 0) {
+        error = errors.join("\n");
+    } else if (testCases.length === 0) {
+        error = "No tests were run";
+    }
+    return { testCases, error };
+}
+
+/**
+ * Returns true if the run completed and no test failed. Skipped tests and expected failures do not fail the run.
+ */
+export function isXcresultSuccessful(run: XcresultRun): boolean {
+    return !run.error && run.testCases.every((testCase) => testCase.status !== "failed");
+}
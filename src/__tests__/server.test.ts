@@ -0,0 +1,1111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { exec } from "child_process";
+import * as fs from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer, enqueueToolCall, type McpServerOptions, type ToolCallOptions } from "../server.js";
+import { createToolRegistry } from "../tools/index.js";
+import { createPromptRegistry } from "../prompts/index.js";
+import { TaskQueue } from "../utils/TaskQueueUtils.js";
+import { JobManager } from "../utils/JobManagerUtils.js";
+import type { Job, JobStore } from "../utils/JobStoreUtils.js";
+import type { ToolCallResult, ToolTask } from "../utils/ToolRegistryUtils.js";
+import type { ServerProfile } from "../utils/ServerProfileUtils.js";
+import { createMCPProject, getMCPProject, removeProjectMember, setProjectMember } from "../utils/ServerStorageUtils.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Mock child_process.exec - must be done before importing the tools
+vi.mock("child_process", () => {
+    type ExecCallback = ((error: Error | null, stdout: string, stderr: string) => void) | undefined;
+    type ExecOptions = Record<string, unknown> | undefined;
+
+    interface ExecError extends Error {
+        stdout?: string;
+        stderr?: string;
+    }
+
+    const exec = vi.fn((command: string, optionsOrCallback?: ExecOptions | ExecCallback, callback?: ExecCallback) => {
+        const actualCallback: ExecCallback = typeof optionsOrCallback === "function" ? optionsOrCallback : callback;
+        if (actualCallback) {
+            actualCallback(null, "", "");
+        }
+        return {} as ReturnType<typeof import("child_process").exec>;
+    });
+    // @ts-expect-error - Symbol.for is not recognized by TypeScript for this use case
+    exec[Symbol.for("nodejs.util.promisify.custom")] = vi.fn((command: string, options?: ExecOptions, _callback?: ExecCallback) => {
+        return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+            const actualOptions: ExecOptions = typeof options === "object" ? options : {};
+
+            exec(command, actualOptions, (error: Error | null, stdout: string, stderr: string) => {
+                if (error) {
+                    const execError = error as ExecError;
+                    execError.stdout = stdout;
+                    execError.stderr = stderr;
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            });
+        });
+    });
+    return { exec };
+});
+
+// Mock fs operations
+vi.mock("fs", async () => {
+    const actual = await vi.importActual<typeof fs>("fs");
+    return {
+        ...actual,
+        existsSync: vi.fn().mockReturnValue(true),
+        readFileSync: vi.fn().mockReturnValue(Buffer.from("data")),
+        unlinkSync: vi.fn(),
+        mkdirSync: vi.fn(),
+        readdirSync: vi.fn().mockReturnValue([]),
+        rmSync: vi.fn(),
+        statSync: vi.fn().mockReturnValue({ size: 1000 }),
+    };
+});
+
+// Mock os.homedir
+vi.mock("os", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("os")>();
+    return {
+        ...actual,
+        homedir: vi.fn(() => "/home/test"),
+    };
+});
+
+// Mock @google-cloud/storage
+vi.mock("@google-cloud/storage", () => ({
+    Storage: vi.fn().mockImplementation(function () {
+        return {
+            bucket: vi.fn().mockReturnValue({
+                file: vi.fn().mockReturnValue({
+                    save: vi.fn().mockResolvedValue(undefined),
+                }),
+            }),
+        };
+    }),
+}));
+
+// Mock Firestore project creation
+vi.mock("../utils/ServerStorageUtils.js", () => ({
+    createMCPProject: vi.fn(),
+    getMCPProject: vi.fn(),
+    setProjectMember: vi.fn(),
+    removeProjectMember: vi.fn(),
+}));
+
+// Mock logger
+vi.mock("../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+// Mock the host-wide device lock, which lives in the temp directory
+vi.mock("../../skills/shared/device-lock.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../../skills/shared/device-lock.js")>(),
+    acquireDeviceFileLock: vi.fn(() => Promise.resolve({ release: () => true })),
+}));
+
+// Result bundle fixtures are read with the real fs, which is mocked above
+const actualFs = await vi.importActual<typeof fs>("fs");
+
+describe("MCP server", () => {
+    const mockExec = vi.mocked(exec);
+    const mockCreateMCPProject = vi.mocked(createMCPProject);
+    const mockGetMCPProject = vi.mocked(getMCPProject);
+    const mockSetProjectMember = vi.mocked(setProjectMember);
+    const mockRemoveProjectMember = vi.mocked(removeProjectMember);
+    let commandResponses: { pattern: string; stdout: string; error?: Error }[] = [];
+    let client: Client;
+
+    // Raw `am instrument -r` output of a passing test
+    const passingInstrumentOutput = [
+        "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.AndroidInstrumentedTest",
+        "INSTRUMENTATION_STATUS: test=testScrollingDownGesture",
+        "INSTRUMENTATION_STATUS_CODE: 1",
+        "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.AndroidInstrumentedTest",
+        "INSTRUMENTATION_STATUS: test=testScrollingDownGesture",
+        "INSTRUMENTATION_STATUS_CODE: 0",
+        "INSTRUMENTATION_RESULT: stream=",
+        "OK (1 test)",
+        "INSTRUMENTATION_CODE: -1",
+    ].join("\n");
+    // `xcrun xcresulttool get` objects of the result bundle of a passing iOS test, by id
+    const passedXcresult: Record<string, string> = {
+        root: "invocation-record-passed.json",
+        "0~tests-passed": "test-plan-run-summaries-passed.json",
+        "0~scrolling": "test-summary-passed.json",
+    };
+    const simulatorListOutput = JSON.stringify({
+        devices: {
+            "com.apple.CoreSimulator.SimRuntime.iOS-26-2": [
+                { udid: "ABC123-4567-8901", name: "iPhone 17 Pro Max", state: "Booted", isAvailable: true },
+            ],
+        },
+    });
+    const runtimeListOutput = JSON.stringify({
+        runtimes: [{
+            identifier: "com.apple.CoreSimulator.SimRuntime.iOS-26-2",
+            version: "26.2",
+            platform: "iOS",
+            isAvailable: true,
+            supportedDeviceTypes: [{ name: "iPhone 17 Pro Max" }],
+        }],
+    });
+
+    async function connect(
+        profile: ServerProfile,
+        authInfo?: AuthInfo,
+        serverOptions: Partial<McpServerOptions> = {}
+    ): Promise<Client> {
+        const server = createMcpServer({
+            toolRegistry: createToolRegistry(profile),
+            promptRegistry: createPromptRegistry(profile),
+            toolCallQueue: new TaskQueue<ToolTask, ToolCallResult>(2, {
+                resourcePools: { cpu: 2, "android-device": 1, "ios-simulator": 1, network: 4 },
+            }),
+            ...serverOptions,
+        });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverTransport);
+
+        if (authInfo) {
+            // Attach the identity to every request, as the HTTP transport does for authenticated requests
+            const send = clientTransport.send.bind(clientTransport);
+            clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+        }
+
+        const newClient = new Client({ name: "test-client", version: "1.0.0" });
+        await newClient.connect(clientTransport);
+        return newClient;
+    }
+
+    function textOf(result: Awaited<ReturnType<Client["callTool"]>>): string {
+        const content = result.content as { type: string; text?: string }[];
+        return content
+            .filter((block) => block.type === "text")
+            .map((block) => block.text)
+            .join("\n");
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readdirSync).mockReturnValue([]);
+
+        commandResponses = [];
+        mockExec.mockImplementation((command, opts, cb) => {
+            const callback = typeof opts === "function" ? opts : cb;
+            const match = [...commandResponses].reverse().find((r) => command.includes(r.pattern));
+
+            let res: { stdout: string; error?: Error } = { stdout: "" };
+            if (match) {
+                res = match;
+            } else if (command.includes("adb devices")) {
+                res = { stdout: "List of devices attached\nemulator-5554\tdevice\n\n" };
+            } else if (command.includes("getprop sys.boot_completed")) {
+                res = { stdout: "1\n" };
+            } else if (command.includes("pm path android")) {
+                res = { stdout: "package:/system/framework/framework-res.apk\n" };
+            } else if (command.includes("xcrun simctl list devices")) {
+                res = { stdout: simulatorListOutput };
+            } else if (command.includes("xcrun simctl list runtimes")) {
+                res = { stdout: runtimeListOutput };
+            } else if (command.includes("gradlew")) {
+                res = { stdout: "BUILD SUCCESSFUL" };
+            } else if (command.includes("instrument")) {
+                res = { stdout: passingInstrumentOutput };
+            } else if (command.includes("xcodebuild test")) {
+                res = { stdout: "Test Suite 'All tests' passed" };
+            } else if (command.includes("xcresulttool get")) {
+                const fixture = passedXcresult[/--id "([^"]+)"/.exec(command)?.[1] ?? "root"];
+                res = { stdout: actualFs.readFileSync(new URL(`fixtures/xcresult/${fixture}`, import.meta.url), "utf-8") };
+            }
+
+            if (callback) {
+                callback(res.error ?? null, res.stdout, "");
+            }
+            return {} as ReturnType<typeof import("child_process").exec>;
+        });
+    });
+
+    afterEach(async () => {
+        await client?.close();
+    });
+
+    describe("local-skills profile", () => {
+        beforeEach(async () => {
+            client = await connect("local-skills");
+        });
+
+        it("should list only the asset search tools", async () => {
+            const { tools } = await client.listTools();
+            expect(tools.map((tool) => tool.name)).toEqual(["search_image", "search_icon", "get_queue_status"]);
+        });
+
+        it("should list the local prompts", async () => {
+            const { prompts } = await client.listPrompts();
+            expect(prompts.map((prompt) => prompt.name)).toEqual(["check_local_project", "image_to_app"]);
+        });
+
+        it("should return image search results as structured content", async () => {
+            const images = [{ url: "https://example.com/a.jpg", description: "A cat", width: 800, height: 600 }];
+            const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue({
+                ok: true,
+                status: 200,
+                json: () => Promise.resolve({ success: true, images, count: 1 }),
+            } as Response);
+
+            const result = await client.callTool({
+                name: "search_image",
+                arguments: { keyword: "cat", limit: 1, orientation: "landscape", imageSize: "small" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent).toEqual({ images });
+            expect(JSON.parse(textOf(result))).toEqual(images);
+            fetchSpy.mockRestore();
+        });
+
+        it("should report icon search failures as errors", async () => {
+            const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue({
+                ok: false,
+                status: 500,
+                statusText: "Internal Server Error",
+            } as Response);
+
+            const result = await client.callTool({
+                name: "search_icon",
+                arguments: { collection: "mdi", prefixQuery: "home" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Iconify API error: 500 Internal Server Error");
+            fetchSpy.mockRestore();
+        });
+
+        it("should reject remote tools as unknown", async () => {
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Unknown tool: remote_clean_project");
+        });
+
+        it("should reject remote prompts as unknown", async () => {
+            await expect(
+                client.getPrompt({ name: "create_remote_project", arguments: { project_name: "app" } })
+            ).rejects.toThrow("Unknown prompt: create_remote_project");
+        });
+    });
+
+    describe("remote-build-farm profile", () => {
+        beforeEach(async () => {
+            client = await connect("remote-build-farm");
+        });
+
+        it("should list the remote project and remote test tools with JSON Schema inputs", async () => {
+            const { tools } = await client.listTools();
+            expect(tools.map((tool) => tool.name)).toEqual([
+                "search_image",
+                "search_icon",
+                "get_queue_status",
+                "create-remote-project",
+                "set_project_member",
+                "remove_project_member",
+                "remote_clean_project",
+                "remote_test_android",
+                "remote_test_ios",
+                "get_device_pool_status",
+                "get_job_status",
+                "get_job_result",
+                "cancel_job",
+            ]);
+
+            const androidTool = tools.find((tool) => tool.name === "remote_test_android");
+            expect(androidTool?.inputSchema.required).toEqual(["project_id", "package_name"]);
+        });
+
+        it("should declare an output schema for every tool", async () => {
+            const { tools } = await client.listTools();
+            for (const tool of tools) {
+                expect(tool.outputSchema?.type).toBe("object");
+            }
+
+            const searchImage = tools.find((tool) => tool.name === "search_image");
+            expect(searchImage?.outputSchema?.required).toEqual(["images"]);
+        });
+
+        it("should list the remote prompts with their arguments", async () => {
+            const { prompts } = await client.listPrompts();
+            expect(prompts.map((prompt) => prompt.name)).toEqual([
+                "create_remote_project",
+                "test_android_remote",
+                "test_ios_remote",
+            ]);
+            expect(prompts[0].arguments).toEqual([
+                { name: "project_name", description: "The name of the project to create", required: true },
+            ]);
+        });
+
+        it("should create a remote project", async () => {
+            mockCreateMCPProject.mockResolvedValue("project-1");
+
+            const result = await client.callTool({
+                name: "create-remote-project",
+                arguments: { project_name: "My App" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent).toEqual({ project_id: "project-1" });
+            expect(textOf(result)).toContain("Project ID: project-1");
+            expect(mockCreateMCPProject).toHaveBeenCalledWith("My App", undefined);
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("git clone"),
+                expect.objectContaining({ cwd: "/home/test/PistachioMCPProjects" }),
+                expect.any(Function)
+            );
+        });
+
+        it("should clean a remote project", async () => {
+            commandResponses.push({ pattern: "gradlew --no-daemon clean", stdout: "BUILD SUCCESSFUL in 1s" });
+
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(textOf(result)).toBe("BUILD SUCCESSFUL in 1s");
+        });
+
+        it("should run a remote Android test", async () => {
+            const result = await client.callTool({
+                name: "remote_test_android",
+                arguments: {
+                    project_id: "project-1",
+                    package_name: "com.jetbrains.kmpapp",
+                    test_name: "testScrollingDownGesture",
+                },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("com.jetbrains.kmpapp.AndroidInstrumentedTest#testScrollingDownGesture"),
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should list the emulator of a finished test as running and free", async () => {
+            await client.callTool({
+                name: "remote_test_android",
+                arguments: {
+                    project_id: "project-1",
+                    package_name: "com.jetbrains.kmpapp",
+                    test_name: "testScrollingDownGesture",
+                },
+            });
+
+            const status = await client.callTool({ name: "get_device_pool_status", arguments: {} });
+            expect(status.isError).toBe(false);
+            expect(status.structuredContent).toMatchObject({
+                android_emulators: [{ serial: "emulator-5554", avd_name: "Medium_Phone_API_36.1", port: 5554, state: "running", leased: false }],
+                android_waiters: 0,
+            });
+            expect(textOf(status)).toContain("0 of 1 emulators in use, 0 tests waiting");
+        });
+
+        it("should report the steps of a remote Android test as progress notifications", async () => {
+            const onprogress = vi.fn();
+
+            const result = await client.callTool(
+                {
+                    name: "remote_test_android",
+                    arguments: {
+                        project_id: "project-1",
+                        package_name: "com.jetbrains.kmpapp",
+                        test_name: "testScrollingDownGesture",
+                    },
+                },
+                undefined,
+                { onprogress }
+            );
+
+            expect(result.isError).toBe(false);
+            const updates = onprogress.mock.calls.map(([update]) => update as { progress: number; message: string });
+            expect(updates.map((update) => update.message)).toEqual([
+                "Building debug APK",
+                "Building test APK",
+                "Waiting for a free emulator",
+                "Waiting for emulator-5554",
+                "Installing debug APK on emulator-5554",
+                "Installing test APK on emulator-5554",
+                "Running AndroidInstrumentedTest#testScrollingDownGesture",
+                "Collecting device logs",
+                "Collecting screen recordings",
+                "Extracting frames from screen recording of testScrollingDownGesture",
+                "Uninstalling apps from emulator-5554",
+                "Uploading test report",
+            ]);
+            expect(updates.map((update) => update.progress)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+        });
+
+        it("should not report progress when the client did not ask for it", async () => {
+            const notifications: string[] = [];
+            client.fallbackNotificationHandler = (notification) => {
+                notifications.push(notification.method);
+                return Promise.resolve();
+            };
+
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(notifications).toEqual([]);
+        });
+
+        it("should pass the call's abort signal to child processes", async () => {
+            await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("gradlew --no-daemon clean"),
+                expect.objectContaining({ signal: expect.any(AbortSignal) as AbortSignal }),
+                expect.any(Function)
+            );
+        });
+
+        it("should not run a queued call that the client cancelled", async () => {
+            // Hold the first clean until released, so the second call waits for the project lock
+            let releaseClean: () => void = () => {};
+            const defaultExec = mockExec.getMockImplementation()!;
+            mockExec.mockImplementation((command, opts, cb) => {
+                if (command.includes("gradlew --no-daemon clean")) {
+                    const callback = typeof opts === "function" ? opts : cb;
+                    releaseClean = () => callback?.(null, "BUILD SUCCESSFUL", "");
+                    return {} as ReturnType<typeof import("child_process").exec>;
+                }
+                return defaultExec(command, opts, cb);
+            });
+
+            const first = client.callTool({ name: "remote_clean_project", arguments: { project_id: "project-1" } });
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            const controller = new AbortController();
+            const second = client.callTool(
+                { name: "remote_clean_project", arguments: { project_id: "project-1" } },
+                undefined,
+                { signal: controller.signal }
+            );
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            controller.abort("User cancelled");
+            await expect(second).rejects.toThrow();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            releaseClean();
+            const result = await first;
+
+            expect(result.isError).toBe(false);
+            const cleanCalls = mockExec.mock.calls.filter(([command]) => command.includes("gradlew --no-daemon clean"));
+            expect(cleanCalls).toHaveLength(1);
+        });
+
+        it("should return Android test frames and the recording as content blocks", async () => {
+            vi.mocked(fs.readdirSync).mockReturnValue(
+                ["frame_0001.jpg", "frame_0002.jpg"] as unknown as ReturnType<typeof fs.readdirSync>
+            );
+
+            const result = await client.callTool({
+                name: "remote_test_android",
+                arguments: {
+                    project_id: "project-1",
+                    package_name: "com.jetbrains.kmpapp",
+                    test_name: "testScrollingDownGesture",
+                },
+            });
+
+            const content = result.content as { type: string; mimeType?: string; data?: string; uri?: string }[];
+            expect(result.isError).toBe(false);
+            expect(content.map((block) => block.type)).toEqual(["text", "image", "image", "resource_link", "resource_link", "resource_link"]);
+            expect(content[1]).toMatchObject({
+                mimeType: "image/jpeg",
+                data: Buffer.from("data").toString("base64"),
+            });
+            expect(content[3]).toMatchObject({
+                mimeType: "video/mp4",
+                uri: expect.stringContaining("https://storage.googleapis.com/") as unknown as string,
+            });
+            expect(content[4]).toMatchObject({ name: "report.xml", mimeType: "application/xml" });
+            expect(content[5]).toMatchObject({ name: "report.json", mimeType: "application/json" });
+            expect(result.structuredContent).toMatchObject({
+                success: true,
+                frame_count: 2,
+                screenrecord: content[3].uri,
+                junit_report: content[4].uri,
+                json_report: content[5].uri,
+            });
+        });
+
+        it("should report a failing remote Android test as an error", async () => {
+            commandResponses.push({
+                pattern: "instrument",
+                stdout: "Tests run: 1, Failures: 1\nFAILURES!!!",
+                error: new Error("Command failed"),
+            });
+
+            const result = await client.callTool({
+                name: "remote_test_android",
+                arguments: {
+                    project_id: "project-1",
+                    package_name: "com.jetbrains.kmpapp",
+                    test_name: "testScrollingDownGesture",
+                },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toContain("FAILURES!!!");
+        });
+
+        it("should run a remote iOS test", async () => {
+            const result = await client.callTool({
+                name: "remote_test_ios",
+                arguments: { project_id: "project-1", test_name: "testScrollingDownGesture" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("-only-testing:iosAppUITests/iosAppUITests/testScrollingDownGesture"),
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should return validation errors for invalid arguments", async () => {
+            const result = await client.callTool({
+                name: "remote_test_ios",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toContain("test_name");
+        });
+
+        it("should serve the remote test prompts", async () => {
+            const android = await client.getPrompt({
+                name: "test_android_remote",
+                arguments: { description: "scroll the list" },
+            });
+            const ios = await client.getPrompt({
+                name: "test_ios_remote",
+                arguments: { description: "scroll the list" },
+            });
+
+            expect(android.messages[0].content).toMatchObject({
+                type: "text",
+                text: expect.stringContaining("remote_test_android tool") as unknown as string,
+            });
+            expect(ios.messages[0].content).toMatchObject({
+                type: "text",
+                text: expect.stringContaining("remote_test_ios tool") as unknown as string,
+            });
+        });
+
+        it("should serve the create remote project prompt", async () => {
+            const result = await client.getPrompt({
+                name: "create_remote_project",
+                arguments: { project_name: "My App" },
+            });
+
+            expect(result.description).toBe("Creates a new remote project");
+            expect(result.messages[0].content).toMatchObject({
+                type: "text",
+                text: expect.stringContaining("project name My App") as unknown as string,
+            });
+        });
+    });
+
+    describe("authenticated callers", () => {
+        beforeEach(async () => {
+            client = await connect("remote-build-farm", { token: "token-alice", clientId: "alice", scopes: [] });
+        });
+
+        it("should record the caller as the owner of created projects", async () => {
+            mockCreateMCPProject.mockResolvedValue("project-1");
+
+            const result = await client.callTool({
+                name: "create-remote-project",
+                arguments: { project_name: "My App" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(mockCreateMCPProject).toHaveBeenCalledWith("My App", "alice");
+        });
+
+        it("should run tools on projects owned by the caller", async () => {
+            mockGetMCPProject.mockResolvedValue({
+                id: "project-1",
+                name: "My App",
+                ownerId: "alice",
+                members: { alice: "owner" },
+            });
+
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(mockGetMCPProject).toHaveBeenCalledWith("project-1");
+        });
+
+        it("should run tools on projects without an owner", async () => {
+            mockGetMCPProject.mockResolvedValue({ id: "project-1", name: "My App", members: {} });
+
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(false);
+        });
+
+        it("should run tools on projects where the caller is an editor", async () => {
+            mockGetMCPProject.mockResolvedValue({
+                id: "project-1",
+                name: "My App",
+                ownerId: "bob",
+                members: { bob: "owner", alice: "editor" },
+            });
+
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(false);
+        });
+
+        it("should refuse projects where the caller is only a viewer", async () => {
+            mockGetMCPProject.mockResolvedValue({
+                id: "project-1",
+                name: "My App",
+                ownerId: "bob",
+                members: { bob: "owner", alice: "viewer" },
+            });
+
+            const result = await client.callTool({
+                name: "remote_clean_project",
+                arguments: { project_id: "project-1" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Access denied: editor role required on project project-1");
+            expect(mockExec).not.toHaveBeenCalled();
+        });
+
+        it("should refuse projects of other users", async () => {
+            mockGetMCPProject.mockResolvedValue({
+                id: "project-1",
+                name: "My App",
+                ownerId: "bob",
+                members: { bob: "owner" },
+            });
+
+            const result = await client.callTool({
+                name: "remote_test_ios",
+                arguments: { project_id: "project-1", test_name: "ExampleTests/testExample" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Access denied: editor role required on project project-1");
+            expect(mockExec).not.toHaveBeenCalled();
+        });
+
+        it("should refuse unknown projects", async () => {
+            mockGetMCPProject.mockResolvedValue(null);
+
+            const result = await client.callTool({
+                name: "remote_test_android",
+                arguments: { project_id: "missing", package_name: "com.example", test_name: "ExampleTest" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Project not found: missing");
+            expect(mockExec).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("project members", () => {
+        const ownedProject = {
+            id: "project-1",
+            name: "My App",
+            ownerId: "alice",
+            members: { alice: "owner" as const },
+        };
+
+        it("should let the owner add a member", async () => {
+            client = await connect("remote-build-farm", { token: "token-alice", clientId: "alice", scopes: [] });
+            mockGetMCPProject
+                .mockResolvedValueOnce(ownedProject)
+                .mockResolvedValueOnce(ownedProject)
+                .mockResolvedValueOnce({ ...ownedProject, members: { alice: "owner", bob: "editor" } });
+
+            const result = await client.callTool({
+                name: "set_project_member",
+                arguments: { project_id: "project-1", user_id: "bob", role: "editor" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(mockSetProjectMember).toHaveBeenCalledWith("project-1", "bob", "editor");
+            expect(result.structuredContent).toEqual({
+                project_id: "project-1",
+                members: { alice: "owner", bob: "editor" },
+            });
+        });
+
+        it("should let the owner remove a member", async () => {
+            client = await connect("remote-build-farm", { token: "token-alice", clientId: "alice", scopes: [] });
+            mockGetMCPProject.mockResolvedValue(ownedProject);
+
+            const result = await client.callTool({
+                name: "remove_project_member",
+                arguments: { project_id: "project-1", user_id: "bob" },
+            });
+
+            expect(result.isError).toBe(false);
+            expect(mockRemoveProjectMember).toHaveBeenCalledWith("project-1", "bob");
+            expect(result.structuredContent).toEqual({ project_id: "project-1", members: { alice: "owner" } });
+        });
+
+        it("should report errors from the store, such as changing the owner", async () => {
+            client = await connect("remote-build-farm", { token: "token-alice", clientId: "alice", scopes: [] });
+            mockGetMCPProject.mockResolvedValue(ownedProject);
+            mockRemoveProjectMember.mockRejectedValueOnce(new Error("Cannot remove the project owner"));
+
+            const result = await client.callTool({
+                name: "remove_project_member",
+                arguments: { project_id: "project-1", user_id: "alice" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Cannot remove the project owner");
+        });
+
+        it("should refuse editors", async () => {
+            client = await connect("remote-build-farm", { token: "token-bob", clientId: "bob", scopes: [] });
+            mockGetMCPProject.mockResolvedValue({ ...ownedProject, members: { alice: "owner", bob: "editor" } });
+
+            const result = await client.callTool({
+                name: "set_project_member",
+                arguments: { project_id: "project-1", user_id: "carol", role: "viewer" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Access denied: owner role required on project project-1");
+            expect(mockSetProjectMember).not.toHaveBeenCalled();
+        });
+
+        it("should refuse projects without an owner", async () => {
+            client = await connect("remote-build-farm", { token: "token-alice", clientId: "alice", scopes: [] });
+            mockGetMCPProject.mockResolvedValue({ id: "project-1", name: "My App", members: {} });
+
+            const result = await client.callTool({
+                name: "set_project_member",
+                arguments: { project_id: "project-1", user_id: "bob", role: "editor" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Project project-1 has no owner, so its members cannot be managed");
+            expect(mockSetProjectMember).not.toHaveBeenCalled();
+        });
+
+        it("should refuse unauthenticated callers", async () => {
+            client = await connect("remote-build-farm");
+
+            const result = await client.callTool({
+                name: "remove_project_member",
+                arguments: { project_id: "project-1", user_id: "bob" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toBe("Error: Managing project members requires an authenticated caller");
+            expect(mockRemoveProjectMember).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("timeouts", () => {
+        beforeEach(async () => {
+            client = await connect("remote-build-farm", undefined, {
+                toolTimeouts: { remote_clean_project: 100 },
+                maxQueueWaitMs: 30,
+            });
+
+            // Hang ./gradlew clean until the call's signal kills it, as child_process does
+            const defaultExec = mockExec.getMockImplementation()!;
+            mockExec.mockImplementation((command, opts, cb) => {
+                if (command.includes("gradlew --no-daemon clean")) {
+                    const callback = typeof opts === "function" ? opts : cb;
+                    const signal = (opts as { signal?: AbortSignal }).signal;
+                    signal?.addEventListener("abort", () => callback?.(new Error("The operation was aborted"), "", ""));
+                    return {} as ReturnType<typeof import("child_process").exec>;
+                }
+                return defaultExec(command, opts, cb);
+            });
+        });
+
+        it("should stop a call that runs too long and return a request timeout error", async () => {
+            const error = await client
+                .callTool({ name: "remote_clean_project", arguments: { project_id: "project-1" } })
+                .catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(McpError);
+            expect(error).toMatchObject({
+                code: ErrorCode.RequestTimeout,
+                message: expect.stringContaining("Tool remote_clean_project did not finish within 100ms") as unknown as string,
+            });
+        });
+
+        it("should fail a call that waits in the queue too long", async () => {
+            const first = client
+                .callTool({ name: "remote_clean_project", arguments: { project_id: "project-1" } })
+                .catch((e: unknown) => e);
+            const second = client
+                .callTool({ name: "remote_clean_project", arguments: { project_id: "project-1" } })
+                .catch((e: unknown) => e);
+
+            expect(await second).toMatchObject({
+                code: ErrorCode.RequestTimeout,
+                message: expect.stringContaining("did not start within 30ms") as unknown as string,
+            });
+            expect(await first).toBeInstanceOf(McpError);
+            const cleanCalls = mockExec.mock.calls.filter(([command]) => command.includes("gradlew --no-daemon clean"));
+            expect(cleanCalls).toHaveLength(1);
+        });
+    });
+
+    describe("queue status", () => {
+        beforeEach(async () => {
+            client = await connect("remote-build-farm", { token: "token-alice", clientId: "alice", scopes: [] });
+            mockGetMCPProject.mockResolvedValue({
+                id: "project-1",
+                name: "My App",
+                ownerId: "alice",
+                members: { alice: "owner" },
+            });
+
+            // Hang ./gradlew clean until the call is cancelled, as child_process does
+            const defaultExec = mockExec.getMockImplementation()!;
+            mockExec.mockImplementation((command, opts, cb) => {
+                if (command.includes("gradlew --no-daemon clean")) {
+                    const callback = typeof opts === "function" ? opts : cb;
+                    const signal = (opts as { signal?: AbortSignal }).signal;
+                    signal?.addEventListener("abort", () => callback?.(new Error("The operation was aborted"), "", ""));
+                    return {} as ReturnType<typeof import("child_process").exec>;
+                }
+                return defaultExec(command, opts, cb);
+            });
+        });
+
+        it("should report the position of a waiting call and list it in get_queue_status", async () => {
+            const controller = new AbortController();
+            const onprogress = vi.fn();
+            const calls = [
+                client.callTool(
+                    { name: "remote_clean_project", arguments: { project_id: "project-1" } },
+                    undefined,
+                    { signal: controller.signal }
+                ),
+                client.callTool(
+                    { name: "remote_clean_project", arguments: { project_id: "project-1" } },
+                    undefined,
+                    { signal: controller.signal, onprogress }
+                ),
+            ].map((call) => call.catch((e: unknown) => e));
+
+            await vi.waitFor(() => {
+                expect(onprogress).toHaveBeenCalledWith(expect.objectContaining({ message: "Queued at position 1 of 1" }));
+            });
+
+            const status = await client.callTool({ name: "get_queue_status", arguments: {} });
+            expect(status.isError).toBe(false);
+            expect(status.structuredContent).toMatchObject({
+                queue_length: 1,
+                // Only the first clean; get_queue_status runs outside the queue
+                active_workers: 1,
+                queued_calls: [{ position: 1, tool_name: "remote_clean_project", priority: "normal", own: true }],
+            });
+            expect(textOf(status)).toContain("1. remote_clean_project (yours)");
+
+            controller.abort();
+            await Promise.all(calls);
+        });
+
+        it("should answer get_queue_status while every worker is busy", async () => {
+            const controller = new AbortController();
+            const calls = ["project-1", "project-2"].map((projectId) => client.callTool(
+                { name: "remote_clean_project", arguments: { project_id: projectId } },
+                undefined,
+                { signal: controller.signal }
+            ).catch((e: unknown) => e));
+            await vi.waitFor(() => {
+                expect(mockExec.mock.calls.filter(([command]) => command.includes("gradlew --no-daemon clean"))).toHaveLength(2);
+            });
+
+            const status = await client.callTool({ name: "get_queue_status", arguments: {} });
+            expect(status.structuredContent).toMatchObject({ queue_length: 0, active_workers: 2, max_workers: 2 });
+
+            controller.abort();
+            await Promise.all(calls);
+        });
+    });
+
+    describe("background jobs", () => {
+        beforeEach(async () => {
+            // Keep jobs in memory, since fs is mocked
+            const jobs = new Map<string, Job>();
+            const store = {
+                save: (job: Job) => { jobs.set(job.id, structuredClone(job)); },
+                get: (id: string) => jobs.get(id),
+                list: () => Array.from(jobs.values()),
+                delete: (id: string) => { jobs.delete(id); },
+            } as unknown as JobStore;
+
+            const toolCallOptions: ToolCallOptions = {
+                toolRegistry: createToolRegistry("remote-build-farm"),
+                toolCallQueue: new TaskQueue<ToolTask, ToolCallResult>(2, {
+                    resourcePools: { cpu: 2, "android-device": 1, "ios-simulator": 1, network: 4 },
+                }),
+            };
+            toolCallOptions.jobManager = new JobManager({
+                store,
+                run: (job, signal, onStart) => enqueueToolCall(
+                    toolCallOptions,
+                    { name: job.tool_name, args: job.args, userId: job.user_id, signal },
+                    onStart
+                ),
+            });
+            client = await connect("remote-build-farm", undefined, toolCallOptions);
+        });
+
+        it("should accept as_job on the remote test tools only", async () => {
+            const { tools } = await client.listTools();
+            const asJobTools = tools.filter((tool) => tool.inputSchema.properties && "as_job" in tool.inputSchema.properties);
+            expect(asJobTools.map((tool) => tool.name)).toEqual(["remote_test_android", "remote_test_ios"]);
+        });
+
+        it("should run a test as a job and return its result", async () => {
+            const started = await client.callTool({
+                name: "remote_test_ios",
+                arguments: { project_id: "project-1", test_name: "testScrollingDownGesture", as_job: true },
+            });
+
+            expect(started.isError).toBe(false);
+            expect(started.structuredContent).toEqual({ job_id: expect.any(String) as unknown as string, job_status: "queued" });
+            const jobId = (started.structuredContent as { job_id: string }).job_id;
+
+            await vi.waitFor(async () => {
+                const status = await client.callTool({ name: "get_job_status", arguments: { job_id: jobId } });
+                expect(status.structuredContent).toMatchObject({ job_id: jobId, status: "completed" });
+            });
+
+            const result = await client.callTool({ name: "get_job_result", arguments: { job_id: jobId } });
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent).toMatchObject({
+                job_id: jobId,
+                tool_name: "remote_test_ios",
+                status: "completed",
+            });
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("-only-testing:iosAppUITests/iosAppUITests/testScrollingDownGesture"),
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should return the result of a failed job as the tool returned it", async () => {
+            vi.mocked(fs.readdirSync).mockReturnValue(["frame_0001.jpg"] as unknown as ReturnType<typeof fs.readdirSync>);
+            commandResponses.push({ pattern: "instrument", stdout: passingInstrumentOutput.replace("STATUS_CODE: 0", "STATUS_CODE: -2") });
+            const started = await client.callTool({
+                name: "remote_test_android",
+                arguments: {
+                    project_id: "project-1",
+                    package_name: "com.jetbrains.kmpapp",
+                    test_name: "testScrollingDownGesture",
+                    as_job: true,
+                },
+            });
+            const jobId = (started.structuredContent as { job_id: string }).job_id;
+
+            await vi.waitFor(async () => {
+                const status = await client.callTool({ name: "get_job_status", arguments: { job_id: jobId } });
+                expect(status.structuredContent).toMatchObject({ job_id: jobId, status: "completed" });
+            });
+
+            const result = await client.callTool({ name: "get_job_result", arguments: { job_id: jobId } });
+            expect(result.isError).toBe(true);
+            const content = result.content as { type: string; name?: string }[];
+            expect(content.map((block) => block.type)).toEqual(["text", "image", "resource_link", "resource_link", "resource_link"]);
+            const text = textOf(result);
+            expect(text).toMatch(/^Error: (?!Error: )/);
+            expect(text.match(/Captured 1 image\./g)).toHaveLength(1);
+            expect(text.match(/screenrecord\.mp4: /g)).toHaveLength(1);
+        });
+
+        it("should answer job and device pool calls while every worker is busy", async () => {
+            // Hang ./gradlew clean until the call is cancelled, as child_process does
+            const defaultExec = mockExec.getMockImplementation()!;
+            mockExec.mockImplementation((command, opts, cb) => {
+                if (command.includes("gradlew --no-daemon clean")) {
+                    const callback = typeof opts === "function" ? opts : cb;
+                    const signal = (opts as { signal?: AbortSignal }).signal;
+                    signal?.addEventListener("abort", () => callback?.(new Error("The operation was aborted"), "", ""));
+                    return {} as ReturnType<typeof import("child_process").exec>;
+                }
+                return defaultExec(command, opts, cb);
+            });
+            const controller = new AbortController();
+            const calls = ["project-1", "project-2"].map((projectId) => client.callTool(
+                { name: "remote_clean_project", arguments: { project_id: projectId } },
+                undefined,
+                { signal: controller.signal }
+            ).catch((e: unknown) => e));
+            await vi.waitFor(() => {
+                expect(mockExec.mock.calls.filter(([command]) => command.includes("gradlew --no-daemon clean"))).toHaveLength(2);
+            });
+
+            const jobId = "00000000-0000-0000-0000-000000000000";
+            for (const name of ["get_job_status", "get_job_result", "cancel_job"]) {
+                const result = await client.callTool({ name, arguments: { job_id: jobId } });
+                expect(textOf(result)).toContain(`Job not found: ${jobId}`);
+            }
+            const pool = await client.callTool({ name: "get_device_pool_status", arguments: {} });
+            expect(pool.isError).toBe(false);
+
+            controller.abort();
+            await Promise.all(calls);
+        });
+
+        it("should report unknown jobs", async () => {
+            const result = await client.callTool({
+                name: "cancel_job",
+                arguments: { job_id: "00000000-0000-0000-0000-000000000000" },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(textOf(result)).toContain("Job not found: 00000000-0000-0000-0000-000000000000");
+        });
+    });
+});
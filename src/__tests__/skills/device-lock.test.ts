@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+    acquireDeviceFileLock,
+    DeviceLockTimeoutError,
+    getDeviceLockDir,
+} from "../../../skills/shared/device-lock.js";
+
+describe("device-lock (skills/shared)", () => {
+    const serial = "emulator-5554";
+    let lockRoot: string;
+    let lockDir: string;
+
+    /**
+     * Creates a lock as another process would, owned by the given PID
+     */
+    function createForeignLock(pid: number): void {
+        mkdirSync(lockDir);
+        writeFileSync(join(lockDir, "pid"), String(pid));
+    }
+
+    beforeEach(() => {
+        lockRoot = mkdtempSync(join(tmpdir(), "device-locks-"));
+        vi.stubEnv("PISTACHIO_DEVICE_LOCK_DIR", lockRoot);
+        lockDir = getDeviceLockDir(serial);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        rmSync(lockRoot, { recursive: true, force: true });
+    });
+
+    it("should place locks in PISTACHIO_DEVICE_LOCK_DIR", () => {
+        expect(lockDir).toBe(join(lockRoot, "pistachio-device-lock-emulator-5554"));
+    });
+
+    it("should record the owner PID and remove the lock on release", async () => {
+        const lock = await acquireDeviceFileLock(serial);
+
+        expect(readFileSync(join(lockDir, "pid"), "utf8")).toBe(String(process.pid));
+        expect(lock.release()).toBe(true);
+        expect(existsSync(lockDir)).toBe(false);
+        expect(lock.release()).toBe(false);
+    });
+
+    it("should wait until the holder releases the lock", async () => {
+        const first = await acquireDeviceFileLock(serial);
+        let acquired = false;
+
+        const second = acquireDeviceFileLock(serial, { pollIntervalMs: 10 }).then((lock) => {
+            acquired = true;
+            return lock;
+        });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(acquired).toBe(false);
+
+        first.release();
+        (await second).release();
+        expect(acquired).toBe(true);
+    });
+
+    it("should time out while a live process holds the lock", async () => {
+        createForeignLock(process.ppid);
+
+        const error = await acquireDeviceFileLock(serial, { timeoutMs: 50, pollIntervalMs: 10 }).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(DeviceLockTimeoutError);
+        expect((error as Error).message).toBe("Failed to acquire device lock within 50ms: emulator-5554 is in use by another test");
+        expect(readFileSync(join(lockDir, "pid"), "utf8")).toBe(String(process.ppid));
+    });
+
+    it("should take over the lock of an exited process", async () => {
+        createForeignLock(2147483646);
+
+        const lock = await acquireDeviceFileLock(serial, { timeoutMs: 50, pollIntervalMs: 10 });
+
+        expect(readFileSync(join(lockDir, "pid"), "utf8")).toBe(String(process.pid));
+        // The takeover lock is not left behind
+        expect(readdirSync(lockRoot)).toEqual(["pistachio-device-lock-emulator-5554"]);
+        lock.release();
+    });
+
+    it("should not remove a lock recreated while another process took the stale one over", async () => {
+        createForeignLock(2147483646);
+        // Another process holds the takeover lock: it removes the stale lock and a third process creates a new one
+        mkdirSync(`${lockDir}.takeover`);
+        setTimeout(() => {
+            rmSync(lockDir, { recursive: true });
+            createForeignLock(process.ppid);
+            rmSync(`${lockDir}.takeover`, { recursive: true });
+        }, 30);
+
+        const error = await acquireDeviceFileLock(serial, { timeoutMs: 100, pollIntervalMs: 10 }).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(DeviceLockTimeoutError);
+        expect(readFileSync(join(lockDir, "pid"), "utf8")).toBe(String(process.ppid));
+    });
+
+    it("should take over a stale lock whose takeover lock was left behind", async () => {
+        createForeignLock(2147483646);
+        mkdirSync(`${lockDir}.takeover`);
+        const expired = new Date(Date.now() - 120_000);
+        utimesSync(`${lockDir}.takeover`, expired, expired);
+
+        const lock = await acquireDeviceFileLock(serial, { timeoutMs: 100, pollIntervalMs: 10, leaseMs: 60_000 });
+
+        expect(readFileSync(join(lockDir, "pid"), "utf8")).toBe(String(process.pid));
+        expect(existsSync(`${lockDir}.takeover`)).toBe(false);
+        lock.release();
+    });
+
+    it("should take over a lock whose lease expired", async () => {
+        createForeignLock(process.ppid);
+        const expired = new Date(Date.now() - 120_000);
+        utimesSync(join(lockDir, "pid"), expired, expired);
+
+        const lock = await acquireDeviceFileLock(serial, { timeoutMs: 50, pollIntervalMs: 10, leaseMs: 60_000 });
+
+        expect(readFileSync(join(lockDir, "pid"), "utf8")).toBe(String(process.pid));
+        lock.release();
+    });
+
+    it("should renew the lease while the lock is held", async () => {
+        const lock = await acquireDeviceFileLock(serial, { leaseMs: 60 });
+        const expired = new Date(Date.now() - 120_000);
+        utimesSync(join(lockDir, "pid"), expired, expired);
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const other = await acquireDeviceFileLock(serial, { timeoutMs: 0, leaseMs: 60 }).catch((e: unknown) => e);
+        expect(other).toBeInstanceOf(DeviceLockTimeoutError);
+        lock.release();
+    });
+
+    it("should stop waiting when the signal is aborted", async () => {
+        createForeignLock(process.ppid);
+        const controller = new AbortController();
+
+        const pending = acquireDeviceFileLock(serial, { pollIntervalMs: 1000, signal: controller.signal });
+        controller.abort(new Error("Cancelled"));
+
+        await expect(pending).rejects.toThrow("Cancelled");
+    });
+});
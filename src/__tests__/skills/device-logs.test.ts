@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+    extractAndroidAppLogs,
+    formatDeviceLogs,
+    formatDeviceLogSummary,
+    parseAnrTraces,
+    parseLogcat,
+    parseSimulatorLog,
+    summarizeDeviceLogs,
+} from "../../../skills/shared/device-logs.js";
+
+describe("device-logs (skills/shared)", () => {
+    const packageName = "com.example.app";
+
+    // `adb logcat -d -v threadtime -b main,system,crash` after a run where the app crashed
+    const logcat = [
+        "--------- beginning of system",
+        "10-19 10:03:01.002   512   540 I ActivityManager: Start proc 4321:com.example.app/u0a190 for added application com.example.app",
+        "10-19 10:03:01.004   512   540 I ActivityManager: Start proc 4400:com.example.other/u0a191 for service",
+        "--------- beginning of main",
+        "10-19 10:03:02.117  4321  4321 D LoginViewModel: Signing in",
+        "10-19 10:03:02.120  4321  4350 W OkHttp  : Retrying request",
+        "10-19 10:03:02.200  4400  4400 E Other   : Not the app under test",
+        "10-19 10:03:03.001   512   530 W ActivityManager: Force finishing activity com.example.app/.MainActivity",
+        "--------- beginning of crash",
+        "10-19 10:03:05.123  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main",
+        "10-19 10:03:05.123  4321  4321 E AndroidRuntime: Process: com.example.app, PID: 4321",
+        "10-19 10:03:05.123  4321  4321 E AndroidRuntime: java.lang.IllegalStateException: boom",
+        "10-19 10:03:05.500  4400  4400 E AndroidRuntime: FATAL EXCEPTION: main",
+        "10-19 10:03:05.500  4400  4400 E AndroidRuntime: Process: com.example.other, PID: 4400",
+        "10-19 10:03:06.010  4500  4500 F DEBUG   : pid: 4321, tid: 4330, name: RenderThread  >>> com.example.app <<<",
+        "10-19 10:03:06.010  4500  4500 F DEBUG   : signal 11 (SIGSEGV), code 1 (SEGV_MAPERR)",
+    ].join("\n");
+
+    describe("parseLogcat", () => {
+        it("should read the level, tag and buffer of each entry", () => {
+            const entries = parseLogcat(logcat);
+
+            expect(entries).toHaveLength(13);
+            expect(entries[3]).toEqual({
+                time: "10-19 10:03:02.120",
+                pid: 4321,
+                level: "warning",
+                tag: "OkHttp",
+                message: "Retrying request",
+                buffer: "main",
+            });
+            expect(entries[12]).toMatchObject({ level: "fatal", tag: "DEBUG", buffer: "crash" });
+        });
+    });
+
+    describe("extractAndroidAppLogs", () => {
+        it("should keep the entries of the app's processes and the system entries naming it", () => {
+            const { entries } = extractAndroidAppLogs(logcat, packageName);
+
+            expect(entries.map((entry) => entry.message)).toEqual([
+                "Start proc 4321:com.example.app/u0a190 for added application com.example.app",
+                "Signing in",
+                "Retrying request",
+                "Force finishing activity com.example.app/.MainActivity",
+            ]);
+        });
+
+        it("should return the Java and native crashes of the app", () => {
+            const { crashes } = extractAndroidAppLogs(logcat, packageName);
+
+            expect(crashes).toEqual([
+                "FATAL EXCEPTION: main\nProcess: com.example.app, PID: 4321\njava.lang.IllegalStateException: boom",
+                "pid: 4321, tid: 4330, name: RenderThread  >>> com.example.app <<<\nsignal 11 (SIGSEGV), code 1 (SEGV_MAPERR)",
+            ]);
+        });
+    });
+
+    describe("parseAnrTraces", () => {
+        const dropbox = [
+            "Drop box contents: 3 entries",
+            "Max entries: 1000",
+            "Searching for: data_app_anr",
+            "",
+            "========================================",
+            "2026-10-18 17:40:12 data_app_anr (text, 2048 bytes)",
+            "Process: com.example.app",
+            "Subject: Input dispatching timed out",
+            "",
+            "========================================",
+            "2026-10-19 10:03:08 data_app_anr (text, 4096 bytes)",
+            "Process: com.example.other",
+            "Subject: Broadcast of Intent",
+            "",
+            "========================================",
+            "2026-10-19 10:03:09 data_app_anr (text, 8192 bytes)",
+            "Process: com.example.app",
+            "Subject: Input dispatching timed out",
+            "\"main\" prio=5 tid=1 Sleeping",
+            "",
+        ].join("\n");
+
+        it("should return the ANRs of the app written during the run", () => {
+            expect(parseAnrTraces(dropbox, packageName, "2026-10-19 10:03:00")).toEqual([
+                "Process: com.example.app\nSubject: Input dispatching timed out\n\"main\" prio=5 tid=1 Sleeping",
+            ]);
+        });
+    });
+
+    describe("parseSimulatorLog", () => {
+        it("should read the events of `log show --style ndjson`", () => {
+            const output = [
+                JSON.stringify({
+                    timestamp: "2026-10-19 10:03:02.117000+0000",
+                    messageType: "Fault",
+                    processImagePath: "/Users/runner/Library/Developer/CoreSimulator/Devices/iosApp.app/iosApp",
+                    processID: 4321,
+                    subsystem: "com.example.iosApp",
+                    eventMessage: "Unexpectedly found nil",
+                }),
+                JSON.stringify({
+                    timestamp: "2026-10-19 10:03:02.200000+0000",
+                    messageType: "Default",
+                    processImagePath: "/Applications/Xcode.app/iosAppUITests-Runner",
+                    processID: 4400,
+                    subsystem: "",
+                    eventMessage: "Tap \"Sign in\" Button",
+                }),
+                JSON.stringify({ count: 2, finished: 1 }),
+            ].join("\n");
+
+            expect(parseSimulatorLog(output)).toEqual([
+                {
+                    time: "2026-10-19 10:03:02.117000+0000",
+                    pid: 4321,
+                    level: "fatal",
+                    tag: "iosApp [com.example.iosApp]",
+                    message: "Unexpectedly found nil",
+                },
+                {
+                    time: "2026-10-19 10:03:02.200000+0000",
+                    pid: 4400,
+                    level: "info",
+                    tag: "iosAppUITests-Runner",
+                    message: "Tap \"Sign in\" Button",
+                },
+            ]);
+        });
+    });
+
+    describe("summaries", () => {
+        it("should count entries by severity, crashes and ANRs", () => {
+            const { entries, crashes } = extractAndroidAppLogs(logcat, packageName);
+            const summary = summarizeDeviceLogs({ platform: "android", entries, crashes, anrs: [] });
+
+            expect(summary).toEqual({ fatal: 0, error: 0, warning: 2, info: 1, debug: 1, verbose: 0, crashes: 2, anrs: 0 });
+            expect(formatDeviceLogSummary(summary)).toBe("2 crashes, 2 warnings");
+        });
+
+        it("should describe logs without problems", () => {
+            expect(formatDeviceLogSummary(summarizeDeviceLogs({ platform: "ios", entries: [], crashes: [], anrs: [] })))
+                .toBe("no errors or warnings");
+        });
+    });
+
+    describe("formatDeviceLogs", () => {
+        it("should write the entries followed by each crash and ANR", () => {
+            const text = formatDeviceLogs({
+                platform: "android",
+                entries: [{ time: "10-19 10:03:02.120", pid: 4321, level: "warning", tag: "OkHttp", message: "Retrying request" }],
+                crashes: ["FATAL EXCEPTION: main"],
+                anrs: ["Process: com.example.app"],
+            });
+
+            expect(text).toBe([
+                "10-19 10:03:02.120 4321 WARNING OkHttp: Retrying request",
+                "",
+                "===== Crash 1 =====",
+                "FATAL EXCEPTION: main",
+                "",
+                "===== ANR 1 =====",
+                "Process: com.example.app",
+                "",
+            ].join("\n"));
+        });
+    });
+});
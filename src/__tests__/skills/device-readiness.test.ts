@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { exec } from "child_process";
+import {
+    checkDeviceReadiness,
+    DeviceNotReadyError,
+    getAdbDeviceState,
+    prepareDevice,
+    waitForDeviceReady,
+} from "../../../skills/shared/device-readiness.js";
+
+// Mock child_process.exec - must be done before importing the module
+vi.mock("child_process", () => {
+    type ExecCallback = ((error: Error | null, stdout: string, stderr: string) => void) | undefined;
+    type ExecOptions = Record<string, unknown> | undefined;
+
+    const exec = vi.fn((command: string, optionsOrCallback?: ExecOptions | ExecCallback, callback?: ExecCallback) => {
+        const actualCallback: ExecCallback = typeof optionsOrCallback === "function" ? optionsOrCallback : callback;
+        if (actualCallback) {
+            actualCallback(null, "", "");
+        }
+        return {} as ReturnType<typeof import("child_process").exec>;
+    });
+    // @ts-expect-error - Symbol.for is not recognized by TypeScript for this use case
+    exec[Symbol.for("nodejs.util.promisify.custom")] = vi.fn((command: string, options?: ExecOptions) => {
+        return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+            exec(command, typeof options === "object" ? options : {}, (error: Error | null, stdout: string, stderr: string) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            });
+        });
+    });
+    return { exec };
+});
+
+describe("device-readiness (skills/shared)", () => {
+    const serial = "emulator-5554";
+    const mockExec = vi.mocked(exec);
+    let adbState: string | undefined;
+    let bootCompleted: string;
+    let packageManager: string;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        adbState = "device";
+        bootCompleted = "1";
+        packageManager = "package:/system/framework/framework-res.apk";
+
+        mockExec.mockImplementation((command, opts, cb) => {
+            const callback = typeof opts === "function" ? opts : cb;
+            let stdout = "";
+            if (command === "adb devices") {
+                stdout = `List of devices attached\n${adbState ? `${serial}\t${adbState}\n` : ""}\n`;
+            } else if (command.includes("getprop sys.boot_completed")) {
+                stdout = `${bootCompleted}\n`;
+            } else if (command.includes("pm path android")) {
+                stdout = `${packageManager}\n`;
+            }
+            callback?.(null, stdout, "");
+            return {} as ReturnType<typeof import("child_process").exec>;
+        });
+    });
+
+    describe("getAdbDeviceState", () => {
+        it("should match the serial exactly", () => {
+            const output = "List of devices attached\nemulator-55540\tdevice\nemulator-5554\toffline\n\n";
+
+            expect(getAdbDeviceState(output, "emulator-5554")).toBe("offline");
+            expect(getAdbDeviceState(output, "emulator-5556")).toBeUndefined();
+        });
+    });
+
+    describe("checkDeviceReadiness", () => {
+        it.each([
+            [undefined, "1", "missing"],
+            ["offline", "1", "offline"],
+            ["unauthorized", "1", "unauthorized"],
+            ["device", "", "booting"],
+            ["device", "1", "ready"],
+        ])("should report adb state %s with sys.boot_completed=%s as %s", async (state, completed, expected) => {
+            adbState = state;
+            bootCompleted = completed;
+
+            expect(await checkDeviceReadiness(serial)).toBe(expected);
+        });
+
+        it("should wait for the package manager after the boot completed", async () => {
+            packageManager = "Error: Could not access the Package Manager. Is the system running?";
+
+            expect(await checkDeviceReadiness(serial)).toBe("starting_services");
+        });
+    });
+
+    describe("waitForDeviceReady", () => {
+        it("should wait until sys.boot_completed is set", async () => {
+            bootCompleted = "";
+            setTimeout(() => {
+                bootCompleted = "1";
+            }, 5);
+
+            await waitForDeviceReady(serial, { timeoutMs: 1000, pollIntervalMs: 2 });
+
+            expect(mockExec).toHaveBeenCalledWith(`adb -s ${serial} shell pm path android`, expect.any(Object), expect.any(Function));
+        });
+
+        it("should fail with the state the device got stuck in", async () => {
+            adbState = "offline";
+
+            const error = await waitForDeviceReady(serial, { timeoutMs: 10, pollIntervalMs: 2 }).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(DeviceNotReadyError);
+            expect((error as DeviceNotReadyError).state).toBe("offline");
+            expect((error as DeviceNotReadyError).message).toBe(
+                "Device emulator-5554 was still offline after 0.01 seconds. Please check emulator logs."
+            );
+        });
+
+        it("should restart a wedged device and wait for it again", async () => {
+            bootCompleted = "";
+            const restart = vi.fn(() => {
+                bootCompleted = "1";
+                return Promise.resolve();
+            });
+
+            await waitForDeviceReady(serial, { timeoutMs: 10, pollIntervalMs: 2, restart });
+
+            expect(restart).toHaveBeenCalledTimes(1);
+            expect(restart).toHaveBeenCalledWith(expect.objectContaining({ state: "booting" }));
+        });
+
+        it("should give up after the last restart", async () => {
+            bootCompleted = "";
+            const restart = vi.fn(() => Promise.resolve());
+
+            await expect(waitForDeviceReady(serial, { timeoutMs: 10, pollIntervalMs: 2, restart, maxRestarts: 2 })).rejects.toThrow(
+                "did not finish booting within 0.01 seconds"
+            );
+            expect(restart).toHaveBeenCalledTimes(2);
+        });
+
+        it("should not restart a device that never showed up", async () => {
+            adbState = undefined;
+            const restart = vi.fn(() => Promise.resolve());
+
+            await expect(waitForDeviceReady(serial, { timeoutMs: 10, pollIntervalMs: 2, restart })).rejects.toThrow(
+                "Emulator failed to start within 0.01 seconds"
+            );
+            expect(restart).not.toHaveBeenCalled();
+        });
+
+        it("should stop waiting when the signal is aborted", async () => {
+            bootCompleted = "";
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(new Error("cancelled")), 5);
+
+            await expect(waitForDeviceReady(serial, { pollIntervalMs: 2, signal: controller.signal })).rejects.toThrow("cancelled");
+        });
+    });
+
+    describe("prepareDevice", () => {
+        it("should unlock the screen and disable animations", async () => {
+            await prepareDevice(serial);
+
+            expect(mockExec).toHaveBeenCalledWith(expect.stringContaining("wm dismiss-keyguard"), expect.any(Object), expect.any(Function));
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("settings put global animator_duration_scale 0"),
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should fail when the device rejects the commands", async () => {
+            mockExec.mockImplementation((command, opts, cb) => {
+                const callback = typeof opts === "function" ? opts : cb;
+                callback?.(new Error("device offline"), "", "");
+                return {} as ReturnType<typeof import("child_process").exec>;
+            });
+
+            await expect(prepareDevice(serial)).rejects.toThrow("Failed to prepare device emulator-5554: device offline");
+        });
+    });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+    buildInstrumentCommand,
+    describeTestSelection,
+    InstrumentationParser,
+    isInstrumentationSuccessful,
+    parseInstrumentationOutput,
+    validateTestSelection,
+} from "../../../skills/shared/instrumentation.js";
+
+describe("instrumentation (skills/shared)", () => {
+    const runner = "com.example.app.test/androidx.test.runner.AndroidJUnitRunner";
+
+    /**
+     * Builds the raw status blocks `am instrument -r` prints for a test
+     */
+    function statusBlock(className: string, testName: string, code: number): string {
+        return [
+            "INSTRUMENTATION_STATUS: class=" + className,
+            "INSTRUMENTATION_STATUS: current=1",
+            "INSTRUMENTATION_STATUS: id=AndroidJUnitRunner",
+            "INSTRUMENTATION_STATUS: test=" + testName,
+            `INSTRUMENTATION_STATUS_CODE: ${code}`,
+        ].join("\n");
+    }
+
+    describe("buildInstrumentCommand", () => {
+        it("should run the selected tests of a class relative to the package", () => {
+            expect(buildInstrumentCommand("emulator-5554", "com.example.app", { testClass: "LoginTest", testNames: ["testLogin", "testLogout"] })).toBe(
+                `adb -s emulator-5554 shell am instrument -w -r -e class 'com.example.app.LoginTest#testLogin,com.example.app.LoginTest#testLogout' ${runner}`
+            );
+        });
+
+        it("should run a whole fully qualified class", () => {
+            expect(buildInstrumentCommand("emulator-5554", "com.example.app", { testClass: "com.example.other.LoginTest" })).toBe(
+                `adb -s emulator-5554 shell am instrument -w -r -e class 'com.example.other.LoginTest' ${runner}`
+            );
+        });
+
+        it("should run every test with an annotation", () => {
+            expect(buildInstrumentCommand("emulator-5554", "com.example.app", { testClass: "all", annotation: "androidx.test.filters.SmallTest" })).toBe(
+                `adb -s emulator-5554 shell am instrument -w -r -e annotation 'androidx.test.filters.SmallTest' ${runner}`
+            );
+        });
+
+        it("should keep the $ of a nested class from both the host and the device shell", () => {
+            expect(buildInstrumentCommand("emulator-5554", "com.example.app", { testClass: "LoginTest$Inner", testNames: ["testLogin"] })).toBe(
+                `adb -s emulator-5554 shell am instrument -w -r -e class 'com.example.app.LoginTest\\$Inner#testLogin' ${runner}`
+            );
+        });
+
+        it.each(["com.example.app;reboot", "com.example app", "app"])("should reject the package name %s", (packageName) => {
+            expect(() => buildInstrumentCommand("emulator-5554", packageName, { testClass: "LoginTest" })).toThrow(
+                `Invalid package name '${packageName}'`
+            );
+        });
+    });
+
+    describe("validateTestSelection", () => {
+        it("should accept classes, tests and annotations made of name characters", () => {
+            expect(validateTestSelection({ testClass: "com.example.app.LoginTest$Inner", testNames: ["testLogin"], annotation: "androidx.test.filters.SmallTest" }))
+                .toBeUndefined();
+        });
+
+        it.each([
+            [{ testClass: "LoginTest\" && reboot && \"" }, "LoginTest\" && reboot && \""],
+            [{ testClass: "LoginTest", testNames: ["testLogin", "test Logout"] }, "test Logout"],
+            [{ testClass: "all", annotation: "`reboot`" }, "`reboot`"],
+        ])("should reject %o", (selection, invalid) => {
+            expect(validateTestSelection(selection)).toBe(
+                `Invalid test selection '${invalid}': only letters, digits, '_', '.', '$', '#' and ',' are allowed`
+            );
+            expect(() => buildInstrumentCommand("emulator-5554", "com.example.app", selection)).toThrow(`Invalid test selection '${invalid}'`);
+        });
+    });
+
+    describe("describeTestSelection", () => {
+        it.each([
+            [{ testClass: "LoginTest", testNames: ["testLogin"] }, "LoginTest#testLogin"],
+            [{ testClass: "LoginTest", testNames: ["testLogin", "testLogout"] }, "2 tests of LoginTest"],
+            [{ testClass: "LoginTest" }, "LoginTest"],
+            [{ testClass: "all", annotation: "androidx.test.filters.SmallTest" }, "all tests annotated with @androidx.test.filters.SmallTest"],
+        ])("should describe %o as %s", (selection, expected) => {
+            expect(describeTestSelection(selection)).toBe(expected);
+        });
+    });
+
+    describe("parseInstrumentationOutput", () => {
+        it("should report the status and stack trace of each test", () => {
+            const output = [
+                statusBlock("com.example.app.LoginTest", "testLogin", 1),
+                statusBlock("com.example.app.LoginTest", "testLogin", 0),
+                statusBlock("com.example.app.LoginTest", "testLogout", 1),
+                "INSTRUMENTATION_STATUS: stack=java.lang.AssertionError: expected:<1> but was:<2>",
+                "\tat org.junit.Assert.fail(Assert.java:89)",
+                "",
+                statusBlock("com.example.app.LoginTest", "testLogout", -2),
+                statusBlock("com.example.app.LoginTest", "testIgnored", -3),
+                statusBlock("com.example.app.LoginTest", "testTablet", 1),
+                "INSTRUMENTATION_STATUS: stack=org.junit.AssumptionViolatedException: not a tablet",
+                statusBlock("com.example.app.LoginTest", "testTablet", -4),
+                "INSTRUMENTATION_RESULT: stream=",
+                "Tests run: 3, Failures: 1",
+                "INSTRUMENTATION_CODE: -1",
+            ].join("\n");
+
+            expect(parseInstrumentationOutput(output)).toEqual({
+                testCases: [
+                    { className: "com.example.app.LoginTest", testName: "testLogin", status: "passed" },
+                    {
+                        className: "com.example.app.LoginTest",
+                        testName: "testLogout",
+                        status: "failed",
+                        stackTrace: "java.lang.AssertionError: expected:<1> but was:<2>\n\tat org.junit.Assert.fail(Assert.java:89)",
+                    },
+                    { className: "com.example.app.LoginTest", testName: "testIgnored", status: "ignored" },
+                    {
+                        className: "com.example.app.LoginTest",
+                        testName: "testTablet",
+                        status: "assumption_failure",
+                        stackTrace: "org.junit.AssumptionViolatedException: not a tablet",
+                    },
+                ],
+                error: undefined,
+            });
+        });
+
+        it("should not fail passing tests whose logs mention exceptions", () => {
+            const output = [
+                statusBlock("com.example.app.LoginTest", "testLogin", 1),
+                "INSTRUMENTATION_STATUS: stream=java.lang.IllegalStateException handled by the app",
+                statusBlock("com.example.app.LoginTest", "testLogin", 2),
+                statusBlock("com.example.app.LoginTest", "testLogin", 0),
+                "INSTRUMENTATION_CODE: -1",
+            ].join("\n");
+
+            expect(isInstrumentationSuccessful(parseInstrumentationOutput(output))).toBe(true);
+        });
+
+        it("should fail the test that was running when the app crashed", () => {
+            const output = [
+                statusBlock("com.example.app.LoginTest", "testCrash", 1),
+                "INSTRUMENTATION_RESULT: shortMsg=Process crashed.",
+                "INSTRUMENTATION_CODE: 0",
+            ].join("\n");
+
+            const run = parseInstrumentationOutput(output);
+
+            expect(run.error).toBe("Process crashed.");
+            expect(run.testCases).toEqual([
+                { className: "com.example.app.LoginTest", testName: "testCrash", status: "failed", stackTrace: "Process crashed." },
+            ]);
+            expect(isInstrumentationSuccessful(run)).toBe(false);
+        });
+
+        it("should fail a run whose instrumentation could not start", () => {
+            // `am instrument -r` when the test APK is not installed
+            const output = [
+                "INSTRUMENTATION_STATUS: Error=Unable to find instrumentation info for: ComponentInfo{com.example.app.test/androidx.test.runner.AndroidJUnitRunner}",
+                "INSTRUMENTATION_STATUS: id=ActivityManagerService",
+                "INSTRUMENTATION_STATUS_CODE: -1",
+                "android.util.AndroidException: INSTRUMENTATION_FAILED: com.example.app.test/androidx.test.runner.AndroidJUnitRunner",
+                "\tat com.android.commands.am.Instrument.run(Instrument.java:519)",
+            ].join("\n");
+
+            const run = parseInstrumentationOutput(output);
+
+            expect(run.error).toBe(
+                "Unable to find instrumentation info for: ComponentInfo{com.example.app.test/androidx.test.runner.AndroidJUnitRunner}"
+            );
+            expect(run.testCases).toEqual([]);
+            expect(isInstrumentationSuccessful(run)).toBe(false);
+        });
+
+        it.each([
+            ["INSTRUMENTATION_FAILED: com.example.app.test/androidx.test.runner.AndroidJUnitRunner", "Instrumentation failed: com.example.app.test/androidx.test.runner.AndroidJUnitRunner"],
+            ["INSTRUMENTATION_CODE: -1", "No tests were run"],
+            ["adb: device offline", "The instrumentation output ended before the run completed"],
+        ])("should fail a run with the output %s", (output, error) => {
+            const run = parseInstrumentationOutput(output);
+
+            expect(run.error).toBe(error);
+            expect(isInstrumentationSuccessful(run)).toBe(false);
+        });
+    });
+
+    describe("InstrumentationParser", () => {
+        it("should measure durations from the arrival time of the output", () => {
+            const parser = new InstrumentationParser();
+
+            parser.push(`${statusBlock("com.example.app.LoginTest", "testLogin", 1)}\n`, 1000);
+            parser.push("INSTRUMENTATION_STATUS: class=com.example.app.LoginTest\nINSTRUMENTATION_STATUS: test=test", 2000);
+            parser.push("Login\nINSTRUMENTATION_STATUS_CODE: 0\n", 3500);
+            const run = parser.end(4000);
+
+            expect(run.testCases).toEqual([
+                { className: "com.example.app.LoginTest", testName: "testLogin", status: "passed", durationMs: 2500 },
+            ]);
+        });
+    });
+});
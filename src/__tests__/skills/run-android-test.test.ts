@@ -65,7 +65,6 @@ vi.mock("os", async (importOriginal) => {
 import {
     parseArgs,
     acquireDeviceLock,
-    hasTestFailureIndicators,
     extractLogcatErrors,
     extractFramesFromVideo,
     runAndroidTest,
@@ -143,8 +142,8 @@ describe("test-android (skills/run-android-test)", () => {
         });
 
         it("returns failure when project_dir is empty or whitespace", () => {
-            const r1 = parseArgs(["", "pkg", "Suite", "test"]);
-            const r2 = parseArgs(["  ", "pkg", "Suite", "test"]);
+            const r1 = parseArgs(["", "com.example.app", "Suite", "test"]);
+            const r2 = parseArgs(["  ", "com.example.app", "Suite", "test"]);
             expect(r1.ok).toBe(false);
             expect(r2.ok).toBe(false);
             if (!r1.ok) expect(r1.message).toContain("project_dir");
@@ -156,52 +155,56 @@ describe("test-android (skills/run-android-test)", () => {
             if (!r.ok) expect(r.message).toContain("package_name");
         });
 
+        it("returns failure when package_name is not a Java package name", () => {
+            const r1 = parseArgs(["/path", "com.example.app;reboot", "Suite", "test"]);
+            const r2 = parseArgs(["/path", "com.example app", "Suite", "test"]);
+            expect(r1.ok).toBe(false);
+            expect(r2.ok).toBe(false);
+            if (!r1.ok) expect(r1.message).toContain("Invalid package name 'com.example.app;reboot'");
+            if (!r2.ok) expect(r2.message).toContain("Invalid package name 'com.example app'");
+        });
+
         it("returns failure when test_suite_name is empty or whitespace", () => {
-            const r = parseArgs(["/path", "pkg", "", "test"]);
+            const r = parseArgs(["/path", "com.example.app", "", "test"]);
             expect(r.ok).toBe(false);
             if (!r.ok) expect(r.message).toContain("test_suite_name");
         });
 
         it("returns failure when test_name is empty or whitespace", () => {
-            const r = parseArgs(["/path", "pkg", "Suite", ""]);
+            const r = parseArgs(["/path", "com.example.app", "Suite", ""]);
             expect(r.ok).toBe(false);
             if (!r.ok) expect(r.message).toContain("test_name");
         });
-    });
-
-    describe("hasTestFailureIndicators", () => {
-        it("returns true when output contains FAILURES!!!", () => {
-            expect(hasTestFailureIndicators("Some output\nFAILURES!!!\nmore")).toBe(true);
-        });
-
-        it("returns true when Tests run has Failures >= 1", () => {
-            expect(hasTestFailureIndicators("Tests run: 3, Failures: 1")).toBe(true);
-            expect(hasTestFailureIndicators("Tests run: 10, Failures: 2")).toBe(true);
-        });
-
-        it("returns false when Failures is 0", () => {
-            expect(hasTestFailureIndicators("Tests run: 1, Failures: 0")).toBe(false);
-        });
 
-        it("returns true for INSTRUMENTATION_FAILED", () => {
-            expect(hasTestFailureIndicators("INSTRUMENTATION_FAILED")).toBe(true);
+        it("accepts an annotation filter anywhere in the arguments", () => {
+            const result = parseArgs(["--annotation", "androidx.test.filters.SmallTest", "/path", "com.example.app", "all", "all"]);
+            expect(result).toMatchObject({ ok: true, test_suite_name: "all", annotation: "androidx.test.filters.SmallTest" });
         });
 
-        it("returns true for INSTRUMENTATION_STATUS_CODE: -1", () => {
-            expect(hasTestFailureIndicators("INSTRUMENTATION_STATUS_CODE: -1")).toBe(true);
+        it("accepts a report file", () => {
+            const result = parseArgs(["/path", "com.example.app", "Suite", "all", "--report", "build/report.xml"]);
+            expect(result).toMatchObject({ ok: true, test_name: "all", report: "build/report.xml" });
         });
 
-        it("returns true for Java/Kotlin exceptions", () => {
-            expect(hasTestFailureIndicators("java.lang.AssertionError")).toBe(true);
-            expect(hasTestFailureIndicators("kotlin.KotlinNullPointerException")).toBe(true);
+        it("returns failure when the report file is not .xml or .json", () => {
+            const r = parseArgs(["/path", "com.example.app", "Suite", "all", "--report", "report.txt"]);
+            expect(r.ok).toBe(false);
+            if (!r.ok) expect(r.message).toContain("--report");
         });
 
-        it("returns true for Test failed", () => {
-            expect(hasTestFailureIndicators("Test failed")).toBe(true);
+        it("returns failure when all test classes are selected with a test_name", () => {
+            const r = parseArgs(["/path", "com.example.app", "all", "testFoo"]);
+            expect(r.ok).toBe(false);
+            if (!r.ok) expect(r.message).toContain("test_name");
         });
 
-        it("returns false for clean success output", () => {
-            expect(hasTestFailureIndicators("INSTRUMENTATION_CODE: 0\nOK (1 test)")).toBe(false);
+        it("returns failure when the tests or annotation contain shell characters", () => {
+            const r1 = parseArgs(["/path", "com.example.app", "Suite", "testFoo;reboot"]);
+            const r2 = parseArgs(["/path", "com.example.app", "all", "all", "--annotation", "$(reboot)"]);
+            expect(r1.ok).toBe(false);
+            expect(r2.ok).toBe(false);
+            if (!r1.ok) expect(r1.message).toContain("Invalid test selection 'testFoo;reboot'");
+            if (!r2.ok) expect(r2.message).toContain("Invalid test selection '$(reboot)'");
         });
     });
 
@@ -340,6 +343,19 @@ describe("test-android (skills/run-android-test)", () => {
         const testName = "testFoo";
         const promisifyKey = Symbol.for("nodejs.util.promisify.custom");
 
+        // Raw `am instrument -r` output of a passing test
+        const passingInstrumentOutput = [
+            "INSTRUMENTATION_STATUS: class=com.example.app.MySuite",
+            "INSTRUMENTATION_STATUS: test=testFoo",
+            "INSTRUMENTATION_STATUS_CODE: 1",
+            "INSTRUMENTATION_STATUS: class=com.example.app.MySuite",
+            "INSTRUMENTATION_STATUS: test=testFoo",
+            "INSTRUMENTATION_STATUS_CODE: 0",
+            "INSTRUMENTATION_RESULT: stream=",
+            "OK (1 test)",
+            "INSTRUMENTATION_CODE: -1",
+        ].join("\n");
+
         function getPromisifyExec(): Mock<(cmd: string, opts?: object) => Promise<{ stdout: string; stderr: string }>> {
             return (mockExec as unknown as Record<symbol, Mock<(cmd: string, opts?: object) => Promise<{ stdout: string; stderr: string }>>>)[promisifyKey];
         }
@@ -347,8 +363,10 @@ describe("test-android (skills/run-android-test)", () => {
         function setupPromisifyHappyPath() {
             getPromisifyExec().mockImplementation((cmd: string) => {
                 if (cmd.includes("adb devices")) return Promise.resolve({ stdout: "List of devices attached\nemulator-5554\tdevice\n\n", stderr: "" });
+                if (cmd.includes("getprop sys.boot_completed")) return Promise.resolve({ stdout: "1\n", stderr: "" });
+                if (cmd.includes("pm path android")) return Promise.resolve({ stdout: "package:/system/framework/framework-res.apk\n", stderr: "" });
                 if (cmd.includes("gradlew")) return Promise.resolve({ stdout: "BUILD SUCCESSFUL", stderr: "" });
-                if (cmd.includes("instrument")) return Promise.resolve({ stdout: "INSTRUMENTATION_CODE: 0", stderr: "" });
+                if (cmd.includes("instrument")) return Promise.resolve({ stdout: passingInstrumentOutput, stderr: "" });
                 if (cmd.includes("pull") || cmd.includes("uninstall") || cmd.includes("install")) return Promise.resolve({ stdout: "OK", stderr: "" });
                 return Promise.resolve({ stdout: "", stderr: "" });
             });
@@ -426,11 +444,13 @@ describe("test-android (skills/run-android-test)", () => {
                         stderr: "",
                     });
                 }
+                if (cmd.includes("getprop sys.boot_completed")) return Promise.resolve({ stdout: "1\n", stderr: "" });
+                if (cmd.includes("pm path android")) return Promise.resolve({ stdout: "package:/system/framework/framework-res.apk\n", stderr: "" });
                 if (cmd.includes("emulator -list-avds")) {
                     return Promise.resolve({ stdout: "Pixel_4_API_30\n", stderr: "" });
                 }
                 if (cmd.includes("gradlew")) return Promise.resolve({ stdout: "BUILD SUCCESSFUL", stderr: "" });
-                if (cmd.includes("instrument")) return Promise.resolve({ stdout: "INSTRUMENTATION_CODE: 0", stderr: "" });
+                if (cmd.includes("instrument")) return Promise.resolve({ stdout: passingInstrumentOutput, stderr: "" });
                 if (cmd.includes("pull") || cmd.includes("uninstall") || cmd.includes("install")) {
                     return Promise.resolve({ stdout: "OK", stderr: "" });
                 }
@@ -456,13 +476,12 @@ describe("test-android (skills/run-android-test)", () => {
             });
 
             const runPromise = runAndroidTest(projectDir, packageName, testSuiteName, testName);
-            // Advance past first poll (2000ms) and boot wait (10000ms) so emulator path completes
+            // Advance past the first readiness poll (2000ms) so the emulator path completes
             await vi.advanceTimersByTimeAsync(2000);
-            await vi.advanceTimersByTimeAsync(10000);
             const result = await runPromise;
 
             expect(result.success).toBe(true);
-            expect(result.output).toContain("INSTRUMENTATION_CODE: 0");
+            expect(result.output).toContain("OK (1 test)");
             expect(getPromisifyExec()).toHaveBeenCalledWith(expect.stringContaining("emulator -list-avds"));
             expect(mockExec).toHaveBeenCalledWith(
                 expect.stringMatching(/emulator -avd .+ -port 5554/),
@@ -481,13 +500,15 @@ describe("test-android (skills/run-android-test)", () => {
 
             const result = await runAndroidTest(projectDir, packageName, testSuiteName, testName);
             expect(result.success).toBe(true);
-            expect(result.output).toContain("INSTRUMENTATION_CODE: 0");
+            expect(result.output).toContain("OK (1 test)");
         });
 
         it("returns success: false and logcatErrors when instrumentation output has failure indicators", async () => {
             mockExistsSync.mockReturnValue(true);
             getPromisifyExec().mockImplementation((cmd: string) => {
                 if (cmd.includes("adb devices")) return Promise.resolve({ stdout: "List of devices attached\nemulator-5554\tdevice\n\n", stderr: "" });
+                if (cmd.includes("getprop sys.boot_completed")) return Promise.resolve({ stdout: "1\n", stderr: "" });
+                if (cmd.includes("pm path android")) return Promise.resolve({ stdout: "package:/system/framework/framework-res.apk\n", stderr: "" });
                 if (cmd.includes("gradlew")) return Promise.resolve({ stdout: "BUILD SUCCESSFUL", stderr: "" });
                 if (cmd.includes("instrument")) {
                     const err = Object.assign(new Error("fail"), {
@@ -510,12 +531,71 @@ describe("test-android (skills/run-android-test)", () => {
             expect(result.logcatErrors).toContain("Actual error");
         });
 
+        it("runs comma-separated tests in one instrumentation and reports each test case", async () => {
+            setupPromisifyHappyPath();
+            const happyPath = getPromisifyExec().getMockImplementation()!;
+            getPromisifyExec().mockImplementation((cmd: string, opts?: object) => {
+                if (cmd.includes("instrument")) {
+                    return Promise.resolve({
+                        stdout: [
+                            "INSTRUMENTATION_STATUS: class=com.example.app.MySuite",
+                            "INSTRUMENTATION_STATUS: test=testFoo",
+                            "INSTRUMENTATION_STATUS_CODE: 0",
+                            "INSTRUMENTATION_STATUS: class=com.example.app.MySuite",
+                            "INSTRUMENTATION_STATUS: test=testBar",
+                            "INSTRUMENTATION_STATUS_CODE: 0",
+                            "INSTRUMENTATION_CODE: -1",
+                        ].join("\n"),
+                        stderr: "",
+                    });
+                }
+                return happyPath(cmd, opts);
+            });
+            mockExistsSync.mockImplementation((p: fs.PathLike) => !String(p).includes("screenrecord"));
+
+            const result = await runAndroidTest(projectDir, packageName, testSuiteName, "testFoo, testBar");
+
+            expect(result.success).toBe(true);
+            expect(result.testCases.map((testCase) => testCase.testName)).toEqual(["testFoo", "testBar"]);
+            expect(getPromisifyExec()).toHaveBeenCalledWith(
+                expect.stringContaining("-e class 'com.example.app.MySuite#testFoo,com.example.app.MySuite#testBar'"),
+                expect.any(Object)
+            );
+            expect(getPromisifyExec()).toHaveBeenCalledWith(expect.stringContaining("screenrecord_testBar.mp4"));
+        });
+
+        it("clears logcat before the run and returns the crashes of the app", async () => {
+            setupPromisifyHappyPath();
+            const happyPath = getPromisifyExec().getMockImplementation()!;
+            getPromisifyExec().mockImplementation((cmd: string, opts?: object) => {
+                if (cmd.includes("logcat -d")) {
+                    return Promise.resolve({
+                        stdout: [
+                            "--------- beginning of crash",
+                            "10-19 10:03:05.123  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main",
+                            `10-19 10:03:05.123  4321  4321 E AndroidRuntime: Process: ${packageName}, PID: 4321`,
+                        ].join("\n"),
+                        stderr: "",
+                    });
+                }
+                return happyPath(cmd, opts);
+            });
+            mockExistsSync.mockImplementation((p: fs.PathLike) => !String(p).includes("screenrecord"));
+
+            const result = await runAndroidTest(projectDir, packageName, testSuiteName, testName);
+
+            expect(getPromisifyExec()).toHaveBeenCalledWith("adb -s emulator-5554 logcat -b all -c", expect.any(Object));
+            expect(result.deviceLogs?.crashes).toEqual([`FATAL EXCEPTION: main\nProcess: ${packageName}, PID: 4321`]);
+        });
+
         it("returns success when test passes even if cleanup (uninstall) fails", async () => {
             mockExistsSync.mockReturnValue(true);
             getPromisifyExec().mockImplementation((cmd: string) => {
                 if (cmd.includes("adb devices")) return Promise.resolve({ stdout: "List of devices attached\nemulator-5554\tdevice\n\n", stderr: "" });
+                if (cmd.includes("getprop sys.boot_completed")) return Promise.resolve({ stdout: "1\n", stderr: "" });
+                if (cmd.includes("pm path android")) return Promise.resolve({ stdout: "package:/system/framework/framework-res.apk\n", stderr: "" });
                 if (cmd.includes("gradlew")) return Promise.resolve({ stdout: "BUILD SUCCESSFUL", stderr: "" });
-                if (cmd.includes("instrument")) return Promise.resolve({ stdout: "INSTRUMENTATION_CODE: 0", stderr: "" });
+                if (cmd.includes("instrument")) return Promise.resolve({ stdout: passingInstrumentOutput, stderr: "" });
                 if (cmd.includes("pull") || cmd.includes("install")) return Promise.resolve({ stdout: "OK", stderr: "" });
                 if (cmd.includes("uninstall")) return Promise.reject(new Error("uninstall failed"));
                 return Promise.resolve({ stdout: "", stderr: "" });
@@ -528,7 +608,7 @@ describe("test-android (skills/run-android-test)", () => {
 
             const result = await runAndroidTest(projectDir, packageName, testSuiteName, testName);
             expect(result.success).toBe(true);
-            expect(result.output).toContain("INSTRUMENTATION_CODE: 0");
+            expect(result.output).toContain("OK (1 test)");
         });
     });
 });
@@ -68,11 +68,31 @@ import {
     getFirstIphoneSimulator,
     isSimulatorBooted,
     acquireDeviceLock,
-    hasTestFailureIndicators,
     extractFramesFromVideo,
     runIosTest,
 } from "../../../skills/run-ios-test/test-ios.js";
 
+// Result bundle fixtures are read with the real fs, which is mocked above
+const actualFs = await vi.importActual<typeof fs>("fs");
+
+/**
+ * Answers `xcrun xcresulttool get` with the fixture of the requested object id
+ */
+function xcresulttool(cmd: string, objects: Record<string, string>): Promise<{ stdout: string; stderr: string }> {
+    const id = /--id "([^"]+)"/.exec(cmd)?.[1] ?? "root";
+    if (!(id in objects)) {
+        return Promise.reject(new Error(`Error: Unknown object id ${id}`));
+    }
+    const stdout = actualFs.readFileSync(new URL(`../fixtures/xcresult/${objects[id]}`, import.meta.url), "utf-8");
+    return Promise.resolve({ stdout, stderr: "" });
+}
+
+const passedXcresult = {
+    root: "invocation-record-passed.json",
+    "0~tests-passed": "test-plan-run-summaries-passed.json",
+    "0~scrolling": "test-summary-passed.json",
+};
+
 describe("test-ios (skills/run-ios-test)", () => {
     const mockExec = vi.mocked(exec);
     const mockExistsSync = vi.mocked(fs.existsSync);
@@ -144,6 +164,17 @@ describe("test-ios (skills/run-ios-test)", () => {
             }
         });
 
+        it("accepts a report file", () => {
+            const result = parseArgs(["/path/to/iosApp", "testScrollingDownGesture", "--report", "report.json"]);
+            expect(result).toMatchObject({ ok: true, test_name: "testScrollingDownGesture", report: "report.json" });
+        });
+
+        it("returns failure when --report has no file", () => {
+            const r = parseArgs(["/path/to/iosApp", "testScrollingDownGesture", "--report"]);
+            expect(r.ok).toBe(false);
+            if (!r.ok) expect(r.message).toContain("--report");
+        });
+
         it("returns failure when project_dir is empty or whitespace", () => {
             const r1 = parseArgs(["", "testName"]);
             const r2 = parseArgs(["  ", "testName"]);
@@ -221,32 +252,6 @@ describe("test-ios (skills/run-ios-test)", () => {
         });
     });
 
-    describe("hasTestFailureIndicators", () => {
-        it("returns true when output contains Test Suite 'All tests' failed", () => {
-            expect(hasTestFailureIndicators("Test Suite 'All tests' failed")).toBe(true);
-        });
-
-        it("returns true when output contains Test Failed", () => {
-            expect(hasTestFailureIndicators("Test Failed")).toBe(true);
-        });
-
-        it("returns true for Test Suite 'SomeSuite' failed pattern", () => {
-            expect(hasTestFailureIndicators("Test Suite 'iosAppUITests' failed")).toBe(true);
-        });
-
-        it("returns true for BUILD FAILED", () => {
-            expect(hasTestFailureIndicators("BUILD FAILED")).toBe(true);
-        });
-
-        it("returns true for xcodebuild: error:", () => {
-            expect(hasTestFailureIndicators("xcodebuild: error: something went wrong")).toBe(true);
-        });
-
-        it("returns false for clean success output", () => {
-            expect(hasTestFailureIndicators("Test Suite 'All tests' passed\nExecuted 1 test")).toBe(false);
-        });
-    });
-
     describe("acquireDeviceLock", () => {
         it("acquires lock when mkdirSync succeeds and returns release callback", async () => {
             mockMkdirSync.mockImplementation(() => undefined);
@@ -396,6 +401,7 @@ describe("test-ios (skills/run-ios-test)", () => {
                 if (cmd.includes("xcodebuild test")) {
                     return Promise.resolve({ stdout: "Test Suite 'All tests' passed", stderr: "" });
                 }
+                if (cmd.includes("xcresulttool")) return xcresulttool(cmd, passedXcresult);
                 if (cmd.includes("xcparse") || cmd.includes("ffprobe") || cmd.includes("ffmpeg")) {
                     return Promise.resolve({ stdout: "", stderr: "" });
                 }
@@ -439,6 +445,7 @@ describe("test-ios (skills/run-ios-test)", () => {
                 if (cmd.includes("xcodebuild test")) {
                     return Promise.resolve({ stdout: "Test Suite 'All tests' passed", stderr: "" });
                 }
+                if (cmd.includes("xcresulttool")) return xcresulttool(cmd, passedXcresult);
                 if (cmd.includes("xcparse") || cmd.includes("ffprobe") || cmd.includes("ffmpeg")) {
                     return Promise.resolve({ stdout: "", stderr: "" });
                 }
@@ -475,7 +482,7 @@ describe("test-ios (skills/run-ios-test)", () => {
             expect(result.output).toContain("Test Suite 'All tests' passed");
         });
 
-        it("returns success: false when xcodebuild output has failure indicators", async () => {
+        it("returns success: false with the failures read from the result bundle", async () => {
             mockExistsSync.mockReturnValue(true);
             getPromisifyExec().mockImplementation((cmd: string) => {
                 if (cmd.includes("simctl list devices")) {
@@ -488,6 +495,15 @@ describe("test-ios (skills/run-ios-test)", () => {
                     });
                     return Promise.reject(err);
                 }
+                if (cmd.includes("xcresulttool")) {
+                    return xcresulttool(cmd, {
+                        root: "invocation-record-failed.json",
+                        "0~tests": "test-plan-run-summaries-failed.json",
+                        "0~login": "test-summary-failed.json",
+                        "0~scrolling": "test-summary-passed.json",
+                        "0~tablet": "test-summary-passed.json",
+                    });
+                }
                 if (cmd.includes("xcparse") || cmd.includes("ffprobe") || cmd.includes("ffmpeg")) {
                     return Promise.resolve({ stdout: "", stderr: "" });
                 }
@@ -503,6 +519,37 @@ describe("test-ios (skills/run-ios-test)", () => {
             const result = await runIosTest(projectDir, testName, simulator);
             expect(result.success).toBe(false);
             expect(result.output).toContain("Test Suite 'All tests' failed");
+            expect(result.testCases[0]).toMatchObject({
+                testName: "testLogin",
+                status: "failed",
+                failures: [{ message: "XCTAssertTrue failed - Login button should be visible", line: 42 }, { line: 47 }],
+            });
+            expect(result.report).toMatchObject({
+                platform: "ios",
+                name: testName,
+                testCases: [{ status: "failed" }, { status: "passed" }, { status: "skipped", runnerStatus: "skipped" }],
+            });
+        });
+
+        it("returns success: false when the result bundle cannot be read", async () => {
+            getPromisifyExec().mockImplementation((cmd: string) => {
+                if (cmd.includes("simctl list devices")) {
+                    return Promise.resolve({ stdout: "    iPhone 16 Pro (ABC-123-DEF) (Booted)", stderr: "" });
+                }
+                if (cmd.includes("xcodebuild test")) {
+                    return Promise.resolve({ stdout: "Test Suite 'All tests' passed", stderr: "" });
+                }
+                if (cmd.includes("xcresulttool")) return xcresulttool(cmd, {});
+                return Promise.resolve({ stdout: "", stderr: "" });
+            });
+            mockExistsSync.mockImplementation((p: fs.PathLike) => {
+                const pathStr = typeof p === "string" ? p : p.toString();
+                return !pathStr.includes("results_") && !pathStr.includes("frames_");
+            });
+
+            const result = await runIosTest(projectDir, testName, simulator);
+            expect(result.success).toBe(false);
+            expect(result.runError).toContain("Could not read test results from result bundle");
         });
 
         it("extracts frames from largest video when result bundle and attachments exist", async () => {
@@ -514,6 +561,7 @@ describe("test-ios (skills/run-ios-test)", () => {
                 if (cmd.includes("xcodebuild test")) {
                     return Promise.resolve({ stdout: "Test Suite 'All tests' passed", stderr: "" });
                 }
+                if (cmd.includes("xcresulttool")) return xcresulttool(cmd, passedXcresult);
                 if (cmd.includes("xcparse")) return Promise.resolve({ stdout: "", stderr: "" });
                 if (cmd.includes("ffprobe")) return Promise.resolve({ stdout: "2.0", stderr: "" });
                 if (cmd.includes("ffmpeg")) return Promise.resolve({ stdout: "", stderr: "" });
@@ -547,6 +595,7 @@ describe("test-ios (skills/run-ios-test)", () => {
                 if (cmd.includes("xcodebuild test")) {
                     return Promise.resolve({ stdout: "Test Suite 'All tests' passed", stderr: "" });
                 }
+                if (cmd.includes("xcresulttool")) return xcresulttool(cmd, passedXcresult);
                 if (cmd.includes("xcparse")) return Promise.reject(new Error("xcparse not found"));
                 return Promise.resolve({ stdout: "", stderr: "" });
             });
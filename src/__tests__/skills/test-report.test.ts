@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "fs";
+import {
+    createInstrumentationReport,
+    createXcresultReport,
+    getTestReportFormat,
+    toJsonReport,
+    toJUnitXml,
+    writeTestReport,
+    type TestReport,
+} from "../../../skills/shared/test-report.js";
+
+vi.mock("fs", async () => {
+    const actual = await vi.importActual<typeof fs>("fs");
+    return {
+        ...actual,
+        writeFileSync: vi.fn(),
+    };
+});
+
+describe("test-report (skills/shared)", () => {
+    const startTime = new Date("2026-10-19T10:02:51.874Z");
+    const mockWriteFileSync = vi.mocked(fs.writeFileSync);
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const androidReport = (): TestReport => createInstrumentationReport({
+        testCases: [
+            { className: "com.example.LoginTest", testName: "testLogin", status: "passed", durationMs: 1200 },
+            {
+                className: "com.example.LoginTest",
+                testName: "testLogout",
+                status: "failed",
+                durationMs: 800,
+                stackTrace: "java.lang.AssertionError: expected <true>\n\tat com.example.LoginTest.testLogout(LoginTest.kt:42)",
+            },
+            { className: "com.example.LoginTest", testName: "testTablet", status: "assumption_failure" },
+        ],
+    }, { name: "LoginTest", startTime, durationMs: 2500 });
+
+    describe("createInstrumentationReport", () => {
+        it("should map runner statuses and take the failure message from the stack trace", () => {
+            expect(androidReport().testCases).toEqual([
+                expect.objectContaining({ status: "passed", runnerStatus: "passed", failures: [] }),
+                expect.objectContaining({
+                    status: "failed",
+                    failures: [{ message: "java.lang.AssertionError: expected <true>", stackTrace: expect.stringContaining("LoginTest.kt:42") as unknown as string }],
+                }),
+                expect.objectContaining({ status: "skipped", runnerStatus: "assumption_failure" }),
+            ]);
+        });
+    });
+
+    describe("createXcresultReport", () => {
+        it("should count expected failures as passed", () => {
+            const report = createXcresultReport({
+                testCases: [{
+                    className: "iosAppUITests",
+                    testName: "testKnownIssue",
+                    status: "expected_failure",
+                    failures: [{ message: "Known issue" }],
+                    attachments: [],
+                }],
+            }, { name: "testKnownIssue", startTime });
+
+            expect(report.testCases[0]).toMatchObject({ status: "passed", runnerStatus: "expected_failure", failures: [] });
+        });
+    });
+
+    describe("toJUnitXml", () => {
+        it("should write a test suite per class", () => {
+            expect(toJUnitXml(androidReport())).toBe([
+                '<?xml version="1.0" encoding="UTF-8"?>',
+                '<testsuites name="LoginTest" tests="3" failures="1" errors="0" skipped="1" time="2.500">',
+                '  <testsuite name="com.example.LoginTest" tests="3" failures="1" errors="0" skipped="1" time="2.000" timestamp="2026-10-19T10:02:51">',
+                '    <testcase classname="com.example.LoginTest" name="testLogin" time="1.200"/>',
+                '    <testcase classname="com.example.LoginTest" name="testLogout" time="0.800">',
+                '      <failure message="java.lang.AssertionError: expected &lt;true&gt;">java.lang.AssertionError: expected &lt;true&gt;',
+                "\tat com.example.LoginTest.testLogout(LoginTest.kt:42)</failure>",
+                "    </testcase>",
+                '    <testcase classname="com.example.LoginTest" name="testTablet" time="0.000">',
+                '      <skipped message="assumption_failure"/>',
+                "    </testcase>",
+                "  </testsuite>",
+                "</testsuites>",
+                "",
+            ].join("\n"));
+        });
+
+        it("should report an error that stopped the run as an errored test case", () => {
+            const xml = toJUnitXml(createInstrumentationReport(
+                { testCases: [], error: "Instrumentation failed: Unable to find instrumentation info" },
+                { name: "all tests", startTime }
+            ));
+
+            expect(xml).toContain('<testsuites name="all tests" tests="1" failures="0" errors="1" skipped="0" time="0.000">');
+            expect(xml).toContain('<error message="Instrumentation failed: Unable to find instrumentation info">');
+        });
+
+        it("should include the file and line of iOS failures", () => {
+            const xml = toJUnitXml(createXcresultReport({
+                testCases: [{
+                    className: "iosAppUITests",
+                    testName: "testLogin",
+                    status: "failed",
+                    failures: [{ message: "XCTAssertTrue failed - \"Sign in\" & \"Log in\"", file: "/Users/runner/iosAppUITests.swift", line: 42 }],
+                    attachments: [],
+                }],
+            }, { name: "testLogin", startTime }));
+
+            expect(xml).toContain(
+                '<failure message="XCTAssertTrue failed - &quot;Sign in&quot; &amp; &quot;Log in&quot;">/Users/runner/iosAppUITests.swift:42\n'
+                + "XCTAssertTrue failed - &quot;Sign in&quot; &amp; &quot;Log in&quot;</failure>"
+            );
+        });
+    });
+
+    describe("toJsonReport", () => {
+        it("should write the versioned schema with snake_case keys", () => {
+            expect(JSON.parse(toJsonReport(androidReport()))).toEqual({
+                schema_version: 1,
+                name: "LoginTest",
+                platform: "android",
+                timestamp: "2026-10-19T10:02:51.874Z",
+                duration_ms: 2500,
+                success: false,
+                summary: { tests: 3, passed: 1, failed: 1, skipped: 1 },
+                test_cases: [
+                    { class_name: "com.example.LoginTest", test_name: "testLogin", status: "passed", runner_status: "passed", duration_ms: 1200, failures: [] },
+                    {
+                        class_name: "com.example.LoginTest",
+                        test_name: "testLogout",
+                        status: "failed",
+                        runner_status: "failed",
+                        duration_ms: 800,
+                        failures: [{ message: "java.lang.AssertionError: expected <true>", stack_trace: expect.any(String) as unknown as string }],
+                    },
+                    { class_name: "com.example.LoginTest", test_name: "testTablet", status: "skipped", runner_status: "assumption_failure", failures: [] },
+                ],
+            });
+        });
+    });
+
+    describe("writeTestReport", () => {
+        it.each([
+            ["build/report.xml", "junit", /^<\?xml/],
+            ["build/report.JSON", "json", /^\{/],
+        ])("should write %s as %s", (path, format, content) => {
+            expect(getTestReportFormat(path)).toBe(format);
+
+            writeTestReport(androidReport(), path);
+
+            expect(mockWriteFileSync).toHaveBeenCalledWith(path, expect.stringMatching(content));
+        });
+
+        it("should reject other files", () => {
+            expect(() => writeTestReport(androidReport(), "report.txt")).toThrow("Unsupported report file report.txt");
+        });
+    });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { exec } from "child_process";
+import { readFileSync } from "fs";
+import {
+    isXcresultSuccessful,
+    parseInvocationRecord,
+    parseTestPlanRunSummaries,
+    parseTestSummary,
+    readXcresult,
+} from "../../../skills/shared/xcresult.js";
+
+// Mock child_process.exec - must be done before importing the module
+vi.mock("child_process", () => {
+    type ExecCallback = ((error: Error | null, stdout: string, stderr: string) => void) | undefined;
+    type ExecOptions = Record<string, unknown> | undefined;
+
+    const exec = vi.fn((command: string, optionsOrCallback?: ExecOptions | ExecCallback, callback?: ExecCallback) => {
+        const actualCallback: ExecCallback = typeof optionsOrCallback === "function" ? optionsOrCallback : callback;
+        if (actualCallback) {
+            actualCallback(null, "", "");
+        }
+        return {} as ReturnType<typeof import("child_process").exec>;
+    });
+    // @ts-expect-error - Symbol.for is not recognized by TypeScript for this use case
+    exec[Symbol.for("nodejs.util.promisify.custom")] = vi.fn((command: string, options?: ExecOptions) => {
+        return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+            exec(command, typeof options === "object" ? options : {}, (error: Error | null, stdout: string, stderr: string) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            });
+        });
+    });
+    return { exec };
+});
+
+/**
+ * Reads a fixture written by `xcrun xcresulttool get --legacy --format json`
+ */
+function readFixture(name: string): string {
+    return readFileSync(new URL(`../fixtures/xcresult/${name}`, import.meta.url), "utf-8");
+}
+
+function loadFixture(name: string): unknown {
+    return JSON.parse(readFixture(name));
+}
+
+describe("xcresult (skills/shared)", () => {
+    const bundlePath = "/home/test/PistachioMCPProjects/test-uuid.xcresult";
+    const mockExec = vi.mocked(exec);
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    /**
+     * Answers xcresulttool with the fixture of each object id
+     */
+    const mockXcresulttool = (objects: Record<string, string>) => {
+        mockExec.mockImplementation((command, opts, cb) => {
+            const callback = typeof opts === "function" ? opts : cb;
+            const id = /--id "([^"]+)"/.exec(command)?.[1] ?? "root";
+            const fixture = objects[id];
+            if (fixture) {
+                callback?.(null, readFixture(fixture), "");
+            } else {
+                callback?.(new Error(`Error: Unknown object id ${id}`), "", "");
+            }
+            return {} as ReturnType<typeof import("child_process").exec>;
+        });
+    };
+
+    describe("parseInvocationRecord", () => {
+        it("should find the test results of the test action", () => {
+            expect(parseInvocationRecord(loadFixture("invocation-record-failed.json"))).toEqual({ testsRefIds: ["0~tests"], errors: [] });
+        });
+
+        it("should report build errors", () => {
+            expect(parseInvocationRecord(loadFixture("invocation-record-build-failed.json"))).toEqual({
+                testsRefIds: [],
+                errors: ["Cannot find 'LoginView' in scope"],
+            });
+        });
+    });
+
+    describe("parseTestPlanRunSummaries", () => {
+        it("should flatten the test groups into test cases with status and duration", () => {
+            const testCases = parseTestPlanRunSummaries(loadFixture("test-plan-run-summaries-failed.json"));
+
+            expect(testCases).toEqual([
+                expect.objectContaining({ className: "iosAppUITests", testName: "testLogin", status: "failed", durationMs: 9216, summaryRefId: "0~login" }),
+                expect.objectContaining({ className: "iosAppUITests", testName: "testScrollingDownGesture", status: "passed", durationMs: 12481 }),
+                expect.objectContaining({ className: "iosAppUITests", testName: "testTabletLayout", status: "skipped", durationMs: 31 }),
+            ]);
+        });
+    });
+
+    describe("parseTestSummary", () => {
+        it("should read failures with their file and line", () => {
+            const { failures } = parseTestSummary(loadFixture("test-summary-failed.json"));
+
+            expect(failures).toEqual([
+                {
+                    message: "XCTAssertTrue failed - Login button should be visible",
+                    file: "/Users/runner/PistachioMCPProjects/test-project/iosApp/iosAppUITests/iosAppUITests.swift",
+                    line: 42,
+                },
+                {
+                    message: expect.stringContaining("No matches found") as unknown as string,
+                    file: "/Users/runner/PistachioMCPProjects/test-project/iosApp/iosAppUITests/iosAppUITests.swift",
+                    line: 47,
+                },
+            ]);
+        });
+
+        it("should collect the attachments of nested activities", () => {
+            const { attachments } = parseTestSummary(loadFixture("test-summary-failed.json"));
+
+            expect(attachments).toEqual([
+                { name: "Login screen", filename: "Login screen_1_5F1D2C3B-4A59-6877-8695-A4B3C2D1E0F9.png", uniformTypeIdentifier: "public.png" },
+                {
+                    name: "Screen Recording",
+                    filename: "Screen Recording_1_9C8B7A6F-5E4D-3C2B-1A09-F8E7D6C5B4A3.mp4",
+                    uniformTypeIdentifier: "public.mpeg-4",
+                },
+            ]);
+        });
+    });
+
+    describe("readXcresult", () => {
+        it("should read the summary of each test from the bundle", async () => {
+            mockXcresulttool({
+                root: "invocation-record-failed.json",
+                "0~tests": "test-plan-run-summaries-failed.json",
+                "0~login": "test-summary-failed.json",
+                "0~scrolling": "test-summary-passed.json",
+                "0~tablet": "test-summary-passed.json",
+            });
+
+            const run = await readXcresult(bundlePath);
+
+            expect(mockExec).toHaveBeenCalledWith(
+                `xcrun xcresulttool get --legacy --format json --path "${bundlePath}" --id "0~login"`,
+                expect.any(Object),
+                expect.any(Function)
+            );
+            expect(run.error).toBeUndefined();
+            expect(run.testCases[0]).toMatchObject({ testName: "testLogin", failures: [{ line: 42 }, { line: 47 }] });
+            expect(isXcresultSuccessful(run)).toBe(false);
+        });
+
+        it("should fail the run with the build errors", async () => {
+            mockXcresulttool({ root: "invocation-record-build-failed.json" });
+
+            const run = await readXcresult(bundlePath);
+
+            expect(run).toEqual({ testCases: [], error: "Cannot find 'LoginView' in scope" });
+            expect(isXcresultSuccessful(run)).toBe(false);
+        });
+
+        it("should throw when the bundle cannot be read", async () => {
+            mockXcresulttool({});
+
+            await expect(readXcresult(bundlePath)).rejects.toThrow("Unknown object id root");
+        });
+    });
+
+    describe("isXcresultSuccessful", () => {
+        it("should not fail the run for skipped tests and expected failures", () => {
+            const testCase = { className: "iosAppUITests", failures: [], attachments: [] };
+
+            expect(isXcresultSuccessful({
+                testCases: [
+                    { ...testCase, testName: "testLogin", status: "passed" },
+                    { ...testCase, testName: "testTabletLayout", status: "skipped" },
+                    { ...testCase, testName: "testKnownIssue", status: "expected_failure" },
+                ],
+            })).toBe(true);
+        });
+    });
+});
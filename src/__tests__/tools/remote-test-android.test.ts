@@ -104,6 +104,12 @@ vi.mock("../../utils/Logger.js", () => ({
     },
 }));
 
+// Mock the host-wide device lock, which lives in the temp directory
+vi.mock("../../../skills/shared/device-lock.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../../../skills/shared/device-lock.js")>(),
+    acquireDeviceFileLock: vi.fn(() => Promise.resolve({ release: () => true })),
+}));
+
 describe("remoteTestAndroidTool", () => {
     const mockExec = vi.mocked(exec);
     const mockExistsSync = vi.mocked(fs.existsSync);
@@ -118,6 +124,19 @@ describe("remoteTestAndroidTool", () => {
     }
     let commandResponses: { pattern: string | RegExp; response: CommandResponse }[] = [];
 
+    // Raw `am instrument -r` output of a passing test
+    const passingInstrumentOutput = [
+        "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.AndroidInstrumentedTest",
+        "INSTRUMENTATION_STATUS: test=ScrollingInstrumentedTest",
+        "INSTRUMENTATION_STATUS_CODE: 1",
+        "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.AndroidInstrumentedTest",
+        "INSTRUMENTATION_STATUS: test=ScrollingInstrumentedTest",
+        "INSTRUMENTATION_STATUS_CODE: 0",
+        "INSTRUMENTATION_RESULT: stream=",
+        "OK (1 test)",
+        "INSTRUMENTATION_CODE: -1",
+    ].join("\n");
+
     const testArgs = {
         project_id: "test-project",
         test_name: "ScrollingInstrumentedTest",
@@ -146,12 +165,16 @@ describe("remoteTestAndroidTool", () => {
                 res = match.response;
             } else if (command.includes("adb devices")) {
                 res = { stdout: "List of devices attached\n\n", stderr: "" };
+            } else if (command.includes("getprop sys.boot_completed")) {
+                res = { stdout: "1\n", stderr: "" };
+            } else if (command.includes("pm path android")) {
+                res = { stdout: "package:/system/framework/framework-res.apk\n", stderr: "" };
             } else if (command.includes("emulator -list-avds")) {
                 res = { stdout: "Medium_Phone_API_36.1\n", stderr: "" };
             } else if (command.includes("gradlew")) {
                 res = { stdout: "BUILD SUCCESSFUL", stderr: "" };
             } else if (command.includes("instrument")) {
-                res = { stdout: "INSTRUMENTATION_CODE: 0", stderr: "" };
+                res = { stdout: passingInstrumentOutput, stderr: "" };
             }
 
             if (callback) {
@@ -263,8 +286,14 @@ describe("remoteTestAndroidTool", () => {
                     callCount++;
                     if (callCount < 3) res = { stdout: "List of devices attached\n\n", stderr: "" };
                     else res = { stdout: "List of devices attached\nemulator-5554\tdevice\n\n", stderr: "" };
+                } else if (command.includes("getprop sys.boot_completed")) {
+                    res = { stdout: "1\n", stderr: "" };
+                } else if (command.includes("pm path android")) {
+                    res = { stdout: "package:/system/framework/framework-res.apk\n", stderr: "" };
                 } else if (command.includes("emulator -list-avds")) {
                     res = { stdout: "Medium_Phone_API_36.1\n", stderr: "" };
+                } else if (command.includes("instrument")) {
+                    res = { stdout: passingInstrumentOutput, stderr: "" };
                 }
                 if (callback) callback(null, res.stdout, res.stderr);
                 return {} as ReturnType<typeof import("child_process").exec>;
@@ -304,10 +333,32 @@ describe("remoteTestAndroidTool", () => {
         });
 
         it("should capture output when test passes", async () => {
-            mockExecResponse("Tests run: 1, Failures: 0\nINSTRUMENTATION_CODE: 0", "", false, "instrument");
+            mockExecResponse(passingInstrumentOutput, "", false, "instrument");
             const result = await remoteTestAndroidTool.handler(testArgs);
             expect(result.success).toBe(true);
-            expect(result.output).toContain("INSTRUMENTATION_CODE: 0");
+            expect(result.output).toContain("OK (1 test)");
+        });
+
+        it("should pass a test whose logs mention an exception", async () => {
+            mockExecResponse(`java.lang.IllegalStateException: retried by the app\n${passingInstrumentOutput}`, "", false, "instrument");
+            const result = await remoteTestAndroidTool.handler(testArgs);
+            expect(result.success).toBe(true);
+        });
+
+        it("should fail the test that was running when the app crashed", async () => {
+            mockExecResponse([
+                "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.AndroidInstrumentedTest",
+                "INSTRUMENTATION_STATUS: test=ScrollingInstrumentedTest",
+                "INSTRUMENTATION_STATUS_CODE: 1",
+                "INSTRUMENTATION_RESULT: shortMsg=Process crashed.",
+                "INSTRUMENTATION_CODE: 0",
+            ].join("\n"), "", false, "instrument");
+            const result = await remoteTestAndroidTool.handler(testArgs);
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("Run failed: Process crashed.");
+            expect(result).toMatchObject({
+                structuredContent: { test_cases: [{ test_name: "ScrollingInstrumentedTest", status: "failed", stack_trace: "Process crashed." }] },
+            });
         });
 
         it("should capture output when test fails", async () => {
@@ -318,7 +369,7 @@ describe("remoteTestAndroidTool", () => {
         });
 
         it("should extract logcat errors from output", async () => {
-            mockExecResponse("ERROR_LOGS_START\nError line 1\nERROR_LOGS_END", "", false, "instrument");
+            mockExecResponse(`ERROR_LOGS_START\nError line 1\nERROR_LOGS_END\n${passingInstrumentOutput}`, "", false, "instrument");
             const result = await remoteTestAndroidTool.handler(testArgs);
             expect(result.output).toBe("Error line 1");
         });
@@ -353,6 +404,217 @@ describe("remoteTestAndroidTool", () => {
         });
     });
 
+    describe("Test Report", () => {
+        beforeEach(() => {
+            mockExecResponse("List of devices attached\nemulator-5554\tdevice\n\n", "", false, "adb devices");
+        });
+
+        it("should upload the report as JUnit XML and JSON next to the recording", async () => {
+            const result = await remoteTestAndroidTool.handler(testArgs);
+            expect(mocks.mockBucket.file).toHaveBeenCalledWith("test-project/test-uuid-123.xml");
+            expect(mocks.mockFile.save).toHaveBeenCalledWith(
+                expect.stringContaining('<testcase classname="com.jetbrains.kmpapp.AndroidInstrumentedTest" name="ScrollingInstrumentedTest"'),
+                { metadata: { contentType: "application/xml" } }
+            );
+            expect(mocks.mockFile.save).toHaveBeenCalledWith(
+                expect.stringContaining('"schema_version": 1'),
+                { metadata: { contentType: "application/json" } }
+            );
+            expect(result).toMatchObject({
+                structuredContent: {
+                    junit_report: "https://storage.googleapis.com/dev-pistachio-assets-weekly-expiring/test-project/test-uuid-123.xml",
+                    json_report: "https://storage.googleapis.com/dev-pistachio-assets-weekly-expiring/test-project/test-uuid-123.json",
+                },
+                links: [
+                    { name: "screenrecord.mp4" },
+                    { name: "report.xml", mimeType: "application/xml" },
+                    { name: "report.json", mimeType: "application/json" },
+                ],
+            });
+        });
+
+        it("should leave out a report that could not be uploaded", async () => {
+            // The recording is uploaded first, then the JUnit XML and JSON reports
+            mocks.mockFile.save
+                .mockResolvedValueOnce(undefined)
+                .mockRejectedValueOnce(new Error("Upload failed"))
+                .mockRejectedValueOnce(new Error("Upload failed"));
+            const result = await remoteTestAndroidTool.handler(testArgs);
+            expect(result.success).toBe(true);
+            expect(result).toMatchObject({ links: [{ name: "screenrecord.mp4" }] });
+            expect(result).toMatchObject({ structuredContent: { junit_report: undefined, json_report: undefined } });
+            expect(mockLoggerWarn).toHaveBeenCalledWith(
+                expect.objectContaining({ project_id: "test-project", report_format: "xml", error_message: "Upload failed" }),
+                "Could not upload test report to GCS"
+            );
+        });
+    });
+
+    describe("Device Logs", () => {
+        const crashedInstrumentOutput = [
+            "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.AndroidInstrumentedTest",
+            "INSTRUMENTATION_STATUS: test=ScrollingInstrumentedTest",
+            "INSTRUMENTATION_STATUS_CODE: 1",
+            "INSTRUMENTATION_RESULT: shortMsg=Process crashed.",
+            "INSTRUMENTATION_CODE: 0",
+        ].join("\n");
+
+        const crashedLogcat = [
+            "--------- beginning of system",
+            "10-19 10:03:01.002   512   540 I ActivityManager: Start proc 4321:com.jetbrains.kmpapp/u0a190 for added application com.jetbrains.kmpapp",
+            "--------- beginning of main",
+            "10-19 10:03:02.117  4321  4321 W Compose : Slow frame",
+            "10-19 10:03:02.120   888   888 I chatty  : uid=1000 system_server identical 2 lines",
+            "--------- beginning of crash",
+            "10-19 10:03:05.123  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main",
+            "10-19 10:03:05.123  4321  4321 E AndroidRuntime: Process: com.jetbrains.kmpapp, PID: 4321",
+            "10-19 10:03:05.123  4321  4321 E AndroidRuntime: java.lang.IllegalStateException: boom",
+        ].join("\n");
+
+        beforeEach(() => {
+            mockExecResponse("List of devices attached\nemulator-5554\tdevice\n\n", "", false, "adb devices");
+        });
+
+        it("should clear logcat before the run and return the crash of the app", async () => {
+            mockExecResponse(crashedInstrumentOutput, "", false, "instrument");
+            mockExecResponse(crashedLogcat, "", false, "logcat -d");
+            const result = await remoteTestAndroidTool.handler(testArgs);
+
+            expect(mockExec).toHaveBeenCalledWith("adb -s emulator-5554 logcat -b all -c", expect.any(Object), expect.any(Function));
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("Crash:\nFATAL EXCEPTION: main\nProcess: com.jetbrains.kmpapp, PID: 4321\njava.lang.IllegalStateException: boom");
+            expect(mocks.mockFile.save).toHaveBeenCalledWith(
+                expect.stringContaining("10-19 10:03:02.117 4321 WARNING Compose: Slow frame"),
+                { metadata: { contentType: "text/plain" } }
+            );
+            expect(result).toMatchObject({
+                structuredContent: {
+                    device_logs: "https://storage.googleapis.com/dev-pistachio-assets-weekly-expiring/test-project/test-uuid-123.log",
+                    device_log_summary: { crashes: 1, warning: 1, info: 1, error: 0 },
+                },
+                links: [
+                    { name: "screenrecord.mp4" },
+                    { name: "report.xml" },
+                    { name: "report.json" },
+                    { name: "device.log", mimeType: "text/plain" },
+                ],
+            });
+        });
+
+        it("should run the tests when logcat cannot be read", async () => {
+            mockExecResponse("", "error: closed", true, "logcat");
+            const result = await remoteTestAndroidTool.handler(testArgs);
+
+            expect(result.success).toBe(true);
+            expect(result).toMatchObject({ structuredContent: { device_logs: undefined, device_log_summary: undefined } });
+            expect(mockLoggerWarn).toHaveBeenCalledWith(
+                expect.objectContaining({ project_id: "test-project", serial: "emulator-5554" }),
+                "Could not clear logcat"
+            );
+        });
+    });
+
+    describe("Test Selection", () => {
+        const rawOutput = [
+            "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.LoginTest",
+            "INSTRUMENTATION_STATUS: test=testLogin",
+            "INSTRUMENTATION_STATUS_CODE: 1",
+            "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.LoginTest",
+            "INSTRUMENTATION_STATUS: test=testLogin",
+            "INSTRUMENTATION_STATUS_CODE: 0",
+            "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.LoginTest",
+            "INSTRUMENTATION_STATUS: test=testLogout",
+            "INSTRUMENTATION_STATUS_CODE: 1",
+            "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.LoginTest",
+            "INSTRUMENTATION_STATUS: test=testLogout",
+            "INSTRUMENTATION_STATUS_CODE: -2",
+            "FAILURES!!!",
+        ].join("\n");
+
+        beforeEach(() => {
+            mockExecResponse("List of devices attached\nemulator-5554\tdevice\n\n", "", false, "adb devices");
+        });
+
+        it("should run several tests of a class with one install and report each test case", async () => {
+            mockExecResponse(rawOutput, "", true, "instrument");
+            mockReaddirSync.mockReturnValue(["frame_0001.jpg"] as unknown as ReturnType<typeof fs.readdirSync>);
+
+            const result = await remoteTestAndroidTool.handler({
+                project_id: "test-project",
+                package_name: "com.jetbrains.kmpapp",
+                test_class: "LoginTest",
+                test_names: ["testLogin", "testLogout"],
+            });
+
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("-e class 'com.jetbrains.kmpapp.LoginTest#testLogin,com.jetbrains.kmpapp.LoginTest#testLogout'"),
+                expect.any(Object),
+                expect.any(Function)
+            );
+            expect(mockExec.mock.calls.filter(([command]) => command.includes("install -r"))).toHaveLength(2);
+            expect(result.success).toBe(false);
+            expect(result).toMatchObject({
+                structuredContent: {
+                    test_cases: [
+                        { class_name: "com.jetbrains.kmpapp.LoginTest", test_name: "testLogin", status: "passed" },
+                        { class_name: "com.jetbrains.kmpapp.LoginTest", test_name: "testLogout", status: "failed" },
+                    ],
+                },
+            });
+            expect(result.output).toContain("FAILED com.jetbrains.kmpapp.LoginTest#testLogout");
+            // Both recordings are linked, but only the failed test's frames are returned
+            expect(result).toMatchObject({
+                links: [
+                    { name: "screenrecord_testLogin.mp4" },
+                    { name: "screenrecord_testLogout.mp4" },
+                    { name: "report.xml" },
+                    { name: "report.json" },
+                ],
+            });
+            expect(result.images).toHaveLength(1);
+        });
+
+        it("should run every test with an annotation", async () => {
+            await remoteTestAndroidTool.handler({
+                project_id: "test-project",
+                package_name: "com.jetbrains.kmpapp",
+                test_class: "all",
+                annotation: "androidx.test.filters.SmallTest",
+            });
+
+            expect(mockExec).toHaveBeenCalledWith(
+                "adb -s emulator-5554 shell am instrument -w -r -e annotation 'androidx.test.filters.SmallTest' com.jetbrains.kmpapp.test/androidx.test.runner.AndroidJUnitRunner",
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should reject test names without a test class", async () => {
+            const result = await remoteTestAndroidTool.handler({ ...testArgs, test_class: "all" });
+
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("test_name and test_names need a test_class");
+        });
+
+        it("should reject test names the device shell would interpret", async () => {
+            const result = await remoteTestAndroidTool.handler({ ...testArgs, test_names: ["testLogin\" && reboot && \""] });
+
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("Invalid test selection 'testLogin\" && reboot && \"'");
+            expect(mockExec).not.toHaveBeenCalledWith(expect.stringContaining("reboot"), expect.anything(), expect.anything());
+        });
+
+        it.each(["com.jetbrains.kmpapp;reboot", "com.jetbrains kmpapp"])("should reject the package name %s", (packageName) => {
+            const parsed = remoteTestAndroidTool.inputSchema.safeParse({ ...testArgs, package_name: packageName });
+
+            expect(parsed.success).toBe(false);
+            expect(parsed.error?.issues[0]).toMatchObject({
+                path: ["package_name"],
+                message: "Must be a Java package name such as 'com.example.app'",
+            });
+        });
+    });
+
     describe("Full Happy Path", () => {
         it("should complete full happy path successfully", async () => {
             mockExecResponse("List of devices attached\nemulator-5554\tdevice\n\n", "", false, "adb devices");
@@ -56,6 +56,32 @@ vi.mock("fs", async () => {
     };
 });
 
+// Result bundle fixtures are read with the real fs, which is mocked below
+const actualFs = await vi.importActual<typeof fs>("fs");
+
+/**
+ * Reads a fixture written by `xcrun xcresulttool get --legacy --format json`
+ */
+function readXcresultFixture(name: string): string {
+    return actualFs.readFileSync(new URL(`../fixtures/xcresult/${name}`, import.meta.url), "utf-8");
+}
+
+// Objects of the result bundle of a passing run of testScrollingDownGesture, by id
+const passedXcresult: Record<string, string> = {
+    root: "invocation-record-passed.json",
+    "0~tests-passed": "test-plan-run-summaries-passed.json",
+    "0~scrolling": "test-summary-passed.json",
+};
+
+// Objects of the result bundle of a run where testLogin failed
+const failedXcresult: Record<string, string> = {
+    root: "invocation-record-failed.json",
+    "0~tests": "test-plan-run-summaries-failed.json",
+    "0~login": "test-summary-failed.json",
+    "0~scrolling": "test-summary-passed.json",
+    "0~tablet": "test-summary-passed.json",
+};
+
 // Mock os.homedir
 vi.mock("os", () => ({
     homedir: vi.fn(() => "/home/test"),
@@ -104,6 +130,12 @@ vi.mock("../../utils/Logger.js", () => ({
     },
 }));
 
+// Mock the host-wide device lock, which lives in the temp directory
+vi.mock("../../../skills/shared/device-lock.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../../../skills/shared/device-lock.js")>(),
+    acquireDeviceFileLock: vi.fn(() => Promise.resolve({ release: () => true })),
+}));
+
 describe("remoteTestIosTool", () => {
     const mockExec = vi.mocked(exec);
     const mockExistsSync = vi.mocked(fs.existsSync);
@@ -118,6 +150,7 @@ describe("remoteTestIosTool", () => {
         error?: Error;
     }
     let commandResponses: { pattern: string | RegExp; response: CommandResponse }[] = [];
+    let xcresultObjects: Record<string, string>;
 
     const testArgs = {
         project_id: "test-project",
@@ -126,15 +159,33 @@ describe("remoteTestIosTool", () => {
 
     const SIMULATOR_UDID = "ABC123-4567-8901";
     const SIMULATOR_NAME = "iPhone 17 Pro Max";
-    const simulatorListOutput = `== Devices ==
--- iOS 26.2 --
-    ${SIMULATOR_NAME} (${SIMULATOR_UDID}) (Booted)
-    iPhone 15 Pro (DEF456-7890-1234) (Shutdown)`;
+    const RUNTIME = "com.apple.CoreSimulator.SimRuntime.iOS-26-2";
+
+    // Output of `xcrun simctl list devices -j` with the simulator in the given state
+    const simulatorList = (state: string) => JSON.stringify({
+        devices: {
+            [RUNTIME]: [
+                { udid: SIMULATOR_UDID, name: SIMULATOR_NAME, state, isAvailable: true },
+                { udid: "DEF456-7890-1234", name: "iPhone 15 Pro", state: "Shutdown", isAvailable: true },
+            ],
+            "com.apple.CoreSimulator.SimRuntime.iOS-18-6": [
+                { udid: "OLD123-4567-8901", name: SIMULATOR_NAME, state: "Booted", isAvailable: true },
+            ],
+            "com.apple.CoreSimulator.SimRuntime.watchOS-26-2": [
+                { udid: "WATCH1-2345-6789", name: "Apple Watch Ultra 3 (49mm)", state: "Shutdown", isAvailable: true },
+            ],
+        },
+    });
+    const simulatorListOutput = simulatorList("Booted");
 
-    const simulatorListAvailableOutput = `== Devices ==
--- iOS 26.2 --
-    ${SIMULATOR_NAME} (${SIMULATOR_UDID}) (Available)
-    iPhone 15 Pro (DEF456-7890-1234) (Available)`;
+    // Output of `xcrun simctl list runtimes -j`
+    const supportedDeviceTypes = [{ name: SIMULATOR_NAME }, { name: "iPhone 15 Pro" }, { name: "iPad Pro 13-inch (M4)" }];
+    const runtimeListOutput = JSON.stringify({
+        runtimes: [
+            { identifier: "com.apple.CoreSimulator.SimRuntime.iOS-18-6", version: "18.6", platform: "iOS", isAvailable: true, supportedDeviceTypes },
+            { identifier: RUNTIME, version: "26.2", platform: "iOS", isAvailable: true, supportedDeviceTypes },
+        ],
+    });
 
     beforeEach(() => {
         vi.clearAllMocks();
@@ -148,6 +199,7 @@ describe("remoteTestIosTool", () => {
         vi.spyOn(console, "warn").mockImplementation(() => { });
 
         commandResponses = [];
+        xcresultObjects = passedXcresult;
         mockExec.mockImplementation((command, opts, cb) => {
             const callback = typeof opts === 'function' ? opts : cb;
             const match = [...commandResponses].reverse().find(r =>
@@ -157,12 +209,17 @@ describe("remoteTestIosTool", () => {
             let res: { stdout: string; stderr: string; error?: Error } = { stdout: "", stderr: "" };
             if (match) {
                 res = match.response;
-            } else if (command.includes("xcrun simctl list devices available")) {
-                res = { stdout: simulatorListAvailableOutput, stderr: "" };
             } else if (command.includes("xcrun simctl list devices")) {
                 res = { stdout: simulatorListOutput, stderr: "" };
+            } else if (command.includes("xcrun simctl list runtimes")) {
+                res = { stdout: runtimeListOutput, stderr: "" };
             } else if (command.includes("xcodebuild test")) {
                 res = { stdout: "Test Suite 'All tests' passed", stderr: "" };
+            } else if (command.includes("xcresulttool get")) {
+                const id = /--id "([^"]+)"/.exec(command)?.[1] ?? "root";
+                res = id in xcresultObjects
+                    ? { stdout: readXcresultFixture(xcresultObjects[id]), stderr: "" }
+                    : { stdout: "", stderr: "", error: new Error(`Error: Unknown object id ${id}`) };
             } else if (command.includes("xcparse attachments")) {
                 res = { stdout: "", stderr: "" };
             } else if (command.includes("ffmpeg")) {
@@ -211,35 +268,88 @@ describe("remoteTestIosTool", () => {
     });
 
     describe("Simulator Management", () => {
-        it("should return error when xcrun simctl list devices available fails", async () => {
-            mockExecResponse("", "", true, "xcrun simctl list devices available");
+        it("should return error when xcrun simctl list devices fails", async () => {
+            mockExecResponse("", "", true, "xcrun simctl list devices");
             const result = await remoteTestIosTool.handler(testArgs);
             expect(result.success).toBe(false);
             expect(result.output).toContain("Failed to list simulators");
         });
 
-        it("should return error when simulator not found", async () => {
-            mockExecResponse("== Devices ==\n-- iOS 26.2 --\n    iPhone 15 Pro (DEF456-7890-1234) (Available)", "", false, "xcrun simctl list devices available");
-            const result = await remoteTestIosTool.handler(testArgs);
+        it("should run the test on the simulator of the newest runtime by UDID", async () => {
+            await remoteTestIosTool.handler(testArgs);
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining(`-destination 'platform=iOS Simulator,id=${SIMULATOR_UDID}'`),
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should lease a simulator of the requested iOS version", async () => {
+            await remoteTestIosTool.handler({ ...testArgs, os_version: "18" });
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("-destination 'platform=iOS Simulator,id=OLD123-4567-8901'"),
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should return error when no runtime matches the requested iOS version", async () => {
+            const result = await remoteTestIosTool.handler({ ...testArgs, os_version: "17.5" });
             expect(result.success).toBe(false);
-            expect(result.output).toContain("Simulator \"iPhone 17 Pro Max\" with OS 26.2 not found");
+            expect(result.output).toContain("No simulator runtime found for iOS 17.5 with iPhone 17 Pro Max. Available runtimes: iOS 26.2, iOS 18.6");
         });
 
-        it("should parse simulator UDID correctly", async () => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
-            await remoteTestIosTool.handler(testArgs);
+        it("should create a simulator of the requested family when none exists", async () => {
+            let created = false;
+            mockExec.mockImplementation((command, opts, cb) => {
+                const callback = typeof opts === 'function' ? opts : cb;
+                let stdout = "";
+                if (command.includes("xcrun simctl create")) {
+                    created = true;
+                    stdout = "NEW123-4567-8901\n";
+                } else if (command.includes("xcrun simctl list devices")) {
+                    // The created simulator is listed, and booted, once it exists
+                    const devices = JSON.parse(simulatorListOutput) as { devices: Record<string, object[]> };
+                    if (created) {
+                        devices.devices[RUNTIME].push({
+                            udid: "NEW123-4567-8901",
+                            name: "iPad Pro 13-inch (M4) (Pistachio 1)",
+                            state: "Booted",
+                            isAvailable: true,
+                        });
+                    }
+                    stdout = JSON.stringify(devices);
+                } else if (command.includes("xcrun simctl list runtimes")) {
+                    stdout = runtimeListOutput;
+                }
+                if (callback) callback(null, stdout, "");
+                return {} as ReturnType<typeof import("child_process").exec>;
+            });
+
+            await remoteTestIosTool.handler({ ...testArgs, device_family: "ipad" });
             expect(mockExec).toHaveBeenCalledWith(
-                expect.stringContaining("xcrun simctl list devices available"),
+                `xcrun simctl create "iPad Pro 13-inch (M4) (Pistachio 1)" "iPad Pro 13-inch (M4)" ${RUNTIME}`,
+                expect.any(Object),
+                expect.any(Function)
+            );
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringContaining("-destination 'platform=iOS Simulator,id=NEW123-4567-8901'"),
                 expect.any(Object),
                 expect.any(Function)
             );
         });
 
+        it("should return error when creating a simulator fails", async () => {
+            mockExecResponse("", "Invalid device type", true, "xcrun simctl create");
+            const result = await remoteTestIosTool.handler({ ...testArgs, device_family: "ipad" });
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("Failed to create simulator iPad Pro 13-inch (M4) (Pistachio 1)");
+        });
+
         it("should detect simulator is already booted", async () => {
-            mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
             await remoteTestIosTool.handler(testArgs);
-            expect(mockExec).toHaveBeenCalledWith(
-                expect.stringContaining("xcrun simctl list devices"),
+            expect(mockExec).not.toHaveBeenCalledWith(
+                expect.stringContaining("xcrun simctl boot"),
                 expect.any(Object),
                 expect.any(Function)
             );
@@ -250,17 +360,12 @@ describe("remoteTestIosTool", () => {
             mockExec.mockImplementation((command, opts, cb) => {
                 const callback = typeof opts === 'function' ? opts : cb;
                 let res = { stdout: "", stderr: "" };
-                if (command.includes("xcrun simctl list devices available")) {
-                    res = { stdout: simulatorListAvailableOutput, stderr: "" };
-                } else if (command.includes("xcrun simctl list devices")) {
+                if (command.includes("xcrun simctl list devices")) {
                     callCount++;
-                    if (callCount === 1) {
-                        // First call: simulator is shutdown
-                        res = { stdout: `== Devices ==\n-- iOS 26.2 --\n    ${SIMULATOR_NAME} (${SIMULATOR_UDID}) (Shutdown)`, stderr: "" };
-                    } else {
-                        // Subsequent calls: simulator is booted
-                        res = { stdout: simulatorListOutput, stderr: "" };
-                    }
+                    // Shut down when leased and checked, booted afterwards
+                    res = { stdout: simulatorList(callCount <= 2 ? "Shutdown" : "Booted"), stderr: "" };
+                } else if (command.includes("xcrun simctl list runtimes")) {
+                    res = { stdout: runtimeListOutput, stderr: "" };
                 } else if (command.includes("xcrun simctl boot")) {
                     res = { stdout: "", stderr: "" };
                 }
@@ -273,53 +378,22 @@ describe("remoteTestIosTool", () => {
             await vi.advanceTimersByTimeAsync(10000);
             await handlerPromise;
             expect(mockExec).toHaveBeenCalledWith(
-                expect.stringContaining("xcrun simctl boot"),
+                `xcrun simctl boot ${SIMULATOR_UDID}`,
                 expect.any(Object),
                 expect.any(Function)
             );
         });
 
         it("should return error when simulator boot fails", async () => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
-            let callCount = 0;
-            mockExec.mockImplementation((command, opts, cb) => {
-                const callback = typeof opts === 'function' ? opts : cb;
-                let res: { stdout: string; stderr: string; error?: Error } = { stdout: "", stderr: "" };
-                if (command.includes("xcrun simctl list devices available")) {
-                    res = { stdout: simulatorListAvailableOutput, stderr: "" };
-                } else if (command.includes("xcrun simctl list devices")) {
-                    callCount++;
-                    if (callCount === 1) {
-                        res = { stdout: `== Devices ==\n-- iOS 26.2 --\n    ${SIMULATOR_NAME} (${SIMULATOR_UDID}) (Shutdown)`, stderr: "" };
-                    } else {
-                        res = { stdout: `== Devices ==\n-- iOS 26.2 --\n    ${SIMULATOR_NAME} (${SIMULATOR_UDID}) (Shutdown)`, stderr: "" };
-                    }
-                } else if (command.includes("xcrun simctl boot")) {
-                    res = { stdout: "", stderr: "", error: new Error("Boot failed") };
-                }
-                if (callback) callback(res.error ?? null, res.stdout || "", res.stderr || "");
-                return {} as ReturnType<typeof import("child_process").exec>;
-            });
+            mockExecResponse(simulatorList("Shutdown"), "", false, "xcrun simctl list devices");
+            mockExecResponse("", "", true, "xcrun simctl boot");
             const result = await remoteTestIosTool.handler(testArgs);
             expect(result.success).toBe(false);
             expect(result.output).toContain("Failed to boot simulator");
         });
 
         it("should return error when simulator fails to boot within timeout", async () => {
-            mockExec.mockImplementation((command, opts, cb) => {
-                const callback = typeof opts === 'function' ? opts : cb;
-                let res = { stdout: "", stderr: "" };
-                if (command.includes("xcrun simctl list devices available")) {
-                    res = { stdout: simulatorListAvailableOutput, stderr: "" };
-                } else if (command.includes("xcrun simctl list devices")) {
-                    // Always return shutdown status
-                    res = { stdout: `== Devices ==\n-- iOS 26.2 --\n    ${SIMULATOR_NAME} (${SIMULATOR_UDID}) (Shutdown)`, stderr: "" };
-                } else if (command.includes("xcrun simctl boot")) {
-                    res = { stdout: "", stderr: "" };
-                }
-                if (callback) callback(null, res.stdout, res.stderr);
-                return {} as ReturnType<typeof import("child_process").exec>;
-            });
+            mockExecResponse(simulatorList("Shutdown"), "", false, "xcrun simctl list devices");
 
             vi.useFakeTimers();
             const handlerPromise = remoteTestIosTool.handler(testArgs);
@@ -330,14 +404,18 @@ describe("remoteTestIosTool", () => {
         });
 
         it("should return error when checking simulator status fails", async () => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
+            let callCount = 0;
             mockExec.mockImplementation((command, opts, cb) => {
                 const callback = typeof opts === 'function' ? opts : cb;
                 let res: { stdout: string; stderr: string; error?: Error } = { stdout: "", stderr: "" };
-                if (command.includes("xcrun simctl list devices available")) {
-                    res = { stdout: simulatorListAvailableOutput, stderr: "" };
-                } else if (command.includes("xcrun simctl list devices") && !command.includes("available")) {
-                    res = { stdout: "", stderr: "", error: new Error("Command failed") };
+                if (command.includes("xcrun simctl list devices")) {
+                    callCount++;
+                    // Listed when leased, then fails when checked
+                    res = callCount === 1
+                        ? { stdout: simulatorListOutput, stderr: "" }
+                        : { stdout: "", stderr: "", error: new Error("Command failed") };
+                } else if (command.includes("xcrun simctl list runtimes")) {
+                    res = { stdout: runtimeListOutput, stderr: "" };
                 }
                 if (callback) callback(res.error ?? null, res.stdout || "", res.stderr || "");
                 return {} as ReturnType<typeof import("child_process").exec>;
@@ -350,7 +428,6 @@ describe("remoteTestIosTool", () => {
 
     describe("Test Execution", () => {
         beforeEach(() => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
             mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
         });
 
@@ -372,24 +449,74 @@ describe("remoteTestIosTool", () => {
             expect(result.success).toBe(true);
         });
 
+        it("should return the result of each test read from the result bundle", async () => {
+            const result = await remoteTestIosTool.handler(testArgs);
+            expect(mockExec).toHaveBeenCalledWith(
+                'xcrun xcresulttool get --legacy --format json --path "/home/test/PistachioMCPProjects/test-uuid-123.xcresult"',
+                expect.any(Object),
+                expect.any(Function)
+            );
+            expect(result).toMatchObject({
+                structuredContent: {
+                    test_cases: [{
+                        class_name: "iosAppUITests",
+                        test_name: "testScrollingDownGesture",
+                        status: "passed",
+                        duration_ms: 12481,
+                        attachments: [{ name: "Screen Recording", uniform_type_identifier: "public.mpeg-4" }],
+                    }],
+                },
+            });
+        });
+
         it("should capture output when test fails", async () => {
+            xcresultObjects = failedXcresult;
             mockExecResponse("Test Suite 'All tests' failed\nTest Failed", "", true, "xcodebuild test");
             const result = await remoteTestIosTool.handler(testArgs);
             expect(result.success).toBe(false);
+            expect(result.output).toContain("FAILED iosAppUITests#testLogin (9.2s)\n  iosAppUITests.swift:42: XCTAssertTrue failed - Login button should be visible");
             expect(result.output).toContain("Test Suite 'All tests' failed");
+            expect(result).toMatchObject({
+                structuredContent: {
+                    test_cases: [
+                        { test_name: "testLogin", status: "failed", failures: [{ line: 42 }, { line: 47 }] },
+                        { test_name: "testScrollingDownGesture", status: "passed" },
+                        { test_name: "testTabletLayout", status: "skipped" },
+                    ],
+                },
+            });
+        });
+
+        it("should fail a test that failed in the result bundle even if xcodebuild reports no failure", async () => {
+            xcresultObjects = failedXcresult;
+            mockExecResponse("** TEST SUCCEEDED **", "", false, "xcodebuild test");
+            const result = await remoteTestIosTool.handler(testArgs);
+            expect(result.success).toBe(false);
         });
 
         it("should handle xcodebuild command failure", async () => {
+            xcresultObjects = { root: "invocation-record-build-failed.json" };
             mockExecResponse("Build failed", "Error details", true, "xcodebuild test");
             const result = await remoteTestIosTool.handler(testArgs);
             expect(result.success).toBe(false);
+            expect(result.output).toContain("Run failed: Cannot find 'LoginView' in scope");
             expect(result.output).toContain("Build failed");
         });
+
+        it("should fail when the result bundle cannot be read", async () => {
+            xcresultObjects = {};
+            const result = await remoteTestIosTool.handler(testArgs);
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("Run failed: Could not read test results from result bundle");
+            expect(mockLoggerWarn).toHaveBeenCalledWith(
+                expect.objectContaining({ project_id: "test-project" }),
+                "Could not read test results from result bundle"
+            );
+        });
     });
 
     describe("Result Bundle Processing", () => {
         beforeEach(() => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
             mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
             mockExecResponse("Test Suite 'All tests' passed", "", false, "xcodebuild test");
         });
@@ -536,7 +663,6 @@ describe("remoteTestIosTool", () => {
 
     describe("Video Processing", () => {
         beforeEach(() => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
             mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
             mockExecResponse("Test Suite 'All tests' passed", "", false, "xcodebuild test");
             mockExecResponse("", "", false, "xcparse attachments");
@@ -712,12 +838,11 @@ describe("remoteTestIosTool", () => {
 
     describe("Error Handling", () => {
         beforeEach(() => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
             mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
             mockExecResponse("Test Suite 'All tests' passed", "", false, "xcodebuild test");
         });
 
-        it("should handle missing result bundle gracefully", async () => {
+        it("should fail when xcodebuild did not write a result bundle", async () => {
             mockExistsSync.mockImplementation((path: fs.PathLike) => {
                 const pathStr = String(path);
                 // Project directory exists
@@ -728,7 +853,8 @@ describe("remoteTestIosTool", () => {
             });
             mockExecResponse("Test Suite 'All tests' passed", "", false, "xcodebuild test");
             const result = await remoteTestIosTool.handler(testArgs);
-            expect(result.success).toBe(true);
+            expect(result.success).toBe(false);
+            expect(result.output).toContain("Run failed: xcodebuild did not write a result bundle");
             expect(result.screenrecord).toBeUndefined();
             expect(result.images).toBeUndefined();
         });
@@ -812,9 +938,94 @@ describe("remoteTestIosTool", () => {
         });
     });
 
+    describe("Test Report", () => {
+        beforeEach(() => {
+            mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
+        });
+
+        it("should upload the report with the failures read from the result bundle", async () => {
+            xcresultObjects = failedXcresult;
+            const result = await remoteTestIosTool.handler(testArgs);
+            expect(mocks.mockFile.save).toHaveBeenCalledWith(
+                expect.stringContaining('<failure message="XCTAssertTrue failed - Login button should be visible">'),
+                { metadata: { contentType: "application/xml" } }
+            );
+            expect(mocks.mockFile.save).toHaveBeenCalledWith(
+                expect.stringContaining('"runner_status": "skipped"'),
+                { metadata: { contentType: "application/json" } }
+            );
+            expect(result).toMatchObject({
+                structuredContent: {
+                    junit_report: "https://storage.googleapis.com/dev-pistachio-assets-weekly-expiring/test-project/test-uuid-123.xml",
+                    json_report: "https://storage.googleapis.com/dev-pistachio-assets-weekly-expiring/test-project/test-uuid-123.json",
+                },
+                links: [{ name: "report.xml" }, { name: "report.json" }],
+            });
+        });
+    });
+
+    describe("Device Logs", () => {
+        beforeEach(() => {
+            mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
+        });
+
+        it("should collect the simulator logs and crash reports of the app", async () => {
+            xcresultObjects = failedXcresult;
+            mockExecResponse([
+                JSON.stringify({
+                    timestamp: "2026-10-19 10:03:02.117000+0000",
+                    messageType: "Error",
+                    processImagePath: "/Users/runner/Library/Developer/CoreSimulator/Devices/iosApp.app/iosApp",
+                    processID: 4321,
+                    subsystem: "com.example.iosApp",
+                    eventMessage: "Could not load feed",
+                }),
+                JSON.stringify({ count: 1, finished: 1 }),
+            ].join("\n"), "", false, "log show");
+            mockReaddirSync.mockImplementation(((path: fs.PathLike) =>
+                String(path).endsWith("DiagnosticReports") ? ["iosApp-2026-10-19-100305.ips", "Safari-2026-10-19-100305.ips"] : []
+            ) as unknown as typeof fs.readdirSync);
+            mockStatSync.mockReturnValue({ size: 1000, mtimeMs: Date.now() + 60000 } as fs.Stats);
+            mockReadFileSync.mockImplementation(((path: fs.PathOrFileDescriptor) =>
+                String(path).endsWith(".ips") ? "Exception Type: EXC_CRASH (SIGABRT)" : Buffer.from("data")
+            ) as unknown as typeof fs.readFileSync);
+
+            const result = await remoteTestIosTool.handler(testArgs);
+
+            expect(mockExec).toHaveBeenCalledWith(
+                expect.stringMatching(/^xcrun simctl spawn ABC123-4567-8901 log show --style ndjson .*--predicate 'process == "iosApp" OR process == "iosAppUITests-Runner"'$/),
+                expect.any(Object),
+                expect.any(Function)
+            );
+            expect(result.output).toContain("Crash:\nException Type: EXC_CRASH (SIGABRT)");
+            expect(mocks.mockFile.save).toHaveBeenCalledWith(
+                expect.stringContaining("ERROR iosApp [com.example.iosApp]: Could not load feed"),
+                { metadata: { contentType: "text/plain" } }
+            );
+            expect(result).toMatchObject({
+                structuredContent: {
+                    device_logs: "https://storage.googleapis.com/dev-pistachio-assets-weekly-expiring/test-project/test-uuid-123.log",
+                    device_log_summary: { error: 1, crashes: 1, anrs: 0 },
+                },
+                links: [{ name: "report.xml" }, { name: "report.json" }, { name: "device.log" }],
+            });
+        });
+
+        it("should not fail the run when the simulator logs cannot be read", async () => {
+            mockExecResponse("", "log: Could not open the log", true, "log show");
+            const result = await remoteTestIosTool.handler(testArgs);
+
+            expect(result.success).toBe(true);
+            expect(result).toMatchObject({ structuredContent: { device_logs: undefined, device_log_summary: undefined } });
+            expect(mockLoggerWarn).toHaveBeenCalledWith(
+                expect.objectContaining({ project_id: "test-project", simulator_udid: SIMULATOR_UDID }),
+                "Could not collect device logs"
+            );
+        });
+    });
+
     describe("Full Happy Path", () => {
         it("should complete full happy path successfully", async () => {
-            mockExecResponse(simulatorListAvailableOutput, "", false, "xcrun simctl list devices available");
             mockExecResponse(simulatorListOutput, "", false, "xcrun simctl list devices");
             mockExecResponse("Test Suite 'All tests' passed", "", false, "xcodebuild test");
             mockExecResponse("", "", false, "xcparse attachments");
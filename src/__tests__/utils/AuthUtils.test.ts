@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ServerResponse } from "http";
+import {
+    TokenStore,
+    authenticateRequest,
+    getUserId,
+    loadTokenStore,
+    type AuthenticatedRequest,
+} from "../../utils/AuthUtils.js";
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+function createRequest(authorization?: string): AuthenticatedRequest {
+    return {
+        headers: authorization ? { authorization } : {},
+        socket: { remoteAddress: "127.0.0.1" },
+    } as unknown as AuthenticatedRequest;
+}
+
+function createResponse() {
+    return {
+        writeHead: vi.fn(),
+        end: vi.fn(),
+    };
+}
+
+describe("TokenStore", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-utils-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeTokenFile(content: string): string {
+        const filePath = path.join(tempDir, "tokens.json");
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+
+    it("should map tokens to user IDs", () => {
+        const store = new TokenStore([{ token: "token-alice", userId: "alice" }]);
+
+        expect(store.verify("token-alice")).toEqual({ token: "token-alice", clientId: "alice", scopes: [] });
+        expect(store.verify("token-bob")).toBeUndefined();
+    });
+
+    it("should throw on duplicate tokens", () => {
+        expect(() => new TokenStore([
+            { token: "shared", userId: "alice" },
+            { token: "shared", userId: "bob" },
+        ])).toThrow("Duplicate token for user bob");
+    });
+
+    it("should load tokens from a file", () => {
+        const filePath = writeTokenFile(JSON.stringify({
+            tokens: [
+                { token: "token-alice", user_id: "alice" },
+                { token: "token-bob", user_id: "bob" },
+            ],
+        }));
+
+        const store = TokenStore.fromFile(filePath);
+
+        expect(store.size).toBe(2);
+        expect(store.verify("token-bob")?.clientId).toBe("bob");
+    });
+
+    it("should throw for files that are not valid JSON", () => {
+        const filePath = writeTokenFile("not json");
+        expect(() => TokenStore.fromFile(filePath)).toThrow(`Failed to read token file ${filePath}`);
+    });
+
+    it("should throw for files that don't match the token file schema", () => {
+        const filePath = writeTokenFile(JSON.stringify({ tokens: [{ token: "token-alice" }] }));
+        expect(() => TokenStore.fromFile(filePath)).toThrow(`Invalid token file ${filePath}`);
+    });
+
+    it("should disable authentication when no token file is configured", () => {
+        expect(loadTokenStore("")).toBeUndefined();
+    });
+});
+
+describe("authenticateRequest", () => {
+    const store = new TokenStore([{ token: "token-alice", userId: "alice" }]);
+
+    it("should accept a valid bearer token and attach the identity to the request", () => {
+        const req = createRequest("Bearer token-alice");
+        const res = createResponse();
+
+        const authInfo = authenticateRequest(req, res as unknown as ServerResponse, store);
+
+        expect(getUserId(authInfo)).toBe("alice");
+        expect(req.auth).toBe(authInfo);
+        expect(res.writeHead).not.toHaveBeenCalled();
+    });
+
+    it("should challenge requests without a bearer token", () => {
+        for (const authorization of [undefined, "Basic dXNlcjpwYXNz"]) {
+            const res = createResponse();
+
+            const authInfo = authenticateRequest(createRequest(authorization), res as unknown as ServerResponse, store);
+
+            expect(authInfo).toBeUndefined();
+            expect(res.writeHead).toHaveBeenCalledWith(401, {
+                "Content-Type": "application/json",
+                "WWW-Authenticate": 'Bearer realm="pistachio-mcp"',
+            });
+        }
+    });
+
+    it("should reject unknown tokens with an invalid_token challenge", () => {
+        const req = createRequest("Bearer token-mallory");
+        const res = createResponse();
+
+        const authInfo = authenticateRequest(req, res as unknown as ServerResponse, store);
+
+        expect(authInfo).toBeUndefined();
+        expect(req.auth).toBeUndefined();
+        expect(res.writeHead).toHaveBeenCalledWith(401, expect.objectContaining({
+            "WWW-Authenticate": expect.stringContaining('error="invalid_token"') as unknown as string,
+        }));
+        expect(res.end).toHaveBeenCalledWith(JSON.stringify({ error: "Invalid bearer token" }));
+    });
+});
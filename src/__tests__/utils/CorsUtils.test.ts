@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import type { IncomingMessage, ServerResponse } from "http";
+import { applyCorsHeaders, getAllowedOrigins } from "../../utils/CorsUtils.js";
+
+function createResponse() {
+    const headers = new Map<string, string>();
+    return {
+        headers,
+        setHeader: vi.fn((name: string, value: string) => headers.set(name, value)),
+    };
+}
+
+function requestFrom(origin?: string): IncomingMessage {
+    return { headers: origin ? { origin } : {} } as IncomingMessage;
+}
+
+describe("getAllowedOrigins", () => {
+    it("should allow no cross-origin requests when unset", () => {
+        expect(getAllowedOrigins(undefined)).toEqual([]);
+        expect(getAllowedOrigins("")).toEqual([]);
+    });
+
+    it("should allow any origin with *", () => {
+        expect(getAllowedOrigins("*")).toBe("*");
+    });
+
+    it("should parse a comma-separated origin list", () => {
+        expect(getAllowedOrigins("https://a.example.com, https://b.example.com,")).toEqual([
+            "https://a.example.com",
+            "https://b.example.com",
+        ]);
+    });
+});
+
+describe("applyCorsHeaders", () => {
+    it("should allow any origin with *", () => {
+        const res = createResponse();
+        applyCorsHeaders(requestFrom("https://a.example.com"), res as unknown as ServerResponse, "*");
+
+        expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+        expect(res.headers.get("Access-Control-Expose-Headers")).toBe("Mcp-Session-Id, WWW-Authenticate");
+    });
+
+    it("should echo listed origins only", () => {
+        const allowed = ["https://a.example.com"];
+
+        const listed = createResponse();
+        applyCorsHeaders(requestFrom("https://a.example.com"), listed as unknown as ServerResponse, allowed);
+        expect(listed.headers.get("Access-Control-Allow-Origin")).toBe("https://a.example.com");
+        expect(listed.headers.get("Vary")).toBe("Origin");
+
+        const unlisted = createResponse();
+        applyCorsHeaders(requestFrom("https://evil.example.com"), unlisted as unknown as ServerResponse, allowed);
+        expect(unlisted.headers.has("Access-Control-Allow-Origin")).toBe(false);
+    });
+
+    it("should not allow any origin by default", () => {
+        const res = createResponse();
+        applyCorsHeaders(requestFrom("https://a.example.com"), res as unknown as ServerResponse, getAllowedOrigins(undefined));
+
+        expect(res.headers.has("Access-Control-Allow-Origin")).toBe(false);
+    });
+});
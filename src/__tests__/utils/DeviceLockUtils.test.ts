@@ -1,7 +1,23 @@
-import { describe, it, expect } from "vitest";
-import { withDeviceLock } from "../../utils/DeviceLockUtils.js";
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DeviceLockTimeoutError, getDeviceLocks, getLockedDevices, withDeviceLock } from "../../utils/DeviceLockUtils.js";
 
 describe("DeviceLockUtils", () => {
+    let lockRoot: string;
+
+    beforeAll(() => {
+        // Keep the host-wide locks of these tests apart from real runs
+        lockRoot = mkdtempSync(join(tmpdir(), "device-locks-"));
+        vi.stubEnv("PISTACHIO_DEVICE_LOCK_DIR", lockRoot);
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+        rmSync(lockRoot, { recursive: true, force: true });
+    });
+
     it("should execute actions sequentially for the same serial", async () => {
         const serial = "emulator-5554";
         const executionOrder: number[] = [];
@@ -74,4 +90,110 @@ describe("DeviceLockUtils", () => {
         await expect(p1).rejects.toThrow("Action 1 failed");
         expect(await p2).toBe("result2");
     });
+
+    it("should not run the action when the signal is already aborted", async () => {
+        const controller = new AbortController();
+        controller.abort(new Error("Cancelled"));
+        const action = vi.fn(() => Promise.resolve("result"));
+
+        await expect(withDeviceLock("emulator-5554", action, { signal: controller.signal })).rejects.toThrow("Cancelled");
+        expect(action).not.toHaveBeenCalled();
+    });
+
+    it("should stop waiting for the lock when the signal is aborted", async () => {
+        const serial = "emulator-5554";
+        const controller = new AbortController();
+        const action2 = vi.fn(() => Promise.resolve("result2"));
+
+        const p1 = withDeviceLock(serial, () => new Promise<string>(resolve => setTimeout(() => resolve("result1"), 100)));
+        const p2 = withDeviceLock(serial, action2, { signal: controller.signal });
+        setTimeout(() => controller.abort(new Error("Cancelled")), 20);
+
+        await expect(p2).rejects.toThrow("Cancelled");
+        expect(action2).not.toHaveBeenCalled();
+        expect(await p1).toBe("result1");
+
+        // The lock is released for later callers
+        expect(await withDeviceLock(serial, () => Promise.resolve("result3"))).toBe("result3");
+    });
+
+    it("should grant the lock to waiters in the order they asked for it", async () => {
+        const serial = "emulator-5554";
+        const executionOrder: string[] = [];
+        const action = (name: string) => () => {
+            executionOrder.push(name);
+            return new Promise<string>(resolve => setTimeout(() => resolve(name), 5));
+        };
+
+        const results = await Promise.all(["first", "second", "third", "fourth"].map((name) => withDeviceLock(serial, action(name))));
+
+        expect(results).toEqual(["first", "second", "third", "fourth"]);
+        expect(executionOrder).toEqual(["first", "second", "third", "fourth"]);
+    });
+
+    it("should reject with a timeout error when the lock is not granted in time", async () => {
+        const serial = "emulator-5554";
+        const action2 = vi.fn(() => Promise.resolve("result2"));
+
+        const p1 = withDeviceLock(serial, () => new Promise<string>(resolve => setTimeout(() => resolve("result1"), 100)));
+        const p2 = withDeviceLock(serial, action2, { timeoutMs: 20 });
+
+        await expect(p2).rejects.toThrow(DeviceLockTimeoutError);
+        await expect(p2).rejects.toThrow("Failed to acquire device lock within 20ms: emulator-5554 is in use by another test");
+        expect(action2).not.toHaveBeenCalled();
+        expect(await p1).toBe("result1");
+        expect(getLockedDevices()).toEqual([]);
+    });
+
+    it("should report the holder, hold start and waiters of locked devices", async () => {
+        const serial = "emulator-5554";
+        let release: () => void = () => {};
+        const held = new Promise<void>(resolve => { release = resolve; });
+        const before = Date.now();
+
+        const p1 = withDeviceLock(serial, () => held, { holder: "project-1: testLogin" });
+        const p2 = withDeviceLock(serial, () => Promise.resolve(), { holder: "project-2: testSignup" });
+        const p3 = withDeviceLock(serial, () => Promise.resolve());
+
+        expect(getLockedDevices()).toEqual([serial]);
+        expect(getDeviceLocks()).toEqual([{
+            serial,
+            holder: "project-1: testLogin",
+            heldSince: expect.any(Number) as unknown as number,
+            waiters: 2,
+        }]);
+        expect(getDeviceLocks()[0].heldSince).toBeGreaterThanOrEqual(before);
+
+        release();
+        await Promise.all([p1, p2, p3]);
+        expect(getDeviceLocks()).toEqual([]);
+    });
+
+    it("should wait for a lock held by another process on the host", async () => {
+        const serial = "emulator-5556";
+        const lockDir = join(lockRoot, `pistachio-device-lock-${serial}`);
+        mkdirSync(lockDir);
+        // The parent process stands in for a skill script holding the device
+        writeFileSync(join(lockDir, "pid"), String(process.ppid));
+        const action = vi.fn(() => Promise.resolve("result"));
+
+        await expect(withDeviceLock(serial, action, { timeoutMs: 100 })).rejects.toThrow(DeviceLockTimeoutError);
+        expect(action).not.toHaveBeenCalled();
+        expect(getLockedDevices()).toEqual([]);
+
+        rmSync(lockDir, { recursive: true, force: true });
+        expect(await withDeviceLock(serial, action)).toBe("result");
+    });
+
+    it("should hold the host-wide lock while the action runs and release it afterwards", async () => {
+        const serial = "emulator-5558";
+        const lockDir = join(lockRoot, `pistachio-device-lock-${serial}`);
+
+        await withDeviceLock(serial, () => {
+            expect(readdirSync(lockDir)).toEqual(["pid"]);
+            return Promise.resolve();
+        });
+
+        expect(existsSync(lockDir)).toBe(false);
+    });
 });
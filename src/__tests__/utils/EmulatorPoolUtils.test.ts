@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { exec } from "child_process";
+import { AndroidEmulatorPool, parseAndroidEmulators } from "../../utils/EmulatorPoolUtils.js";
+
+// Mock child_process.exec - must be done before importing the module
+vi.mock("child_process", () => {
+    type ExecCallback = ((error: Error | null, stdout: string, stderr: string) => void) | undefined;
+    type ExecOptions = Record<string, unknown> | undefined;
+
+    const exec = vi.fn((command: string, optionsOrCallback?: ExecOptions | ExecCallback, callback?: ExecCallback) => {
+        const actualCallback: ExecCallback = typeof optionsOrCallback === "function" ? optionsOrCallback : callback;
+        if (actualCallback) {
+            actualCallback(null, "", "");
+        }
+        return {} as ReturnType<typeof import("child_process").exec>;
+    });
+    // @ts-expect-error - Symbol.for is not recognized by TypeScript for this use case
+    exec[Symbol.for("nodejs.util.promisify.custom")] = vi.fn((command: string, options?: ExecOptions) => {
+        return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+            exec(command, typeof options === "object" ? options : {}, (error: Error | null, stdout: string, stderr: string) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            });
+        });
+    });
+    return { exec };
+});
+
+// Mock logger
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+// Mock the host-wide device lock, which lives in the temp directory
+vi.mock("../../../skills/shared/device-lock.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../../../skills/shared/device-lock.js")>(),
+    acquireDeviceFileLock: vi.fn(() => Promise.resolve({ release: () => true })),
+}));
+
+describe("EmulatorPoolUtils", () => {
+    const mockExec = vi.mocked(exec);
+    let runningSerials: string[];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        runningSerials = [];
+
+        // adb lists the running emulators; a started emulator is online and booted right away
+        mockExec.mockImplementation((command, opts, cb) => {
+            const callback = typeof opts === "function" ? opts : cb;
+            let stdout = "";
+            if (command.includes("adb devices")) {
+                stdout = `List of devices attached\n${runningSerials.map((serial) => `${serial}\tdevice\n`).join("")}\n`;
+            } else if (command.includes("getprop sys.boot_completed")) {
+                stdout = "1\n";
+            } else if (command.includes("pm path android")) {
+                stdout = "package:/system/framework/framework-res.apk\n";
+            } else if (command.includes("emulator -list-avds")) {
+                stdout = "Medium_Phone_API_36.1\nPixel_Tablet_API_36\n";
+            } else if (command.startsWith("emulator -avd")) {
+                runningSerials.push(`emulator-${/-port (\d+)/.exec(command)![1]}`);
+            }
+            callback?.(null, stdout, "");
+            return {} as ReturnType<typeof import("child_process").exec>;
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("parseAndroidEmulators", () => {
+        it("should parse AVD names and ports", () => {
+            expect(parseAndroidEmulators("Medium_Phone_API_36.1:5554, Pixel_Tablet_API_36:5556")).toEqual([
+                { avdName: "Medium_Phone_API_36.1", port: 5554 },
+                { avdName: "Pixel_Tablet_API_36", port: 5556 },
+            ]);
+        });
+
+        it.each(["Medium_Phone_API_36.1", "Medium_Phone_API_36.1:5555", "Medium_Phone_API_36.1:5552", ":5554", "Pixel:5684"])(
+            "should reject the malformed entry %s",
+            (value) => {
+                expect(() => parseAndroidEmulators(value)).toThrow(`Invalid ANDROID_EMULATORS entry "${value}"`);
+            }
+        );
+
+        it("should reject ports used twice", () => {
+            expect(() => parseAndroidEmulators("A:5554,B:5554")).toThrow("port 5554 is already used");
+        });
+
+        it("should reject an empty list", () => {
+            expect(() => parseAndroidEmulators(" , ")).toThrow("ANDROID_EMULATORS must define at least one emulator");
+        });
+    });
+
+    describe("leasing", () => {
+        it("should prefer an emulator that is already running", async () => {
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554,Pixel_Tablet_API_36:5556"));
+            runningSerials = ["emulator-5556"];
+            const first = await pool.lease();
+            const running = await pool.lease();
+            await pool.ensureRunning(running.serial);
+            first.release();
+            running.release();
+
+            const second = await pool.lease({ holder: "project-1: testLogin" });
+
+            expect(second.serial).toBe("emulator-5556");
+            expect(pool.getStatus()[1]).toMatchObject({ state: "running", leased: true, holder: "project-1: testLogin" });
+        });
+
+        it("should hand emulators to waiting callers in FIFO order", async () => {
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554"));
+            const first = await pool.lease();
+            const order: string[] = [];
+            const second = pool.lease({ holder: "second" }).then((lease) => {
+                order.push("second");
+                return lease;
+            });
+            const third = pool.lease({ holder: "third" }).then((lease) => {
+                order.push("third");
+                return lease;
+            });
+            expect(pool.getWaiterCount()).toBe(2);
+
+            first.release();
+            (await second).release();
+            (await third).release();
+
+            expect(order).toEqual(["second", "third"]);
+            expect(pool.getWaiterCount()).toBe(0);
+        });
+
+        it("should stop waiting when the signal is aborted", async () => {
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554"));
+            const first = await pool.lease();
+            const controller = new AbortController();
+            const waiting = pool.lease({ signal: controller.signal });
+
+            controller.abort(new Error("cancelled"));
+
+            await expect(waiting).rejects.toThrow("cancelled");
+            expect(pool.getWaiterCount()).toBe(0);
+            first.release();
+            expect(pool.getStatus()[0].leased).toBe(false);
+        });
+    });
+
+    describe("booting", () => {
+        it("should start a stopped emulator on its port", async () => {
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Pixel_Tablet_API_36:5556"), { bootPollIntervalMs: 1 });
+            const lease = await pool.lease();
+
+            await pool.ensureRunning(lease.serial);
+
+            expect(mockExec).toHaveBeenCalledWith(
+                "emulator -avd Pixel_Tablet_API_36 -port 5556 -no-snapshot-load -no-audio",
+                expect.any(Function)
+            );
+            expect(pool.getStatus()[0].state).toBe("running");
+        });
+
+        it("should start an AVD shared by several emulators read-only", async () => {
+            const pool = new AndroidEmulatorPool(
+                parseAndroidEmulators("Medium_Phone_API_36.1:5554,Medium_Phone_API_36.1:5556"),
+                { bootPollIntervalMs: 1 }
+            );
+            const lease = await pool.lease();
+
+            await pool.ensureRunning(lease.serial);
+
+            expect(mockExec).toHaveBeenCalledWith(expect.stringContaining("-port 5554 -no-snapshot-load -no-audio -read-only"), expect.any(Function));
+        });
+
+        it("should mark an emulator that does not boot in time as stopped", async () => {
+            mockExec.mockImplementation((command, opts, cb) => {
+                const callback = typeof opts === "function" ? opts : cb;
+                callback?.(null, command.includes("emulator -list-avds") ? "Medium_Phone_API_36.1\n" : "", "");
+                return {} as ReturnType<typeof import("child_process").exec>;
+            });
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554"), {
+                bootTimeoutMs: 10,
+                bootPollIntervalMs: 5,
+            });
+            const lease = await pool.lease();
+
+            await expect(pool.ensureRunning(lease.serial)).rejects.toThrow("Emulator failed to start within 0.01 seconds");
+            expect(pool.getStatus()[0].state).toBe("stopped");
+        });
+
+        it("should restart an emulator stuck offline, then unlock it and disable animations", async () => {
+            let adbState: string | undefined = "offline";
+            mockExec.mockImplementation((command, opts, cb) => {
+                const callback = typeof opts === "function" ? opts : cb;
+                let stdout = "";
+                if (command.includes("adb devices")) {
+                    stdout = `List of devices attached\n${adbState ? `emulator-5554\t${adbState}\n` : ""}\n`;
+                } else if (command.includes("emu kill")) {
+                    adbState = undefined;
+                } else if (command.startsWith("emulator -avd")) {
+                    adbState = "device";
+                } else if (command.includes("getprop sys.boot_completed")) {
+                    stdout = "1\n";
+                } else if (command.includes("pm path android")) {
+                    stdout = "package:/system/framework/framework-res.apk\n";
+                }
+                callback?.(null, stdout, "");
+                return {} as ReturnType<typeof import("child_process").exec>;
+            });
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554"), {
+                bootTimeoutMs: 10,
+                bootPollIntervalMs: 5,
+            });
+            const lease = await pool.lease();
+
+            await pool.ensureRunning(lease.serial);
+
+            expect(mockExec).toHaveBeenCalledWith("adb -s emulator-5554 emu kill", expect.any(Object), expect.any(Function));
+            expect(mockExec).toHaveBeenCalledWith(expect.stringContaining("emulator -avd Medium_Phone_API_36.1 -port 5554"), expect.any(Function));
+            expect(mockExec).toHaveBeenCalledWith(expect.stringContaining("wm dismiss-keyguard"), expect.any(Object), expect.any(Function));
+            expect(pool.getStatus()[0].state).toBe("running");
+        });
+    });
+
+    describe("idle shutdown", () => {
+        it("should shut down an emulator left unused for the idle timeout", async () => {
+            vi.useFakeTimers();
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554"), { idleTimeoutMs: 60000 });
+            runningSerials = ["emulator-5554"];
+            const lease = await pool.lease();
+            await pool.ensureRunning(lease.serial);
+            lease.release();
+
+            await vi.advanceTimersByTimeAsync(59000);
+            expect(mockExec).not.toHaveBeenCalledWith("adb -s emulator-5554 emu kill", expect.any(Object), expect.any(Function));
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(mockExec).toHaveBeenCalledWith("adb -s emulator-5554 emu kill", expect.any(Object), expect.any(Function));
+            expect(pool.getStatus()[0].state).toBe("stopped");
+        });
+
+        it("should keep an emulator that is leased again before the timeout", async () => {
+            vi.useFakeTimers();
+            const pool = new AndroidEmulatorPool(parseAndroidEmulators("Medium_Phone_API_36.1:5554"), { idleTimeoutMs: 60000 });
+            runningSerials = ["emulator-5554"];
+            const first = await pool.lease();
+            await pool.ensureRunning(first.serial);
+            first.release();
+
+            await vi.advanceTimersByTimeAsync(30000);
+            const second = await pool.lease();
+            await vi.advanceTimersByTimeAsync(60000);
+
+            expect(mockExec).not.toHaveBeenCalledWith(expect.stringContaining("emu kill"), expect.any(Object), expect.any(Function));
+            expect(pool.getStatus()[0]).toMatchObject({ state: "running", leased: true });
+            second.release();
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "../../utils/EventStoreUtils.js";
+
+function notification(index: number): JSONRPCMessage {
+    return { jsonrpc: "2.0", method: "notifications/message", params: { index } };
+}
+
+async function replay(store: InMemoryEventStore, lastEventId: string) {
+    const sent: { eventId: string; message: JSONRPCMessage }[] = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+        send: (eventId, message) => {
+            sent.push({ eventId, message });
+            return Promise.resolve();
+        },
+    });
+    return { streamId, sent };
+}
+
+describe("InMemoryEventStore", () => {
+    it("should throw if maxEvents is less than 1", () => {
+        expect(() => new InMemoryEventStore(0)).toThrow("maxEvents must be at least 1");
+    });
+
+    it("should generate unique event IDs", async () => {
+        const store = new InMemoryEventStore();
+        const first = await store.storeEvent("stream-a", notification(1));
+        const second = await store.storeEvent("stream-a", notification(2));
+
+        expect(first).not.toBe(second);
+        expect(store.size).toBe(2);
+    });
+
+    it("should resolve the stream ID of stored events", async () => {
+        const store = new InMemoryEventStore();
+        const eventId = await store.storeEvent("stream-a", notification(1));
+
+        expect(await store.getStreamIdForEventId(eventId)).toBe("stream-a");
+        expect(await store.getStreamIdForEventId("unknown")).toBeUndefined();
+    });
+
+    it("should replay only later events of the same stream", async () => {
+        const store = new InMemoryEventStore();
+        const first = await store.storeEvent("stream-a", notification(1));
+        await store.storeEvent("stream-b", notification(2));
+        const third = await store.storeEvent("stream-a", notification(3));
+        const fourth = await store.storeEvent("stream-a", notification(4));
+
+        const { streamId, sent } = await replay(store, first);
+
+        expect(streamId).toBe("stream-a");
+        expect(sent).toEqual([
+            { eventId: third, message: notification(3) },
+            { eventId: fourth, message: notification(4) },
+        ]);
+    });
+
+    it("should replay nothing when the last event is the newest", async () => {
+        const store = new InMemoryEventStore();
+        const eventId = await store.storeEvent("stream-a", notification(1));
+
+        const { sent } = await replay(store, eventId);
+
+        expect(sent).toEqual([]);
+    });
+
+    it("should evict the oldest events once full", async () => {
+        const store = new InMemoryEventStore(2);
+        const first = await store.storeEvent("stream-a", notification(1));
+        const second = await store.storeEvent("stream-a", notification(2));
+        const third = await store.storeEvent("stream-a", notification(3));
+
+        expect(store.size).toBe(2);
+        expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+        await expect(replay(store, first)).rejects.toThrow(`Unknown event ID: ${first}`);
+
+        const { sent } = await replay(store, second);
+        expect(sent).toEqual([{ eventId: third, message: notification(3) }]);
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { exec } from "child_process";
+import { existsSync } from "fs";
+import { createReadinessChecks, getServerStatus, runReadinessChecks } from "../../utils/HealthUtils.js";
+import { checkFirestoreConnection } from "../../utils/ServerStorageUtils.js";
+import { withDeviceLock } from "../../utils/DeviceLockUtils.js";
+import { TaskQueue } from "../../utils/TaskQueueUtils.js";
+import { createToolRegistry } from "../../tools/index.js";
+
+vi.mock("child_process", () => {
+    type ExecCallback = ((error: Error | null, stdout: string, stderr: string) => void) | undefined;
+
+    const exec = vi.fn();
+    // @ts-expect-error - Symbol.for is not recognized by TypeScript for this use case
+    exec[Symbol.for("nodejs.util.promisify.custom")] = vi.fn((command: string) => {
+        return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+            const callback: ExecCallback = (error, stdout, stderr) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            };
+            exec(command, {}, callback);
+        });
+    });
+    return { exec };
+});
+
+vi.mock("fs", async () => {
+    const actual = await vi.importActual<typeof import("fs")>("fs");
+    return {
+        ...actual,
+        existsSync: vi.fn(),
+    };
+});
+
+vi.mock("os", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("os")>();
+    return {
+        ...actual,
+        homedir: vi.fn(() => "/home/test"),
+    };
+});
+
+vi.mock("../../utils/ServerStorageUtils.js", () => ({
+    checkFirestoreConnection: vi.fn(),
+    createMCPProject: vi.fn(),
+    getMCPProject: vi.fn(),
+}));
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+// Mock the host-wide device lock, which lives in the temp directory
+vi.mock("../../../skills/shared/device-lock.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../../../skills/shared/device-lock.js")>(),
+    acquireDeviceFileLock: vi.fn(() => Promise.resolve({ release: () => true })),
+}));
+
+describe("HealthUtils", () => {
+    const mockExec = vi.mocked(exec);
+    let missingCommands: string[] = [];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        missingCommands = [];
+        vi.mocked(existsSync).mockReturnValue(true);
+        vi.mocked(checkFirestoreConnection).mockResolvedValue(undefined);
+        mockExec.mockImplementation(((command: string, _options: unknown, callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+            const missing = missingCommands.find((name) => command.startsWith(name));
+            callback(missing ? new Error(`/bin/sh: ${missing}: command not found`) : null, "", "");
+            return {} as ReturnType<typeof exec>;
+        }) as unknown as typeof exec);
+    });
+
+    describe("createReadinessChecks", () => {
+        it("should only check tool dependencies that are enabled", () => {
+            expect(Object.keys(createReadinessChecks("local-skills", createToolRegistry("local-skills")))).toEqual([]);
+            expect(Object.keys(createReadinessChecks("remote-build-farm", createToolRegistry("remote-build-farm")))).toEqual([
+                "firebase",
+                "projects_root",
+                "adb",
+                "xcrun",
+            ]);
+        });
+
+        it("should pass when every dependency is available", async () => {
+            const checks = createReadinessChecks("remote-build-farm", createToolRegistry("remote-build-farm"));
+
+            const report = await runReadinessChecks(checks);
+
+            expect(report).toEqual({
+                ready: true,
+                checks: {
+                    firebase: { ok: true },
+                    projects_root: { ok: true },
+                    adb: { ok: true },
+                    xcrun: { ok: true },
+                },
+            });
+            expect(existsSync).toHaveBeenCalledWith("/home/test/PistachioMCPProjects");
+        });
+
+        it("should report missing dependencies", async () => {
+            vi.mocked(existsSync).mockReturnValue(false);
+            vi.mocked(checkFirestoreConnection).mockRejectedValue(new Error("Failed to get document because the client is offline."));
+            missingCommands = ["xcrun"];
+            const checks = createReadinessChecks("remote-build-farm", createToolRegistry("remote-build-farm"));
+
+            const report = await runReadinessChecks(checks);
+
+            expect(report.ready).toBe(false);
+            expect(report.checks).toEqual({
+                firebase: { ok: false, error: "Failed to get document because the client is offline." },
+                projects_root: { ok: false, error: "Projects root not found: /home/test/PistachioMCPProjects" },
+                adb: { ok: true },
+                xcrun: { ok: false, error: "/bin/sh: xcrun: command not found" },
+            });
+        });
+    });
+
+    describe("runReadinessChecks", () => {
+        it("should be ready without checks", async () => {
+            expect(await runReadinessChecks({})).toEqual({ ready: true, checks: {} });
+        });
+
+        it("should fail checks that do not settle in time", async () => {
+            const report = await runReadinessChecks(
+                {
+                    fast: () => Promise.resolve(),
+                    hanging: () => new Promise<void>(() => {}),
+                },
+                20
+            );
+
+            expect(report).toEqual({
+                ready: false,
+                checks: {
+                    fast: { ok: true },
+                    hanging: { ok: false, error: "Timed out after 20ms" },
+                },
+            });
+        });
+    });
+
+    describe("getServerStatus", () => {
+        it("should report the queue and the locked devices", async () => {
+            const queue = new TaskQueue<string, string>(2, { resourcePools: { cpu: 2, network: 4 } });
+            let release: () => void = () => {};
+            const running = new Promise<string>((resolve) => { release = () => resolve("done"); });
+            const executor = vi.fn(() => running);
+
+            const locked = withDeviceLock("emulator-5554", () => running, { holder: "project-1: testLogin" });
+            const first = queue.enqueue("task1", executor, "project-1", { resources: ["cpu"] });
+            const second = queue.enqueue("task2", executor, "project-1");
+
+            expect(getServerStatus(queue)).toEqual({
+                queue_length: 1,
+                active_workers: 1,
+                max_workers: 2,
+                active_tasks_by_project: { "project-1": 1 },
+                resource_pools: {
+                    cpu: { capacity: 2, in_use: 1 },
+                    network: { capacity: 4, in_use: 0 },
+                },
+                locked_devices: ["emulator-5554"],
+                device_locks: [{
+                    serial: "emulator-5554",
+                    holder: "project-1: testLogin",
+                    held_since: expect.any(String) as unknown as string,
+                    waiters: 0,
+                }],
+            });
+
+            release();
+            await Promise.all([locked, first, second]);
+
+            expect(getServerStatus(queue).locked_devices).toEqual([]);
+            expect(getServerStatus(queue).device_locks).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JobManager, type JobRunner } from "../../utils/JobManagerUtils.js";
+import { JobStore, type Job } from "../../utils/JobStoreUtils.js";
+import type { ToolCallResult } from "../../utils/ToolRegistryUtils.js";
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+describe("JobManager", () => {
+    const passed: ToolCallResult = { content: [{ type: "text", text: "Test passed" }], isError: false };
+    let dir: string;
+    let store: JobStore;
+
+    /**
+     * Runner whose calls start and finish when the test says so
+     */
+    function createControlledRunner() {
+        let start: () => void = () => {};
+        let finish: (result: ToolCallResult) => void = () => {};
+        let fail: (error: Error) => void = () => {};
+        const run = vi.fn<JobRunner>((_job, signal, onStart) => new Promise<ToolCallResult>((resolve, reject) => {
+            start = onStart;
+            finish = resolve;
+            fail = reject;
+            signal.addEventListener("abort", () => reject(signal.reason as Error));
+        }));
+        return {
+            run,
+            start: () => start(),
+            finish: (result: ToolCallResult) => finish(result),
+            fail: (error: Error) => fail(error),
+        };
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        dir = mkdtempSync(join(tmpdir(), "jobs-"));
+        store = new JobStore(dir);
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should record a job through queued, running and completed", async () => {
+        const runner = createControlledRunner();
+        const manager = new JobManager({ store, run: runner.run });
+
+        const job = manager.submit("remote_test_android", { project_id: "project-1" }, "alice");
+        expect(job.status).toBe("queued");
+        expect(manager.get(job.id, "alice")?.status).toBe("queued");
+
+        runner.start();
+        expect(manager.get(job.id, "alice")).toMatchObject({ status: "running", started_at: expect.any(String) as unknown as string });
+
+        runner.finish(passed);
+        await vi.waitFor(() => {
+            expect(manager.get(job.id, "alice")).toMatchObject({ status: "completed", result: passed });
+        });
+        expect(manager.get(job.id, "alice")?.finished_at).toBeDefined();
+    });
+
+    it("should record why a job failed", async () => {
+        const runner = createControlledRunner();
+        const manager = new JobManager({ store, run: runner.run });
+
+        const job = manager.submit("remote_test_ios", {});
+        runner.start();
+        runner.fail(new Error("Task did not finish within 1000ms"));
+
+        await vi.waitFor(() => {
+            expect(manager.get(job.id)).toMatchObject({ status: "failed", error: "Task did not finish within 1000ms" });
+        });
+    });
+
+    it("should hide jobs from other users", () => {
+        const manager = new JobManager({ store, run: createControlledRunner().run });
+
+        const job = manager.submit("remote_test_ios", {}, "alice");
+
+        expect(manager.get(job.id, "bob")).toBeUndefined();
+        expect(manager.get(job.id)).toBeUndefined();
+        expect(manager.cancel(job.id, "bob")).toBeUndefined();
+        expect(manager.get(job.id, "alice")?.status).toBe("queued");
+    });
+
+    it("should cancel a running job and abort its tool call", async () => {
+        const runner = createControlledRunner();
+        const manager = new JobManager({ store, run: runner.run });
+
+        const job = manager.submit("remote_test_android", {});
+        runner.start();
+        const cancelled = manager.cancel(job.id);
+
+        expect(cancelled?.status).toBe("cancelled");
+        const signal = runner.run.mock.calls[0][1];
+        expect(signal.aborted).toBe(true);
+
+        // The job stays cancelled once the aborted call settles
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(manager.get(job.id)).toMatchObject({ status: "cancelled", finished_at: expect.any(String) as unknown as string });
+    });
+
+    it("should leave finished jobs unchanged when cancelled", async () => {
+        const runner = createControlledRunner();
+        const manager = new JobManager({ store, run: runner.run });
+
+        const job = manager.submit("remote_test_android", {});
+        runner.finish(passed);
+        await vi.waitFor(() => {
+            expect(manager.get(job.id)?.status).toBe("completed");
+        });
+
+        expect(manager.cancel(job.id)?.status).toBe("completed");
+    });
+
+    describe("recover", () => {
+        const now = Date.parse("2026-01-10T00:00:00.000Z");
+
+        function storedJob(id: string, status: Job["status"], finishedAt?: string): Job {
+            return {
+                id,
+                tool_name: "remote_test_android",
+                args: {},
+                status,
+                created_at: "2026-01-01T00:00:00.000Z",
+                finished_at: finishedAt,
+            };
+        }
+
+        it("should requeue queued jobs, fail running jobs and delete expired jobs", () => {
+            store.save(storedJob("00000000-0000-4000-8000-000000000001", "queued"));
+            store.save(storedJob("00000000-0000-4000-8000-000000000002", "running"));
+            store.save(storedJob("00000000-0000-4000-8000-000000000003", "completed", "2026-01-01T00:00:00.000Z"));
+            store.save(storedJob("00000000-0000-4000-8000-000000000004", "failed", "2026-01-09T00:00:00.000Z"));
+            const runner = createControlledRunner();
+            const manager = new JobManager({ store, run: runner.run });
+
+            expect(manager.recover(now)).toEqual({ requeued: 1, failed: 1, deleted: 1 });
+
+            expect(runner.run).toHaveBeenCalledTimes(1);
+            expect(runner.run.mock.calls[0][0].id).toBe("00000000-0000-4000-8000-000000000001");
+            expect(store.get("00000000-0000-4000-8000-000000000002")).toMatchObject({
+                status: "failed",
+                error: "Interrupted by a server restart",
+            });
+            expect(store.get("00000000-0000-4000-8000-000000000003")).toBeUndefined();
+            expect(store.get("00000000-0000-4000-8000-000000000004")?.status).toBe("failed");
+        });
+    });
+});
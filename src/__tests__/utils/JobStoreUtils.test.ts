@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JobStore, toJobSummary, type Job } from "../../utils/JobStoreUtils.js";
+import { logger } from "../../utils/Logger.js";
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+describe("JobStore", () => {
+    let dir: string;
+    let store: JobStore;
+
+    const job: Job = {
+        id: "3f2c8a4e-5b6d-4e7f-8a9b-0c1d2e3f4a5b",
+        tool_name: "remote_test_android",
+        args: { project_id: "project-1", package_name: "com.example", test_name: "testLogin" },
+        user_id: "alice",
+        status: "queued",
+        created_at: "2026-01-01T00:00:00.000Z",
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        dir = mkdtempSync(join(tmpdir(), "jobs-"));
+        store = new JobStore(join(dir, "jobs"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should save, read and replace jobs", () => {
+        store.save(job);
+        store.save({ ...job, status: "running", started_at: "2026-01-01T00:01:00.000Z" });
+
+        expect(store.get(job.id)).toEqual({ ...job, status: "running", started_at: "2026-01-01T00:01:00.000Z" });
+        expect(readdirSync(join(dir, "jobs"))).toEqual([`${job.id}.json`]);
+    });
+
+    it("should return undefined for missing jobs and IDs that are not UUIDs", () => {
+        expect(store.get("00000000-0000-0000-0000-000000000000")).toBeUndefined();
+        expect(store.get("../../etc/passwd")).toBeUndefined();
+    });
+
+    it("should list jobs and skip unreadable files", () => {
+        store.save(job);
+        writeFileSync(join(dir, "jobs", "broken.json"), "{");
+
+        expect(store.list()).toEqual([job]);
+        expect(logger.warn).toHaveBeenCalledWith(
+            expect.objectContaining({ file: "broken.json" }),
+            "Could not read job file"
+        );
+    });
+
+    it("should delete jobs", () => {
+        store.save(job);
+        store.delete(job.id);
+
+        expect(store.get(job.id)).toBeUndefined();
+        expect(store.list()).toEqual([]);
+    });
+});
+
+describe("toJobSummary", () => {
+    it("should omit the arguments, user and result", () => {
+        expect(toJobSummary({
+            id: "3f2c8a4e-5b6d-4e7f-8a9b-0c1d2e3f4a5b",
+            tool_name: "remote_test_ios",
+            args: { project_id: "project-1" },
+            user_id: "alice",
+            status: "completed",
+            created_at: "2026-01-01T00:00:00.000Z",
+            finished_at: "2026-01-01T00:05:00.000Z",
+            result: { content: [], isError: false },
+        })).toEqual({
+            job_id: "3f2c8a4e-5b6d-4e7f-8a9b-0c1d2e3f4a5b",
+            tool_name: "remote_test_ios",
+            status: "completed",
+            created_at: "2026-01-01T00:00:00.000Z",
+            started_at: undefined,
+            finished_at: "2026-01-01T00:05:00.000Z",
+            error: undefined,
+        });
+    });
+});
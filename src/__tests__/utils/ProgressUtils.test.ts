@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { ProgressReporter, createProgressReporter } from "../../utils/ProgressUtils.js";
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+describe("ProgressReporter", () => {
+    it("should send one progress notification per step with increasing progress", async () => {
+        const sendNotification = vi.fn(() => Promise.resolve());
+        const reporter = new ProgressReporter("token-1", sendNotification);
+
+        await reporter.report("Building debug APK");
+        await reporter.report("Building test APK");
+
+        expect(sendNotification).toHaveBeenNthCalledWith(1, {
+            method: "notifications/progress",
+            params: { progressToken: "token-1", progress: 1, message: "Building debug APK" },
+        });
+        expect(sendNotification).toHaveBeenNthCalledWith(2, {
+            method: "notifications/progress",
+            params: { progressToken: "token-1", progress: 2, message: "Building test APK" },
+        });
+    });
+
+    it("should not throw when a notification cannot be sent", async () => {
+        const sendNotification = vi.fn(() => Promise.reject(new Error("Not connected")));
+        const reporter = new ProgressReporter(7, sendNotification);
+
+        await expect(reporter.report("Running test")).resolves.toBeUndefined();
+        await reporter.report("Uninstalling apps");
+
+        expect(sendNotification).toHaveBeenLastCalledWith({
+            method: "notifications/progress",
+            params: { progressToken: 7, progress: 2, message: "Uninstalling apps" },
+        });
+    });
+});
+
+describe("createProgressReporter", () => {
+    it("should return undefined without a progress token", () => {
+        expect(createProgressReporter(undefined, vi.fn())).toBeUndefined();
+    });
+
+    it("should return a reporter for numeric and string tokens", () => {
+        expect(createProgressReporter(0, vi.fn())).toBeInstanceOf(ProgressReporter);
+        expect(createProgressReporter("token", vi.fn())).toBeInstanceOf(ProgressReporter);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { checkProjectAccess, getProjectRole, hasProjectAccess } from "../../utils/ProjectAccessUtils.js";
+import { getMCPProject, type MCPProject } from "../../utils/ServerStorageUtils.js";
+
+vi.mock("../../utils/ServerStorageUtils.js", () => ({
+    getMCPProject: vi.fn(),
+}));
+
+describe("ProjectAccessUtils", () => {
+    const project: MCPProject = {
+        id: "project-1",
+        name: "My App",
+        ownerId: "alice",
+        members: { alice: "owner", bob: "editor", carol: "viewer" },
+    };
+    const legacyProject: MCPProject = { id: "project-0", name: "Old App", members: {} };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe("getProjectRole", () => {
+        it("should return the role of each member", () => {
+            expect(getProjectRole(project, "alice")).toBe("owner");
+            expect(getProjectRole(project, "bob")).toBe("editor");
+            expect(getProjectRole(project, "carol")).toBe("viewer");
+            expect(getProjectRole(project, "dave")).toBeUndefined();
+        });
+
+        it("should treat the owner as owner even if missing from the member list", () => {
+            expect(getProjectRole({ ...project, members: {} }, "alice")).toBe("owner");
+        });
+    });
+
+    describe("hasProjectAccess", () => {
+        it("should grant lower roles to higher roles", () => {
+            expect(hasProjectAccess(project, "alice", "owner")).toBe(true);
+            expect(hasProjectAccess(project, "alice", "viewer")).toBe(true);
+            expect(hasProjectAccess(project, "bob", "editor")).toBe(true);
+            expect(hasProjectAccess(project, "bob", "viewer")).toBe(true);
+            expect(hasProjectAccess(project, "carol", "viewer")).toBe(true);
+        });
+
+        it("should deny roles above the member's role", () => {
+            expect(hasProjectAccess(project, "bob", "owner")).toBe(false);
+            expect(hasProjectAccess(project, "carol", "editor")).toBe(false);
+        });
+
+        it("should deny users who are not members", () => {
+            expect(hasProjectAccess(project, "dave", "viewer")).toBe(false);
+        });
+
+        it("should grant every role on projects without an owner", () => {
+            expect(hasProjectAccess(legacyProject, "dave", "owner")).toBe(true);
+        });
+    });
+
+    describe("checkProjectAccess", () => {
+        it("should return undefined when access is granted", async () => {
+            vi.mocked(getMCPProject).mockResolvedValue(project);
+            await expect(checkProjectAccess("project-1", "bob", "editor")).resolves.toBeUndefined();
+            expect(getMCPProject).toHaveBeenCalledWith("project-1");
+        });
+
+        it("should return an error message when access is denied", async () => {
+            vi.mocked(getMCPProject).mockResolvedValue(project);
+            await expect(checkProjectAccess("project-1", "carol", "editor")).resolves.toBe(
+                "Access denied: editor role required on project project-1"
+            );
+        });
+
+        it("should return an error message for unknown projects", async () => {
+            vi.mocked(getMCPProject).mockResolvedValue(null);
+            await expect(checkProjectAccess("missing", "alice", "viewer")).resolves.toBe("Project not found: missing");
+        });
+    });
+});
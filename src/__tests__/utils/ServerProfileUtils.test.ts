@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { getServerProfile, isServerProfile } from "../../utils/ServerProfileUtils.js";
+
+describe("ServerProfileUtils", () => {
+    it("should default to local-skills when unset", () => {
+        expect(getServerProfile(undefined)).toBe("local-skills");
+        expect(getServerProfile("")).toBe("local-skills");
+    });
+
+    it("should accept known profiles", () => {
+        expect(getServerProfile("local-skills")).toBe("local-skills");
+        expect(getServerProfile("remote-build-farm")).toBe("remote-build-farm");
+    });
+
+    it("should throw on unknown profiles", () => {
+        expect(() => getServerProfile("cloud")).toThrow('Invalid PISTACHIO_PROFILE "cloud"');
+    });
+
+    it("should identify profile names", () => {
+        expect(isServerProfile("remote-build-farm")).toBe(true);
+        expect(isServerProfile("remote")).toBe(false);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+    createMCPProject,
+    getMCPProject,
+    removeProjectMember,
+    setProjectMember,
+} from "../../utils/ServerStorageUtils.js";
+import { checkProjectAccess } from "../../utils/ProjectAccessUtils.js";
+
+/**
+ * Runs against the Firestore and Auth emulators started for `yarn dev`:
+ *   FIREBASE_AUTH_EMULATOR_HOST=localhost:9099 FIRESTORE_EMULATOR_HOST=localhost:8080 yarn test:run
+ * Skipped when the emulators are not configured.
+ */
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_AUTH_EMULATOR_HOST)(
+    "ServerStorageUtils (Firestore emulator)",
+    () => {
+        it("should record the owner as a member of new projects", async () => {
+            const projectId = await createMCPProject("Owned App", "alice");
+
+            const project = await getMCPProject(projectId);
+
+            expect(project).toEqual({
+                id: projectId,
+                name: "Owned App",
+                ownerId: "alice",
+                members: { alice: "owner" },
+            });
+        });
+
+        it("should create projects without an owner when unauthenticated", async () => {
+            const projectId = await createMCPProject("Anonymous App");
+
+            const project = await getMCPProject(projectId);
+
+            expect(project?.ownerId).toBeUndefined();
+            expect(project?.members).toEqual({});
+        });
+
+        it("should return null for unknown projects", async () => {
+            expect(await getMCPProject("does-not-exist")).toBeNull();
+        });
+
+        it("should add, change and remove members", async () => {
+            const projectId = await createMCPProject("Shared App", "alice");
+
+            await setProjectMember(projectId, "bob", "viewer");
+            expect(await checkProjectAccess(projectId, "bob", "viewer")).toBeUndefined();
+            expect(await checkProjectAccess(projectId, "bob", "editor")).toBe(
+                `Access denied: editor role required on project ${projectId}`
+            );
+
+            await setProjectMember(projectId, "bob", "editor");
+            expect(await checkProjectAccess(projectId, "bob", "editor")).toBeUndefined();
+
+            await removeProjectMember(projectId, "bob");
+            expect((await getMCPProject(projectId))?.members).toEqual({ alice: "owner" });
+            expect(await checkProjectAccess(projectId, "bob", "viewer")).toBeDefined();
+        });
+
+        it("should keep user IDs containing dots as a single member key", async () => {
+            const projectId = await createMCPProject("Dotted App", "alice");
+
+            await setProjectMember(projectId, "bob@example.com", "viewer");
+
+            expect((await getMCPProject(projectId))?.members).toEqual({
+                alice: "owner",
+                "bob@example.com": "viewer",
+            });
+        });
+
+        it("should not change or remove the owner", async () => {
+            const projectId = await createMCPProject("Protected App", "alice");
+
+            await expect(setProjectMember(projectId, "alice", "viewer")).rejects.toThrow(
+                "Cannot change the role of the project owner"
+            );
+            await expect(removeProjectMember(projectId, "alice")).rejects.toThrow("Cannot remove the project owner");
+        });
+    }
+);
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { SessionManager } from "../../utils/SessionManagerUtils.js";
+import type { AuthenticatedRequest } from "../../utils/AuthUtils.js";
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+/** Signals of the tool calls received by the test servers, in order */
+let toolCallSignals: AbortSignal[] = [];
+
+function createTestServer(): Server {
+    const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, () => ({ tools: [] }));
+    // Runs until the call is cancelled
+    server.setRequestHandler(CallToolRequestSchema, (_request, extra) => {
+        toolCallSignals.push(extra.signal);
+        return new Promise((resolve) => {
+            extra.signal.addEventListener("abort", () => resolve({ content: [], isError: true }));
+        });
+    });
+    return server;
+}
+
+describe("SessionManager", () => {
+    const IDLE_TIMEOUT_MS = 60_000;
+
+    let sessionManager: SessionManager;
+    let httpServer: http.Server;
+    let url: URL;
+    let clients: Client[];
+
+    async function connectClient(userId?: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+        const client = new Client({ name: "test-client", version: "1.0.0" });
+        const transport = new StreamableHTTPClientTransport(url, {
+            requestInit: userId ? { headers: { "X-Test-User": userId } } : undefined,
+        });
+        await client.connect(transport);
+        clients.push(client);
+        return { client, transport };
+    }
+
+    async function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+        return fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json, text/event-stream",
+                ...headers,
+            },
+            body: JSON.stringify(body),
+        });
+    }
+
+    beforeEach(async () => {
+        clients = [];
+        toolCallSignals = [];
+        sessionManager = new SessionManager({
+            createServer: createTestServer,
+            idleTimeoutMs: IDLE_TIMEOUT_MS,
+        });
+        httpServer = http.createServer((req: AuthenticatedRequest, res) => {
+            // Stand-in for bearer authentication
+            const userId = req.headers["x-test-user"];
+            if (typeof userId === "string") {
+                req.auth = { token: `token-${userId}`, clientId: userId, scopes: [] };
+            }
+            void sessionManager.handleRequest(req, res);
+        });
+        await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+        const { port } = httpServer.address() as AddressInfo;
+        url = new URL(`http://127.0.0.1:${port}/message`);
+    });
+
+    afterEach(async () => {
+        for (const client of clients) {
+            await client.close();
+        }
+        await sessionManager.closeAll();
+        // Don't wait for the keep-alive connections of raw fetch requests to time out
+        httpServer.closeAllConnections();
+        await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    });
+
+    it("should create a separate session for each client", async () => {
+        const first = await connectClient();
+        const second = await connectClient();
+
+        expect(first.transport.sessionId).toBeDefined();
+        expect(second.transport.sessionId).toBeDefined();
+        expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+        expect(sessionManager.size).toBe(2);
+
+        const { tools } = await first.client.listTools();
+        expect(tools).toEqual([]);
+    });
+
+    it("should close the session on DELETE", async () => {
+        const { transport } = await connectClient();
+        const sessionId = transport.sessionId!;
+        expect(sessionManager.has(sessionId)).toBe(true);
+
+        await transport.terminateSession();
+
+        expect(sessionManager.has(sessionId)).toBe(false);
+        expect(sessionManager.size).toBe(0);
+    });
+
+    it("should return 404 for unknown session IDs", async () => {
+        const response = await post(
+            { jsonrpc: "2.0", id: 1, method: "tools/list" },
+            { "Mcp-Session-Id": "unknown-session" }
+        );
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toMatchObject({ error: { code: -32001, message: "Session not found" } });
+    });
+
+    it("should not serve a session to another user", async () => {
+        const { client, transport } = await connectClient("alice");
+
+        const response = await post(
+            { jsonrpc: "2.0", id: 1, method: "tools/list" },
+            { "Mcp-Session-Id": transport.sessionId!, "X-Test-User": "bob" }
+        );
+
+        expect(response.status).toBe(404);
+        expect(sessionManager.has(transport.sessionId!)).toBe(true);
+        await expect(client.listTools()).resolves.toEqual({ tools: [] });
+    });
+
+    it("should return 400 for GET requests without a session ID", async () => {
+        const response = await fetch(url, { headers: { Accept: "text/event-stream" } });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({
+            error: { message: "Bad Request: Mcp-Session-Id header is required" },
+        });
+    });
+
+    it("should not keep a session for requests that do not initialize one", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+        expect(response.status).toBe(400);
+        expect(sessionManager.size).toBe(0);
+    });
+
+    /**
+     * Initializes a session with the given protocol version, without a client that could resume streams
+     */
+    async function initializeSession(protocolVersion: string): Promise<string> {
+        const response = await post({
+            jsonrpc: "2.0",
+            id: 0,
+            method: "initialize",
+            params: { protocolVersion, capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+        });
+        const sessionId = response.headers.get("mcp-session-id")!;
+        await response.text();
+        const headers = { "Mcp-Session-Id": sessionId, "Mcp-Protocol-Version": protocolVersion };
+        await (await post({ jsonrpc: "2.0", method: "notifications/initialized" }, headers)).text();
+        return sessionId;
+    }
+
+    /**
+     * Starts a tool call and drops its response once the handler is running
+     */
+    async function dropToolCall(protocolVersion: string): Promise<AbortSignal> {
+        const sessionId = await initializeSession(protocolVersion);
+        const controller = new AbortController();
+        const call = fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json, text/event-stream",
+                "Mcp-Session-Id": sessionId,
+                "Mcp-Protocol-Version": protocolVersion,
+            },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "wait", arguments: {} } }),
+            signal: controller.signal,
+        }).then((response) => response.text()).catch(() => undefined);
+        await vi.waitFor(() => expect(toolCallSignals).toHaveLength(1));
+
+        controller.abort();
+        await call;
+        return toolCallSignals[0];
+    }
+
+    it("should cancel a call when its response closes before the result", async () => {
+        const signal = await dropToolCall("2025-06-18");
+
+        await vi.waitFor(() => expect(signal.aborted).toBe(true));
+        expect(signal.reason).toBe("The client disconnected");
+    });
+
+    it("should keep a call running when its client can resume the stream", async () => {
+        const signal = await dropToolCall("2025-11-25");
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(signal.aborted).toBe(false);
+    });
+
+    it("should reject invalid JSON in a session request", async () => {
+        const sessionId = await initializeSession("2025-06-18");
+
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", "Mcp-Session-Id": sessionId },
+            body: "{",
+        });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+    });
+
+    it("should close sessions that have been idle longer than the timeout", async () => {
+        const { transport } = await connectClient();
+        const sessionId = transport.sessionId!;
+
+        expect(await sessionManager.closeIdleSessions(Date.now())).toBe(0);
+        expect(sessionManager.has(sessionId)).toBe(true);
+
+        // Wait for the client's standalone SSE stream, which must not keep the session alive
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(await sessionManager.closeIdleSessions(Date.now() + IDLE_TIMEOUT_MS)).toBe(1);
+        expect(sessionManager.has(sessionId)).toBe(false);
+
+        const response = await post(
+            { jsonrpc: "2.0", id: 2, method: "tools/list" },
+            { "Mcp-Session-Id": sessionId }
+        );
+        expect(response.status).toBe(404);
+    });
+});
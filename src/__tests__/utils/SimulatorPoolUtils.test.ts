@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { exec } from "child_process";
+import { IosSimulatorPool, parseSimctlDevices, parseSimctlRuntimes, parseSimulatorDeviceTypes } from "../../utils/SimulatorPoolUtils.js";
+
+// Mock child_process.exec - must be done before importing the module
+vi.mock("child_process", () => {
+    type ExecCallback = ((error: Error | null, stdout: string, stderr: string) => void) | undefined;
+    type ExecOptions = Record<string, unknown> | undefined;
+
+    const exec = vi.fn((command: string, optionsOrCallback?: ExecOptions | ExecCallback, callback?: ExecCallback) => {
+        const actualCallback: ExecCallback = typeof optionsOrCallback === "function" ? optionsOrCallback : callback;
+        if (actualCallback) {
+            actualCallback(null, "", "");
+        }
+        return {} as ReturnType<typeof import("child_process").exec>;
+    });
+    // @ts-expect-error - Symbol.for is not recognized by TypeScript for this use case
+    exec[Symbol.for("nodejs.util.promisify.custom")] = vi.fn((command: string, options?: ExecOptions) => {
+        return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+            exec(command, typeof options === "object" ? options : {}, (error: Error | null, stdout: string, stderr: string) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            });
+        });
+    });
+    return { exec };
+});
+
+// Mock logger
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+describe("SimulatorPoolUtils", () => {
+    const mockExec = vi.mocked(exec);
+    const RUNTIME = "com.apple.CoreSimulator.SimRuntime.iOS-26-2";
+    const RUNTIME_18 = "com.apple.CoreSimulator.SimRuntime.iOS-18-6";
+    let devices: { udid: string; name: string; state: string; isAvailable: boolean }[];
+    // iOS 18.6 is installed but has no simulators yet
+    let runtimes: { identifier: string; version: string; platform: string; isAvailable: boolean; supportedDeviceTypes: { name: string }[] }[];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        devices = [{ udid: "AAA", name: "iPhone 17 Pro Max", state: "Booted", isAvailable: true }];
+        runtimes = [
+            { identifier: RUNTIME_18, version: "18.6", platform: "iOS", isAvailable: true, supportedDeviceTypes: [{ name: "iPhone 16" }, { name: "iPad Pro 13-inch (M4)" }] },
+            { identifier: RUNTIME, version: "26.2", platform: "iOS", isAvailable: true, supportedDeviceTypes: [{ name: "iPhone 17 Pro Max" }, { name: "iPad Pro 13-inch (M4)" }] },
+        ];
+
+        // simctl lists the devices; created simulators get a UDID from their name
+        mockExec.mockImplementation((command, opts, cb) => {
+            const callback = typeof opts === "function" ? opts : cb;
+            let stdout = "";
+            if (command.includes("xcrun simctl list devices -j")) {
+                stdout = JSON.stringify({ devices: { [RUNTIME]: devices } });
+            } else if (command.includes("xcrun simctl list runtimes -j")) {
+                stdout = JSON.stringify({ runtimes });
+            } else if (command.includes("xcrun simctl create")) {
+                stdout = `${/\(Pistachio (\d+)\)/.exec(command)![1]}-UDID\n`;
+            }
+            callback?.(null, stdout, "");
+            return {} as ReturnType<typeof import("child_process").exec>;
+        });
+    });
+
+    describe("parseSimctlDevices", () => {
+        it("should parse the iOS simulators with the version of their runtime", () => {
+            const json = JSON.stringify({
+                devices: {
+                    [RUNTIME]: [{ udid: "AAA", name: "iPhone 17 Pro Max", state: "Booted", isAvailable: true }],
+                    "com.apple.CoreSimulator.SimRuntime.iOS-18-6": [{ udid: "BBB", name: "iPhone 16", state: "Shutdown" }],
+                    "com.apple.CoreSimulator.SimRuntime.watchOS-26-2": [{ udid: "CCC", name: "Apple Watch", state: "Shutdown", isAvailable: true }],
+                },
+            });
+
+            expect(parseSimctlDevices(json)).toEqual([
+                { udid: "AAA", name: "iPhone 17 Pro Max", state: "Booted", isAvailable: true, runtime: RUNTIME, osVersion: "26.2" },
+                {
+                    udid: "BBB",
+                    name: "iPhone 16",
+                    state: "Shutdown",
+                    isAvailable: false,
+                    runtime: "com.apple.CoreSimulator.SimRuntime.iOS-18-6",
+                    osVersion: "18.6",
+                },
+            ]);
+        });
+
+        it("should throw on output that is not JSON", () => {
+            expect(() => parseSimctlDevices("== Devices ==")).toThrow();
+        });
+    });
+
+    describe("parseSimctlRuntimes", () => {
+        it("should parse the available iOS runtimes with the device types they support", () => {
+            const json = JSON.stringify({
+                runtimes: [
+                    { identifier: RUNTIME, version: "26.2", platform: "iOS", isAvailable: true, supportedDeviceTypes: [{ name: "iPhone 17 Pro Max", productFamily: "iPhone" }] },
+                    { identifier: RUNTIME_18, version: "18.6", platform: "iOS", isAvailable: false, supportedDeviceTypes: [] },
+                    { identifier: "com.apple.CoreSimulator.SimRuntime.watchOS-26-2", version: "26.2", platform: "watchOS", isAvailable: true },
+                ],
+            });
+
+            expect(parseSimctlRuntimes(json)).toEqual([
+                { identifier: RUNTIME, osVersion: "26.2", supportedDeviceTypes: ["iPhone 17 Pro Max"] },
+            ]);
+        });
+    });
+
+    describe("parseSimulatorDeviceTypes", () => {
+        it("should override the default device type of a family", () => {
+            expect(parseSimulatorDeviceTypes("ipad=iPad Air 11-inch (M3)")).toEqual({
+                iphone: "iPhone 17 Pro Max",
+                ipad: "iPad Air 11-inch (M3)",
+            });
+        });
+
+        it("should reject unknown families", () => {
+            expect(() => parseSimulatorDeviceTypes("watch=Apple Watch")).toThrow(
+                "Invalid IOS_SIMULATOR_DEVICE_TYPES entry \"watch=Apple Watch\""
+            );
+        });
+    });
+
+    describe("leasing", () => {
+        it("should create simulators with distinct names for concurrent tests", async () => {
+            const pool = new IosSimulatorPool({ size: 3 });
+
+            const leases = await Promise.all([pool.lease(), pool.lease(), pool.lease()]);
+
+            expect(leases.map((lease) => lease.udid)).toEqual(["AAA", "1-UDID", "2-UDID"]);
+            expect(mockExec).toHaveBeenCalledWith(
+                `xcrun simctl create "iPhone 17 Pro Max (Pistachio 2)" "iPhone 17 Pro Max" ${RUNTIME}`,
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should reuse simulators the pool created before", async () => {
+            devices.push({ udid: "BBB", name: "iPhone 17 Pro Max (Pistachio 1)", state: "Shutdown", isAvailable: true });
+            const pool = new IosSimulatorPool({ size: 2 });
+
+            const leases = await Promise.all([pool.lease(), pool.lease()]);
+
+            expect(leases.map((lease) => lease.udid).sort()).toEqual(["AAA", "BBB"]);
+            expect(mockExec).not.toHaveBeenCalledWith(expect.stringContaining("simctl create"), expect.any(Object), expect.any(Function));
+        });
+
+        it("should make tests wait in FIFO order when the pool is full", async () => {
+            const pool = new IosSimulatorPool({ size: 1 });
+            const first = await pool.lease({ holder: "first" });
+            const order: string[] = [];
+            const second = pool.lease({ holder: "second" }).then((lease) => {
+                order.push("second");
+                return lease;
+            });
+            const third = pool.lease({ holder: "third" }).then((lease) => {
+                order.push("third");
+                return lease;
+            });
+            expect(pool.getWaiterCount()).toBe(2);
+            expect(pool.getStatus()).toMatchObject([{ udid: "AAA", holder: "first", osVersion: "26.2" }]);
+
+            first.release();
+            (await second).release();
+            (await third).release();
+
+            expect(order).toEqual(["second", "third"]);
+            expect(pool.getStatus()).toEqual([]);
+        });
+
+        it("should create a simulator on an installed runtime that has none", async () => {
+            const pool = new IosSimulatorPool({ size: 1, deviceTypes: { iphone: "iPhone 16", ipad: "iPad Pro 13-inch (M4)" } });
+
+            const lease = await pool.lease({ osVersion: "18" });
+
+            expect(lease).toMatchObject({ udid: "1-UDID", name: "iPhone 16 (Pistachio 1)", osVersion: "18.6" });
+            expect(mockExec).toHaveBeenCalledWith(
+                `xcrun simctl create "iPhone 16 (Pistachio 1)" "iPhone 16" ${RUNTIME_18}`,
+                expect.any(Object),
+                expect.any(Function)
+            );
+        });
+
+        it("should free its place when no runtime matches", async () => {
+            const pool = new IosSimulatorPool({ size: 1 });
+
+            await expect(pool.lease({ osVersion: "17" })).rejects.toThrow(
+                "No simulator runtime found for iOS 17 with iPhone 17 Pro Max. Available runtimes: iOS 26.2"
+            );
+            const lease = await pool.lease();
+
+            expect(lease.udid).toBe("AAA");
+        });
+
+        it("should stop waiting when the signal is aborted", async () => {
+            const pool = new IosSimulatorPool({ size: 1 });
+            const first = await pool.lease();
+            const controller = new AbortController();
+            const waiting = pool.lease({ signal: controller.signal });
+
+            controller.abort(new Error("cancelled"));
+
+            await expect(waiting).rejects.toThrow("cancelled");
+            expect(pool.getWaiterCount()).toBe(0);
+            first.release();
+        });
+    });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from "vitest";
-import { TaskQueue } from "../../utils/TaskQueueUtils.js";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TaskCancelledError, TaskQueue, TaskTimeoutError, parseResourcePools } from "../../utils/TaskQueueUtils.js";
 
 describe("TaskQueue", () => {
     describe("Queue Initialization", () => {
@@ -14,6 +14,12 @@ describe("TaskQueue", () => {
             const queue = new TaskQueue<string, number>();
             expect(queue.getMaxWorkers()).toBe(1);
         });
+
+        it("should reject a non-positive aging interval", () => {
+            expect(() => new TaskQueue<string, number>(1, { agingIntervalMs: 0 })).toThrow(
+                "agingIntervalMs must be positive"
+            );
+        });
     });
 
     describe("Task Enqueuing", () => {
@@ -442,4 +448,464 @@ describe("TaskQueue", () => {
             expect(queue.getActiveTasksByProject().size).toBe(0);
         });
     });
+
+    describe("Cancellation", () => {
+        it("should reject immediately when the signal is already aborted", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const controller = new AbortController();
+            controller.abort();
+            const executor = vi.fn().mockResolvedValue("result");
+
+            await expect(queue.enqueue("task", executor, undefined, { signal: controller.signal }))
+                .rejects.toBeInstanceOf(TaskCancelledError);
+            expect(executor).not.toHaveBeenCalled();
+            expect(queue.getQueueLength()).toBe(0);
+        });
+
+        it("should remove a queued task when its signal is aborted", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            let releaseFirst: () => void = () => {};
+            const executor = vi.fn().mockImplementation((task: string) =>
+                task === "task1"
+                    ? new Promise<string>((resolve) => { releaseFirst = () => resolve(task); })
+                    : Promise.resolve(task)
+            );
+            const controller = new AbortController();
+
+            const p1 = queue.enqueue("task1", executor);
+            const p2 = queue.enqueue("task2", executor, undefined, { signal: controller.signal });
+            const p3 = queue.enqueue("task3", executor);
+            expect(queue.getQueueLength()).toBe(2);
+
+            controller.abort();
+
+            await expect(p2).rejects.toThrow("Task was cancelled");
+            expect(queue.getQueueLength()).toBe(1);
+
+            releaseFirst();
+            expect(await p1).toBe("task1");
+            expect(await p3).toBe("task3");
+            expect(executor).toHaveBeenCalledTimes(2);
+            expect(executor).not.toHaveBeenCalledWith("task2");
+        });
+
+        it("should not reject a running task when its signal is aborted", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const controller = new AbortController();
+            const executor = vi.fn().mockImplementation(
+                (task: string) => new Promise<string>((resolve) => setTimeout(() => resolve(task), 20))
+            );
+
+            const promise = queue.enqueue("task1", executor, "project-1", { signal: controller.signal });
+            controller.abort();
+
+            expect(await promise).toBe("task1");
+            expect(executor).toHaveBeenCalledWith("task1");
+        });
+    });
+
+    describe("Scheduling", () => {
+        /**
+         * Occupies the single worker of a queue until the returned function is called
+         */
+        function occupyWorker(queue: TaskQueue<string, string>): () => Promise<void> {
+            let release: () => void = () => {};
+            const blocker = queue.enqueue("blocker", () => new Promise<string>((resolve) => {
+                release = () => resolve("blocker");
+            }));
+            return async () => {
+                release();
+                await blocker;
+            };
+        }
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should start higher priority tasks first", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const order: string[] = [];
+            const executor = (task: string) => {
+                order.push(task);
+                return Promise.resolve(task);
+            };
+            const release = occupyWorker(queue);
+
+            const promises = [
+                queue.enqueue("build", executor),
+                queue.enqueue("cleanup", executor, undefined, { priority: "background" }),
+                queue.enqueue("search", executor, undefined, { priority: "interactive" }),
+            ];
+            await release();
+            await Promise.all(promises);
+
+            expect(order).toEqual(["search", "build", "cleanup"]);
+        });
+
+        it("should take turns between fairness keys of equal priority", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const order: string[] = [];
+            const executor = (task: string) => {
+                order.push(task);
+                return Promise.resolve(task);
+            };
+            const release = occupyWorker(queue);
+
+            const promises = [
+                queue.enqueue("alice-1", executor, undefined, { fairnessKey: "alice" }),
+                queue.enqueue("alice-2", executor, undefined, { fairnessKey: "alice" }),
+                queue.enqueue("alice-3", executor, undefined, { fairnessKey: "alice" }),
+                queue.enqueue("bob-1", executor, undefined, { fairnessKey: "bob" }),
+                queue.enqueue("bob-2", executor, undefined, { fairnessKey: "bob" }),
+            ];
+            await release();
+            await Promise.all(promises);
+
+            expect(order).toEqual(["alice-1", "bob-1", "alice-2", "bob-2", "alice-3"]);
+        });
+
+        it("should raise the priority of tasks that waited long enough", async () => {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            vi.setSystemTime(0);
+            const queue = new TaskQueue<string, string>(1, { agingIntervalMs: 1000 });
+            const order: string[] = [];
+            const executor = (task: string) => {
+                order.push(task);
+                return Promise.resolve(task);
+            };
+            const release = occupyWorker(queue);
+
+            const promises = [queue.enqueue("cleanup", executor, undefined, { priority: "background" })];
+            vi.setSystemTime(15_000);
+            promises.push(queue.enqueue("build", executor));
+            vi.setSystemTime(20_000);
+            promises.push(queue.enqueue("search", executor, undefined, { priority: "interactive" }));
+            await release();
+            await Promise.all(promises);
+
+            // cleanup aged two classes to interactive and is older than search; build aged half a class
+            expect(order).toEqual(["cleanup", "search", "build"]);
+        });
+
+        it("should start a new interactive task before a normal task that waited a few intervals", async () => {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            vi.setSystemTime(0);
+            const queue = new TaskQueue<string, string>(1, { agingIntervalMs: 1000 });
+            const order: string[] = [];
+            const executor = (task: string) => {
+                order.push(task);
+                return Promise.resolve(task);
+            };
+            const release = occupyWorker(queue);
+
+            const promises = [queue.enqueue("build", executor)];
+            vi.setSystemTime(2500);
+            promises.push(queue.enqueue("search", executor, undefined, { priority: "interactive" }));
+            await release();
+            await Promise.all(promises);
+
+            expect(order).toEqual(["search", "build"]);
+        });
+
+        it("should skip tasks whose project is busy regardless of priority", async () => {
+            const queue = new TaskQueue<string, string>(2);
+            const order: string[] = [];
+            let releaseProject: () => void = () => {};
+            const projectTask = queue.enqueue("project-build", () => new Promise<string>((resolve) => {
+                releaseProject = () => resolve("project-build");
+            }), "project-1");
+            const release = occupyWorker(queue);
+            const executor = (task: string) => {
+                order.push(task);
+                return Promise.resolve(task);
+            };
+
+            const promises = [
+                queue.enqueue("project-search", executor, "project-1", { priority: "interactive" }),
+                queue.enqueue("other-build", executor),
+            ];
+            await release();
+            await promises[1];
+
+            expect(order).toEqual(["other-build"]);
+
+            releaseProject();
+            await Promise.all([projectTask, ...promises]);
+            expect(order).toEqual(["other-build", "project-search"]);
+        });
+    });
+
+    describe("Timeouts", () => {
+        it("should reject a task that runs too long and abort its executor signal", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            let executorSignal: AbortSignal | undefined;
+            let finish: () => void = () => {};
+            const executor = vi.fn((task: string, signal?: AbortSignal) => {
+                executorSignal = signal;
+                return new Promise<string>((resolve) => { finish = () => resolve(task); });
+            });
+
+            const promise = queue.enqueue("task1", executor, undefined, { timeoutMs: 20 });
+
+            const error = await promise.catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(TaskTimeoutError);
+            expect(error).toMatchObject({ phase: "running", timeoutMs: 20, message: "Task did not finish within 20ms" });
+            expect(executorSignal?.aborted).toBe(true);
+            expect(executorSignal?.reason).toBe(error);
+
+            // The worker is only freed once the executor stops
+            expect(queue.getActiveWorkers()).toBe(1);
+            finish();
+            await vi.waitFor(() => expect(queue.getActiveWorkers()).toBe(0));
+        });
+
+        it("should not time out tasks that finish in time", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const executor = vi.fn((task: string) => Promise.resolve(task));
+
+            expect(await queue.enqueue("task1", executor, undefined, { timeoutMs: 1000 })).toBe("task1");
+            expect(executor).toHaveBeenCalledWith("task1", expect.any(AbortSignal));
+        });
+
+        it("should remove a task that waits in the queue too long", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            let finish: () => void = () => {};
+            const executor = vi.fn((task: string) =>
+                task === "task1"
+                    ? new Promise<string>((resolve) => { finish = () => resolve(task); })
+                    : Promise.resolve(task)
+            );
+
+            const first = queue.enqueue("task1", executor);
+            const second = queue.enqueue("task2", executor, undefined, { maxQueueWaitMs: 20 });
+
+            await expect(second).rejects.toThrow("Task did not start within 20ms");
+            expect(queue.getQueueLength()).toBe(0);
+
+            finish();
+            expect(await first).toBe("task1");
+            expect(executor).not.toHaveBeenCalledWith("task2");
+        });
+
+        it("should not apply the queue wait limit once a task started", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const executor = vi.fn(
+                (task: string) => new Promise<string>((resolve) => setTimeout(() => resolve(task), 40))
+            );
+
+            expect(await queue.enqueue("task1", executor, undefined, { maxQueueWaitMs: 10 })).toBe("task1");
+        });
+    });
+
+    describe("Resource Pools", () => {
+        /**
+         * Executor that runs until released, recording the tasks that started
+         */
+        function createHeldExecutor() {
+            const started: string[] = [];
+            const releases = new Map<string, () => void>();
+            const executor = (task: string) => {
+                started.push(task);
+                return new Promise<string>((resolve) => releases.set(task, () => resolve(task)));
+            };
+            return { started, executor, release: (task: string) => releases.get(task)?.() };
+        }
+
+        it("should reject pools without capacity", () => {
+            expect(() => new TaskQueue<string, string>(4, { resourcePools: { cpu: 0 } })).toThrow(
+                "Resource pool cpu must have a capacity of at least 1"
+            );
+        });
+
+        it("should reject tasks needing an unknown pool", async () => {
+            const queue = new TaskQueue<string, string>(4, { resourcePools: { cpu: 1 } });
+            const executor = vi.fn().mockResolvedValue("result");
+
+            await expect(queue.enqueue("task", executor, undefined, { resources: ["gpu"] })).rejects.toThrow(
+                "Unknown resource pool: gpu"
+            );
+            expect(executor).not.toHaveBeenCalled();
+        });
+
+        it("should limit concurrent tasks per pool while other pools keep running", async () => {
+            const queue = new TaskQueue<string, string>(4, { resourcePools: { cpu: 1, network: 2 } });
+            const { started, executor, release } = createHeldExecutor();
+
+            const promises = [
+                queue.enqueue("build-1", executor, undefined, { resources: ["cpu"] }),
+                queue.enqueue("build-2", executor, undefined, { resources: ["cpu"] }),
+                queue.enqueue("search-1", executor, undefined, { resources: ["network"] }),
+                queue.enqueue("search-2", executor, undefined, { resources: ["network"] }),
+            ];
+
+            expect(started).toEqual(["build-1", "search-1", "search-2"]);
+            expect(queue.getResourcePools()).toEqual(new Map([
+                ["cpu", { capacity: 1, inUse: 1 }],
+                ["network", { capacity: 2, inUse: 2 }],
+            ]));
+
+            release("build-1");
+            await promises[0];
+            await vi.waitFor(() => expect(started).toContain("build-2"));
+
+            ["build-2", "search-1", "search-2"].forEach(release);
+            await Promise.all(promises);
+            expect(queue.getResourcePools().get("cpu")).toEqual({ capacity: 1, inUse: 0 });
+        });
+
+        it("should wait until every pool a task needs has a free slot", async () => {
+            const queue = new TaskQueue<string, string>(4, { resourcePools: { cpu: 2, "android-device": 1 } });
+            const { started, executor, release } = createHeldExecutor();
+
+            const promises = [
+                queue.enqueue("android-1", executor, undefined, { resources: ["cpu", "android-device"] }),
+                queue.enqueue("android-2", executor, undefined, { resources: ["cpu", "android-device"] }),
+                queue.enqueue("clean", executor, undefined, { resources: ["cpu"] }),
+            ];
+
+            expect(started).toEqual(["android-1", "clean"]);
+
+            release("android-1");
+            await promises[0];
+            await vi.waitFor(() => expect(started).toEqual(["android-1", "clean", "android-2"]));
+
+            release("android-2");
+            release("clean");
+            await Promise.all(promises);
+        });
+
+        it("should still respect the total worker limit", () => {
+            const queue = new TaskQueue<string, string>(1, { resourcePools: { network: 4 } });
+            const { started, executor } = createHeldExecutor();
+
+            void queue.enqueue("search-1", executor, undefined, { resources: ["network"] });
+            void queue.enqueue("search-2", executor, undefined, { resources: ["network"] });
+
+            expect(started).toEqual(["search-1"]);
+            expect(queue.getQueueLength()).toBe(1);
+        });
+    });
+
+    describe("Queue Status", () => {
+        /**
+         * Executor that runs until released, recording the tasks that started
+         */
+        function createHeldExecutor() {
+            const releases = new Map<string, () => void>();
+            const executor = (task: string) => new Promise<string>((resolve) => releases.set(task, () => resolve(task)));
+            return { executor, release: (task: string) => releases.get(task)?.() };
+        }
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should list waiting tasks in the order they are expected to start", () => {
+            const queue = new TaskQueue<string, string>(1);
+            const { executor } = createHeldExecutor();
+
+            void queue.enqueue("running", executor);
+            void queue.enqueue("build", executor);
+            void queue.enqueue("search", executor, undefined, { priority: "interactive" });
+
+            expect(queue.getQueuedTasks()).toEqual([
+                expect.objectContaining({ task: "search", position: 1, queueLength: 2, priority: "interactive", estimatedStartAt: undefined }),
+                expect.objectContaining({ task: "build", position: 2, queueLength: 2, priority: "normal", estimatedStartAt: undefined }),
+            ]);
+        });
+
+        it("should estimate start times from the average duration of recent tasks", async () => {
+            vi.useFakeTimers({ now: 0 });
+            const queue = new TaskQueue<string, string>(1);
+            const { executor, release } = createHeldExecutor();
+
+            const first = queue.enqueue("test-1", executor, undefined, { durationKey: "test" });
+            vi.advanceTimersByTime(60_000);
+            release("test-1");
+            await first;
+            // Let the queue free the worker
+            await vi.advanceTimersByTimeAsync(0);
+            expect(queue.getAverageDurations()).toEqual(new Map([["test", 60_000]]));
+
+            void queue.enqueue("test-2", executor, undefined, { durationKey: "test" });
+            void queue.enqueue("test-3", executor, undefined, { durationKey: "test" });
+            void queue.enqueue("search", executor, undefined, { durationKey: "search" });
+            vi.advanceTimersByTime(10_000);
+
+            // test-2 runs until 120s; tools without history are estimated with the overall average
+            expect(queue.getQueuedTasks().map((status) => [status.task, status.estimatedStartAt])).toEqual([
+                ["test-3", 120_000],
+                ["search", 180_000],
+            ]);
+        });
+
+        it("should account for busy resource pools and projects in estimates", async () => {
+            vi.useFakeTimers({ now: 0 });
+            const queue = new TaskQueue<string, string>(4, { resourcePools: { cpu: 2, "android-device": 1 } });
+            const { executor, release } = createHeldExecutor();
+            const android = { durationKey: "android", resources: ["cpu", "android-device"] };
+
+            const first = queue.enqueue("android-1", executor, undefined, android);
+            vi.advanceTimersByTime(30_000);
+            release("android-1");
+            await first;
+            // Let the queue free the worker
+            await vi.advanceTimersByTimeAsync(0);
+
+            void queue.enqueue("android-2", executor, undefined, android);
+            void queue.enqueue("android-3", executor, undefined, android);
+            void queue.enqueue("clean", executor, "project-1", { durationKey: "android" });
+            void queue.enqueue("clean-again", executor, "project-1", { durationKey: "android" });
+
+            expect(queue.getQueuedTasks().map((status) => [status.task, status.estimatedStartAt])).toEqual([
+                ["android-3", 60_000],
+                ["clean-again", 60_000],
+            ]);
+        });
+
+        it("should report the position of waiting tasks when it changes", async () => {
+            const queue = new TaskQueue<string, string>(1);
+            const { executor, release } = createHeldExecutor();
+            const onRunningUpdate = vi.fn();
+            const onFirstUpdate = vi.fn();
+            const onSecondUpdate = vi.fn();
+
+            const running = queue.enqueue("running", executor, undefined, { onQueueUpdate: onRunningUpdate });
+            const first = queue.enqueue("first", executor, undefined, { onQueueUpdate: onFirstUpdate });
+            void queue.enqueue("second", executor, undefined, { onQueueUpdate: onSecondUpdate });
+            void queue.enqueue("third", executor);
+
+            expect(onRunningUpdate).not.toHaveBeenCalled();
+            expect(onFirstUpdate).toHaveBeenCalledTimes(1);
+            expect(onFirstUpdate).toHaveBeenCalledWith(expect.objectContaining({ task: "first", position: 1, queueLength: 1 }));
+            expect(onSecondUpdate).toHaveBeenCalledTimes(1);
+            expect(onSecondUpdate).toHaveBeenCalledWith(expect.objectContaining({ task: "second", position: 2 }));
+
+            release("running");
+            await running;
+            await vi.waitFor(() => expect(onSecondUpdate).toHaveBeenCalledTimes(2));
+            expect(onSecondUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ task: "second", position: 1, queueLength: 2 }));
+            expect(onFirstUpdate).toHaveBeenCalledTimes(1);
+
+            release("first");
+            await first;
+        });
+    });
+});
+
+describe("parseResourcePools", () => {
+    it("should parse comma-separated pool capacities", () => {
+        expect(parseResourcePools("cpu=2, android-device = 1,network=16,")).toEqual({
+            cpu: 2,
+            "android-device": 1,
+            network: 16,
+        });
+    });
+
+    it("should reject malformed entries", () => {
+        expect(() => parseResourcePools("cpu")).toThrow('Invalid RESOURCE_POOLS entry "cpu": expected pool_name=capacity');
+        expect(() => parseResourcePools("cpu=0")).toThrow("Invalid RESOURCE_POOLS entry");
+        expect(() => parseResourcePools("cpu=1.5")).toThrow("Invalid RESOURCE_POOLS entry");
+    });
 });
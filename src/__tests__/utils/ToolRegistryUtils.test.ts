@@ -0,0 +1,384 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { ToolRegistry, extractProjectId, parseToolTimeouts, toContentBlocks } from "../../utils/ToolRegistryUtils.js";
+
+vi.mock("../../utils/Logger.js", () => ({
+    logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+describe("ToolRegistry", () => {
+    const echoTool = {
+        name: "echo",
+        description: "Echo the message back",
+        inputSchema: z.object({
+            message: z.string().describe("Message to echo"),
+        }),
+        handler: vi.fn((args: { message: string }) =>
+            Promise.resolve({ output: args.message, success: true })
+        ),
+    };
+
+    const countTool = {
+        name: "count",
+        description: "Count the characters of a message",
+        inputSchema: z.object({
+            message: z.string(),
+        }),
+        outputSchema: z.object({
+            length: z.number().describe("Number of characters"),
+        }),
+        handler: vi.fn((args: { message: string }) =>
+            Promise.resolve({
+                output: String(args.message.length),
+                success: true,
+                structuredContent: { length: args.message.length },
+            })
+        ),
+    };
+
+    const projectTool = {
+        name: "project_tool",
+        description: "A tool operating on a project",
+        inputSchema: z.object({
+            project_id: z.string(),
+        }),
+        handler: vi.fn(() => Promise.resolve({ output: "done", success: true })),
+        requiresProjectLock: true,
+        projectRole: "editor" as const,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe("Registration", () => {
+        it("should register tools and report their names in order", () => {
+            const registry = new ToolRegistry().register(echoTool).register(projectTool);
+            expect(registry.getToolNames()).toEqual(["echo", "project_tool"]);
+            expect(registry.has("echo")).toBe(true);
+            expect(registry.has("missing")).toBe(false);
+        });
+
+        it("should throw when registering a duplicate tool name", () => {
+            const registry = new ToolRegistry().register(echoTool);
+            expect(() => registry.register(echoTool)).toThrow("Tool already registered: echo");
+        });
+
+        it("should throw when a tool accepts project_id without declaring a project role", () => {
+            const registry = new ToolRegistry();
+            expect(() => registry.register({ ...projectTool, projectRole: undefined })).toThrow(
+                "Tool project_tool accepts project_id but declares no projectRole"
+            );
+        });
+    });
+
+    describe("listTools", () => {
+        it("should convert input schemas to JSON Schema", () => {
+            const registry = new ToolRegistry().register(echoTool);
+            const [tool] = registry.listTools();
+
+            expect(tool.name).toBe("echo");
+            expect(tool.description).toBe("Echo the message back");
+            expect(tool.inputSchema.type).toBe("object");
+            expect(tool.inputSchema.properties).toEqual({
+                message: { type: "string", description: "Message to echo" },
+            });
+            expect(tool.inputSchema.required).toEqual(["message"]);
+            expect(tool.outputSchema).toBeUndefined();
+        });
+
+        it("should convert output schemas to JSON Schema", () => {
+            const registry = new ToolRegistry().register(countTool);
+            const [tool] = registry.listTools();
+
+            expect(tool.outputSchema?.type).toBe("object");
+            expect(tool.outputSchema?.properties).toEqual({
+                length: { type: "number", description: "Number of characters" },
+            });
+        });
+    });
+
+    describe("getProjectLockKey", () => {
+        it("should return the project_id for tools requiring a project lock", () => {
+            const registry = new ToolRegistry().register(projectTool);
+            expect(registry.getProjectLockKey("project_tool", { project_id: "p1" })).toBe("p1");
+        });
+
+        it("should return undefined for tools without a project lock", () => {
+            const registry = new ToolRegistry().register(echoTool);
+            expect(registry.getProjectLockKey("echo", { project_id: "p1" })).toBeUndefined();
+        });
+
+        it("should return undefined for unknown tools", () => {
+            const registry = new ToolRegistry();
+            expect(registry.getProjectLockKey("missing", { project_id: "p1" })).toBeUndefined();
+        });
+    });
+
+    describe("getPriority", () => {
+        it("should return the declared priority, defaulting to normal", () => {
+            const registry = new ToolRegistry()
+                .register({ ...echoTool, priority: "interactive" as const })
+                .register(projectTool);
+            expect(registry.getPriority("echo")).toBe("interactive");
+            expect(registry.getPriority("project_tool")).toBe("normal");
+            expect(registry.getPriority("missing")).toBe("normal");
+        });
+    });
+
+    describe("getTimeout", () => {
+        it("should return the declared timeout, or undefined without one", () => {
+            const registry = new ToolRegistry()
+                .register({ ...projectTool, timeoutMs: 60000 })
+                .register(echoTool);
+            expect(registry.getTimeout("project_tool")).toBe(60000);
+            expect(registry.getTimeout("echo")).toBeUndefined();
+            expect(registry.getTimeout("missing")).toBeUndefined();
+        });
+    });
+
+    describe("getResources", () => {
+        it("should return the resource pools each tool needs", () => {
+            const registry = new ToolRegistry()
+                .register({ ...projectTool, resources: ["cpu", "android-device"] })
+                .register({ ...countTool, resources: ["cpu"] })
+                .register(echoTool);
+            expect(registry.getResources("project_tool")).toEqual(["cpu", "android-device"]);
+            expect(registry.getResources("echo")).toEqual([]);
+            expect(registry.getResources("missing")).toEqual([]);
+            expect(registry.getResourceNames()).toEqual(["cpu", "android-device"]);
+        });
+    });
+
+    describe("bypassesQueue", () => {
+        it("should return true only for tools that bypass the queue", () => {
+            const registry = new ToolRegistry()
+                .register({ ...echoTool, bypassQueue: true })
+                .register(countTool);
+            expect(registry.bypassesQueue("echo")).toBe(true);
+            expect(registry.bypassesQueue("count")).toBe(false);
+            expect(registry.bypassesQueue("missing")).toBe(false);
+        });
+    });
+
+    describe("jobs", () => {
+        it("should add as_job to the input and the job handle to the output of tools that support jobs", () => {
+            const registry = new ToolRegistry().register({ ...countTool, supportsJobs: true });
+            const [tool] = registry.listTools();
+
+            expect(Object.keys(tool.inputSchema.properties ?? {})).toEqual(["message", "as_job"]);
+            expect(tool.inputSchema.required).toEqual(["message"]);
+            expect(Object.keys(tool.outputSchema?.properties ?? {})).toEqual(["length", "job_id", "job_status"]);
+            expect(tool.outputSchema?.required).toBeUndefined();
+            expect(registry.hasJobTools()).toBe(true);
+        });
+
+        it("should only treat as_job: true on tools that support jobs as a job request", () => {
+            const registry = new ToolRegistry()
+                .register({ ...countTool, supportsJobs: true })
+                .register(echoTool);
+
+            expect(registry.isJobRequest("count", { message: "hi", as_job: true })).toBe(true);
+            expect(registry.isJobRequest("count", { message: "hi", as_job: false })).toBe(false);
+            expect(registry.isJobRequest("count", { message: "hi" })).toBe(false);
+            expect(registry.isJobRequest("echo", { message: "hi", as_job: true })).toBe(false);
+            expect(new ToolRegistry().register(echoTool).hasJobTools()).toBe(false);
+        });
+
+        it("should strip as_job before calling the handler", async () => {
+            const registry = new ToolRegistry().register({ ...countTool, supportsJobs: true });
+
+            await registry.callTool("count", { message: "hi", as_job: false });
+
+            expect(countTool.handler).toHaveBeenCalledWith({ message: "hi" }, {});
+        });
+    });
+
+    describe("getProjectAccessRequirement", () => {
+        it("should return the project and required role for project tools", () => {
+            const registry = new ToolRegistry().register(projectTool);
+            expect(registry.getProjectAccessRequirement("project_tool", { project_id: "p1" })).toEqual({
+                projectId: "p1",
+                role: "editor",
+            });
+        });
+
+        it("should return undefined for tools without a project", () => {
+            const registry = new ToolRegistry().register(echoTool);
+            expect(registry.getProjectAccessRequirement("echo", { message: "hello" })).toBeUndefined();
+            expect(registry.getProjectAccessRequirement("missing", { project_id: "p1" })).toBeUndefined();
+        });
+    });
+
+    describe("callTool", () => {
+        it("should validate arguments and return handler output as text content", async () => {
+            const registry = new ToolRegistry().register(echoTool);
+            const result = await registry.callTool("echo", { message: "hello" });
+
+            expect(echoTool.handler).toHaveBeenCalledWith({ message: "hello" }, {});
+            expect(result).toEqual({
+                content: [{ type: "text", text: "hello" }],
+                isError: false,
+            });
+        });
+
+        it("should pass the call context to the handler", async () => {
+            const registry = new ToolRegistry().register(echoTool);
+            await registry.callTool("echo", { message: "hello" }, { userId: "alice" });
+
+            expect(echoTool.handler).toHaveBeenCalledWith({ message: "hello" }, { userId: "alice" });
+        });
+
+        it("should return structured content alongside the text fallback", async () => {
+            const registry = new ToolRegistry().register(countTool);
+            const result = await registry.callTool("count", { message: "hello" });
+
+            expect(result).toEqual({
+                content: [{ type: "text", text: "5" }],
+                structuredContent: { length: 5 },
+                isError: false,
+            });
+        });
+
+        it("should return an error result when structured content does not match the output schema", async () => {
+            const registry = new ToolRegistry().register({
+                ...countTool,
+                handler: () =>
+                    Promise.resolve({
+                        output: "5",
+                        success: true,
+                        structuredContent: { length: "five" } as unknown as { length: number },
+                    }),
+            });
+            const result = await registry.callTool("count", { message: "hello" });
+
+            expect(result.isError).toBe(true);
+            expect(result.structuredContent).toBeUndefined();
+        });
+
+        it("should prefix failed handler output with Error", async () => {
+            const registry = new ToolRegistry().register({
+                ...echoTool,
+                handler: () => Promise.resolve({ output: "boom", success: false }),
+            });
+            const result = await registry.callTool("echo", { message: "hello" });
+
+            expect(result.isError).toBe(true);
+            expect(result.content).toEqual([{ type: "text", text: "Error: boom" }]);
+        });
+
+        it("should return an error result when validation fails", async () => {
+            const registry = new ToolRegistry().register(echoTool);
+            const result = await registry.callTool("echo", { message: 42 });
+
+            expect(result.isError).toBe(true);
+            expect(echoTool.handler).not.toHaveBeenCalled();
+        });
+
+        it("should return an error result when the handler throws", async () => {
+            const registry = new ToolRegistry().register({
+                ...echoTool,
+                handler: () => Promise.reject(new Error("unexpected")),
+            });
+            const result = await registry.callTool("echo", { message: "hello" });
+
+            expect(result.isError).toBe(true);
+            expect(result.content).toEqual([{ type: "text", text: "Error: unexpected" }]);
+        });
+
+        it("should return an error result for unknown tools", async () => {
+            const registry = new ToolRegistry();
+            const result = await registry.callTool("missing", {});
+
+            expect(result.isError).toBe(true);
+            expect(result.content).toEqual([{ type: "text", text: "Error: Unknown tool: missing" }]);
+        });
+    });
+});
+
+describe("parseToolTimeouts", () => {
+    it("should return no overrides when unset", () => {
+        expect(parseToolTimeouts(undefined)).toEqual({});
+        expect(parseToolTimeouts("")).toEqual({});
+    });
+
+    it("should parse comma-separated tool timeouts", () => {
+        expect(parseToolTimeouts(" remote_test_android=2400000, remote_clean_project = 300000 ,")).toEqual({
+            remote_test_android: 2400000,
+            remote_clean_project: 300000,
+        });
+    });
+
+    it("should reject malformed entries", () => {
+        expect(() => parseToolTimeouts("remote_test_android")).toThrow(
+            'Invalid TOOL_TIMEOUTS_MS entry "remote_test_android": expected tool_name=milliseconds'
+        );
+        expect(() => parseToolTimeouts("remote_test_android=-5")).toThrow("Invalid TOOL_TIMEOUTS_MS entry");
+        expect(() => parseToolTimeouts("=1000")).toThrow("Invalid TOOL_TIMEOUTS_MS entry");
+    });
+});
+
+describe("extractProjectId", () => {
+    it("should return the project_id when it is a string", () => {
+        expect(extractProjectId({ project_id: "abc" })).toBe("abc");
+    });
+
+    it("should return undefined when project_id is missing or not a string", () => {
+        expect(extractProjectId({})).toBeUndefined();
+        expect(extractProjectId({ project_id: 1 })).toBeUndefined();
+        expect(extractProjectId(undefined)).toBeUndefined();
+    });
+});
+
+describe("toContentBlocks", () => {
+    it("should return a single text block for text-only results", () => {
+        expect(toContentBlocks({ output: "done", success: true })).toEqual([
+            { type: "text", text: "done" },
+        ]);
+    });
+
+    it("should map images and links to image and resource_link blocks", () => {
+        const blocks = toContentBlocks({
+            output: "Test passed",
+            success: true,
+            images: [
+                { data: "frame1", mimeType: "image/jpeg" },
+                { data: "frame2", mimeType: "image/jpeg" },
+            ],
+            links: [
+                { uri: "https://example.com/video.mp4", name: "screenrecord.mp4", mimeType: "video/mp4" },
+            ],
+        });
+
+        expect(blocks).toEqual([
+            {
+                type: "text",
+                text: "Test passed\n\nCaptured 2 images.\n\nscreenrecord.mp4: https://example.com/video.mp4",
+            },
+            { type: "image", data: "frame1", mimeType: "image/jpeg" },
+            { type: "image", data: "frame2", mimeType: "image/jpeg" },
+            {
+                type: "resource_link",
+                uri: "https://example.com/video.mp4",
+                name: "screenrecord.mp4",
+                mimeType: "video/mp4",
+                description: undefined,
+            },
+        ]);
+    });
+
+    it("should summarize failed results with media", () => {
+        const [text] = toContentBlocks({
+            output: "",
+            success: false,
+            images: [{ data: "frame1", mimeType: "image/jpeg" }],
+        });
+
+        expect(text).toEqual({ type: "text", text: "Error: \n\nCaptured 1 image." });
+    });
+});
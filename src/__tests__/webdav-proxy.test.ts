@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { validatePath } from "../webdav-proxy.js";
+import { getRequiredProjectRole, validatePath } from "../webdav-proxy.js";
 import { existsSync, statSync, type Stats } from "fs";
 import { join, resolve, normalize } from "path";
 import { homedir } from "os";
@@ -41,6 +41,7 @@ describe("validatePath", () => {
             expect(result.valid).toBe(true);
             expect(result.resolvedPath).toBe(normalize(filePath));
             expect(result.error).toBeUndefined();
+            expect(result.projectId).toBe(projectId);
             expect(existsSync).toHaveBeenCalledWith(projectPath);
         });
 
@@ -178,6 +179,7 @@ describe("validatePath", () => {
             // So it should pass the project directory check (no segments = no project ID check)
             expect(result.valid).toBe(true);
             expect(result.resolvedPath).toBe(normalize(PROJECTS_ROOT));
+            expect(result.projectId).toBeUndefined();
         });
 
         it("should handle root path", () => {
@@ -278,3 +280,18 @@ describe("validatePath", () => {
         });
     });
 });
+
+describe("getRequiredProjectRole", () => {
+    it("should require the viewer role for reads", () => {
+        for (const method of ["GET", "HEAD", "PROPFIND", "OPTIONS"]) {
+            expect(getRequiredProjectRole(method)).toBe("viewer");
+        }
+    });
+
+    it("should require the editor role for writes", () => {
+        for (const method of ["PUT", "DELETE", "MKCOL"]) {
+            expect(getRequiredProjectRole(method)).toBe("editor");
+        }
+        expect(getRequiredProjectRole(undefined)).toBe("editor");
+    });
+});
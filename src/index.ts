@@ -1,392 +1,148 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import {
-    CallToolRequestSchema,
-    ListToolsRequestSchema,
-    ListPromptsRequestSchema,
-    GetPromptRequestSchema,
-    type ContentBlock,
-} from "@modelcontextprotocol/sdk/types.js";
-import { searchImageTool } from "./tools/search-image.js";
-import { searchIconTool } from "./tools/search-icon.js";
-import { checkLocalProjectPrompt } from "./prompts/check-local-project.js";
-import { imageToAppPrompt } from "./prompts/image-to-app.js";
-import { TaskQueue } from "./utils/TaskQueueUtils.js";
+import { createMcpServer, enqueueToolCall, type ToolCallOptions } from "./server.js";
+import { createToolRegistry } from "./tools/index.js";
+import { createPromptRegistry } from "./prompts/index.js";
+import { TaskQueue, parseResourcePools } from "./utils/TaskQueueUtils.js";
+import { parseToolTimeouts, type ToolCallResult, type ToolTask } from "./utils/ToolRegistryUtils.js";
+import { getServerProfile } from "./utils/ServerProfileUtils.js";
+import { SessionManager } from "./utils/SessionManagerUtils.js";
+import { authenticateRequest, loadTokenStore } from "./utils/AuthUtils.js";
+import { applyCorsHeaders, getAllowedOrigins } from "./utils/CorsUtils.js";
+import { JobStore } from "./utils/JobStoreUtils.js";
+import { JobManager } from "./utils/JobManagerUtils.js";
+import { getAndroidEmulatorPool } from "./utils/EmulatorPoolUtils.js";
+import { getIosSimulatorPool } from "./utils/SimulatorPoolUtils.js";
+import { createReadinessChecks, getServerStatus, runReadinessChecks, type DevicePools } from "./utils/HealthUtils.js";
 import { logger } from "./utils/Logger.js";
 import * as http from "http";
+import { homedir } from "os";
+import { join } from "path";
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
-const NUM_WORKERS = process.env.NUM_WORKERS ? parseInt(process.env.NUM_WORKERS, 10) : 2;
-
-// Queue system for tool calls
-interface ToolTask {
-    name: string;
-    args: unknown;
-}
-
-/**
- * Extracts project ID from tool task arguments.
- * Returns the project_id if present, undefined otherwise.
- */
-function extractProjectId(args: unknown): string | undefined {
-    if (args && typeof args === "object" && "project_id" in args) {
-        const projectId = (args as { project_id?: unknown }).project_id;
-        if (typeof projectId === "string") {
-            return projectId;
-        }
-    }
-    return undefined;
-}
-
-const toolCallQueue = new TaskQueue<ToolTask, { content: ContentBlock[]; isError: boolean }>(NUM_WORKERS);
-
-/**
- * Handles the execution of a tool call
- */
-async function handleToolCall(name: string, args: unknown): Promise<{ content: ContentBlock[]; isError: boolean }> {
-    const startTime = Date.now();
-    if (name === searchImageTool.name) {
-        try {
-            const parsedArgs = searchImageTool.inputSchema.parse(args);
-            const result = await searchImageTool.handler(parsedArgs);
-            const durationMs = Date.now() - startTime;
-
-            if (result.success) {
-                logger.info({
-                    tool_name: name,
-                    duration_ms: durationMs,
-                    status: "success",
-                }, "Tool call completed successfully");
-            } else {
-                logger.warn({
-                    tool_name: name,
-                    duration_ms: durationMs,
-                    status: "execution_error",
-                    reason: result.output,
-                }, "Tool call failed");
-            }
-
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: result.success
-                            ? result.output
-                            : `Error: ${result.output}`,
-                    },
-                ],
-                isError: !result.success,
-            };
-        } catch (error) {
-            const durationMs = Date.now() - startTime;
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            const errorStack = error instanceof Error ? error.stack : undefined;
-
-            logger.error({
-                tool_name: name,
-                duration_ms: durationMs,
-                status: "validation_error",
-                reason: errorMessage,
-                stack: errorStack,
-            }, "Tool call validation failed");
-
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Error: ${errorMessage}`,
-                    },
-                ],
-                isError: true,
-            };
-        }
-    }
-
-    if (name === searchIconTool.name) {
-        try {
-            const parsedArgs = searchIconTool.inputSchema.parse(args);
-            const result = await searchIconTool.handler(parsedArgs);
-            const durationMs = Date.now() - startTime;
-
-            if (result.success) {
-                logger.info({
-                    tool_name: name,
-                    duration_ms: durationMs,
-                    status: "success",
-                }, "Tool call completed successfully");
-            } else {
-                logger.warn({
-                    tool_name: name,
-                    duration_ms: durationMs,
-                    status: "execution_error",
-                    reason: result.output,
-                }, "Tool call failed");
-            }
-
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: result.success
-                            ? result.output
-                            : `Error: ${result.output}`,
-                    },
-                ],
-                isError: !result.success,
-            };
-        } catch (error) {
-            const durationMs = Date.now() - startTime;
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            const errorStack = error instanceof Error ? error.stack : undefined;
-
-            logger.error({
-                tool_name: name,
-                duration_ms: durationMs,
-                status: "validation_error",
-                reason: errorMessage,
-                stack: errorStack,
-            }, "Tool call validation failed");
-
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Error: ${errorMessage}`,
-                    },
-                ],
-                isError: true,
-            };
-        }
-    }
-
-
-    const durationMs = Date.now() - startTime;
-    logger.error({
-        tool_name: name,
-        duration_ms: durationMs,
-        status: "unknown_tool",
-    }, "Unknown tool requested");
-
-    return {
-        content: [
-            {
-                type: "text",
-                text: `Error: Unknown tool: ${name}`,
-            },
-        ],
-        isError: true,
+const SESSION_IDLE_TIMEOUT_MS = process.env.SESSION_IDLE_TIMEOUT_MS
+    ? parseInt(process.env.SESSION_IDLE_TIMEOUT_MS, 10)
+    : 30 * 60 * 1000;
+const QUEUE_AGING_INTERVAL_MS = process.env.QUEUE_AGING_INTERVAL_MS
+    ? parseInt(process.env.QUEUE_AGING_INTERVAL_MS, 10)
+    : 60 * 1000;
+const QUEUE_MAX_WAIT_MS = process.env.QUEUE_MAX_WAIT_MS ? parseInt(process.env.QUEUE_MAX_WAIT_MS, 10) : undefined;
+const JOBS_DIR = process.env.JOBS_DIR || join(homedir(), ".pistachio-mcp", "jobs");
+
+function main() {
+    const profile = getServerProfile();
+    const toolRegistry = createToolRegistry(profile);
+
+    // Tests lease devices from pools; created up front so a bad device configuration fails at startup
+    const devicePools: DevicePools = {
+        android: toolRegistry.has("remote_test_android") ? getAndroidEmulatorPool() : undefined,
+        ios: toolRegistry.has("remote_test_ios") ? getIosSimulatorPool() : undefined,
     };
-}
-
 
-async function main() {
-    // Initialize the MCP server
-    const server = new Server(
-        {
-            name: "pistachio-mcp",
-            version: "1.0.0",
-        },
-        {
-            capabilities: {
-                tools: {},
-                prompts: {},
-            },
-        }
+    // Queue system for tool calls; concurrency is limited per resource pool, and in total by NUM_WORKERS.
+    // By default, as many tests run at once as the device pools have devices.
+    const resourcePools = parseResourcePools(
+        process.env.RESOURCE_POOLS
+        || `cpu=2,android-device=${devicePools.android?.getSize() ?? 1},ios-simulator=${devicePools.ios?.getSize() ?? 1},network=16`
     );
-
-    // Register tools
-    server.setRequestHandler(ListToolsRequestSchema, () => {
-        return {
-            tools: [
-                {
-                    name: searchImageTool.name,
-                    description: searchImageTool.description,
-                    inputSchema: searchImageTool.inputSchema, // SDK will convert Zod to JSON Schema
-                },
-                {
-                    name: searchIconTool.name,
-                    description: searchIconTool.description,
-                    inputSchema: searchIconTool.inputSchema, // SDK will convert Zod to JSON Schema
-                },
-            ],
-        };
-    });
-
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-        const { name, arguments: args } = request.params;
-
-        // Extract project ID from args if present
-        const projectId = extractProjectId(args);
-
-        try {
-            // Queue the tool call and wait for it to be processed
-            const result = await toolCallQueue.enqueue(
-                { name, args },
-                async (task) => handleToolCall(task.name, task.args),
-                projectId
-            );
-            return result;
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            const errorStack = error instanceof Error ? error.stack : undefined;
-
-            logger.error({
-                tool_name: name,
-                project_id: projectId,
-                status: "unexpected_error",
-                error_message: errorMessage,
-                stack: errorStack,
-            }, "Unexpected error in tool call");
-
-            throw error;
-        }
-    });
-
-    // Register prompts
-    server.setRequestHandler(ListPromptsRequestSchema, () => {
-        return {
-            prompts: [
-                {
-                    name: checkLocalProjectPrompt.name,
-                    description: checkLocalProjectPrompt.description,
-                    arguments: [
-                        {
-                            name: "project_name",
-                            description: "The name of the project to create",
-                            type: "string",
-                        },
-                        {
-                            name: "package_name",
-                            description: "The package name of the project, e.g. com.company.myapp",
-                            type: "string",
-                        },
-                    ],
-                },
-                {
-                    name: imageToAppPrompt.name,
-                    description: imageToAppPrompt.description,
-                    arguments: [
-                        {
-                            name: "screenshots_directory",
-                            description:
-                                "Absolute or relative path to the directory containing the app screenshots to replicate",
-                            type: "string",
-                        },
-                    ],
-                },
-            ],
-        };
+    const missingPool = toolRegistry.getResourceNames().find((name) => !(name in resourcePools));
+    if (missingPool) {
+        throw new Error(`RESOURCE_POOLS does not define the "${missingPool}" pool needed by the enabled tools`);
+    }
+    const numWorkers = process.env.NUM_WORKERS
+        ? parseInt(process.env.NUM_WORKERS, 10)
+        : Object.values(resourcePools).reduce((sum, capacity) => sum + capacity, 0);
+    const toolCallQueue = new TaskQueue<ToolTask, ToolCallResult>(numWorkers, {
+        agingIntervalMs: QUEUE_AGING_INTERVAL_MS,
+        resourcePools,
     });
+    const promptRegistry = createPromptRegistry(profile);
+    const tokenStore = loadTokenStore();
+    const allowedOrigins = getAllowedOrigins();
+    const toolTimeouts = parseToolTimeouts();
+    const readinessChecks = createReadinessChecks(profile, toolRegistry);
+    const toolCallOptions: ToolCallOptions = {
+        toolRegistry,
+        toolCallQueue,
+        toolTimeouts,
+        maxQueueWaitMs: QUEUE_MAX_WAIT_MS,
+    };
 
-    server.setRequestHandler(GetPromptRequestSchema, (request) => {
-        const { name, arguments: args } = request.params;
-        const startTime = Date.now();
-
-        if (name === checkLocalProjectPrompt.name) {
-            try {
-                const typedArgs = checkLocalProjectPrompt.arguments.parse(args);
-                const messages = checkLocalProjectPrompt.handler(typedArgs);
-                const durationMs = Date.now() - startTime;
-
-                logger.info({
-                    prompt_name: name,
-                    duration_ms: durationMs,
-                    status: "success",
-                }, "Prompt request completed successfully");
-
-                return {
-                    description: checkLocalProjectPrompt.description,
-                    messages,
-                };
-            } catch (error) {
-                const durationMs = Date.now() - startTime;
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                const errorStack = error instanceof Error ? error.stack : undefined;
-
-                logger.error({
-                    prompt_name: name,
-                    duration_ms: durationMs,
-                    status: "error",
-                    error_message: errorMessage,
-                    stack: errorStack,
-                }, "Prompt request failed");
-
-                throw new Error(
-                    `Error generating prompt: ${errorMessage}`
-                );
-            }
-        }
-
-        if (name === imageToAppPrompt.name) {
-            try {
-                const typedArgs = imageToAppPrompt.arguments.parse(args);
-                const messages = imageToAppPrompt.handler(typedArgs);
-                const durationMs = Date.now() - startTime;
-
-                logger.info({
-                    prompt_name: name,
-                    duration_ms: durationMs,
-                    status: "success",
-                }, "Prompt request completed successfully");
-
-                return {
-                    description: imageToAppPrompt.description,
-                    messages,
-                };
-            } catch (error) {
-                const durationMs = Date.now() - startTime;
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                const errorStack = error instanceof Error ? error.stack : undefined;
-
-                logger.error({
-                    prompt_name: name,
-                    duration_ms: durationMs,
-                    status: "error",
-                    error_message: errorMessage,
-                    stack: errorStack,
-                }, "Prompt request failed");
-
-                throw new Error(
-                    `Error generating prompt: ${errorMessage}`
-                );
-            }
-        }
-
-        const durationMs = Date.now() - startTime;
-        logger.error({
-            prompt_name: name,
-            duration_ms: durationMs,
-            status: "unknown_prompt",
-        }, "Unknown prompt requested");
+    // Background jobs go through the same queue as synchronous calls, and are resumed after a restart
+    if (toolRegistry.hasJobTools()) {
+        const jobManager = new JobManager({
+            store: new JobStore(JOBS_DIR),
+            run: (job, signal, onStart) => enqueueToolCall(
+                toolCallOptions,
+                { name: job.tool_name, args: job.args, userId: job.user_id, signal },
+                onStart
+            ),
+        });
+        toolCallOptions.jobManager = jobManager;
+        jobManager.recover();
+    }
 
-        throw new Error(`Unknown prompt: ${name}`);
+    // Each client session gets its own MCP server; tool calls of all sessions share the queue
+    const sessionManager = new SessionManager({
+        createServer: () => createMcpServer({ ...toolCallOptions, promptRegistry }),
+        idleTimeoutMs: SESSION_IDLE_TIMEOUT_MS,
     });
-
-    // Create Streamable HTTP transport
-    const transport = new StreamableHTTPServerTransport();
-
-    // Connect server to transport
-    await server.connect(transport);
+    sessionManager.startCleanup();
 
     // Create HTTP server
     const httpServer = http.createServer();
 
     // Handle requests
     httpServer.on("request", async (req, res) => {
+        applyCorsHeaders(req, res, allowedOrigins);
+
         // Handle CORS preflight
         if (req.method === "OPTIONS") {
             res.writeHead(200, {
-                "Access-Control-Allow-Origin": "*",
-                "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-                "Access-Control-Allow-Headers": "Content-Type",
+                "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+                "Access-Control-Allow-Headers":
+                    "Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
             });
             res.end();
             return;
         }
 
+        // Probes may add a query string, e.g. /healthz?probe=1
+        const pathname = req.url?.split("?")[0];
+
+        // Liveness probe: the process is up and serving requests
+        if (req.method === "GET" && pathname === "/healthz") {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ status: "ok" }));
+            return;
+        }
+
+        // Readiness probe: the dependencies of the enabled tools are usable
+        if (req.method === "GET" && pathname === "/readyz") {
+            const report = await runReadinessChecks(readinessChecks);
+            if (!report.ready) {
+                logger.warn({ checks: report.checks }, "Readiness check failed");
+            }
+            res.writeHead(report.ready ? 200 : 503, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(report));
+            return;
+        }
+
+        // Queue, device lock and device pool status; lists project IDs, so it requires a token when auth is enabled
+        if (req.method === "GET" && pathname === "/status") {
+            if (tokenStore && !authenticateRequest(req, res, tokenStore)) {
+                return;
+            }
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(getServerStatus(toolCallQueue, devicePools)));
+            return;
+        }
+
         // Handle MCP transport requests
         if (req.url === "/message" || req.url?.startsWith("/message")) {
-            await transport.handleRequest(req, res);
+            // Without a token store, requests are handled anonymously
+            if (tokenStore && !authenticateRequest(req, res, tokenStore)) {
+                return;
+            }
+            await sessionManager.handleRequest(req, res);
         } else {
             res.writeHead(404, { "Content-Type": "application/json" });
             res.end(JSON.stringify({ error: "Not found" }));
@@ -394,11 +150,13 @@ async function main() {
     });
 
     httpServer.listen(PORT, "0.0.0.0", () => {
-        logger.info({ port: PORT }, "MCP server listening");
+        logger.info({ port: PORT, profile, auth_enabled: tokenStore !== undefined }, "MCP server listening");
     });
 }
 
-main().catch((error) => {
+try {
+    main();
+} catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : undefined;
 
@@ -408,4 +166,4 @@ main().catch((error) => {
     }, "Fatal error in main()");
 
     process.exit(1);
-});
+}
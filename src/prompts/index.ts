@@ -0,0 +1,24 @@
+import { PromptRegistry } from "../utils/PromptRegistryUtils.js";
+import type { ServerProfile } from "../utils/ServerProfileUtils.js";
+import { checkLocalProjectPrompt } from "./check-local-project.js";
+import { imageToAppPrompt } from "./image-to-app.js";
+import { createRemoteProjectPrompt } from "./create-remote-project.js";
+import { testAndroidRemotePrompt } from "./test-android-remote.js";
+import { testIosRemotePrompt } from "./test-ios-remote.js";
+
+/**
+ * Builds the registry of prompts exposed for the given server profile.
+ * To expose a new prompt, register it here.
+ */
+export function createPromptRegistry(profile: ServerProfile): PromptRegistry {
+    if (profile === "remote-build-farm") {
+        return new PromptRegistry()
+            .register(createRemoteProjectPrompt)
+            .register(testAndroidRemotePrompt)
+            .register(testIosRemotePrompt);
+    }
+
+    return new PromptRegistry()
+        .register(checkLocalProjectPrompt)
+        .register(imageToAppPrompt);
+}
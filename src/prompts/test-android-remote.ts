@@ -39,11 +39,12 @@ Follow these steps to test an Android app remotely:
      rclone sync {PISTACHIO_PROJECT_ID} pistachio-server:{PISTACHIO_PROJECT_ID} --exclude-from={PISTACHIO_PROJECT_ID}/.rcloneignore  --transfers 32 --checkers 64 --size-only --fast-list -P
    - Wait for the sync to complete before proceeding.
 
-4. Run the test using remote-test-android tool:
-   - Call the remote-test-android tool with the following parameters:
+4. Run the test using remote_test_android tool:
+   - Call the remote_test_android tool with the following parameters:
      - project_id: {PISTACHIO_PROJECT_ID}
      - package_name: com.jetbrains.kmpapp (or the appropriate package name if different)
      - test_name: The test name inside AndroidInstrumentedTest.kt (e.g., "testScrollingDownGesture")
+   - To check several tests with one build, pass test_names instead of test_name, or leave both out to run the whole class (test_class).
 
 5. Analyze results and fix problems:
    - Carefully examine the returned logs for any errors, failures, or warnings.
@@ -39,10 +39,11 @@ Follow these steps to test an iOS app remotely:
      rclone sync {PISTACHIO_PROJECT_ID} pistachio-server:{PISTACHIO_PROJECT_ID} --exclude-from={PISTACHIO_PROJECT_ID}/.rcloneignore  --transfers 32 --checkers 64 --size-only --fast-list -P
    - Wait for the sync to complete before proceeding.
 
-4. Run the test using remote-test-ios tool:
-   - Call the remote-test-ios tool with the following parameters:
+4. Run the test using remote_test_ios tool:
+   - Call the remote_test_ios tool with the following parameters:
      - project_id: {PISTACHIO_PROJECT_ID}
      - test_name: The test function name (e.g. "testScrollingDownGesture")
+     - device_family and os_version: only if the user asked for an iPad or a specific iOS version
 
 5. Analyze results and fix problems:
    - Carefully examine the returned logs for any errors, failures, or warnings.
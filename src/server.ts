@@ -0,0 +1,265 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+    CallToolRequestSchema,
+    ErrorCode,
+    McpError,
+    ListToolsRequestSchema,
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { TaskCancelledError, TaskQueue, TaskTimeoutError, type QueuedTaskStatus } from "./utils/TaskQueueUtils.js";
+import type { ToolCallResult, ToolRegistry, ToolTask } from "./utils/ToolRegistryUtils.js";
+import type { PromptRegistry } from "./utils/PromptRegistryUtils.js";
+import { getUserId } from "./utils/AuthUtils.js";
+import { checkProjectAccess } from "./utils/ProjectAccessUtils.js";
+import { createProgressReporter } from "./utils/ProgressUtils.js";
+import type { JobManager } from "./utils/JobManagerUtils.js";
+import type { Job } from "./utils/JobStoreUtils.js";
+import { logger } from "./utils/Logger.js";
+
+/**
+ * Shared dependencies for running tool calls, whether from a request or as a background job
+ */
+export interface ToolCallOptions {
+    toolRegistry: ToolRegistry;
+    toolCallQueue: TaskQueue<ToolTask, ToolCallResult>;
+    /**
+     * Maximum run time per tool name, overriding the defaults declared by the tools
+     */
+    toolTimeouts?: Record<string, number>;
+    /**
+     * Maximum time a call may wait in the queue before it fails; no limit when unset
+     */
+    maxQueueWaitMs?: number;
+    /**
+     * Background jobs; `as_job` calls run synchronously when unset
+     */
+    jobManager?: JobManager;
+}
+
+/**
+ * Dependencies of an MCP server instance
+ */
+export interface McpServerOptions extends ToolCallOptions {
+    promptRegistry: PromptRegistry;
+}
+
+/**
+ * Queues a tool call with the tool's priority, resources and timeouts, and resolves with its result.
+ * Rejects with a TaskCancelledError or TaskTimeoutError when the call is cancelled while queued or times out.
+ * @param onStart Called when the call leaves the queue and starts running
+ */
+export function enqueueToolCall(
+    options: ToolCallOptions,
+    task: ToolTask & { signal: AbortSignal },
+    onStart?: () => void
+): Promise<ToolCallResult> {
+    const { toolRegistry, toolCallQueue, toolTimeouts = {}, maxQueueWaitMs, jobManager } = options;
+    const { name, args, userId, progress, signal } = task;
+
+    // Serialize calls per project for tools that require it
+    const projectId = toolRegistry.getProjectLockKey(name, args);
+
+    return toolCallQueue.enqueue(
+        task,
+        async (queuedTask, timeoutSignal) => {
+            onStart?.();
+            return toolRegistry.callTool(queuedTask.name, queuedTask.args, {
+                userId: queuedTask.userId,
+                progress: queuedTask.progress,
+                // A timeout also aborts the tool's child processes
+                signal: timeoutSignal ? AbortSignal.any([signal, timeoutSignal]) : signal,
+                jobs: jobManager,
+                queue: toolCallQueue,
+            });
+        },
+        projectId,
+        {
+            signal,
+            priority: toolRegistry.getPriority(name),
+            // Share workers fairly between users, or between projects when unauthenticated
+            fairnessKey: userId ?? projectId,
+            timeoutMs: toolTimeouts[name] ?? toolRegistry.getTimeout(name),
+            maxQueueWaitMs,
+            resources: toolRegistry.getResources(name),
+            durationKey: name,
+            // Tell the client where the call stands while it waits
+            onQueueUpdate: progress
+                ? (status) => void progress.report(describeQueuePosition(status))
+                : undefined,
+        }
+    );
+}
+
+/**
+ * Describes the place of a waiting call in the queue, e.g. "Queued at position 2 of 3, estimated start in 4 min"
+ */
+function describeQueuePosition(status: QueuedTaskStatus<ToolTask>, now: number = Date.now()): string {
+    const position = `Queued at position ${status.position} of ${status.queueLength}`;
+    if (status.estimatedStartAt === undefined) {
+        return position;
+    }
+
+    const waitSeconds = Math.max(0, Math.round((status.estimatedStartAt - now) / 1000));
+    const wait = waitSeconds < 60 ? `${waitSeconds} s` : `${Math.round(waitSeconds / 60)} min`;
+    return `${position}, estimated start in ${wait}`;
+}
+
+/**
+ * Result returned right away for calls started with `as_job`
+ */
+function toJobHandleResult(job: Job): ToolCallResult {
+    return {
+        content: [{
+            type: "text",
+            text: `Started job ${job.id}. Check it with get_job_status and fetch the result with get_job_result.`,
+        }],
+        structuredContent: { job_id: job.id, job_status: job.status },
+        isError: false,
+    };
+}
+
+/**
+ * Creates an MCP server that serves the tools and prompts of the given registries.
+ * Tool calls are executed through the shared task queue, except for the ones that bypass it.
+ */
+export function createMcpServer(options: McpServerOptions): Server {
+    const { toolRegistry, promptRegistry, toolCallQueue, jobManager } = options;
+
+    const server = new Server(
+        {
+            name: "pistachio-mcp",
+            version: "1.0.0",
+        },
+        {
+            capabilities: {
+                tools: {},
+                prompts: {},
+            },
+        }
+    );
+
+    // Aborted when the connection closes, cancelling the tool calls still in flight
+    const connectionController = new AbortController();
+    server.onclose = () => {
+        connectionController.abort(new Error("Connection closed"));
+    };
+
+    // Register tools
+    server.setRequestHandler(ListToolsRequestSchema, () => {
+        return {
+            tools: toolRegistry.listTools(),
+        };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const { name, arguments: args } = request.params;
+        const userId = getUserId(extra.authInfo);
+        const progress = createProgressReporter(request.params._meta?.progressToken, extra.sendNotification);
+        // Aborted on notifications/cancelled or when the client disconnects
+        const signal = AbortSignal.any([extra.signal, connectionController.signal]);
+
+        // Logged with errors; enqueueToolCall serializes calls on it
+        const projectId = toolRegistry.getProjectLockKey(name, args);
+
+        try {
+            // Check the caller's project role before taking a queue slot
+            const requirement = toolRegistry.getProjectAccessRequirement(name, args);
+            if (requirement && userId) {
+                const accessError = await checkProjectAccess(requirement.projectId, userId, requirement.role);
+                if (accessError) {
+                    logger.warn({
+                        tool_name: name,
+                        project_id: requirement.projectId,
+                        user_id: userId,
+                        status: "access_denied",
+                        reason: accessError,
+                    }, "Tool call rejected");
+
+                    return {
+                        content: [{ type: "text", text: `Error: ${accessError}` }],
+                        isError: true,
+                    };
+                }
+            }
+
+            // Start a background job and return its ID without waiting
+            if (jobManager && toolRegistry.isJobRequest(name, args)) {
+                const jobArgs = { ...(args as Record<string, unknown>) };
+                delete jobArgs.as_job;
+                return toJobHandleResult(jobManager.submit(name, jobArgs, userId));
+            }
+
+            // Status calls answer right away, even while every worker is busy
+            if (toolRegistry.bypassesQueue(name)) {
+                return await toolRegistry.callTool(name, args, {
+                    userId,
+                    progress,
+                    signal,
+                    jobs: jobManager,
+                    queue: toolCallQueue,
+                });
+            }
+
+            // Queue the tool call and wait for it to be processed
+            return await enqueueToolCall(options, { name, args, userId, progress, signal });
+        } catch (error) {
+            if (error instanceof TaskCancelledError) {
+                logger.info({
+                    tool_name: name,
+                    project_id: projectId,
+                    user_id: userId,
+                    status: "cancelled_while_queued",
+                }, "Tool call cancelled before it started");
+
+                throw error;
+            }
+
+            if (error instanceof TaskTimeoutError) {
+                logger.warn({
+                    tool_name: name,
+                    project_id: projectId,
+                    user_id: userId,
+                    status: error.phase === "queued" ? "queue_timeout" : "timeout",
+                    timeout_ms: error.timeoutMs,
+                }, "Tool call timed out");
+
+                throw new McpError(
+                    ErrorCode.RequestTimeout,
+                    error.phase === "queued"
+                        ? `Tool ${name} did not start within ${error.timeoutMs}ms because the server is busy`
+                        : `Tool ${name} did not finish within ${error.timeoutMs}ms and was stopped`,
+                    { phase: error.phase, timeout_ms: error.timeoutMs }
+                );
+            }
+
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const errorStack = error instanceof Error ? error.stack : undefined;
+
+            logger.error({
+                tool_name: name,
+                project_id: projectId,
+                user_id: userId,
+                status: "unexpected_error",
+                error_message: errorMessage,
+                stack: errorStack,
+            }, "Unexpected error in tool call");
+
+            throw error;
+        }
+    });
+
+    // Register prompts
+    server.setRequestHandler(ListPromptsRequestSchema, () => {
+        return {
+            prompts: promptRegistry.listPrompts(),
+        };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, (request) => {
+        const { name, arguments: args } = request.params;
+        return promptRegistry.getPrompt(name, args);
+    });
+
+    return server;
+}
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
+import { jobSummarySchema, toJobSummary } from "../utils/JobStoreUtils.js";
+
+/**
+ * Tool for cancelling a background job started with as_job
+ */
+export const cancelJobTool = {
+    name: "cancel_job",
+    description: "Cancel a queued or running background job. Jobs that already finished are left unchanged.",
+    inputSchema: z.object({
+        job_id: z
+            .string()
+            .describe("The ID of the job"),
+    }),
+    outputSchema: jobSummarySchema,
+    bypassQueue: true,
+    handler: (args: { job_id: string }, context: ToolContext = {}) => {
+        const job = context.jobs?.cancel(args.job_id, context.userId);
+        if (!job) {
+            return Promise.resolve({
+                output: `Job not found: ${args.job_id}`,
+                success: false,
+            });
+        }
+
+        return Promise.resolve({
+            output: job.status === "cancelled"
+                ? `Job ${job.id} is cancelled`
+                : `Job ${job.id} already finished as ${job.status}`,
+            success: true,
+            structuredContent: toJobSummary(job),
+        });
+    },
+};
@@ -4,6 +4,7 @@ import { promisify } from "util";
 import { join } from "path";
 import { homedir } from "os";
 import { createMCPProject } from "../utils/ServerStorageUtils.js";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
 
 const execAsync = promisify(exec);
 
@@ -18,17 +19,22 @@ export const createRemoteProjectTool = {
             .string()
             .describe("Name of the project to create"),
     }),
-    handler: async (args: { project_name: string }) => {
+    outputSchema: z.object({
+        project_id: z.string().describe("The ID of the created project"),
+    }),
+    resources: ["network"],
+    handler: async (args: { project_name: string }, context: ToolContext) => {
         const { project_name } = args;
 
         try {
-            // First, create an entry in Firebase mcpProjects collection
-            const projectId = await createMCPProject(project_name);
+            // First, create an entry in Firebase mcpProjects collection, owned by the caller
+            const projectId = await createMCPProject(project_name, context.userId);
 
             const projectsPath = join(homedir(), "PistachioMCPProjects");
             const cloneUrl = "https://github.com/jack-beanstalk-2022/PistachioTemplate.git";
 
             // Execute git clone command
+            await context.progress?.report("Cloning project template");
             const { stderr } = await execAsync(
                 `git clone ${cloneUrl} ${projectId}`,
                 {
@@ -41,12 +47,14 @@ export const createRemoteProjectTool = {
                 return {
                     output: `Project created successfully.Project ID: ${projectId}\n${stderr}`,
                     success: true,
+                    structuredContent: { project_id: projectId },
                 };
             }
 
             return {
                 output: `Project created successfully. Project ID: ${projectId}`,
                 success: true,
+                structuredContent: { project_id: projectId },
             };
         } catch (error) {
             return {
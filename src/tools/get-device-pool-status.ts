@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { emulatorSummarySchema, getAndroidEmulatorPool, toEmulatorSummary } from "../utils/EmulatorPoolUtils.js";
+import { getIosSimulatorPool, simulatorSummarySchema, toSimulatorSummary } from "../utils/SimulatorPoolUtils.js";
+
+/**
+ * Tool for checking which test devices are running and who uses them
+ */
+export const getDevicePoolStatusTool = {
+    name: "get_device_pool_status",
+    description: "Get the Android emulators and leased iOS simulators of the device pools: whether each emulator is running, which test uses each device, and how many tests wait for one. Use it to tell why a test has not started.",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+        android_emulators: z.array(emulatorSummarySchema).describe("Emulators in the pool"),
+        android_waiters: z.number().describe("Number of tests waiting for a free emulator"),
+        ios_simulators: z.array(simulatorSummarySchema).describe("Simulators leased to running tests"),
+        ios_simulator_capacity: z.number().describe("Maximum number of simulators leased at once"),
+        ios_waiters: z.number().describe("Number of tests waiting for a simulator"),
+    }),
+    bypassQueue: true,
+    handler: (_args: Record<string, never>) => {
+        const emulatorPool = getAndroidEmulatorPool();
+        const emulators = emulatorPool.getStatus().map(toEmulatorSummary);
+        const emulatorWaiters = emulatorPool.getWaiterCount();
+        const simulatorPool = getIosSimulatorPool();
+        const simulators = simulatorPool.getStatus().map(toSimulatorSummary);
+        const simulatorWaiters = simulatorPool.getWaiterCount();
+
+        const lines = [
+            `${emulators.filter((emulator) => emulator.leased).length} of ${emulators.length} emulators in use, ${emulatorWaiters} tests waiting`,
+            ...emulators.map((emulator) =>
+                `${emulator.serial} (${emulator.avd_name}): ${emulator.state}`
+                + (emulator.leased ? `, used by ${emulator.holder ?? "unknown"} since ${emulator.since}` : `, free since ${emulator.since}`)
+            ),
+            `${simulators.length} of ${simulatorPool.getSize()} simulators in use, ${simulatorWaiters} tests waiting`,
+            ...simulators.map((simulator) =>
+                `${simulator.name} (iOS ${simulator.os_version}, ${simulator.udid}): used by ${simulator.holder ?? "unknown"} since ${simulator.since}`
+            ),
+        ];
+
+        return Promise.resolve({
+            output: lines.join("\n"),
+            success: true,
+            structuredContent: {
+                android_emulators: emulators,
+                android_waiters: emulatorWaiters,
+                ios_simulators: simulators,
+                ios_simulator_capacity: simulatorPool.getSize(),
+                ios_waiters: simulatorWaiters,
+            },
+        });
+    },
+};
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
+import { jobSummarySchema, toJobSummary } from "../utils/JobStoreUtils.js";
+
+/**
+ * Tool for fetching the result of a background job started with as_job
+ */
+export const getJobResultTool = {
+    name: "get_job_result",
+    description: "Get the result of a completed background job started with as_job, including images and links",
+    inputSchema: z.object({
+        job_id: z
+            .string()
+            .describe("The ID of the job"),
+    }),
+    outputSchema: jobSummarySchema.extend({
+        result: z
+            .record(z.string(), z.unknown())
+            .optional()
+            .describe("Structured content returned by the job's tool"),
+    }),
+    bypassQueue: true,
+    handler: (args: { job_id: string }, context: ToolContext = {}) => {
+        const job = context.jobs?.get(args.job_id, context.userId);
+        if (!job) {
+            return Promise.resolve({
+                output: `Job not found: ${args.job_id}`,
+                success: false,
+            });
+        }
+        if (job.status !== "completed" || !job.result) {
+            return Promise.resolve({
+                output: `Job ${job.id} has no result: it is ${job.status}${job.error ? ` (${job.error})` : ""}`,
+                success: false,
+            });
+        }
+
+        // Return the stored content blocks the way the tool returned them; they already hold
+        // the error prefix, the image count and the links
+        const { content, structuredContent, isError } = job.result;
+        return Promise.resolve({
+            output: content
+                .flatMap((block) => (block.type === "text" ? [block.text] : []))
+                .join("\n\n"),
+            success: !isError,
+            structuredContent: { ...toJobSummary(job), result: structuredContent },
+            content,
+        });
+    },
+};
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
+import { jobSummarySchema, toJobSummary } from "../utils/JobStoreUtils.js";
+
+/**
+ * Tool for checking the status of a background job started with as_job
+ */
+export const getJobStatusTool = {
+    name: "get_job_status",
+    description: "Get the status of a background job started with as_job",
+    inputSchema: z.object({
+        job_id: z
+            .string()
+            .describe("The ID of the job"),
+    }),
+    outputSchema: jobSummarySchema,
+    bypassQueue: true,
+    handler: (args: { job_id: string }, context: ToolContext = {}) => {
+        const job = context.jobs?.get(args.job_id, context.userId);
+        if (!job) {
+            return Promise.resolve({
+                output: `Job not found: ${args.job_id}`,
+                success: false,
+            });
+        }
+
+        return Promise.resolve({
+            output: `Job ${job.id} (${job.tool_name}) is ${job.status}${job.error ? `: ${job.error}` : ""}`,
+            success: true,
+            structuredContent: toJobSummary(job),
+        });
+    },
+};
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
+
+/**
+ * Tool for checking where waiting tool calls stand in the queue
+ */
+export const getQueueStatusTool = {
+    name: "get_queue_status",
+    description: "Get the waiting tool calls in their expected start order, with estimated start times, and the number of busy workers. Use it to tell whether a call is queued or stuck.",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+        queue_length: z.number().describe("Number of tool calls waiting to start"),
+        active_workers: z.number().describe("Number of tool calls running"),
+        max_workers: z.number().describe("Maximum number of tool calls running at once"),
+        queued_calls: z.array(z.object({
+            position: z.number().describe("1-based position in the expected start order"),
+            tool_name: z.string().describe("Tool the call runs"),
+            priority: z.enum(["interactive", "normal", "background"]).describe("Priority class of the call"),
+            own: z.boolean().describe("Whether the call was made by the caller"),
+            waiting_ms: z.number().describe("How long the call has been waiting"),
+            estimated_start_at: z
+                .string()
+                .optional()
+                .describe("Estimated start time (ISO 8601), from recent durations of each tool; absent until a call has finished"),
+        })).describe("Waiting tool calls in expected start order"),
+    }),
+    bypassQueue: true,
+    handler: (_args: Record<string, never>, context: ToolContext = {}) => {
+        const { queue, userId } = context;
+        if (!queue) {
+            return Promise.resolve({
+                output: "The tool call queue is not available",
+                success: false,
+            });
+        }
+
+        const now = Date.now();
+        const queuedCalls = queue.getQueuedTasks().map((status) => ({
+            position: status.position,
+            tool_name: status.task.name,
+            priority: status.priority,
+            // Calls of other users are listed without their arguments or user
+            own: userId !== undefined && status.task.userId === userId,
+            waiting_ms: now - status.enqueuedAt,
+            estimated_start_at: status.estimatedStartAt !== undefined
+                ? new Date(status.estimatedStartAt).toISOString()
+                : undefined,
+        }));
+
+        const lines = [
+            `${queuedCalls.length} tool calls waiting, ${queue.getActiveWorkers()} of ${queue.getMaxWorkers()} workers busy`,
+            ...queuedCalls.map((call) =>
+                `${call.position}. ${call.tool_name}${call.own ? " (yours)" : ""}, waiting ${Math.round(call.waiting_ms / 1000)} s`
+                + (call.estimated_start_at ? `, estimated start ${call.estimated_start_at}` : "")
+            ),
+        ];
+
+        return Promise.resolve({
+            output: lines.join("\n"),
+            success: true,
+            structuredContent: {
+                queue_length: queuedCalls.length,
+                active_workers: queue.getActiveWorkers(),
+                max_workers: queue.getMaxWorkers(),
+                queued_calls: queuedCalls,
+            },
+        });
+    },
+};
@@ -0,0 +1,42 @@
+import { ToolRegistry } from "../utils/ToolRegistryUtils.js";
+import type { ServerProfile } from "../utils/ServerProfileUtils.js";
+import { searchImageTool } from "./search-image.js";
+import { searchIconTool } from "./search-icon.js";
+import { createRemoteProjectTool } from "./create-remote-project.js";
+import { remoteCleanProjectTool } from "./remote-clean-project.js";
+import { setProjectMemberTool } from "./set-project-member.js";
+import { removeProjectMemberTool } from "./remove-project-member.js";
+import { remoteTestAndroidTool } from "./remote-test-android.js";
+import { remoteTestIosTool } from "./remote-test-ios.js";
+import { getJobStatusTool } from "./get-job-status.js";
+import { getJobResultTool } from "./get-job-result.js";
+import { cancelJobTool } from "./cancel-job.js";
+import { getQueueStatusTool } from "./get-queue-status.js";
+import { getDevicePoolStatusTool } from "./get-device-pool-status.js";
+
+/**
+ * Builds the registry of tools exposed for the given server profile.
+ * To expose a new tool, register it here.
+ */
+export function createToolRegistry(profile: ServerProfile): ToolRegistry {
+    const registry = new ToolRegistry()
+        .register(searchImageTool)
+        .register(searchIconTool)
+        .register(getQueueStatusTool);
+
+    if (profile === "remote-build-farm") {
+        registry
+            .register(createRemoteProjectTool)
+            .register(setProjectMemberTool)
+            .register(removeProjectMemberTool)
+            .register(remoteCleanProjectTool)
+            .register(remoteTestAndroidTool)
+            .register(remoteTestIosTool)
+            .register(getDevicePoolStatusTool)
+            .register(getJobStatusTool)
+            .register(getJobResultTool)
+            .register(cancelJobTool);
+    }
+
+    return registry;
+}
@@ -3,6 +3,7 @@ import { exec } from "child_process";
 import { promisify } from "util";
 import { join } from "path";
 import { homedir } from "os";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
 
 const execAsync = promisify(exec);
 
@@ -17,24 +18,36 @@ export const remoteCleanProjectTool = {
             .string()
             .describe("The ID of the project"),
     }),
-    handler: async (args: { project_id: string }) => {
+    outputSchema: z.object({
+        output: z.string().describe("Combined output of ./gradlew clean"),
+    }),
+    requiresProjectLock: true,
+    projectRole: "editor" as const,
+    timeoutMs: 10 * 60 * 1000,
+    resources: ["cpu"],
+    handler: async (args: { project_id: string }, context: ToolContext = {}) => {
         const { project_id } = args;
+        const { progress, signal } = context;
 
         try {
             const projectsPath = join(homedir(), "PistachioMCPProjects");
             const projectPath = join(projectsPath, project_id);
 
             // Execute ./gradlew clean command in the project directory
+            await progress?.report("Running ./gradlew clean");
             const { stdout, stderr } = await execAsync("./gradlew --no-daemon clean", {
                 cwd: projectPath,
+                signal,
             });
 
             // Combine stdout and stderr for complete output
             const output = stdout + (stderr ? `\n${stderr}` : "");
 
+            const cleanOutput = output.trim() || "gradlew clean completed with no output";
             return {
-                output: output.trim() || "gradlew clean completed with no output",
+                output: cleanOutput,
                 success: true,
+                structuredContent: { output: cleanOutput },
             };
         } catch (error) {
             // If the command fails, return the error message
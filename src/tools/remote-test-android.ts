@@ -6,25 +6,182 @@ import { homedir } from "os";
 import { existsSync, readFileSync, unlinkSync, mkdirSync, readdirSync, rmSync } from "fs";
 import { Storage } from "@google-cloud/storage";
 import { randomUUID } from "crypto";
+import {
+    collectAndroidLogs,
+    isDeviceLogsEmpty,
+    startAndroidLogCapture,
+    summarizeDeviceLogs,
+    type DeviceLogs,
+} from "../../skills/shared/device-logs.js";
+import {
+    ALL_TEST_CLASSES,
+    buildInstrumentCommand,
+    describeTestSelection,
+    isInstrumentationSuccessful,
+    PACKAGE_NAME_PATTERN,
+    runInstrumentation,
+    validateTestSelection,
+    type AndroidTestSelection,
+} from "../../skills/shared/instrumentation.js";
+import { createInstrumentationReport } from "../../skills/shared/test-report.js";
 import { withDeviceLock } from "../utils/DeviceLockUtils.js";
+import { getAndroidEmulatorPool } from "../utils/EmulatorPoolUtils.js";
 import { logger } from "../utils/Logger.js";
-
-const AVD_NAME = "Medium_Phone_API_36.1";
-
-const PORT = 5554;
+import type { ToolContext, ToolImage } from "../utils/ToolRegistryUtils.js";
+import {
+    formatTestCase,
+    getDeviceLogsLinks,
+    getTestReportLinks,
+    testRunResultSchema,
+    uploadDeviceLogs,
+    uploadTestReport,
+    type TestCaseResult,
+    type TestRunResult,
+} from "../utils/TestRunUtils.js";
 
 const execAsync = promisify(exec);
 
 /**
- * Type guard to check if an error has stdout/stderr properties
+ * Options for collecting the screen recording of a test
  */
-interface ExecError extends Error {
-    stdout?: string;
-    stderr?: string;
+interface ScreenRecordingOptions {
+    projectId: string;
+    packageName: string;
+    serial: string;
+    /** Whether to extract frames from the recording */
+    extractFrames: boolean;
+    context: ToolContext;
 }
 
-function isExecError(error: unknown): error is ExecError {
-    return error instanceof Error && ('stdout' in error || 'stderr' in error);
+/**
+ * Pulls the screen recording a test saved on the device, uploads it to GCS, and extracts frames
+ * at 1fps. Failures are logged and leave the recording or frames out of the result.
+ */
+async function collectScreenRecording(
+    testName: string,
+    options: ScreenRecordingOptions
+): Promise<{ url?: string; images: ToolImage[] }> {
+    const { projectId, packageName, serial, extractFrames, context } = options;
+    const { progress, signal } = context;
+    const projectsPath = join(homedir(), "PistachioMCPProjects");
+    const screenRecordPath = `/storage/emulated/0/Android/data/${packageName}/files/screenrecord_${testName}.mp4`;
+    const localScreenRecordPath = join(projectsPath, `screenrecord_${projectId}_${testName}.mp4`);
+    let screenRecordGcsUrl: string | null = null;
+    const imageSequence: ToolImage[] = [];
+    try {
+        await execAsync(`adb -s ${serial} pull "${screenRecordPath}" "${localScreenRecordPath}"`, { signal });
+    } catch (error) {
+        // Screen recording might not exist, so we don't fail the whole test
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn({
+            project_id: projectId,
+            serial,
+            screen_record_path: screenRecordPath,
+            error_message: errorMessage,
+        }, "Could not pull screen recording");
+    }
+    // Upload video to GCS if file was successfully pulled
+    if (existsSync(localScreenRecordPath)) {
+        try {
+            // Read the video file
+            const fileBuffer = readFileSync(localScreenRecordPath);
+
+            // Upload to GCS
+            const storage = new Storage();
+            const bucketName =
+                process.env.GCS_BUCKET_WEEKLY_EXPIRING ||
+                "dev-pistachio-assets-weekly-expiring";
+
+            // Strip gs:// prefix if present
+            let finalBucketName = bucketName;
+            if (finalBucketName.startsWith("gs://")) {
+                finalBucketName = finalBucketName.substring(5);
+            }
+            const bucket = storage.bucket(finalBucketName);
+
+            // Generate filename
+            const filename = `${randomUUID()}.mp4`;
+            const file = bucket.file(`${projectId}/${filename}`);
+
+            // Upload the buffer to GCS
+            await file.save(fileBuffer, {
+                metadata: {
+                    contentType: "video/mp4",
+                },
+            });
+
+            // Get the public URL
+            screenRecordGcsUrl = `https://storage.googleapis.com/${finalBucketName}/${projectId}/${filename}`;
+        } catch (error) {
+            // Log but don't fail if upload fails
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn({
+                project_id: projectId,
+                error_message: errorMessage,
+            }, "Could not upload screen recording to GCS");
+        }
+
+        if (extractFrames) {
+            // Extract frames at 1fps and convert to base64
+            await progress?.report(`Extracting frames from screen recording of ${testName}`);
+            const framesDir = join(projectsPath, `frames_${randomUUID()}`);
+            try {
+                mkdirSync(framesDir, { recursive: true });
+
+                // Extract frames using ffmpeg
+                await execAsync(
+                    `ffmpeg -i "${localScreenRecordPath}" -vf "fps=1,scale=320:-1" -q:v 6 "${join(framesDir, "frame_%04d.jpg")}"`,
+                    { signal }
+                );
+
+                // Read all frame files and convert to base64
+                const frameFiles = readdirSync(framesDir)
+                    .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
+                    .sort();
+
+                for (const frameFile of frameFiles) {
+                    const framePath = join(framesDir, frameFile);
+                    const frameBuffer = readFileSync(framePath);
+                    const base64 = frameBuffer.toString("base64");
+                    imageSequence.push({ data: base64, mimeType: "image/jpeg" });
+                }
+            } catch (error) {
+                // Log but don't fail if frame extraction fails
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.warn({
+                    project_id: projectId,
+                    error_message: errorMessage,
+                }, "Could not extract frames from video");
+            } finally {
+                // Clean up temporary directory, also when extraction failed or was cancelled
+                try {
+                    rmSync(framesDir, { recursive: true, force: true });
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    logger.warn({
+                        project_id: projectId,
+                        frames_dir: framesDir,
+                        error_message: errorMessage,
+                    }, "Could not delete frames directory");
+                }
+            }
+        }
+
+        // Delete the local file after successful upload
+        try {
+            unlinkSync(localScreenRecordPath);
+        } catch (error) {
+            // Log but don't fail if deletion fails
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn({
+                project_id: projectId,
+                local_screen_record_path: localScreenRecordPath,
+                error_message: errorMessage,
+            }, "Failed to delete screen recording file");
+        }
+    }
+
+    return { url: screenRecordGcsUrl ?? undefined, images: imageSequence };
 }
 
 /**
@@ -33,21 +190,73 @@ function isExecError(error: unknown): error is ExecError {
 // TODO: this needs to run in a container so that user cannot inject malicious code into gradle scripts or APK
 export const remoteTestAndroidTool = {
     name: "remote_test_android",
-    description: "Run an test in composeApp/src/androidInstrumentedTest/kotlin/com/jetbrains/kmpapp/AndroidInstrumentedTest.kt",
+    description: "Run instrumented tests in composeApp/src/androidInstrumentedTest: one test, several tests or a whole class (AndroidInstrumentedTest.kt by default), tests with an annotation, or all tests, with one build and install. Returns the result of each test case.",
     inputSchema: z.object({
         project_id: z
             .string()
             .describe("The ID of the project"),
         package_name: z
             .string()
+            .regex(PACKAGE_NAME_PATTERN, "Must be a Java package name such as 'com.example.app'")
             .describe("The package name of the Android app (e.g., 'com.jetbrains.kmpapp')"),
+        test_class: z
+            .string()
+            .optional()
+            .describe(`The test class, relative to package_name or fully qualified (default: 'AndroidInstrumentedTest'). Use '${ALL_TEST_CLASSES}' to run every test class`),
         test_name: z
             .string()
-            .describe("The test name inside AndroidInstrumentedTest.kt (e.g., 'testScrollingDownGesture')"),
+            .optional()
+            .describe("A test method of the test class (e.g., 'testScrollingDownGesture'). Runs the whole class when neither test_name nor test_names is given"),
+        test_names: z
+            .array(z.string())
+            .optional()
+            .describe("Test methods of the test class to run together"),
+        annotation: z
+            .string()
+            .optional()
+            .describe("Only run tests with this fully qualified annotation (e.g., 'androidx.test.filters.SmallTest')"),
     }),
-    handler: async (args: { project_id: string; test_name: string; package_name: string }) => {
-        const { project_id, test_name, package_name } = args;
-        const serial = `emulator-${PORT}`;
+    outputSchema: testRunResultSchema,
+    requiresProjectLock: true,
+    projectRole: "editor" as const,
+    timeoutMs: 30 * 60 * 1000,
+    resources: ["cpu", "android-device"],
+    supportsJobs: true,
+    handler: async (
+        args: {
+            project_id: string;
+            package_name: string;
+            test_class?: string;
+            test_name?: string;
+            test_names?: string[];
+            annotation?: string;
+        },
+        context: ToolContext = {}
+    ) => {
+        const { project_id, package_name, annotation } = args;
+        const { progress, signal } = context;
+        const testClass = args.test_class ?? "AndroidInstrumentedTest";
+        const testNames = [...(args.test_name ? [args.test_name] : []), ...(args.test_names ?? [])];
+        const selection: AndroidTestSelection = { testClass, testNames, annotation };
+        const testDescription = describeTestSelection(selection);
+
+        if (testClass === ALL_TEST_CLASSES && testNames.length > 0) {
+            return {
+                output: `Error: test_name and test_names need a test_class other than '${ALL_TEST_CLASSES}'`,
+                screenrecord: undefined,
+                images: undefined,
+                success: false,
+            };
+        }
+        const selectionError = validateTestSelection(selection);
+        if (selectionError) {
+            return {
+                output: `Error: ${selectionError}`,
+                screenrecord: undefined,
+                images: undefined,
+                success: false,
+            };
+        }
 
         const projectsPath = join(homedir(), "PistachioMCPProjects");
         const projectPath = join(projectsPath, project_id);
@@ -63,9 +272,11 @@ export const remoteTestAndroidTool = {
         }
 
         // Step 1: Build debug APK (doesn't require device lock)
+        await progress?.report("Building debug APK");
         try {
             await execAsync(`./gradlew --no-daemon assembleDebug`, {
                 cwd: projectPath,
+                signal,
             });
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -78,9 +289,11 @@ export const remoteTestAndroidTool = {
         }
 
         // Step 2: Build test APK (doesn't require device lock)
+        await progress?.report("Building test APK");
         try {
             await execAsync(`./gradlew --no-daemon assembleDebugAndroidTest`, {
                 cwd: projectPath,
+                signal,
             });
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -92,327 +305,223 @@ export const remoteTestAndroidTool = {
             };
         }
 
-        // Now acquire device lock for device-dependent operations
-        return await withDeviceLock(serial, async () => {
-            // Step 3: Check if the specific emulator is already running
-            let hasRunningEmulator = false;
-            try {
-                const { stdout } = await execAsync("adb devices");
-                // Parse output to check for "device" status for the specific serial
-                const lines = stdout.split("\n").filter((line) => line.trim());
-                for (const line of lines) {
-                    if (line.includes(serial) && line.includes("\tdevice")) {
-                        hasRunningEmulator = true;
-                        break;
-                    }
+        // Now lease an emulator from the pool and lock it for device-dependent operations
+        await progress?.report("Waiting for a free emulator");
+        const emulatorPool = getAndroidEmulatorPool();
+        const holder = `${project_id}: ${testDescription}`;
+        const lease = await emulatorPool.lease({ signal, holder });
+        const { serial } = lease;
+        await progress?.report(`Waiting for ${serial}`);
+        try {
+            return await withDeviceLock(serial, async () => {
+                // Steps 3 and 4: Start the emulator unless it is already running
+                try {
+                    await emulatorPool.ensureRunning(serial, { signal, progress });
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    return {
+                        output: `Error: ${errorMessage}`,
+                        screenrecord: undefined,
+                        images: undefined,
+                        success: false,
+                    };
                 }
-            } catch {
-                return {
-                    output: `Error: adb command not found. Please ensure Android SDK platform-tools are installed and available in PATH.`,
-                    screenrecord: undefined,
-                    images: undefined,
-                    success: false,
-                };
-            }
 
-            // Step 4: Start emulator if the specific one is not running
-            if (!hasRunningEmulator) {
+                // Step 5: Install debug APK to specific serial
+                await progress?.report(`Installing debug APK on ${serial}`);
+                const debugApkPath = join(projectPath, "composeApp/build/outputs/apk/debug/composeApp-debug.apk");
                 try {
-                    // List available AVDs
-                    const { stdout: avdList } = await execAsync("emulator -list-avds");
-                    const avds = avdList
-                        .split("\n")
-                        .map((line) => line.trim())
-                        .filter((line) => line.length > 0);
-
-                    if (avds.length === 0) {
-                        return {
-                            output: `Error: No Android Virtual Devices (AVDs) found. Please create an AVD using Android Studio.`,
-                            screenrecord: undefined,
-                            images: undefined,
-                            success: false,
-                        };
-                    }
-
-                    // Check if the specified AVD exists
-                    if (!avds.includes(AVD_NAME)) {
-                        return {
-                            output: `Error: AVD "${AVD_NAME}" not found. Available AVDs: ${avds.join(", ")}`,
-                            screenrecord: undefined,
-                            images: undefined,
-                            success: false,
-                        };
-                    }
-
-                    // Start the specified AVD in the background with the unique port and unique AVD home
-                    exec(`emulator -avd ${AVD_NAME} -port ${PORT} -no-snapshot-load -no-audio`, (error) => {
-                        if (error) {
-                            console.error(`Error starting emulator on port ${PORT}: ${error.message}`);
-                        }
-                    });
-
-                    // Wait for emulator to boot (poll adb devices for specific serial)
-                    let deviceReady = false;
-                    const maxWaitTime = 120000; // 2 minutes
-                    const pollInterval = 2000; // 2 seconds
-                    const startTime = Date.now();
-
-                    while (!deviceReady && Date.now() - startTime < maxWaitTime) {
-                        await new Promise((resolve) => setTimeout(resolve, pollInterval));
-                        try {
-                            const { stdout } = await execAsync("adb devices");
-                            const lines = stdout.split("\n").filter((line) => line.trim());
-                            for (const line of lines) {
-                                if (line.includes(serial) && line.includes("\tdevice")) {
-                                    deviceReady = true;
-                                    break;
-                                }
-                            }
-                        } catch {
-                            // Continue polling
-                        }
-                    }
-
-                    if (!deviceReady) {
-                        return {
-                            output: `Error: Emulator failed to start within ${maxWaitTime / 1000} seconds. Please check emulator logs.`,
-                            screenrecord: undefined,
-                            images: undefined,
-                            success: false,
-                        };
-                    }
+                    await execAsync(`adb -s ${serial} install -r "${debugApkPath}"`, { signal });
                 } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
                     return {
-                        output: `Error: Failed to start emulator: ${error instanceof Error ? error.message : String(error)}`,
+                        output: `Error: Failed to install debug APK: ${errorMessage}`,
                         screenrecord: undefined,
                         images: undefined,
                         success: false,
                     };
                 }
-            }
-
-            // Step 5: Install debug APK to specific serial
-            const debugApkPath = join(projectPath, "composeApp/build/outputs/apk/debug/composeApp-debug.apk");
-            try {
-                await execAsync(`adb -s ${serial} install -r "${debugApkPath}"`);
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                return {
-                    output: `Error: Failed to install debug APK: ${errorMessage}`,
-                    screenrecord: undefined,
-                    images: undefined,
-                    success: false,
-                };
-            }
-
-            // Step 6: Install test APK
-            const testApkPath = join(projectPath, "composeApp/build/outputs/apk/androidTest/debug/composeApp-debug-androidTest.apk");
-            try {
-                await execAsync(`adb -s ${serial} install -r "${testApkPath}"`);
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                return {
-                    output: `Error: Failed to install test APK: ${errorMessage}`,
-                    screenrecord: undefined,
-                    images: undefined,
-                    success: false,
-                };
-            }
-
-            // Step 7: Run adb shell am instrument with test_name
-            let output = "";
-            try {
-                const { stdout, stderr } = await execAsync(
-                    `adb -s ${serial} shell am instrument -w -r -e class "${package_name}.AndroidInstrumentedTest#${test_name}" ${package_name}.test/androidx.test.runner.AndroidJUnitRunner`
-                );
 
-                // Combine stdout and stderr for complete output
-                output = stdout + (stderr ? `\n${stderr}` : "");
-            } catch (error) {
-                // Even if the command fails, we still want to capture the output
-                // Test failures still produce output with error logs
-                const errorMessage = error instanceof Error ? error.message : String(error);
-
-                // Try to extract stdout/stderr from the error if available
-                if (isExecError(error)) {
-                    output = (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
-                } else {
-                    output = errorMessage;
+                // Step 6: Install test APK
+                await progress?.report(`Installing test APK on ${serial}`);
+                const testApkPath = join(projectPath, "composeApp/build/outputs/apk/androidTest/debug/composeApp-debug-androidTest.apk");
+                try {
+                    await execAsync(`adb -s ${serial} install -r "${testApkPath}"`, { signal });
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    return {
+                        output: `Error: Failed to install test APK: ${errorMessage}`,
+                        screenrecord: undefined,
+                        images: undefined,
+                        success: false,
+                    };
                 }
-            }
-
-            // Step 8: Parse logcatErrors from the output
-            const logcatErrorsRegex = /ERROR_LOGS_START\s*([\s\S]*?)\s*ERROR_LOGS_END/g;
-            const logcatErrorsMatches = Array.from(output.matchAll(logcatErrorsRegex));
-            const logcatErrors = logcatErrorsMatches.map(match => match[1]).join('\n').trim();
 
-            // Step 9: Run adb pull to get the screen recording
-            const screenRecordPath = `/storage/emulated/0/Android/data/${package_name}/files/screenrecord_${test_name}.mp4`;
-            const localScreenRecordPath = join(projectsPath, `screenrecord_${project_id}_${test_name}.mp4`);
-            let screenRecordGcsUrl: string | null = null;
-            const imageSequence: string[] = [];
-            try {
-                await execAsync(`adb -s ${serial} pull "${screenRecordPath}" "${localScreenRecordPath}"`);
-            } catch (error) {
-                // Screen recording might not exist, so we don't fail the whole test
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                logger.warn({
-                    project_id,
-                    serial,
-                    screen_record_path: screenRecordPath,
-                    error_message: errorMessage,
-                }, "Could not pull screen recording");
-            }
-            // Upload video to GCS if file was successfully pulled
-            if (existsSync(localScreenRecordPath)) {
+                // Clear logcat, so the logs collected after the run only hold the run
+                let logsSince: string | undefined;
                 try {
-                    // Read the video file
-                    const fileBuffer = readFileSync(localScreenRecordPath);
-
-                    // Upload to GCS
-                    const storage = new Storage();
-                    const bucketName =
-                        process.env.GCS_BUCKET_WEEKLY_EXPIRING ||
-                        "dev-pistachio-assets-weekly-expiring";
-
-                    // Strip gs:// prefix if present
-                    let finalBucketName = bucketName;
-                    if (finalBucketName.startsWith("gs://")) {
-                        finalBucketName = finalBucketName.substring(5);
-                    }
-                    const bucket = storage.bucket(finalBucketName);
-
-                    // Generate filename
-                    const filename = `${randomUUID()}.mp4`;
-                    const file = bucket.file(`${project_id}/${filename}`);
-
-                    // Upload the buffer to GCS
-                    await file.save(fileBuffer, {
-                        metadata: {
-                            contentType: "video/mp4",
-                        },
-                    });
-
-                    // Get the public URL
-                    screenRecordGcsUrl = `https://storage.googleapis.com/${finalBucketName}/${project_id}/${filename}`;
+                    logsSince = await startAndroidLogCapture(serial, { signal });
                 } catch (error) {
-                    // Log but don't fail if upload fails
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     logger.warn({
                         project_id,
+                        serial,
                         error_message: errorMessage,
-                    }, "Could not upload screen recording to GCS");
+                    }, "Could not clear logcat");
                 }
 
-                // Extract frames at 1fps and convert to base64
-                try {
-                    const framesDir = join(projectsPath, `frames_${randomUUID()}`);
-                    mkdirSync(framesDir, { recursive: true });
-
-                    // Extract frames using ffmpeg
-                    await execAsync(
-                        `ffmpeg -i "${localScreenRecordPath}" -vf "fps=1,scale=320:-1" -q:v 6 "${join(framesDir, "frame_%04d.jpg")}"`
-                    );
-
-                    // Read all frame files and convert to base64
-                    const frameFiles = readdirSync(framesDir)
-                        .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-                        .sort();
-
-                    for (const frameFile of frameFiles) {
-                        const framePath = join(framesDir, frameFile);
-                        const frameBuffer = readFileSync(framePath);
-                        const base64 = frameBuffer.toString("base64");
-                        imageSequence.push(base64);
-                    }
-
-                    // Clean up temporary directory
+                // Step 7: Run adb shell am instrument with the selected tests
+                await progress?.report(`Running ${testDescription}`);
+                const startTime = new Date();
+                const { output, run } = await runInstrumentation(buildInstrumentCommand(serial, package_name, selection), { signal });
+                const durationMs = Date.now() - startTime.getTime();
+
+                // Step 8: Parse logcatErrors from the output
+                const logcatErrorsRegex = /ERROR_LOGS_START\s*([\s\S]*?)\s*ERROR_LOGS_END/g;
+                const logcatErrorsMatches = Array.from(output.matchAll(logcatErrorsRegex));
+                const logcatErrors = logcatErrorsMatches.map(match => match[1]).join('\n').trim();
+                const testCases: TestCaseResult[] = run.testCases.map((testCase) => ({
+                    class_name: testCase.className,
+                    test_name: testCase.testName,
+                    status: testCase.status,
+                    duration_ms: testCase.durationMs,
+                    stack_trace: testCase.stackTrace,
+                }));
+
+                // Collect the logs of the app, with the crashes and ANRs the instrumentation output does not show
+                let deviceLogs: DeviceLogs | undefined;
+                if (logsSince !== undefined) {
+                    await progress?.report("Collecting device logs");
                     try {
-                        rmSync(framesDir, { recursive: true, force: true });
+                        deviceLogs = await collectAndroidLogs(serial, package_name, logsSince, { signal });
                     } catch (error) {
                         const errorMessage = error instanceof Error ? error.message : String(error);
                         logger.warn({
                             project_id,
-                            frames_dir: framesDir,
+                            serial,
                             error_message: errorMessage,
-                        }, "Could not delete frames directory");
+                        }, "Could not collect device logs");
+                    }
+                }
+
+                // Step 9: Run adb pull to get the screen recording of each test
+                // Frames are only extracted for a single test, or for the failed tests of a larger run
+                await progress?.report("Collecting screen recordings");
+                // Without per-test results, the recordings of the requested tests are looked for
+                const recordedTests = testCases.length > 0
+                    ? testCases
+                        .filter((testCase) => testCase.status !== "ignored")
+                        .map((testCase) => ({ testName: testCase.test_name, failed: testCase.status === "failed" }))
+                    : testNames.map((testName) => ({ testName, failed: true }));
+                const screenRecordings: { testName: string; url: string }[] = [];
+                const imageSequence: ToolImage[] = [];
+                for (const { testName, failed } of recordedTests) {
+                    const recording = await collectScreenRecording(testName, {
+                        projectId: project_id,
+                        packageName: package_name,
+                        serial,
+                        extractFrames: recordedTests.length === 1 || failed,
+                        context,
+                    });
+                    if (recording.url) {
+                        screenRecordings.push({ testName, url: recording.url });
                     }
+                    imageSequence.push(...recording.images);
+                }
+
+                // Step 10: Clean up - uninstall test and binary
+                // Not cancellable, so the device is left clean for the next run
+                await progress?.report(`Uninstalling apps from ${serial}`);
+                try {
+                    // Uninstall test APK
+                    await execAsync(`adb -s ${serial} uninstall ${package_name}.test`);
                 } catch (error) {
-                    // Log but don't fail if frame extraction fails
+                    // Log but don't fail if uninstall fails
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     logger.warn({
                         project_id,
+                        serial,
+                        package_name: `${package_name}.test`,
                         error_message: errorMessage,
-                    }, "Could not extract frames from video");
+                    }, "Could not uninstall test APK");
                 }
 
-                // Delete the local file after successful upload
                 try {
-                    unlinkSync(localScreenRecordPath);
+                    // Uninstall main app
+                    await execAsync(`adb -s ${serial} uninstall ${package_name}`);
                 } catch (error) {
-                    // Log but don't fail if deletion fails
+                    // Log but don't fail if uninstall fails
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     logger.warn({
                         project_id,
-                        local_screen_record_path: localScreenRecordPath,
+                        serial,
+                        package_name,
                         error_message: errorMessage,
-                    }, "Failed to delete screen recording file");
+                    }, "Could not uninstall main app");
                 }
-            }
-
 
-            // Determine success based on whether the test passed.
-            //
-            // NOTE: `adb shell am instrument` output is not perfectly standardized across runners / versions.
-            // In particular, `INSTRUMENTATION_CODE` values can be confusing and should not be the sole signal.
-            // Prefer explicit JUnit summary markers and obvious instrumentation failure markers.
-            const hasFailureIndicators =
-                // JUnit-style summary (common with AndroidJUnitRunner)
-                output.includes("FAILURES!!!") ||
-                /Tests run:\s*\d+,\s*Failures:\s*[1-9]\d*/.test(output) ||
-                // Instrumentation-level failures / crashes
-                /INSTRUMENTATION_(?:FAILED|STATUS_CODE:\s*-1)\b/.test(output) ||
-                /INSTRUMENTATION_RESULT:.*(?:shortMsg|longMsg)=.*(?:fail|crash|exception)/i.test(output) ||
-                // Generic failure strings (app/framework dependent)
-                output.includes("Test failed") ||
-                /(java\.lang\.\w+(?:Exception|Error)|kotlin\.\w+Exception)/.test(output);
-
-            // Step 10: Clean up - uninstall test and binary
-            try {
-                // Uninstall test APK
-                await execAsync(`adb -s ${serial} uninstall ${package_name}.test`);
-            } catch (error) {
-                // Log but don't fail if uninstall fails
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                logger.warn({
-                    project_id,
-                    serial,
-                    package_name: `${package_name}.test`,
-                    error_message: errorMessage,
-                }, "Could not uninstall test APK");
-            }
+                // The test result is incomplete if the call was cancelled
+                if (signal?.aborted) {
+                    return {
+                        output: "Error: Test run was cancelled",
+                        screenrecord: undefined,
+                        images: undefined,
+                        success: false,
+                    };
+                }
 
-            try {
-                // Uninstall main app
-                await execAsync(`adb -s ${serial} uninstall ${package_name}`);
-            } catch (error) {
-                // Log but don't fail if uninstall fails
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                logger.warn({
+                // Upload the report of the run next to the screen recordings
+                await progress?.report("Uploading test report");
+                const reportUrls = await uploadTestReport(
                     project_id,
-                    serial,
-                    package_name,
-                    error_message: errorMessage,
-                }, "Could not uninstall main app");
-            }
-
-            // Return structured result with extracted data
-            return {
-                output: logcatErrors.length > 0 ? logcatErrors : output.trim(),
-                success: !hasFailureIndicators,
-                screenrecord: screenRecordGcsUrl || undefined,
-                images: imageSequence.length > 0 ? imageSequence : undefined,
-            };
-        });
+                    createInstrumentationReport(run, { name: testDescription, startTime, durationMs })
+                );
+                const deviceLogsUrl = deviceLogs && !isDeviceLogsEmpty(deviceLogs)
+                    ? await uploadDeviceLogs(project_id, deviceLogs)
+                    : undefined;
+
+                // Return structured result with extracted data; runs of several tests start with a line per test,
+                // and failed runs end with the crashes and ANRs of the app
+                const success = isInstrumentationSuccessful(run);
+                const details = logcatErrors.length > 0 ? logcatErrors : output.trim();
+                const summary = [
+                    ...(testCases.length > 1 ? testCases.map(formatTestCase) : []),
+                    ...(run.error ? [`Run failed: ${run.error}`] : []),
+                ].join("\n");
+                const crashDetails = !success && deviceLogs
+                    ? [...deviceLogs.crashes.map((crash) => `Crash:\n${crash}`), ...deviceLogs.anrs.map((anr) => `ANR:\n${anr}`)]
+                    : [];
+                const testRunResult: TestRunResult = {
+                    success,
+                    output: [summary ? `${summary}\n\n${details}` : details, ...crashDetails].join("\n\n"),
+                    screenrecord: screenRecordings[0]?.url,
+                    frame_count: imageSequence.length,
+                    test_cases: testCases.length > 0 ? testCases : undefined,
+                    junit_report: reportUrls.junitUrl,
+                    json_report: reportUrls.jsonUrl,
+                    device_logs: deviceLogsUrl,
+                    device_log_summary: deviceLogs ? summarizeDeviceLogs(deviceLogs) : undefined,
+                };
+                const links = [
+                    ...screenRecordings.map((recording) => ({
+                        uri: recording.url,
+                        name: screenRecordings.length === 1 ? "screenrecord.mp4" : `screenrecord_${recording.testName}.mp4`,
+                        mimeType: "video/mp4",
+                    })),
+                    ...getTestReportLinks(reportUrls),
+                    ...getDeviceLogsLinks(deviceLogsUrl),
+                ];
+                return {
+                    output: testRunResult.output,
+                    success: testRunResult.success,
+                    structuredContent: testRunResult,
+                    screenrecord: testRunResult.screenrecord,
+                    images: imageSequence.length > 0 ? imageSequence : undefined,
+                    links: links.length > 0 ? links : undefined,
+                };
+            }, { signal, holder });
+        } finally {
+            lease.release();
+        }
     },
 };
@@ -1,18 +1,36 @@
 import { z } from "zod";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { join } from "path";
+import { basename, join } from "path";
 import { homedir } from "os";
 import { existsSync, readFileSync, mkdirSync, readdirSync, rmSync, statSync } from "fs";
 import { Storage } from "@google-cloud/storage";
 import { randomUUID } from "crypto";
+import { collectSimulatorLogs, isDeviceLogsEmpty, summarizeDeviceLogs, type DeviceLogs } from "../../skills/shared/device-logs.js";
+import { isXcresultSuccessful, readXcresult, type XcresultRun, type XcresultTestCase } from "../../skills/shared/xcresult.js";
+import { createXcresultReport } from "../../skills/shared/test-report.js";
 import { withDeviceLock } from "../utils/DeviceLockUtils.js";
+import { deviceFamilySchema, getIosSimulatorPool, type DeviceFamily, type SimulatorLease } from "../utils/SimulatorPoolUtils.js";
 import { logger } from "../utils/Logger.js";
+import type { ToolContext, ToolImage } from "../utils/ToolRegistryUtils.js";
+import {
+    formatTestCase,
+    getDeviceLogsLinks,
+    getTestReportLinks,
+    testRunResultSchema,
+    uploadDeviceLogs,
+    uploadTestReport,
+    type TestCaseResult,
+    type TestFailure,
+    type TestRunResult,
+} from "../utils/TestRunUtils.js";
 
 const SCHEME = "iosApp";
-const SIMULATOR_NAME = "iPhone 17 Pro Max";
-const SIMULATOR_OS = "26.2";
-const DESTINATION = `platform=iOS Simulator,name=${SIMULATOR_NAME},OS=${SIMULATOR_OS}`;
+
+/**
+ * Processes whose simulator logs are collected: the app, and the runner of its UI tests
+ */
+const LOGGED_PROCESSES = [SCHEME, `${SCHEME}UITests-Runner`];
 
 const execAsync = promisify(exec);
 
@@ -29,27 +47,31 @@ function isExecError(error: unknown): error is ExecError {
 }
 
 /**
- * Parses simulator UDID from xcrun simctl list devices output
+ * Converts a test case read from the result bundle to the result returned by the tool
  */
-function parseSimulatorUDID(stdout: string, simulatorName: string): string | null {
-    const lines = stdout.split("\n");
-    for (const line of lines) {
-        // Look for lines like: "    iPhone 17 Pro Max (UDID) (Booted)" or "    iPhone 17 Pro Max (UDID) (Shutdown)"
-        const match = line.match(new RegExp(`\\s+${simulatorName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s+\\(([A-F0-9-]+)\\)`));
-        if (match) {
-            // Check if OS version matches (this is a simplified check - in practice, we might need to check the full device list structure)
-            // For now, we'll just get the first matching device name
-            return match[1];
-        }
-    }
-    return null;
+function toTestCaseResult(testCase: XcresultTestCase): TestCaseResult {
+    return {
+        class_name: testCase.className,
+        test_name: testCase.testName,
+        status: testCase.status,
+        duration_ms: testCase.durationMs,
+        failures: testCase.failures.length > 0 ? testCase.failures : undefined,
+        attachments: testCase.attachments.length > 0
+            ? testCase.attachments.map(({ name, filename, uniformTypeIdentifier }) => ({
+                name,
+                filename,
+                uniform_type_identifier: uniformTypeIdentifier,
+            }))
+            : undefined,
+    };
 }
 
 /**
- * Checks if simulator is booted
+ * Formats a failure of a test case as an indented line, e.g. "  iosAppUITests.swift:42: XCTAssertTrue failed"
  */
-function isSimulatorBooted(stdout: string, udid: string): boolean {
-    return stdout.includes(udid) && stdout.includes("(Booted)");
+function formatTestFailure(failure: TestFailure): string {
+    const location = failure.file ? `${basename(failure.file)}${failure.line !== undefined ? `:${failure.line}` : ""}: ` : "";
+    return `  ${location}${failure.message}`;
 }
 
 /**
@@ -65,9 +87,26 @@ export const remoteTestIosTool = {
         test_name: z
             .string()
             .describe("The test name inside iosAppUITests.swift (e.g., 'testScrollingDownGesture')"),
+        device_family: deviceFamilySchema
+            .optional()
+            .describe("Family of the simulator to test on (default: iphone)"),
+        os_version: z
+            .string()
+            .optional()
+            .describe("iOS version of the simulator, e.g. '26.2', or '26' for the newest 26.x (default: the newest installed)"),
     }),
-    handler: async (args: { project_id: string; test_name: string }) => {
-        const { project_id, test_name } = args;
+    outputSchema: testRunResultSchema,
+    requiresProjectLock: true,
+    projectRole: "editor" as const,
+    timeoutMs: 30 * 60 * 1000,
+    resources: ["cpu", "ios-simulator"],
+    supportsJobs: true,
+    handler: async (
+        args: { project_id: string; test_name: string; device_family?: DeviceFamily; os_version?: string },
+        context: ToolContext = {}
+    ) => {
+        const { project_id, test_name, device_family, os_version } = args;
+        const { progress, signal } = context;
 
         // Construct the full test path
         const test_path = `iosAppUITests/iosAppUITests/${test_name}`;
@@ -85,347 +124,348 @@ export const remoteTestIosTool = {
             };
         }
 
-        // Get simulator UDID
-        let simulatorUDID: string | null = null;
+        // Lease a simulator of the requested family and iOS version from the pool
+        await progress?.report("Looking up a simulator");
+        const simulatorPool = getIosSimulatorPool();
+        const holder = `${project_id}: ${test_name}`;
+        let lease: SimulatorLease;
         try {
-            const { stdout } = await execAsync("xcrun simctl list devices available");
-            simulatorUDID = parseSimulatorUDID(stdout, SIMULATOR_NAME);
-            if (!simulatorUDID) {
-                return {
-                    output: `Error: Simulator "${SIMULATOR_NAME}" with OS ${SIMULATOR_OS} not found. Please ensure the simulator is available.`,
-                    screenrecord: undefined,
-                    images: undefined,
-                    success: false,
-                };
-            }
+            lease = await simulatorPool.lease({ deviceFamily: device_family, osVersion: os_version, signal, holder, progress });
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             return {
-                output: `Error: Failed to list simulators: ${errorMessage}. Please ensure Xcode command line tools are installed.`,
+                output: `Error: ${errorMessage}`,
                 screenrecord: undefined,
                 images: undefined,
                 success: false,
             };
         }
+        const simulatorUDID = lease.udid;
 
         // Use device lock with simulator UDID
-        return await withDeviceLock(simulatorUDID, async () => {
-            // Check if simulator is already booted
-            let isBooted = false;
-            try {
-                const { stdout } = await execAsync("xcrun simctl list devices");
-                isBooted = isSimulatorBooted(stdout, simulatorUDID);
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                return {
-                    output: `Error: Failed to check simulator status: ${errorMessage}`,
-                    screenrecord: undefined,
-                    images: undefined,
-                    success: false,
-                };
-            }
-
-            // Boot simulator if not already booted
-            if (!isBooted) {
+        await progress?.report(`Waiting for simulator ${lease.name} (iOS ${lease.osVersion}, ${simulatorUDID})`);
+        try {
+            return await withDeviceLock(simulatorUDID, async () => {
+                // Boot simulator if not already booted
                 try {
-                    await execAsync(`xcrun simctl boot ${simulatorUDID}`);
-
-                    // Wait for simulator to be ready
-                    let deviceReady = false;
-                    const maxWaitTime = 120000; // 2 minutes
-                    const pollInterval = 2000; // 2 seconds
-                    const startTime = Date.now();
-
-                    while (!deviceReady && Date.now() - startTime < maxWaitTime) {
-                        await new Promise((resolve) => setTimeout(resolve, pollInterval));
-                        try {
-                            const { stdout } = await execAsync("xcrun simctl list devices");
-                            if (isSimulatorBooted(stdout, simulatorUDID)) {
-                                deviceReady = true;
-                                break;
-                            }
-                        } catch {
-                            // Continue polling
-                        }
-                    }
-
-                    if (!deviceReady) {
-                        return {
-                            output: `Error: Simulator failed to boot within ${maxWaitTime / 1000} seconds. Please check simulator logs.`,
-                            screenrecord: undefined,
-                            images: undefined,
-                            success: false,
-                        };
-                    }
+                    await simulatorPool.ensureBooted(simulatorUDID, { signal, progress });
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     return {
-                        output: `Error: Failed to boot simulator: ${errorMessage}`,
+                        output: `Error: ${errorMessage}`,
                         screenrecord: undefined,
                         images: undefined,
                         success: false,
                     };
                 }
-            }
-
-            // Prepare result bundle path
-            const testResultUuid = randomUUID();
-            const resultBundleName = `${testResultUuid}.xcresult`;
-            const resultBundlePath = join(homedir(), "PistachioMCPProjects", resultBundleName);
-            const attachmentsOutputDir = join(homedir(), "PistachioMCPProjects", `results_${testResultUuid}`);
-
-            // Run xcodebuild test
-            let output = "";
-            let testSuccess = false;
-            try {
-                const { stdout, stderr } = await execAsync(
-                    `xcodebuild test -scheme ${SCHEME} -destination '${DESTINATION}' -resultBundlePath "${resultBundlePath}" -only-testing:${test_path}`,
-                    {
-                        cwd: projectPath,
-                    }
-                );
 
-                // Combine stdout and stderr for complete output
-                output = stdout + (stderr ? `\n${stderr}` : "");
-
-                // Check for test success/failure indicators
-                // xcodebuild returns exit code 0 on success, but we also check output for explicit test results
-
-                // Check for all failure indicators
-                const hasFailureIndicators =
-                    // Explicit test failure messages
-                    output.includes("Test Suite 'All tests' failed") ||
-                    output.includes("Test Failed") ||
-                    // Other test suite failure patterns (variations we might have missed)
-                    /Test Suite '[^']+' failed/.test(output) ||
-                    // Test failure patterns (case-insensitive, more specific than just "FAILED")
-                    /\bTest\s+.*\s+failed\b/i.test(output) ||
-                    // Build failures that would prevent tests from running
-                    output.includes("BUILD FAILED") ||
-                    output.includes("xcodebuild: error:");
-
-                // Check for explicit success indicators
-                const hasExplicitSuccess =
-                    output.includes("Test Suite 'All tests' passed") ||
-                    output.includes("Test Succeeded");
-
-                // If execAsync succeeded (no exception), exit code was 0, which typically means success
-                // But we prefer explicit indicators in the output
-                if (hasFailureIndicators) {
-                    testSuccess = false;
-                } else if (hasExplicitSuccess) {
-                    testSuccess = true;
-                } else {
-                    // No explicit indicators found, but command succeeded (exit code 0)
-                    // Default to success since exit code indicates success
-                    testSuccess = true;
-                }
-            } catch (error) {
-                // Even if the command fails, we still want to capture the output
-                const errorMessage = error instanceof Error ? error.message : String(error);
-
-                // Try to extract stdout/stderr from the error if available
-                if (isExecError(error)) {
-                    output = (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
-                } else {
-                    output = errorMessage;
-                }
+                // Prepare result bundle path
+                const testResultUuid = randomUUID();
+                const resultBundleName = `${testResultUuid}.xcresult`;
+                const resultBundlePath = join(homedir(), "PistachioMCPProjects", resultBundleName);
+                const attachmentsOutputDir = join(homedir(), "PistachioMCPProjects", `results_${testResultUuid}`);
+
+                // Run xcodebuild test. Its exit code and output do not tell reliably whether the test ran and
+                // passed, so the result is read from the result bundle below
+                await progress?.report(`Building and running ${test_name}`);
+                const startTime = new Date();
+                let output = "";
+                try {
+                    const { stdout, stderr } = await execAsync(
+                        `xcodebuild test -scheme ${SCHEME} -destination 'platform=iOS Simulator,id=${simulatorUDID}' -resultBundlePath "${resultBundlePath}" -only-testing:${test_path}`,
+                        {
+                            cwd: projectPath,
+                            signal,
+                        }
+                    );
 
-                // If command failed, test likely failed
-                testSuccess = false;
-            }
+                    // Combine stdout and stderr for complete output
+                    output = stdout + (stderr ? `\n${stderr}` : "");
+                } catch (error) {
+                    // Even if the command fails, we still want to capture the output
+                    const errorMessage = error instanceof Error ? error.message : String(error);
 
-            // Extract attachments using xcparse
-            let screenRecordGcsUrl: string | null = null;
-            const imageSequence: string[] = [];
+                    // Try to extract stdout/stderr from the error if available
+                    if (isExecError(error)) {
+                        output = (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
+                    } else {
+                        output = errorMessage;
+                    }
+                }
+                const durationMs = Date.now() - startTime.getTime();
 
-            if (existsSync(resultBundlePath)) {
-                try {
-                    // Create output directory for attachments
-                    mkdirSync(attachmentsOutputDir, { recursive: true });
+                let run: XcresultRun = { testCases: [], error: "xcodebuild did not write a result bundle" };
+                if (existsSync(resultBundlePath)) {
+                    await progress?.report("Reading test results");
+                    try {
+                        run = await readXcresult(resultBundlePath, { signal });
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        logger.warn({
+                            project_id,
+                            result_bundle_path: resultBundlePath,
+                            error_message: errorMessage,
+                        }, "Could not read test results from result bundle");
+                        run = { testCases: [], error: `Could not read test results from result bundle: ${errorMessage}` };
+                    }
+                }
 
-                    // Run xcparse to extract attachments
-                    await execAsync(`xcparse attachments "${resultBundlePath}" "${attachmentsOutputDir}"`);
+                // Collect the simulator logs of the run, with the crash reports of the app
+                await progress?.report("Collecting device logs");
+                let deviceLogs: DeviceLogs | undefined;
+                try {
+                    deviceLogs = await collectSimulatorLogs(simulatorUDID, LOGGED_PROCESSES, startTime, { signal });
                 } catch (error) {
-                    // xcparse might not be installed or attachments might not exist
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     logger.warn({
                         project_id,
                         simulator_udid: simulatorUDID,
-                        result_bundle_path: resultBundlePath,
                         error_message: errorMessage,
-                    }, "Could not extract attachments using xcparse");
+                    }, "Could not collect device logs");
                 }
 
-                // Process extracted attachments
-                if (existsSync(attachmentsOutputDir)) {
+                // Extract attachments using xcparse
+                let screenRecordGcsUrl: string | null = null;
+                const imageSequence: ToolImage[] = [];
+
+                if (existsSync(resultBundlePath)) {
+                    await progress?.report("Collecting test attachments");
                     try {
-                        const attachmentFiles = readdirSync(attachmentsOutputDir, { recursive: true });
-
-                        // Convert to strings and filter out non-string entries
-                        const attachmentFileStrings = attachmentFiles
-                            .map((file) => (typeof file === "string" ? file : String(file)))
-                            .filter((file): file is string => typeof file === "string");
-
-                        // Find video files (screen recordings)
-                        const videoFiles = attachmentFileStrings.filter((file) =>
-                            file.endsWith(".mp4") || file.endsWith(".mov") || file.endsWith(".m4v")
-                        );
-
-                        // Find the largest video file
-                        let largestVideoFile: string | null = null;
-                        let largestVideoSize = 0;
-                        for (const videoFile of videoFiles) {
-                            const videoPath = join(attachmentsOutputDir, videoFile);
-                            if (existsSync(videoPath)) {
-                                try {
-                                    const stats = statSync(videoPath);
-                                    if (stats.size > largestVideoSize) {
-                                        largestVideoSize = stats.size;
-                                        largestVideoFile = videoFile;
+                        // Create output directory for attachments
+                        mkdirSync(attachmentsOutputDir, { recursive: true });
+
+                        // Run xcparse to extract attachments
+                        await execAsync(`xcparse attachments "${resultBundlePath}" "${attachmentsOutputDir}"`, { signal });
+                    } catch (error) {
+                        // xcparse might not be installed or attachments might not exist
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        logger.warn({
+                            project_id,
+                            simulator_udid: simulatorUDID,
+                            result_bundle_path: resultBundlePath,
+                            error_message: errorMessage,
+                        }, "Could not extract attachments using xcparse");
+                    }
+
+                    // Process extracted attachments
+                    if (existsSync(attachmentsOutputDir)) {
+                        try {
+                            const attachmentFiles = readdirSync(attachmentsOutputDir, { recursive: true });
+
+                            // Convert to strings and filter out non-string entries
+                            const attachmentFileStrings = attachmentFiles
+                                .map((file) => (typeof file === "string" ? file : String(file)))
+                                .filter((file): file is string => typeof file === "string");
+
+                            // Find video files (screen recordings)
+                            const videoFiles = attachmentFileStrings.filter((file) =>
+                                file.endsWith(".mp4") || file.endsWith(".mov") || file.endsWith(".m4v")
+                            );
+
+                            // Find the largest video file
+                            let largestVideoFile: string | null = null;
+                            let largestVideoSize = 0;
+                            for (const videoFile of videoFiles) {
+                                const videoPath = join(attachmentsOutputDir, videoFile);
+                                if (existsSync(videoPath)) {
+                                    try {
+                                        const stats = statSync(videoPath);
+                                        if (stats.size > largestVideoSize) {
+                                            largestVideoSize = stats.size;
+                                            largestVideoFile = videoFile;
+                                        }
+                                    } catch (error) {
+                                        // Skip if we can't get stats
+                                        const errorMessage = error instanceof Error ? error.message : String(error);
+                                        logger.warn({
+                                            project_id,
+                                            video_file: videoFile,
+                                            error_message: errorMessage,
+                                        }, "Could not get video file stats");
                                     }
-                                } catch (error) {
-                                    // Skip if we can't get stats
-                                    const errorMessage = error instanceof Error ? error.message : String(error);
-                                    logger.warn({
-                                        project_id,
-                                        video_file: videoFile,
-                                        error_message: errorMessage,
-                                    }, "Could not get video file stats");
                                 }
                             }
-                        }
 
-                        // Process only the largest video (upload to GCS and extract frames)
-                        if (largestVideoFile) {
-                            const videoFile = largestVideoFile;
-                            const videoPath = join(attachmentsOutputDir, videoFile);
-                            if (existsSync(videoPath)) {
-                                try {
-                                    // Read the video file
-                                    const fileBuffer = readFileSync(videoPath);
-
-                                    // Upload to GCS
-                                    const storage = new Storage();
-                                    const bucketName =
-                                        process.env.GCS_BUCKET_WEEKLY_EXPIRING ||
-                                        "dev-pistachio-assets-weekly-expiring";
-
-                                    // Strip gs:// prefix if present
-                                    let finalBucketName = bucketName;
-                                    if (finalBucketName.startsWith("gs://")) {
-                                        finalBucketName = finalBucketName.substring(5);
-                                    }
-                                    const bucket = storage.bucket(finalBucketName);
-
-                                    // Generate filename
-                                    const filename = `${randomUUID()}.mp4`;
-                                    const file = bucket.file(`${project_id}/${filename}`);
-
-                                    // Upload the buffer to GCS
-                                    await file.save(fileBuffer, {
-                                        metadata: {
-                                            contentType: "video/mp4",
-                                        },
-                                    });
-
-                                    // Get the public URL (use largest video found)
-                                    screenRecordGcsUrl = `https://storage.googleapis.com/${finalBucketName}/${project_id}/${filename}`;
-
-                                } catch (error) {
-                                    // Log but don't fail if upload fails
-                                    const errorMessage = error instanceof Error ? error.message : String(error);
-                                    logger.warn({
-                                        project_id,
-                                        video_file: videoFile,
-                                        error_message: errorMessage,
-                                    }, "Could not upload video to GCS");
-                                }
+                            // Process only the largest video (upload to GCS and extract frames)
+                            if (largestVideoFile) {
+                                const videoFile = largestVideoFile;
+                                const videoPath = join(attachmentsOutputDir, videoFile);
+                                if (existsSync(videoPath)) {
+                                    try {
+                                        // Read the video file
+                                        const fileBuffer = readFileSync(videoPath);
+
+                                        // Upload to GCS
+                                        const storage = new Storage();
+                                        const bucketName =
+                                            process.env.GCS_BUCKET_WEEKLY_EXPIRING ||
+                                            "dev-pistachio-assets-weekly-expiring";
+
+                                        // Strip gs:// prefix if present
+                                        let finalBucketName = bucketName;
+                                        if (finalBucketName.startsWith("gs://")) {
+                                            finalBucketName = finalBucketName.substring(5);
+                                        }
+                                        const bucket = storage.bucket(finalBucketName);
+
+                                        // Generate filename
+                                        const filename = `${randomUUID()}.mp4`;
+                                        const file = bucket.file(`${project_id}/${filename}`);
+
+                                        // Upload the buffer to GCS
+                                        await file.save(fileBuffer, {
+                                            metadata: {
+                                                contentType: "video/mp4",
+                                            },
+                                        });
+
+                                        // Get the public URL (use largest video found)
+                                        screenRecordGcsUrl = `https://storage.googleapis.com/${finalBucketName}/${project_id}/${filename}`;
 
-                                // Extract frames at 1fps and convert to base64
-                                try {
-                                    const framesDir = join(projectsPath, `frames_${randomUUID()}`);
-                                    mkdirSync(framesDir, { recursive: true });
-
-                                    // Extract frames using ffmpeg
-                                    await execAsync(
-                                        `ffmpeg -i "${videoPath}" -vf "fps=1,scale=320:-1" -q:v 6 "${join(framesDir, "frame_%04d.jpg")}"`
-                                    );
-
-                                    // Read all frame files and convert to base64
-                                    const frameFiles = readdirSync(framesDir)
-                                        .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-                                        .sort();
-
-                                    for (const frameFile of frameFiles) {
-                                        const framePath = join(framesDir, frameFile);
-                                        const frameBuffer = readFileSync(framePath);
-                                        const base64 = frameBuffer.toString("base64");
-                                        imageSequence.push(base64);
+                                    } catch (error) {
+                                        // Log but don't fail if upload fails
+                                        const errorMessage = error instanceof Error ? error.message : String(error);
+                                        logger.warn({
+                                            project_id,
+                                            video_file: videoFile,
+                                            error_message: errorMessage,
+                                        }, "Could not upload video to GCS");
                                     }
 
-                                    // Clean up temporary directory
+                                    // Extract frames at 1fps and convert to base64
+                                    await progress?.report("Extracting frames from screen recording");
+                                    const framesDir = join(projectsPath, `frames_${randomUUID()}`);
                                     try {
-                                        rmSync(framesDir, { recursive: true, force: true });
+                                        mkdirSync(framesDir, { recursive: true });
+
+                                        // Extract frames using ffmpeg
+                                        await execAsync(
+                                            `ffmpeg -i "${videoPath}" -vf "fps=1,scale=320:-1" -q:v 6 "${join(framesDir, "frame_%04d.jpg")}"`,
+                                            { signal }
+                                        );
+
+                                        // Read all frame files and convert to base64
+                                        const frameFiles = readdirSync(framesDir)
+                                            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
+                                            .sort();
+
+                                        for (const frameFile of frameFiles) {
+                                            const framePath = join(framesDir, frameFile);
+                                            const frameBuffer = readFileSync(framePath);
+                                            const base64 = frameBuffer.toString("base64");
+                                            imageSequence.push({ data: base64, mimeType: "image/jpeg" });
+                                        }
                                     } catch (error) {
+                                        // Log but don't fail if frame extraction fails
                                         const errorMessage = error instanceof Error ? error.message : String(error);
                                         logger.warn({
                                             project_id,
-                                            frames_dir: framesDir,
                                             error_message: errorMessage,
-                                        }, "Could not delete frames directory");
+                                        }, "Could not extract frames from video");
+                                    } finally {
+                                        // Clean up temporary directory, also when extraction failed or was cancelled
+                                        try {
+                                            rmSync(framesDir, { recursive: true, force: true });
+                                        } catch (error) {
+                                            const errorMessage = error instanceof Error ? error.message : String(error);
+                                            logger.warn({
+                                                project_id,
+                                                frames_dir: framesDir,
+                                                error_message: errorMessage,
+                                            }, "Could not delete frames directory");
+                                        }
                                     }
-                                } catch (error) {
-                                    // Log but don't fail if frame extraction fails
-                                    const errorMessage = error instanceof Error ? error.message : String(error);
-                                    logger.warn({
-                                        project_id,
-                                        error_message: errorMessage,
-                                    }, "Could not extract frames from video");
                                 }
                             }
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            logger.warn({
+                                project_id,
+                                attachments_output_dir: attachmentsOutputDir,
+                                error_message: errorMessage,
+                            }, "Could not process attachments");
+                        }
+
+                        // Clean up attachments directory
+                        try {
+                            rmSync(attachmentsOutputDir, { recursive: true, force: true });
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            logger.warn({
+                                project_id,
+                                attachments_output_dir: attachmentsOutputDir,
+                                error_message: errorMessage,
+                            }, "Could not delete attachments directory");
                         }
-                    } catch (error) {
-                        const errorMessage = error instanceof Error ? error.message : String(error);
-                        logger.warn({
-                            project_id,
-                            attachments_output_dir: attachmentsOutputDir,
-                            error_message: errorMessage,
-                        }, "Could not process attachments");
                     }
 
-                    // Clean up attachments directory
+                    // Clean up result bundle
                     try {
-                        rmSync(attachmentsOutputDir, { recursive: true, force: true });
+                        rmSync(resultBundlePath, { recursive: true, force: true });
                     } catch (error) {
-                        const errorMessage = error instanceof Error ? error.message : String(error);
                         logger.warn({
                             project_id,
-                            attachments_output_dir: attachmentsOutputDir,
-                            error_message: errorMessage,
-                        }, "Could not delete attachments directory");
+                            result_bundle_path: resultBundlePath,
+                            error_message: error instanceof Error ? error.message : String(error),
+                        }, "Could not delete result bundle");
                     }
                 }
 
-                // Clean up result bundle
-                try {
-                    rmSync(resultBundlePath, { recursive: true, force: true });
-                } catch (error) {
-                    logger.warn({
-                        project_id,
-                        result_bundle_path: resultBundlePath,
-                        error_message: error instanceof Error ? error.message : String(error),
-                    }, "Could not delete result bundle");
+                // The test result is incomplete if the call was cancelled
+                if (signal?.aborted) {
+                    return {
+                        output: "Error: Test run was cancelled",
+                        screenrecord: undefined,
+                        images: undefined,
+                        success: false,
+                    };
                 }
-            }
 
-            // Return structured result with extracted data
-            return {
-                output: testSuccess ? "" : output.trim(),
-                success: testSuccess,
-                screenrecord: screenRecordGcsUrl || undefined,
-                images: imageSequence.length > 0 ? imageSequence : undefined,
-            };
-        });
+                // Upload the report of the run next to the screen recording
+                await progress?.report("Uploading test report");
+                const reportUrls = await uploadTestReport(
+                    project_id,
+                    createXcresultReport(run, { name: test_name, startTime, durationMs })
+                );
+                const deviceLogsUrl = deviceLogs && !isDeviceLogsEmpty(deviceLogs)
+                    ? await uploadDeviceLogs(project_id, deviceLogs)
+                    : undefined;
+
+                // Return structured result with extracted data; failed runs end with the crash reports of the app
+                const testCases = run.testCases.map(toTestCaseResult);
+                const testSuccess = isXcresultSuccessful(run);
+                const summary = [
+                    ...testCases.flatMap((testCase) => [formatTestCase(testCase), ...(testCase.failures ?? []).map(formatTestFailure)]),
+                    ...(run.error ? [`Run failed: ${run.error}`] : []),
+                ].join("\n");
+                const crashDetails = deviceLogs?.crashes.map((crash) => `Crash:\n${crash}`) ?? [];
+                const testRunResult: TestRunResult = {
+                    success: testSuccess,
+                    output: testSuccess ? "" : [summary, output.trim(), ...crashDetails].filter(Boolean).join("\n\n"),
+                    screenrecord: screenRecordGcsUrl || undefined,
+                    frame_count: imageSequence.length,
+                    test_cases: testCases.length > 0 ? testCases : undefined,
+                    junit_report: reportUrls.junitUrl,
+                    json_report: reportUrls.jsonUrl,
+                    device_logs: deviceLogsUrl,
+                    device_log_summary: deviceLogs ? summarizeDeviceLogs(deviceLogs) : undefined,
+                };
+                const links = [
+                    ...(screenRecordGcsUrl ? [{ uri: screenRecordGcsUrl, name: "screenrecord.mp4", mimeType: "video/mp4" }] : []),
+                    ...getTestReportLinks(reportUrls),
+                    ...getDeviceLogsLinks(deviceLogsUrl),
+                ];
+                return {
+                    output: testRunResult.output,
+                    success: testRunResult.success,
+                    structuredContent: testRunResult,
+                    screenrecord: testRunResult.screenrecord,
+                    images: imageSequence.length > 0 ? imageSequence : undefined,
+                    links: links.length > 0 ? links : undefined,
+                };
+            }, { signal, holder });
+        } finally {
+            lease.release();
+        }
     },
 };
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { getMCPProject, removeProjectMember } from "../utils/ServerStorageUtils.js";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
+
+/**
+ * Tool for removing a member from a project; only the project owner may call it
+ */
+export const removeProjectMemberTool = {
+    name: "remove_project_member",
+    description: "Remove a member from a project. Requires the owner role on the project",
+    inputSchema: z.object({
+        project_id: z
+            .string()
+            .describe("The ID of the project"),
+        user_id: z
+            .string()
+            .min(1)
+            .describe("The ID of the user to remove; the owner cannot be removed"),
+    }),
+    outputSchema: z.object({
+        project_id: z.string().describe("The ID of the project"),
+        members: z
+            .record(z.string(), z.enum(["owner", "editor", "viewer"]))
+            .describe("The project's members by user ID after the change"),
+    }),
+    projectRole: "owner" as const,
+    resources: ["network"],
+    handler: async (
+        args: { project_id: string; user_id: string },
+        context: ToolContext = {}
+    ) => {
+        const { project_id, user_id } = args;
+
+        if (!context.userId) {
+            return {
+                output: "Managing project members requires an authenticated caller",
+                success: false,
+            };
+        }
+
+        try {
+            const project = await getMCPProject(project_id);
+            if (!project?.ownerId) {
+                // Projects without an owner are open to everyone, so members would have no effect
+                return {
+                    output: `Project ${project_id} has no owner, so its members cannot be managed`,
+                    success: false,
+                };
+            }
+
+            await removeProjectMember(project_id, user_id);
+
+            const members = (await getMCPProject(project_id))?.members ?? {};
+            return {
+                output: `Removed ${user_id} from project ${project_id}`,
+                success: true,
+                structuredContent: { project_id, members },
+            };
+        } catch (error) {
+            return {
+                output:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to remove project member",
+                success: false,
+            };
+        }
+    },
+};
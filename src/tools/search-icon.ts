@@ -137,6 +137,19 @@ export const searchIconTool = {
             .string()
             .describe("Search query term for icon names"),
     }),
+    outputSchema: z.object({
+        icons: z
+            .array(
+                z.object({
+                    collection: z.string().describe("Collection prefix of the icon"),
+                    name: z.string().describe("Name of the icon within the collection"),
+                    svg: z.string().describe("SVG markup of the icon"),
+                })
+            )
+            .describe("Icons matching the query"),
+    }),
+    priority: "interactive" as const,
+    resources: ["network"],
     handler: async (args: {
         collection:
         | "mdi"
@@ -159,7 +172,14 @@ export const searchIconTool = {
 
         try {
             const icons = await searchIcons(collection, prefixQuery);
-            return { output: JSON.stringify(icons), success: true };
+            if ("error" in icons) {
+                return { output: icons.error, success: false };
+            }
+            return {
+                output: JSON.stringify(icons),
+                success: true,
+                structuredContent: { icons },
+            };
         } catch (error) {
             return {
                 output:
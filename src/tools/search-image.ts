@@ -20,6 +20,20 @@ export const searchImageTool = {
             .enum(["regular", "small", "thumb"])
             .describe("size of the image to return"),
     }),
+    outputSchema: z.object({
+        images: z
+            .array(
+                z.object({
+                    url: z.string().describe("URL of the image"),
+                    description: z.string().describe("Description of the image"),
+                    width: z.number().describe("Width of the image in pixels"),
+                    height: z.number().describe("Height of the image in pixels"),
+                })
+            )
+            .describe("Images matching the keyword"),
+    }),
+    priority: "interactive" as const,
+    resources: ["network"],
     handler: async (args: {
         keyword: string;
         limit: number;
@@ -31,7 +45,11 @@ export const searchImageTool = {
         try {
             // Validation is handled by getImages function
             const images = await getImages(keyword, limit, orientation, imageSize);
-            return { output: JSON.stringify(images), success: true };
+            return {
+                output: JSON.stringify(images),
+                success: true,
+                structuredContent: { images },
+            };
         } catch (error) {
             return {
                 output:
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { getMCPProject, setProjectMember } from "../utils/ServerStorageUtils.js";
+import type { ToolContext } from "../utils/ToolRegistryUtils.js";
+
+/**
+ * Tool for adding a member to a project or changing their role; only the project owner may call it
+ */
+export const setProjectMemberTool = {
+    name: "set_project_member",
+    description: "Add a member to a project or change their role. Requires the owner role on the project",
+    inputSchema: z.object({
+        project_id: z
+            .string()
+            .describe("The ID of the project"),
+        user_id: z
+            .string()
+            .min(1)
+            .describe("The ID of the user to add or update"),
+        role: z
+            .enum(["editor", "viewer"])
+            .describe("The role to grant; ownership cannot be granted"),
+    }),
+    outputSchema: z.object({
+        project_id: z.string().describe("The ID of the project"),
+        members: z
+            .record(z.string(), z.enum(["owner", "editor", "viewer"]))
+            .describe("The project's members by user ID after the change"),
+    }),
+    projectRole: "owner" as const,
+    resources: ["network"],
+    handler: async (
+        args: { project_id: string; user_id: string; role: "editor" | "viewer" },
+        context: ToolContext = {}
+    ) => {
+        const { project_id, user_id, role } = args;
+
+        if (!context.userId) {
+            return {
+                output: "Managing project members requires an authenticated caller",
+                success: false,
+            };
+        }
+
+        try {
+            const project = await getMCPProject(project_id);
+            if (!project?.ownerId) {
+                // Projects without an owner are open to everyone, so members would have no effect
+                return {
+                    output: `Project ${project_id} has no owner, so its members cannot be managed`,
+                    success: false,
+                };
+            }
+
+            await setProjectMember(project_id, user_id, role);
+
+            const members = (await getMCPProject(project_id))?.members ?? {};
+            return {
+                output: `Granted ${role} role on project ${project_id} to ${user_id}`,
+                success: true,
+                structuredContent: { project_id, members },
+            };
+        } catch (error) {
+            return {
+                output:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to set project member",
+                success: false,
+            };
+        }
+    },
+};
@@ -0,0 +1,165 @@
+import { readFileSync } from "fs";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+import { logger } from "./Logger.js";
+
+/**
+ * Realm reported in `WWW-Authenticate` challenges
+ */
+const AUTH_REALM = "pistachio-mcp";
+
+/**
+ * Schema of the token file referenced by AUTH_TOKENS_FILE
+ */
+const tokenFileSchema = z.object({
+    tokens: z.array(
+        z.object({
+            token: z.string().min(1),
+            user_id: z.string().min(1),
+        })
+    ),
+});
+
+/**
+ * HTTP request carrying the identity set by authenticateRequest.
+ * The Streamable HTTP transport passes `auth` on to request handlers as `extra.authInfo`.
+ */
+export type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * Maps bearer tokens to user IDs.
+ */
+export class TokenStore {
+    private readonly userIdsByToken = new Map<string, string>();
+
+    /**
+     * Creates a token store from token/user pairs. Throws on duplicate tokens.
+     */
+    constructor(entries: { token: string; userId: string }[]) {
+        for (const { token, userId } of entries) {
+            if (this.userIdsByToken.has(token)) {
+                throw new Error(`Duplicate token for user ${userId}`);
+            }
+            this.userIdsByToken.set(token, userId);
+        }
+    }
+
+    /**
+     * Loads a token store from a JSON file of the form
+     * `{ "tokens": [{ "token": "...", "user_id": "..." }] }`.
+     */
+    static fromFile(path: string): TokenStore {
+        let content: unknown;
+        try {
+            content = JSON.parse(readFileSync(path, "utf-8"));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to read token file ${path}: ${errorMessage}`);
+        }
+
+        const parsed = tokenFileSchema.safeParse(content);
+        if (!parsed.success) {
+            throw new Error(`Invalid token file ${path}: ${parsed.error.message}`);
+        }
+
+        return new TokenStore(parsed.data.tokens.map((entry) => ({
+            token: entry.token,
+            userId: entry.user_id,
+        })));
+    }
+
+    /**
+     * Number of known tokens
+     */
+    get size(): number {
+        return this.userIdsByToken.size;
+    }
+
+    /**
+     * Returns the auth info for a token, or undefined if the token is unknown.
+     * The user ID is carried in `clientId`.
+     */
+    verify(token: string): AuthInfo | undefined {
+        const userId = this.userIdsByToken.get(token);
+        if (!userId) {
+            return undefined;
+        }
+        return {
+            token,
+            clientId: userId,
+            scopes: [],
+        };
+    }
+}
+
+/**
+ * Loads the token store configured by the AUTH_TOKENS_FILE environment variable.
+ * Returns undefined, disabling authentication, when the variable is unset.
+ */
+export function loadTokenStore(path: string | undefined = process.env.AUTH_TOKENS_FILE): TokenStore | undefined {
+    if (!path) {
+        logger.warn("AUTH_TOKENS_FILE is not set: authentication is disabled and all requests are anonymous");
+        return undefined;
+    }
+
+    const tokenStore = TokenStore.fromFile(path);
+    logger.info({ token_count: tokenStore.size }, "Loaded authentication tokens");
+    return tokenStore;
+}
+
+/**
+ * Returns the ID of the authenticated user, if any.
+ */
+export function getUserId(authInfo: AuthInfo | undefined): string | undefined {
+    return authInfo?.clientId;
+}
+
+/**
+ * Authenticates a request with its `Authorization: Bearer <token>` header.
+ * On success, sets `req.auth` and returns the auth info. Otherwise writes a 401
+ * response with a `WWW-Authenticate` challenge and returns undefined.
+ */
+export function authenticateRequest(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+    tokenStore: TokenStore
+): AuthInfo | undefined {
+    const header = req.headers.authorization;
+    const match = header ? /^Bearer\s+(\S+)\s*$/i.exec(header) : null;
+
+    if (!match) {
+        // No usable credentials: challenge without an error code (RFC 6750, section 3.1)
+        writeUnauthorized(res, `Bearer realm="${AUTH_REALM}"`, "Missing bearer token");
+        return undefined;
+    }
+
+    const authInfo = tokenStore.verify(match[1]);
+    if (!authInfo) {
+        logger.warn({
+            remote_address: req.socket.remoteAddress,
+            status: "invalid_token",
+        }, "Rejected request with invalid bearer token");
+
+        writeUnauthorized(
+            res,
+            `Bearer realm="${AUTH_REALM}", error="invalid_token", error_description="The access token is invalid"`,
+            "Invalid bearer token"
+        );
+        return undefined;
+    }
+
+    req.auth = authInfo;
+    return authInfo;
+}
+
+/**
+ * Writes a 401 response with the given `WWW-Authenticate` challenge.
+ */
+function writeUnauthorized(res: ServerResponse, challenge: string, message: string): void {
+    res.writeHead(401, {
+        "Content-Type": "application/json",
+        "WWW-Authenticate": challenge,
+    });
+    res.end(JSON.stringify({ error: message }));
+}
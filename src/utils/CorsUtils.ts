@@ -0,0 +1,42 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+/**
+ * Origins allowed to call the server from a browser. "*" allows any origin;
+ * an empty list allows same-origin requests only.
+ */
+export type AllowedOrigins = "*" | string[];
+
+/**
+ * Parses the comma-separated CORS_ALLOWED_ORIGINS environment variable.
+ * Defaults to no origins, so browsers only allow same-origin requests, when unset.
+ */
+export function getAllowedOrigins(value: string | undefined = process.env.CORS_ALLOWED_ORIGINS): AllowedOrigins {
+    if (!value) {
+        return [];
+    }
+    if (value.trim() === "*") {
+        return "*";
+    }
+    return value
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter((origin) => origin.length > 0);
+}
+
+/**
+ * Sets the CORS headers for a response.
+ * With an origin list, the request origin is echoed back only if it is listed.
+ */
+export function applyCorsHeaders(req: IncomingMessage, res: ServerResponse, allowedOrigins: AllowedOrigins): void {
+    if (allowedOrigins === "*") {
+        res.setHeader("Access-Control-Allow-Origin", "*");
+    } else {
+        res.setHeader("Vary", "Origin");
+        const origin = req.headers.origin;
+        if (origin && allowedOrigins.includes(origin)) {
+            res.setHeader("Access-Control-Allow-Origin", origin);
+        }
+    }
+    // Let browser clients read the session ID assigned on initialize and auth challenges
+    res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id, WWW-Authenticate");
+}
@@ -1,31 +1,183 @@
+import { acquireDeviceFileLock, DeviceLockTimeoutError } from "../../skills/shared/device-lock.js";
+
+export { DeviceLockTimeoutError };
+
+/**
+ * How often to check whether a skill script or another server released a device
+ */
+const FILE_LOCK_POLL_INTERVAL_MS = 500;
+
+/**
+ * Options for acquiring a device lock
+ */
+export interface DeviceLockOptions {
+    /**
+     * Aborting the signal while waiting for the lock rejects with the signal's reason without running the action.
+     * The lock is always released once the action settles.
+     */
+    signal?: AbortSignal;
+    /**
+     * Maximum time to wait for the lock before rejecting with a DeviceLockTimeoutError; no limit when unset
+     */
+    timeoutMs?: number;
+    /**
+     * Description of who holds the lock, for diagnostics (e.g. "project-1: testLogin")
+     */
+    holder?: string;
+}
+
+/**
+ * Snapshot of a held device lock
+ */
+export interface DeviceLockInfo {
+    serial: string;
+    holder?: string;
+    /** When the current holder acquired the lock (epoch milliseconds) */
+    heldSince: number;
+    /** Number of callers waiting for the lock */
+    waiters: number;
+}
+
+/**
+ * Caller waiting for a device lock
+ */
+interface Waiter {
+    holder?: string;
+    grant: () => void;
+}
+
+/**
+ * State of a held device lock. Waiters are granted the lock in the order they asked for it.
+ */
+interface DeviceLock {
+    holder?: string;
+    heldSince: number;
+    waiters: Waiter[];
+}
+
 /**
- * Map to track lock status for each device serial.
- * true means the device is currently locked.
+ * Held locks by device serial; a serial without an entry is free.
  */
-const locks: Map<string, boolean> = new Map();
+const locks: Map<string, DeviceLock> = new Map();
+
+/**
+ * Takes the lock on a device, waiting behind earlier callers if it is held.
+ */
+function acquireDeviceLock(serial: string, options: DeviceLockOptions): Promise<void> {
+    const { signal, timeoutMs, holder } = options;
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason as Error);
+    }
+
+    const lock = locks.get(serial);
+    if (!lock) {
+        locks.set(serial, { holder, heldSince: Date.now(), waiters: [] });
+        return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+        let timer: NodeJS.Timeout | undefined;
+        const stopListening = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const waiter: Waiter = {
+            holder,
+            grant: () => {
+                stopListening();
+                resolve();
+            },
+        };
+        // Leaves the line unless the lock was already granted
+        const stopWaiting = (error: Error) => {
+            const index = lock.waiters.indexOf(waiter);
+            if (index !== -1) {
+                lock.waiters.splice(index, 1);
+                stopListening();
+                reject(error);
+            }
+        };
+        const onAbort = () => stopWaiting(signal?.reason as Error);
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (timeoutMs !== undefined) {
+            timer = setTimeout(() => stopWaiting(new DeviceLockTimeoutError(serial, timeoutMs)), timeoutMs);
+        }
+        lock.waiters.push(waiter);
+    });
+}
+
+/**
+ * Hands the lock on a device to the next waiter, or frees it if nobody is waiting.
+ */
+function releaseDeviceLock(serial: string): void {
+    const lock = locks.get(serial);
+    if (!lock) {
+        return;
+    }
+
+    const next = lock.waiters.shift();
+    if (!next) {
+        locks.delete(serial);
+        return;
+    }
+    lock.holder = next.holder;
+    lock.heldSince = Date.now();
+    next.grant();
+}
 
 /**
  * Executes an action with a lock on the specified device serial.
- * Only one action can be executed at a time for a given serial.
- * This implementation uses polling to wait for the lock to become available.
- * 
+ * Only one action can be executed at a time for a given serial; waiting callers get the lock in FIFO order.
+ * The first caller in line also takes the host-wide lock of the device, so the action never overlaps
+ * with a skill script or another server process testing on it.
+ *
  * @param serial The device serial (e.g., "emulator-5554")
  * @param action The async action to perform
+ * @param options Optional abort signal, wait timeout and holder description
  * @returns The result of the action
  */
-export async function withDeviceLock<R>(serial: string, action: () => Promise<R>): Promise<R> {
-    // Poll until the lock is free
-    while (locks.get(serial)) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-    }
-
-    // Acquire the lock
-    locks.set(serial, true);
+export async function withDeviceLock<R>(
+    serial: string,
+    action: () => Promise<R>,
+    options: DeviceLockOptions = {}
+): Promise<R> {
+    const startTime = Date.now();
+    await acquireDeviceLock(serial, options);
 
     try {
-        return await action();
+        const fileLock = await acquireDeviceFileLock(serial, {
+            signal: options.signal,
+            timeoutMs: options.timeoutMs !== undefined
+                ? Math.max(0, options.timeoutMs - (Date.now() - startTime))
+                : undefined,
+            pollIntervalMs: FILE_LOCK_POLL_INTERVAL_MS,
+        });
+        try {
+            return await action();
+        } finally {
+            fileLock.release();
+        }
     } finally {
-        // Release the lock
-        locks.set(serial, false);
+        releaseDeviceLock(serial);
     }
 }
+
+/**
+ * Returns the serials of the devices that are currently locked.
+ */
+export function getLockedDevices(): string[] {
+    return Array.from(locks.keys());
+}
+
+/**
+ * Returns the holder, hold start and number of waiters of each locked device.
+ */
+export function getDeviceLocks(): DeviceLockInfo[] {
+    return Array.from(locks, ([serial, lock]) => ({
+        serial,
+        holder: lock.holder,
+        heldSince: lock.heldSince,
+        waiters: lock.waiters.length,
+    }));
+}
@@ -0,0 +1,474 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { z } from "zod";
+import {
+    DeviceNotReadyError,
+    getAdbDeviceState,
+    killEmulator,
+    prepareDevice,
+    waitForDeviceReady,
+} from "../../skills/shared/device-readiness.js";
+import type { ProgressReporter } from "./ProgressUtils.js";
+import { withDeviceLock } from "./DeviceLockUtils.js";
+import { logger } from "./Logger.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * Emulators used when ANDROID_EMULATORS is not set
+ */
+export const DEFAULT_ANDROID_EMULATORS = "Medium_Phone_API_36.1:5554";
+
+/**
+ * Range of console ports the emulator accepts; the adb port is the console port + 1
+ */
+const MIN_EMULATOR_PORT = 5554;
+const MAX_EMULATOR_PORT = 5682;
+
+/**
+ * A configured emulator: the AVD it runs and its console port
+ */
+export interface EmulatorSlot {
+    avdName: string;
+    port: number;
+}
+
+/**
+ * Parses emulator slots of the form `avd_name:port,...`, as set in the ANDROID_EMULATORS environment variable.
+ * Ports must be even, between 5554 and 5682, and distinct. Throws on malformed entries.
+ */
+export function parseAndroidEmulators(value: string): EmulatorSlot[] {
+    const slots: EmulatorSlot[] = [];
+    for (const entry of value.split(",").map((part) => part.trim()).filter((part) => part.length > 0)) {
+        const separator = entry.lastIndexOf(":");
+        const avdName = entry.slice(0, separator).trim();
+        const port = Number(entry.slice(separator + 1).trim());
+        if (
+            separator === -1
+            || !avdName
+            || !Number.isInteger(port)
+            || port % 2 !== 0
+            || port < MIN_EMULATOR_PORT
+            || port > MAX_EMULATOR_PORT
+        ) {
+            throw new Error(
+                `Invalid ANDROID_EMULATORS entry "${entry}": expected avd_name:port with an even port between ${MIN_EMULATOR_PORT} and ${MAX_EMULATOR_PORT}`
+            );
+        }
+        if (slots.some((slot) => slot.port === port)) {
+            throw new Error(`Invalid ANDROID_EMULATORS entry "${entry}": port ${port} is already used`);
+        }
+        slots.push({ avdName, port });
+    }
+    if (slots.length === 0) {
+        throw new Error("ANDROID_EMULATORS must define at least one emulator");
+    }
+    return slots;
+}
+
+/**
+ * Lifecycle of an emulator:
+ * - "stopped": not running, or not seen running yet
+ * - "booting": started or restarted, and waiting to finish its boot
+ * - "running": booted, unlocked and ready for tests
+ */
+export type EmulatorState = "stopped" | "booting" | "running";
+
+/**
+ * Snapshot of an emulator in the pool
+ */
+export interface EmulatorStatus {
+    serial: string;
+    avdName: string;
+    port: number;
+    state: EmulatorState;
+    /** Whether a test is using the emulator */
+    leased: boolean;
+    /** Who leased the emulator, for diagnostics */
+    holder?: string;
+    /** When the emulator was leased, or released when it is free (epoch milliseconds) */
+    since: number;
+}
+
+/**
+ * Structured view of an emulator returned by the status tool and endpoint
+ */
+export const emulatorSummarySchema = z.object({
+    serial: z.string().describe("adb serial of the emulator (e.g. emulator-5554)"),
+    avd_name: z.string().describe("AVD the emulator runs"),
+    port: z.number().describe("Console port of the emulator"),
+    state: z.enum(["stopped", "booting", "running"]).describe("Whether the emulator is running"),
+    leased: z.boolean().describe("Whether a test is using the emulator"),
+    holder: z.string().optional().describe("Project and test using the emulator"),
+    since: z.string().describe("When the emulator was leased, or released when it is free (ISO 8601)"),
+});
+
+export type EmulatorSummary = z.infer<typeof emulatorSummarySchema>;
+
+/**
+ * Builds the structured summary of an emulator
+ */
+export function toEmulatorSummary(status: EmulatorStatus): EmulatorSummary {
+    return {
+        serial: status.serial,
+        avd_name: status.avdName,
+        port: status.port,
+        state: status.state,
+        leased: status.leased,
+        holder: status.holder,
+        since: new Date(status.since).toISOString(),
+    };
+}
+
+/**
+ * An emulator leased to a caller until it calls `release`
+ */
+export interface EmulatorLease {
+    serial: string;
+    avdName: string;
+    port: number;
+    release: () => void;
+}
+
+/**
+ * Options for creating an emulator pool
+ */
+export interface EmulatorPoolOptions {
+    /** How long a running emulator stays unused before it is shut down (default: 10 minutes) */
+    idleTimeoutMs?: number;
+    /** How long to wait for an emulator to finish booting before restarting it (default: 2 minutes) */
+    bootTimeoutMs?: number;
+    /** How often to check whether a started emulator booted (default: 2 seconds) */
+    bootPollIntervalMs?: number;
+}
+
+/**
+ * Options for leasing an emulator
+ */
+export interface EmulatorLeaseOptions {
+    /** Aborting the signal while waiting for an emulator rejects with the signal's reason */
+    signal?: AbortSignal;
+    /** Description of who leases the emulator, for diagnostics (e.g. "project-1: testLogin") */
+    holder?: string;
+}
+
+/**
+ * Options for starting an emulator
+ */
+export interface EmulatorStartOptions {
+    signal?: AbortSignal;
+    progress?: ProgressReporter;
+}
+
+interface Emulator extends EmulatorSlot {
+    serial: string;
+    state: EmulatorState;
+    leased: boolean;
+    holder?: string;
+    since: number;
+    /** Launched with -read-only, because other slots run the same AVD */
+    readOnly: boolean;
+    idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Caller waiting for an emulator
+ */
+interface Waiter {
+    grant: (emulator: Emulator) => void;
+}
+
+/**
+ * Pool of Android emulators shared by the tests of all projects.
+ * Each test leases a free emulator, preferring one that is already running, and waits in FIFO
+ * order when all are leased. Emulators are booted on demand and shut down after being idle.
+ */
+export class AndroidEmulatorPool {
+    private readonly emulators: Emulator[];
+    private readonly waiters: Waiter[] = [];
+    private readonly idleTimeoutMs: number;
+    private readonly bootTimeoutMs: number;
+    private readonly bootPollIntervalMs: number;
+
+    constructor(slots: EmulatorSlot[], options: EmulatorPoolOptions = {}) {
+        this.idleTimeoutMs = options.idleTimeoutMs ?? 10 * 60 * 1000;
+        this.bootTimeoutMs = options.bootTimeoutMs ?? 120000;
+        this.bootPollIntervalMs = options.bootPollIntervalMs ?? 2000;
+        this.emulators = slots.map((slot) => ({
+            ...slot,
+            serial: `emulator-${slot.port}`,
+            state: "stopped",
+            leased: false,
+            since: Date.now(),
+            // Several instances of one AVD can only run when none of them writes to it
+            readOnly: slots.filter((other) => other.avdName === slot.avdName).length > 1,
+        }));
+    }
+
+    /**
+     * Gets the number of emulators in the pool.
+     */
+    getSize(): number {
+        return this.emulators.length;
+    }
+
+    /**
+     * Leases a free emulator, waiting behind earlier callers if all are leased.
+     * The emulator may be stopped; call `ensureRunning` before using it.
+     */
+    lease(options: EmulatorLeaseOptions = {}): Promise<EmulatorLease> {
+        const { signal, holder } = options;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason as Error);
+        }
+
+        const free = this.emulators.filter((emulator) => !emulator.leased);
+        const emulator = free.find((candidate) => candidate.state === "running") ?? free[0];
+        if (emulator) {
+            return Promise.resolve(this.grant(emulator, holder));
+        }
+
+        return new Promise<EmulatorLease>((resolve, reject) => {
+            const waiter: Waiter = {
+                grant: (granted) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(this.grant(granted, holder));
+                },
+            };
+            const onAbort = () => {
+                const index = this.waiters.indexOf(waiter);
+                if (index !== -1) {
+                    this.waiters.splice(index, 1);
+                    reject(signal?.reason as Error);
+                }
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Starts a leased emulator unless adb already lists it, and waits until it finished booting.
+     * An emulator that is stuck offline or booting is restarted once. The ready emulator is
+     * unlocked and its animations are disabled.
+     * Throws with a message suitable for the caller when adb is missing, the AVD does not exist,
+     * or the emulator does not boot in time.
+     */
+    async ensureRunning(serial: string, options: EmulatorStartOptions = {}): Promise<void> {
+        const emulator = this.getEmulator(serial);
+        const { signal, progress } = options;
+
+        let listed: boolean;
+        try {
+            const { stdout } = await execAsync("adb devices", { signal });
+            listed = getAdbDeviceState(stdout, serial) !== undefined;
+        } catch {
+            throw new Error("adb command not found. Please ensure Android SDK platform-tools are installed and available in PATH.");
+        }
+
+        try {
+            if (!listed) {
+                emulator.state = "booting";
+                await this.boot(emulator, options);
+                await progress?.report(`Waiting for ${serial} to boot`);
+            }
+            await waitForDeviceReady(serial, {
+                timeoutMs: this.bootTimeoutMs,
+                pollIntervalMs: this.bootPollIntervalMs,
+                signal,
+                restart: (error) => this.restart(emulator, error, options),
+            });
+            await prepareDevice(serial, signal);
+            emulator.state = "running";
+        } catch (error) {
+            emulator.state = "stopped";
+            throw error;
+        }
+    }
+
+    /**
+     * Gets the state and lease of each emulator.
+     */
+    getStatus(): EmulatorStatus[] {
+        return this.emulators.map((emulator) => ({
+            serial: emulator.serial,
+            avdName: emulator.avdName,
+            port: emulator.port,
+            state: emulator.state,
+            leased: emulator.leased,
+            holder: emulator.holder,
+            since: emulator.since,
+        }));
+    }
+
+    /**
+     * Gets the number of callers waiting for an emulator.
+     */
+    getWaiterCount(): number {
+        return this.waiters.length;
+    }
+
+    private getEmulator(serial: string): Emulator {
+        const emulator = this.emulators.find((candidate) => candidate.serial === serial);
+        if (!emulator) {
+            throw new Error(`Emulator ${serial} is not in the pool`);
+        }
+        return emulator;
+    }
+
+    private grant(emulator: Emulator, holder?: string): EmulatorLease {
+        clearTimeout(emulator.idleTimer);
+        emulator.idleTimer = undefined;
+        emulator.leased = true;
+        emulator.holder = holder;
+        emulator.since = Date.now();
+
+        let released = false;
+        return {
+            serial: emulator.serial,
+            avdName: emulator.avdName,
+            port: emulator.port,
+            release: () => {
+                if (!released) {
+                    released = true;
+                    this.release(emulator);
+                }
+            },
+        };
+    }
+
+    /**
+     * Hands an emulator to the next waiter, or schedules its shutdown if nobody is waiting.
+     */
+    private release(emulator: Emulator): void {
+        emulator.leased = false;
+        emulator.holder = undefined;
+        emulator.since = Date.now();
+
+        const next = this.waiters.shift();
+        if (next) {
+            next.grant(emulator);
+            return;
+        }
+
+        if (emulator.state === "running") {
+            emulator.idleTimer = setTimeout(() => void this.shutDownIfIdle(emulator), this.idleTimeoutMs);
+            // Idle emulators must not keep the process alive
+            emulator.idleTimer.unref();
+        }
+    }
+
+    /**
+     * Shuts down an idle emulator, unless a skill script or another server is testing on it.
+     */
+    private async shutDownIfIdle(emulator: Emulator): Promise<void> {
+        emulator.idleTimer = undefined;
+        if (emulator.leased || emulator.state !== "running") {
+            return;
+        }
+
+        try {
+            await withDeviceLock(emulator.serial, () => execAsync(`adb -s ${emulator.serial} emu kill`), {
+                timeoutMs: 0,
+                holder: "emulator pool: idle shutdown",
+            });
+            if (!emulator.leased) {
+                emulator.state = "stopped";
+            }
+            logger.info({
+                serial: emulator.serial,
+                avd_name: emulator.avdName,
+                idle_timeout_ms: this.idleTimeoutMs,
+            }, "Shut down idle emulator");
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn({
+                serial: emulator.serial,
+                error_message: errorMessage,
+            }, "Could not shut down idle emulator");
+        }
+    }
+
+    private async boot(emulator: Emulator, options: EmulatorStartOptions): Promise<void> {
+        const { serial, avdName } = emulator;
+        const { signal, progress } = options;
+
+        let avds: string[];
+        try {
+            const { stdout } = await execAsync("emulator -list-avds", { signal });
+            avds = stdout
+                .split("\n")
+                .map((line) => line.trim())
+                .filter((line) => line.length > 0);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to start emulator: ${errorMessage}`);
+        }
+
+        if (avds.length === 0) {
+            throw new Error("No Android Virtual Devices (AVDs) found. Please create an AVD using Android Studio.");
+        }
+        if (!avds.includes(avdName)) {
+            throw new Error(`AVD "${avdName}" not found. Available AVDs: ${avds.join(", ")}`);
+        }
+
+        await progress?.report(`Starting emulator ${avdName} on ${serial}`);
+        this.launch(emulator);
+    }
+
+    /**
+     * Kills an emulator that got stuck while booting and starts it again.
+     */
+    private async restart(emulator: Emulator, error: DeviceNotReadyError, options: EmulatorStartOptions): Promise<void> {
+        const { signal, progress } = options;
+        logger.warn({
+            serial: emulator.serial,
+            avd_name: emulator.avdName,
+            readiness_state: error.state,
+            error_message: error.message,
+        }, "Restarting unresponsive emulator");
+
+        emulator.state = "booting";
+        await progress?.report(`Restarting unresponsive emulator ${emulator.serial}`);
+        await killEmulator(emulator.serial, signal);
+        this.launch(emulator);
+        await progress?.report(`Waiting for ${emulator.serial} to boot`);
+    }
+
+    /**
+     * Starts the emulator's AVD in the background on its port.
+     */
+    private launch(emulator: Emulator): void {
+        const { serial, avdName, port } = emulator;
+        const readOnly = emulator.readOnly ? " -read-only" : "";
+        exec(`emulator -avd ${avdName} -port ${port} -no-snapshot-load -no-audio${readOnly}`, (error) => {
+            if (error) {
+                logger.warn({
+                    serial,
+                    avd_name: avdName,
+                    error_message: error.message,
+                }, "Emulator exited with an error");
+            }
+        });
+    }
+}
+
+let defaultPool: AndroidEmulatorPool | undefined;
+
+/**
+ * Gets the pool of the emulators configured with ANDROID_EMULATORS, creating it on first use.
+ * Idle emulators are shut down after ANDROID_EMULATOR_IDLE_TIMEOUT_MS.
+ */
+export function getAndroidEmulatorPool(): AndroidEmulatorPool {
+    if (!defaultPool) {
+        defaultPool = new AndroidEmulatorPool(
+            parseAndroidEmulators(process.env.ANDROID_EMULATORS || DEFAULT_ANDROID_EMULATORS),
+            {
+                idleTimeoutMs: process.env.ANDROID_EMULATOR_IDLE_TIMEOUT_MS
+                    ? parseInt(process.env.ANDROID_EMULATOR_IDLE_TIMEOUT_MS, 10)
+                    : undefined,
+            }
+        );
+    }
+    return defaultPool;
+}
@@ -0,0 +1,88 @@
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Event stored for replay
+ */
+interface StoredEvent {
+    eventId: EventId;
+    streamId: StreamId;
+    message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store used to resume dropped SSE streams from `Last-Event-ID`.
+ * Each session gets its own store, so events are released together with the session.
+ * Only the most recent `maxEvents` events are kept.
+ */
+export class InMemoryEventStore implements EventStore {
+    private events: StoredEvent[] = [];
+    private nextSequence = 0;
+
+    /**
+     * Creates a new InMemoryEventStore instance.
+     * @param maxEvents Maximum number of events to keep for replay (default: 1000)
+     */
+    constructor(private readonly maxEvents: number = 1000) {
+        if (maxEvents < 1) {
+            throw new Error("maxEvents must be at least 1");
+        }
+    }
+
+    /**
+     * Stores an event and returns its ID.
+     * Event IDs are unique within the store and increase monotonically.
+     */
+    storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        const eventId = `${streamId}_${this.nextSequence++}`;
+        this.events.push({ eventId, streamId, message });
+
+        // Drop the oldest events once the store is full
+        if (this.events.length > this.maxEvents) {
+            this.events.splice(0, this.events.length - this.maxEvents);
+        }
+
+        return Promise.resolve(eventId);
+    }
+
+    /**
+     * Returns the stream ID of a stored event, or undefined if the event is unknown or was evicted.
+     */
+    getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+        return Promise.resolve(this.findEvent(eventId)?.streamId);
+    }
+
+    /**
+     * Sends every event of the same stream that was stored after `lastEventId`.
+     * @returns The stream ID the replayed events belong to
+     */
+    async replayEventsAfter(
+        lastEventId: EventId,
+        { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+    ): Promise<StreamId> {
+        const index = this.events.findIndex((event) => event.eventId === lastEventId);
+        if (index === -1) {
+            throw new Error(`Unknown event ID: ${lastEventId}`);
+        }
+
+        const { streamId } = this.events[index];
+        // Copy so events stored while replaying are not sent twice
+        const pending = this.events.slice(index + 1).filter((event) => event.streamId === streamId);
+        for (const event of pending) {
+            await send(event.eventId, event.message);
+        }
+
+        return streamId;
+    }
+
+    /**
+     * Number of events currently stored
+     */
+    get size(): number {
+        return this.events.length;
+    }
+
+    private findEvent(eventId: EventId): StoredEvent | undefined {
+        return this.events.find((event) => event.eventId === eventId);
+    }
+}
@@ -0,0 +1,159 @@
+import { exec } from "child_process";
+import { existsSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+import type { ServerProfile } from "./ServerProfileUtils.js";
+import type { ToolRegistry } from "./ToolRegistryUtils.js";
+import type { TaskQueue } from "./TaskQueueUtils.js";
+import { checkFirestoreConnection } from "./ServerStorageUtils.js";
+import { getDeviceLocks, getLockedDevices } from "./DeviceLockUtils.js";
+import { toEmulatorSummary, type AndroidEmulatorPool, type EmulatorSummary } from "./EmulatorPoolUtils.js";
+import { toSimulatorSummary, type IosSimulatorPool, type SimulatorSummary } from "./SimulatorPoolUtils.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * A readiness check resolves when the dependency is usable and throws otherwise
+ */
+export type ReadinessCheck = () => Promise<void>;
+
+/**
+ * Outcome of a single readiness check
+ */
+export interface ReadinessCheckResult {
+    ok: boolean;
+    error?: string;
+}
+
+/**
+ * Body of the `/readyz` response
+ */
+export interface ReadinessReport {
+    ready: boolean;
+    checks: Record<string, ReadinessCheckResult>;
+}
+
+/**
+ * Body of the `/status` response
+ */
+export interface ServerStatus {
+    queue_length: number;
+    active_workers: number;
+    max_workers: number;
+    active_tasks_by_project: Record<string, number>;
+    resource_pools: Record<string, { capacity: number; in_use: number }>;
+    locked_devices: string[];
+    device_locks: { serial: string; holder?: string; held_since: string; waiters: number }[];
+    /** Present when remote_test_android is enabled */
+    android_emulators?: EmulatorSummary[];
+    /** Number of tests waiting for a free emulator; present when remote_test_android is enabled */
+    android_waiters?: number;
+    /** Leased simulators; present when remote_test_ios is enabled */
+    ios_simulators?: SimulatorSummary[];
+    /** Number of tests waiting for a simulator; present when remote_test_ios is enabled */
+    ios_waiters?: number;
+}
+
+/**
+ * Device pools reported by `/status`, for the enabled test tools
+ */
+export interface DevicePools {
+    android?: AndroidEmulatorPool;
+    ios?: IosSimulatorPool;
+}
+
+/**
+ * Builds the readiness checks for the dependencies of the enabled tools.
+ * - "firebase" and "projects_root": remote-build-farm profile, which stores projects in Firestore and on disk
+ * - "adb": when remote_test_android is registered
+ * - "xcrun": when remote_test_ios is registered
+ */
+export function createReadinessChecks(
+    profile: ServerProfile,
+    toolRegistry: ToolRegistry
+): Record<string, ReadinessCheck> {
+    const checks: Record<string, ReadinessCheck> = {};
+
+    if (profile === "remote-build-farm") {
+        checks.firebase = checkFirestoreConnection;
+        checks.projects_root = () => {
+            const projectsPath = join(homedir(), "PistachioMCPProjects");
+            if (!existsSync(projectsPath)) {
+                return Promise.reject(new Error(`Projects root not found: ${projectsPath}`));
+            }
+            return Promise.resolve();
+        };
+    }
+    if (toolRegistry.has("remote_test_android")) {
+        checks.adb = async () => {
+            await execAsync("adb version");
+        };
+    }
+    if (toolRegistry.has("remote_test_ios")) {
+        checks.xcrun = async () => {
+            await execAsync("xcrun --version");
+        };
+    }
+
+    return checks;
+}
+
+/**
+ * Runs readiness checks concurrently. A check that does not settle within `timeoutMs` fails.
+ * The server is ready when every check passes.
+ */
+export async function runReadinessChecks(
+    checks: Record<string, ReadinessCheck>,
+    timeoutMs: number = 5000
+): Promise<ReadinessReport> {
+    const entries = await Promise.all(
+        Object.entries(checks).map(async ([name, check]): Promise<[string, ReadinessCheckResult]> => {
+            let timer: NodeJS.Timeout | undefined;
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+            });
+            try {
+                await Promise.race([check(), timeout]);
+                return [name, { ok: true }];
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                return [name, { ok: false, error: errorMessage }];
+            } finally {
+                clearTimeout(timer);
+            }
+        })
+    );
+
+    return {
+        ready: entries.every(([, result]) => result.ok),
+        checks: Object.fromEntries(entries),
+    };
+}
+
+/**
+ * Snapshot of the tool call queue, its resource pools, the device locks with their holders and waiters,
+ * and the devices of the given device pools
+ */
+export function getServerStatus<T, R>(toolCallQueue: TaskQueue<T, R>, devicePools: DevicePools = {}): ServerStatus {
+    return {
+        queue_length: toolCallQueue.getQueueLength(),
+        active_workers: toolCallQueue.getActiveWorkers(),
+        max_workers: toolCallQueue.getMaxWorkers(),
+        active_tasks_by_project: Object.fromEntries(toolCallQueue.getActiveTasksByProject()),
+        resource_pools: Object.fromEntries(
+            Array.from(toolCallQueue.getResourcePools(), ([name, pool]) => [name, { capacity: pool.capacity, in_use: pool.inUse }])
+        ),
+        locked_devices: getLockedDevices(),
+        device_locks: getDeviceLocks().map((lock) => ({
+            serial: lock.serial,
+            holder: lock.holder,
+            held_since: new Date(lock.heldSince).toISOString(),
+            waiters: lock.waiters,
+        })),
+        android_emulators: devicePools.android?.getStatus().map(toEmulatorSummary),
+        android_waiters: devicePools.android?.getWaiterCount(),
+        ios_simulators: devicePools.ios?.getStatus().map(toSimulatorSummary),
+        ios_waiters: devicePools.ios?.getWaiterCount(),
+    };
+}
@@ -0,0 +1,173 @@
+import { randomUUID } from "crypto";
+import type { ToolCallResult } from "./ToolRegistryUtils.js";
+import type { Job, JobStore } from "./JobStoreUtils.js";
+import { TaskCancelledError } from "./TaskQueueUtils.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Runs the tool call of a job through the task queue.
+ * `onStart` must be called when the call leaves the queue and starts running.
+ */
+export type JobRunner = (job: Job, signal: AbortSignal, onStart: () => void) => Promise<ToolCallResult>;
+
+/**
+ * Options for creating a job manager
+ */
+export interface JobManagerOptions {
+    store: JobStore;
+    run: JobRunner;
+    /**
+     * How long finished jobs are kept before `recover` deletes them (default: 7 days)
+     */
+    retentionMs?: number;
+}
+
+/**
+ * Starts tool calls as background jobs and tracks them in a JobStore,
+ * so agents can poll for results that take longer than a request may wait.
+ */
+export class JobManager {
+    private readonly store: JobStore;
+    private readonly run: JobRunner;
+    private readonly retentionMs: number;
+    /** Aborts the running or queued jobs of this process */
+    private readonly controllers = new Map<string, AbortController>();
+
+    constructor(options: JobManagerOptions) {
+        this.store = options.store;
+        this.run = options.run;
+        this.retentionMs = options.retentionMs ?? 7 * 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * Creates a job for a tool call and queues it.
+     * @returns The job, in "queued" status
+     */
+    submit(toolName: string, args: Record<string, unknown>, userId?: string): Job {
+        const job: Job = {
+            id: randomUUID(),
+            tool_name: toolName,
+            args,
+            user_id: userId,
+            status: "queued",
+            created_at: new Date().toISOString(),
+        };
+        this.store.save(job);
+        this.start(job);
+
+        logger.info({
+            job_id: job.id,
+            tool_name: toolName,
+            user_id: userId,
+            status: "queued",
+        }, "Job submitted");
+        return job;
+    }
+
+    /**
+     * Gets a job. Jobs started by another user are reported as not found.
+     */
+    get(id: string, userId?: string): Job | undefined {
+        const job = this.store.get(id);
+        if (!job || (job.user_id && job.user_id !== userId)) {
+            return undefined;
+        }
+        return job;
+    }
+
+    /**
+     * Cancels a queued or running job. A running job's child processes are killed.
+     * Jobs that already finished are returned unchanged.
+     * @returns The job, or undefined if it does not exist or belongs to another user
+     */
+    cancel(id: string, userId?: string): Job | undefined {
+        const job = this.get(id, userId);
+        if (!job || (job.status !== "queued" && job.status !== "running")) {
+            return job;
+        }
+
+        const cancelled: Job = { ...job, status: "cancelled", finished_at: new Date().toISOString() };
+        this.store.save(cancelled);
+        this.controllers.get(id)?.abort(new TaskCancelledError("Job was cancelled"));
+
+        logger.info({
+            job_id: id,
+            tool_name: job.tool_name,
+            user_id: userId,
+            status: "cancelled",
+        }, "Job cancelled");
+        return cancelled;
+    }
+
+    /**
+     * Resumes the jobs of a previous server process and deletes expired ones.
+     * Queued jobs are queued again. Running jobs are marked as failed, since the device
+     * or project they used may be in an unknown state.
+     */
+    recover(now: number = Date.now()): { requeued: number; failed: number; deleted: number } {
+        const counts = { requeued: 0, failed: 0, deleted: 0 };
+
+        for (const job of this.store.list()) {
+            if (job.status === "queued") {
+                this.start(job);
+                counts.requeued++;
+            } else if (job.status === "running") {
+                this.store.save({
+                    ...job,
+                    status: "failed",
+                    error: "Interrupted by a server restart",
+                    finished_at: new Date(now).toISOString(),
+                });
+                counts.failed++;
+            } else if (job.finished_at && now - Date.parse(job.finished_at) > this.retentionMs) {
+                this.store.delete(job.id);
+                counts.deleted++;
+            }
+        }
+
+        logger.info(counts, "Recovered jobs");
+        return counts;
+    }
+
+    /**
+     * Runs a queued job in the background, recording its progress in the store.
+     */
+    private start(job: Job): void {
+        const controller = new AbortController();
+        this.controllers.set(job.id, controller);
+        void this.execute(job, controller.signal).finally(() => {
+            this.controllers.delete(job.id);
+        });
+    }
+
+    private async execute(job: Job, signal: AbortSignal): Promise<void> {
+        const onStart = () => {
+            if (!signal.aborted) {
+                this.store.save({ ...job, status: "running", started_at: new Date().toISOString() });
+            }
+        };
+
+        let update: Partial<Job>;
+        try {
+            const result = await this.run(job, signal, onStart);
+            update = { status: "completed", result };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            update = { status: "failed", error: errorMessage };
+        }
+
+        // A cancelled job keeps its status, whatever the tool returned while stopping
+        const current = this.store.get(job.id);
+        if (!current || current.status === "cancelled") {
+            return;
+        }
+        this.store.save({ ...current, ...update, finished_at: new Date().toISOString() });
+
+        logger.info({
+            job_id: job.id,
+            tool_name: job.tool_name,
+            user_id: job.user_id,
+            status: update.status,
+        }, "Job finished");
+    }
+}
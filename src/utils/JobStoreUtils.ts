@@ -0,0 +1,147 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { z } from "zod";
+import type { ToolCallResult } from "./ToolRegistryUtils.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Lifecycle of a job:
+ * - "queued": waiting for a worker
+ * - "running": the tool is running
+ * - "completed": the tool finished; its result may still be an error, such as a failing test
+ * - "failed": the tool could not finish, e.g. it timed out or the server restarted while it ran
+ * - "cancelled": cancelled with cancel_job
+ */
+export const jobStatusSchema = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+/**
+ * A tool call running in the background, as persisted to disk
+ */
+export interface Job {
+    id: string;
+    tool_name: string;
+    args: Record<string, unknown>;
+    /** User that started the job; absent when authentication is disabled */
+    user_id?: string;
+    status: JobStatus;
+    created_at: string;
+    started_at?: string;
+    finished_at?: string;
+    /** Why the job failed */
+    error?: string;
+    /** Result of the tool call, once completed */
+    result?: ToolCallResult;
+}
+
+/**
+ * Structured view of a job returned by the job tools, without arguments or result
+ */
+export const jobSummarySchema = z.object({
+    job_id: z.string().describe("ID of the job"),
+    tool_name: z.string().describe("Tool the job runs"),
+    status: jobStatusSchema.describe("Status of the job"),
+    created_at: z.string().describe("When the job was submitted (ISO 8601)"),
+    started_at: z.string().optional().describe("When the tool started running (ISO 8601)"),
+    finished_at: z.string().optional().describe("When the job finished (ISO 8601)"),
+    error: z.string().optional().describe("Why the job failed"),
+});
+
+export type JobSummary = z.infer<typeof jobSummarySchema>;
+
+/**
+ * Builds the structured summary of a job
+ */
+export function toJobSummary(job: Job): JobSummary {
+    return {
+        job_id: job.id,
+        tool_name: job.tool_name,
+        status: job.status,
+        created_at: job.created_at,
+        started_at: job.started_at,
+        finished_at: job.finished_at,
+        error: job.error,
+    };
+}
+
+/**
+ * Job IDs are UUIDs; anything else is rejected so IDs can't address files outside the store
+ */
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Persists jobs as one JSON file per job, so they survive server restarts.
+ * Files are written to a temporary name and renamed, so a crash never leaves a partial job.
+ */
+export class JobStore {
+    /**
+     * Creates a job store in the given directory, creating the directory if needed.
+     */
+    constructor(private readonly dir: string) {
+        mkdirSync(dir, { recursive: true });
+    }
+
+    /**
+     * Writes a job, replacing any previous version.
+     */
+    save(job: Job): void {
+        const path = this.getPath(job.id);
+        const tempPath = `${path}.tmp`;
+        writeFileSync(tempPath, JSON.stringify(job));
+        renameSync(tempPath, path);
+    }
+
+    /**
+     * Reads a job, or returns undefined if it does not exist.
+     */
+    get(id: string): Job | undefined {
+        if (!JOB_ID_PATTERN.test(id)) {
+            return undefined;
+        }
+        const path = this.getPath(id);
+        if (!existsSync(path)) {
+            return undefined;
+        }
+        return JSON.parse(readFileSync(path, "utf-8")) as Job;
+    }
+
+    /**
+     * Reads every job in the store. Unreadable files are logged and skipped.
+     */
+    list(): Job[] {
+        const jobs: Job[] = [];
+        for (const file of readdirSync(this.dir)) {
+            if (!file.endsWith(".json")) {
+                continue;
+            }
+            try {
+                jobs.push(JSON.parse(readFileSync(join(this.dir, file), "utf-8")) as Job);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.warn({
+                    jobs_dir: this.dir,
+                    file,
+                    error_message: errorMessage,
+                }, "Could not read job file");
+            }
+        }
+        return jobs;
+    }
+
+    /**
+     * Deletes a job.
+     */
+    delete(id: string): void {
+        if (JOB_ID_PATTERN.test(id)) {
+            rmSync(this.getPath(id), { force: true });
+        }
+    }
+
+    private getPath(id: string): string {
+        if (!JOB_ID_PATTERN.test(id)) {
+            throw new Error(`Invalid job ID: ${id}`);
+        }
+        return join(this.dir, `${id}.json`);
+    }
+}
@@ -0,0 +1,59 @@
+import type { ProgressToken, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Sends a notification to the client that made the current request
+ */
+export type SendNotification = (notification: ServerNotification) => Promise<void>;
+
+/**
+ * Reports the steps of a long-running tool call as MCP `notifications/progress`.
+ * Each call to `report` advances the progress by one step.
+ */
+export class ProgressReporter {
+    private progress = 0;
+
+    constructor(
+        private readonly progressToken: ProgressToken,
+        private readonly sendNotification: SendNotification
+    ) {}
+
+    /**
+     * Reports that the next step started, with a human-readable message (e.g. "Building test APK").
+     * Failures to deliver the notification are logged and otherwise ignored.
+     */
+    async report(message: string): Promise<void> {
+        this.progress++;
+        try {
+            await this.sendNotification({
+                method: "notifications/progress",
+                params: {
+                    progressToken: this.progressToken,
+                    progress: this.progress,
+                    message,
+                },
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.debug({
+                progress_token: this.progressToken,
+                progress: this.progress,
+                error_message: errorMessage,
+            }, "Could not send progress notification");
+        }
+    }
+}
+
+/**
+ * Creates a progress reporter for a request.
+ * Returns undefined when the client did not ask for progress (no `progressToken` in `_meta`).
+ */
+export function createProgressReporter(
+    progressToken: ProgressToken | undefined,
+    sendNotification: SendNotification
+): ProgressReporter | undefined {
+    if (progressToken === undefined) {
+        return undefined;
+    }
+    return new ProgressReporter(progressToken, sendNotification);
+}
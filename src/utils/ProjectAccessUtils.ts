@@ -0,0 +1,52 @@
+import { getMCPProject, type MCPProject, type ProjectRole } from "./ServerStorageUtils.js";
+
+/**
+ * Privilege level of each role; a role grants everything lower roles grant
+ */
+const ROLE_RANK: Record<ProjectRole, number> = {
+    viewer: 1,
+    editor: 2,
+    owner: 3,
+};
+
+/**
+ * Returns the role of a user on a project, or undefined if the user is not a member.
+ */
+export function getProjectRole(project: MCPProject, userId: string): ProjectRole | undefined {
+    if (project.ownerId === userId) {
+        return "owner";
+    }
+    return project.members[userId];
+}
+
+/**
+ * Returns true if the user has at least the required role on the project.
+ * Projects created without authentication have no owner and are accessible to every user.
+ */
+export function hasProjectAccess(project: MCPProject, userId: string, requiredRole: ProjectRole): boolean {
+    if (!project.ownerId) {
+        return true;
+    }
+    const role = getProjectRole(project, userId);
+    return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[requiredRole];
+}
+
+/**
+ * Loads a project and checks whether a user may operate on it with the required role.
+ * @returns An error message if access is denied, undefined otherwise
+ */
+export async function checkProjectAccess(
+    projectId: string,
+    userId: string,
+    requiredRole: ProjectRole
+): Promise<string | undefined> {
+    const project = await getMCPProject(projectId);
+
+    if (!project) {
+        return `Project not found: ${projectId}`;
+    }
+    if (!hasProjectAccess(project, userId, requiredRole)) {
+        return `Access denied: ${requiredRole} role required on project ${projectId}`;
+    }
+    return undefined;
+}
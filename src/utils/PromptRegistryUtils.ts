@@ -0,0 +1,132 @@
+import { z } from "zod";
+import type { GetPromptResult, Prompt, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Declarative description of a prompt.
+ * Prompt modules export one of these and register it with a PromptRegistry.
+ */
+export interface PromptDefinition<S extends z.ZodObject = z.ZodObject> {
+    name: string;
+    description: string;
+    arguments: S;
+    handler: (args: z.infer<S>) => PromptMessage[];
+}
+
+/**
+ * Type-erased view of a registered prompt, used for listing and dispatch
+ */
+interface RegisteredPrompt {
+    name: string;
+    description: string;
+    arguments: z.ZodObject;
+    render: (args: unknown) => PromptMessage[];
+}
+
+/**
+ * Registry of MCP prompts. Builds the `prompts/list` response and renders `prompts/get` requests.
+ */
+export class PromptRegistry {
+    private readonly prompts = new Map<string, RegisteredPrompt>();
+
+    /**
+     * Registers a prompt. Throws if a prompt with the same name is already registered.
+     * @returns The registry, so registrations can be chained
+     */
+    register<S extends z.ZodObject>(prompt: PromptDefinition<S>): this {
+        if (this.prompts.has(prompt.name)) {
+            throw new Error(`Prompt already registered: ${prompt.name}`);
+        }
+
+        this.prompts.set(prompt.name, {
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments,
+            render: (args: unknown) => prompt.handler(prompt.arguments.parse(args)),
+        });
+        return this;
+    }
+
+    /**
+     * Gets the names of all registered prompts, in registration order.
+     */
+    getPromptNames(): string[] {
+        return Array.from(this.prompts.keys());
+    }
+
+    /**
+     * Builds the prompt entries for a `prompts/list` response.
+     * Argument names, descriptions and required flags are derived from the Zod schema.
+     */
+    listPrompts(): Prompt[] {
+        return Array.from(this.prompts.values()).map((prompt) => {
+            const jsonSchema = z.toJSONSchema(prompt.arguments, { io: "input" }) as {
+                properties?: Record<string, { description?: string }>;
+                required?: string[];
+            };
+            const required = new Set(jsonSchema.required ?? []);
+
+            return {
+                name: prompt.name,
+                description: prompt.description,
+                arguments: Object.entries(jsonSchema.properties ?? {}).map(([name, property]) => ({
+                    name,
+                    description: property.description,
+                    required: required.has(name),
+                })),
+            };
+        });
+    }
+
+    /**
+     * Validates the arguments and renders the named prompt, logging the outcome.
+     * Throws on unknown prompts and invalid arguments.
+     */
+    getPrompt(name: string, args: unknown): GetPromptResult {
+        const startTime = Date.now();
+        const prompt = this.prompts.get(name);
+
+        if (!prompt) {
+            const durationMs = Date.now() - startTime;
+            logger.error({
+                prompt_name: name,
+                duration_ms: durationMs,
+                status: "unknown_prompt",
+            }, "Unknown prompt requested");
+
+            throw new Error(`Unknown prompt: ${name}`);
+        }
+
+        try {
+            const messages = prompt.render(args);
+            const durationMs = Date.now() - startTime;
+
+            logger.info({
+                prompt_name: name,
+                duration_ms: durationMs,
+                status: "success",
+            }, "Prompt request completed successfully");
+
+            return {
+                description: prompt.description,
+                messages,
+            };
+        } catch (error) {
+            const durationMs = Date.now() - startTime;
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const errorStack = error instanceof Error ? error.stack : undefined;
+
+            logger.error({
+                prompt_name: name,
+                duration_ms: durationMs,
+                status: "error",
+                error_message: errorMessage,
+                stack: errorStack,
+            }, "Prompt request failed");
+
+            throw new Error(
+                `Error generating prompt: ${errorMessage}`
+            );
+        }
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Server profiles select which tools and prompts the MCP server exposes.
+ * - "local-skills": asset search tools and prompts that drive the locally installed skills
+ * - "remote-build-farm": additionally exposes remote project lifecycle and remote test tools,
+ *   for servers that host projects and devices
+ */
+export const SERVER_PROFILES = ["local-skills", "remote-build-farm"] as const;
+
+export type ServerProfile = (typeof SERVER_PROFILES)[number];
+
+const DEFAULT_SERVER_PROFILE: ServerProfile = "local-skills";
+
+/**
+ * Type guard for server profile names
+ */
+export function isServerProfile(value: string): value is ServerProfile {
+    return (SERVER_PROFILES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the server profile from the PISTACHIO_PROFILE environment variable.
+ * Defaults to "local-skills" when unset; throws on unknown values.
+ */
+export function getServerProfile(value: string | undefined = process.env.PISTACHIO_PROFILE): ServerProfile {
+    if (!value) {
+        return DEFAULT_SERVER_PROFILE;
+    }
+    if (!isServerProfile(value)) {
+        throw new Error(
+            `Invalid PISTACHIO_PROFILE "${value}": must be one of ${SERVER_PROFILES.join(", ")}`
+        );
+    }
+    return value;
+}
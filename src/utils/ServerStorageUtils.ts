@@ -1,5 +1,5 @@
 import { initializeApp, getApps, FirebaseApp } from "firebase/app";
-import { getFirestore, connectFirestoreEmulator, Firestore, Timestamp, collection, doc, setDoc, updateDoc } from "firebase/firestore";
+import { getFirestore, connectFirestoreEmulator, Firestore, FirestoreError, Timestamp, collection, doc, getDoc, getDocFromServer, setDoc, updateDoc, deleteField, FieldPath } from "firebase/firestore";
 import { getAuth, connectAuthEmulator, signInAnonymously, Auth } from "firebase/auth";
 import { Storage } from "@google-cloud/storage";
 import { randomUUID } from "crypto";
@@ -181,22 +181,63 @@ export async function getFirestoreDb(): Promise<Firestore> {
 
 const MCP_PROJECTS_COLLECTION = "mcpProjects";
 
+/**
+ * Check that Firestore is reachable by reading a document from the server, bypassing the local cache.
+ * Throws if Firebase cannot be initialized or the read fails. A read denied by the security rules
+ * counts as reachable, since the server answered it.
+ */
+export async function checkFirestoreConnection(): Promise<void> {
+    const firestore = await getFirestoreDb();
+    try {
+        await getDocFromServer(doc(firestore, MCP_PROJECTS_COLLECTION, "healthcheck"));
+    } catch (error) {
+        if (error instanceof FirestoreError && error.code === "permission-denied") {
+            return;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Role of a user on a project, from most to least privileged:
+ * - "owner": full access, including managing members
+ * - "editor": can modify the project, build and run tests
+ * - "viewer": can read the project files
+ */
+export type ProjectRole = "owner" | "editor" | "viewer";
+
 /**
  * Firestore document data for an MCP project (as stored in Firestore)
  */
 interface FirestoreMCPProjectData {
     name: string;
+    /** User that created the project; absent for projects created without authentication */
+    ownerId?: string;
+    /** Roles by user ID; the owner is listed with the "owner" role */
+    members?: Record<string, ProjectRole>;
     createdAt: Timestamp;
     updatedAt: Timestamp;
 }
 
+/**
+ * MCP project as returned to callers
+ */
+export interface MCPProject {
+    id: string;
+    name: string;
+    ownerId?: string;
+    members: Record<string, ProjectRole>;
+}
+
 /**
  * Create a new MCP project entry in Firestore
  * @param projectName - Name of the project
+ * @param ownerId - ID of the user creating the project, if authenticated
  * @returns The created project ID
  */
 export async function createMCPProject(
-    projectName: string
+    projectName: string,
+    ownerId?: string
 ): Promise<string> {
     const firestore = await getFirestoreDb();
     const now = Timestamp.now();
@@ -207,6 +248,8 @@ export async function createMCPProject(
 
     const projectData: FirestoreMCPProjectData = {
         name: projectName,
+        // Firestore rejects undefined fields
+        ...(ownerId ? { ownerId, members: { [ownerId]: "owner" } } : {}),
         createdAt: now,
         updatedAt: now,
     };
@@ -216,6 +259,79 @@ export async function createMCPProject(
     return docRef.id;
 }
 
+/**
+ * Get an MCP project entry from Firestore
+ * @param projectId - The ID of the project
+ * @returns The project, or null if it does not exist
+ */
+export async function getMCPProject(
+    projectId: string
+): Promise<MCPProject | null> {
+    const firestore = await getFirestoreDb();
+
+    const snapshot = await getDoc(doc(firestore, MCP_PROJECTS_COLLECTION, projectId));
+    if (!snapshot.exists()) {
+        return null;
+    }
+
+    const data = snapshot.data() as FirestoreMCPProjectData;
+    return {
+        id: snapshot.id,
+        name: data.name,
+        ownerId: data.ownerId,
+        members: data.members ?? {},
+    };
+}
+
+/**
+ * Add a member to a project, or change the role of an existing member
+ * @param projectId - The ID of the project
+ * @param userId - The ID of the user
+ * @param role - The role to grant; ownership cannot be granted
+ */
+export async function setProjectMember(
+    projectId: string,
+    userId: string,
+    role: Exclude<ProjectRole, "owner">
+): Promise<void> {
+    const firestore = await getFirestoreDb();
+    const docRef = doc(firestore, MCP_PROJECTS_COLLECTION, projectId);
+
+    const snapshot = await getDoc(docRef);
+    if (!snapshot.exists()) {
+        throw new Error(`Project not found: ${projectId}`);
+    }
+    if ((snapshot.data() as FirestoreMCPProjectData).ownerId === userId) {
+        throw new Error("Cannot change the role of the project owner");
+    }
+
+    // FieldPath keeps user IDs containing dots from being split into nested fields
+    await updateDoc(docRef, new FieldPath("members", userId), role, "updatedAt", Timestamp.now());
+}
+
+/**
+ * Remove a member from a project
+ * @param projectId - The ID of the project
+ * @param userId - The ID of the user to remove; the owner cannot be removed
+ */
+export async function removeProjectMember(
+    projectId: string,
+    userId: string
+): Promise<void> {
+    const firestore = await getFirestoreDb();
+    const docRef = doc(firestore, MCP_PROJECTS_COLLECTION, projectId);
+
+    const snapshot = await getDoc(docRef);
+    if (!snapshot.exists()) {
+        throw new Error(`Project not found: ${projectId}`);
+    }
+    if ((snapshot.data() as FirestoreMCPProjectData).ownerId === userId) {
+        throw new Error("Cannot remove the project owner");
+    }
+
+    await updateDoc(docRef, new FieldPath("members", userId), deleteField(), "updatedAt", Timestamp.now());
+}
+
 /**
  * Update the updatedAt timestamp for a project
  * @param projectId - The ID of the project to update
@@ -0,0 +1,336 @@
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { InMemoryEventStore } from "./EventStoreUtils.js";
+import { getUserId, type AuthenticatedRequest } from "./AuthUtils.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Options for the session manager
+ */
+export interface SessionManagerOptions {
+    /** Creates the MCP server instance backing a new session */
+    createServer: () => Server;
+    /** Sessions without activity for this long are closed (default: 30 minutes) */
+    idleTimeoutMs?: number;
+    /** Maximum number of events kept per session for resumability (default: 1000) */
+    maxEventsPerSession?: number;
+}
+
+/**
+ * State kept for each client session
+ */
+interface Session {
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+    /** User that created the session, if authentication is enabled */
+    userId?: string;
+    lastActivity: number;
+    activeRequests: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * First protocol version whose clients get an event ID on each request stream, so they can resume it
+ * after a disconnect. Requests of older clients are cancelled when their response closes early.
+ */
+const RESUMABLE_PROTOCOL_VERSION = "2025-11-25";
+
+/**
+ * Protocol version the transport assumes when a request has no `Mcp-Protocol-Version` header
+ */
+const DEFAULT_PROTOCOL_VERSION = "2025-03-26";
+
+/**
+ * Largest POST body read when looking for the requests it carries, as enforced by the transport
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Routes Streamable HTTP requests to per-client MCP sessions.
+ * A new session is created for every initialize request and identified by the
+ * `Mcp-Session-Id` header afterwards. Sessions end on DELETE, when their transport
+ * closes, or when they stay idle longer than `idleTimeoutMs`. Requests of clients that can't
+ * resume a stream are cancelled when their response closes before it was written.
+ */
+export class SessionManager {
+    private sessions = new Map<string, Session>();
+    private cleanupTimer?: NodeJS.Timeout;
+    private readonly idleTimeoutMs: number;
+    private readonly maxEventsPerSession: number;
+
+    constructor(private readonly options: SessionManagerOptions) {
+        this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+        this.maxEventsPerSession = options.maxEventsPerSession ?? 1000;
+    }
+
+    /**
+     * Number of open sessions
+     */
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Returns whether a session with the given ID is open.
+     */
+    has(sessionId: string): boolean {
+        return this.sessions.has(sessionId);
+    }
+
+    /**
+     * Handles an HTTP request for the MCP endpoint.
+     * Requests carrying a session ID are forwarded to that session's transport;
+     * POST requests without one start a new session.
+     * Sessions can only be used by the user that created them.
+     */
+    async handleRequest(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+        const sessionId = req.headers["mcp-session-id"];
+
+        if (typeof sessionId === "string") {
+            const session = this.sessions.get(sessionId);
+            if (!session) {
+                writeJsonRpcError(res, 404, -32001, "Session not found");
+                return;
+            }
+            if (session.userId !== getUserId(req.auth)) {
+                logger.warn({
+                    session_id: sessionId,
+                    user_id: getUserId(req.auth),
+                    status: "session_user_mismatch",
+                }, "Rejected request for a session of another user");
+
+                // Don't reveal that the session exists
+                writeJsonRpcError(res, 404, -32001, "Session not found");
+                return;
+            }
+
+            this.trackRequest(session, req, res);
+            if (req.method !== "POST") {
+                await session.transport.handleRequest(req, res);
+                return;
+            }
+
+            let body: unknown;
+            try {
+                body = await readJsonBody(req);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                writeJsonRpcError(res, 400, -32700, `Parse error: ${errorMessage}`);
+                return;
+            }
+            this.cancelOnEarlyClose(session, req, res, body);
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== "POST") {
+            writeJsonRpcError(res, 400, -32000, "Bad Request: Mcp-Session-Id header is required");
+            return;
+        }
+
+        await this.createSession(req, res);
+    }
+
+    /**
+     * Closes every session that has no open request and has been idle for longer than the idle timeout.
+     * @param now Current time in milliseconds (default: Date.now())
+     * @returns Number of sessions closed
+     */
+    async closeIdleSessions(now: number = Date.now()): Promise<number> {
+        const expired = [...this.sessions.entries()].filter(
+            ([, session]) => session.activeRequests === 0 && now - session.lastActivity >= this.idleTimeoutMs
+        );
+
+        for (const [sessionId, session] of expired) {
+            logger.info({
+                session_id: sessionId,
+                idle_ms: now - session.lastActivity,
+                status: "session_expired",
+            }, "Closing idle MCP session");
+
+            await session.server.close();
+        }
+
+        return expired.length;
+    }
+
+    /**
+     * Starts closing idle sessions periodically.
+     * @param intervalMs Interval between checks in milliseconds (default: 1 minute)
+     */
+    startCleanup(intervalMs: number = DEFAULT_CLEANUP_INTERVAL_MS): void {
+        this.stopCleanup();
+        this.cleanupTimer = setInterval(() => {
+            this.closeIdleSessions().catch((error: unknown) => {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.error({ error_message: errorMessage }, "Error closing idle MCP sessions");
+            });
+        }, intervalMs);
+        // Don't keep the process alive just for the cleanup
+        this.cleanupTimer.unref();
+    }
+
+    /**
+     * Stops the periodic idle session cleanup.
+     */
+    stopCleanup(): void {
+        if (this.cleanupTimer) {
+            clearInterval(this.cleanupTimer);
+            this.cleanupTimer = undefined;
+        }
+    }
+
+    /**
+     * Stops the cleanup and closes every open session.
+     */
+    async closeAll(): Promise<void> {
+        this.stopCleanup();
+        const sessions = [...this.sessions.values()];
+        for (const session of sessions) {
+            await session.server.close();
+        }
+    }
+
+    /**
+     * Creates a transport and server for a request without a session ID.
+     * The session is only kept if the request initializes it.
+     */
+    private async createSession(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+        const server = this.options.createServer();
+        const userId = getUserId(req.auth);
+        const session: Session = {
+            server,
+            transport: new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                eventStore: new InMemoryEventStore(this.maxEventsPerSession),
+                onsessioninitialized: (sessionId) => {
+                    this.sessions.set(sessionId, session);
+                    logger.info({
+                        session_id: sessionId,
+                        user_id: userId,
+                        status: "session_created",
+                    }, "MCP session created");
+                },
+            }),
+            userId,
+            lastActivity: Date.now(),
+            activeRequests: 0,
+        };
+        const { transport } = session;
+
+        // Must be set before connecting so the server can chain its own close handler
+        transport.onclose = () => {
+            const sessionId = transport.sessionId;
+            if (sessionId && this.sessions.delete(sessionId)) {
+                logger.info({ session_id: sessionId, status: "session_closed" }, "MCP session closed");
+            }
+        };
+
+        await server.connect(transport);
+        this.trackRequest(session, req, res);
+        await transport.handleRequest(req, res);
+
+        // The transport rejected the request (e.g. it was not an initialize request)
+        if (!transport.sessionId) {
+            await server.close();
+        }
+    }
+
+    /**
+     * Cancels the requests of a POST body when the response closes before their results were written,
+     * e.g. because the client disconnected, so their tool calls stop and free their workers and devices.
+     * Clients that can resume the stream are left alone, since they may still come back for the results.
+     */
+    private cancelOnEarlyClose(session: Session, req: IncomingMessage, res: ServerResponse, body: unknown): void {
+        const protocolVersion = req.headers["mcp-protocol-version"];
+        if ((typeof protocolVersion === "string" ? protocolVersion : DEFAULT_PROTOCOL_VERSION) >= RESUMABLE_PROTOCOL_VERSION) {
+            return;
+        }
+        const requestIds = (Array.isArray(body) ? body : [body]).flatMap((message: unknown) =>
+            isJsonRpcRequest(message) ? [message.id] : []
+        );
+        if (requestIds.length === 0) {
+            return;
+        }
+
+        res.once("close", () => {
+            if (res.writableEnded) {
+                return;
+            }
+            logger.info({
+                session_id: session.transport.sessionId,
+                request_ids: requestIds,
+                status: "response_closed",
+            }, "Cancelling requests whose response closed early");
+
+            for (const requestId of requestIds) {
+                session.transport.onmessage?.({
+                    jsonrpc: "2.0",
+                    method: "notifications/cancelled",
+                    params: { requestId, reason: "The client disconnected" },
+                });
+            }
+        });
+    }
+
+    /**
+     * Records activity on a session for the lifetime of a request.
+     * GET requests only open the standalone SSE stream, which clients keep open
+     * for the whole session, so they don't keep the session from becoming idle.
+     */
+    private trackRequest(session: Session, req: IncomingMessage, res: ServerResponse): void {
+        session.lastActivity = Date.now();
+        if (req.method === "GET") {
+            return;
+        }
+
+        session.activeRequests++;
+        res.once("close", () => {
+            session.activeRequests--;
+            session.lastActivity = Date.now();
+        });
+    }
+}
+
+/**
+ * Returns true if the message is a JSON-RPC request, which has a method and an ID.
+ */
+function isJsonRpcRequest(message: unknown): message is { method: string; id: string | number } {
+    return typeof message === "object"
+        && message !== null
+        && typeof (message as { method?: unknown }).method === "string"
+        && (typeof (message as { id?: unknown }).id === "string" || typeof (message as { id?: unknown }).id === "number");
+}
+
+/**
+ * Reads and parses the JSON body of a request.
+ * Throws if the body is larger than MAX_BODY_BYTES or is not valid JSON.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req as AsyncIterable<Buffer>) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString("utf8")) as unknown;
+}
+
+/**
+ * Writes a JSON-RPC error response without an ID.
+ */
+function writeJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({
+        jsonrpc: "2.0",
+        error: { code, message },
+        id: null,
+    }));
+}
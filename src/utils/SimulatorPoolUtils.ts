@@ -0,0 +1,541 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { z } from "zod";
+import type { ProgressReporter } from "./ProgressUtils.js";
+import { logger } from "./Logger.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * Device types used per family when IOS_SIMULATOR_DEVICE_TYPES is not set
+ */
+export const DEFAULT_IOS_SIMULATOR_DEVICE_TYPES = "iphone=iPhone 17 Pro Max,ipad=iPad Pro 13-inch (M4)";
+
+/**
+ * Families of devices a test can ask for
+ */
+export const deviceFamilySchema = z.enum(["iphone", "ipad"]);
+
+export type DeviceFamily = z.infer<typeof deviceFamilySchema>;
+
+/**
+ * Suffix of the names of the simulators the pool creates, e.g. "iPhone 17 Pro Max (Pistachio 2)"
+ */
+const CREATED_NAME_SUFFIX = "Pistachio";
+
+/**
+ * A simulator as listed by `xcrun simctl list devices -j`
+ */
+export interface SimulatorDevice {
+    udid: string;
+    name: string;
+    /** e.g. "Booted" or "Shutdown" */
+    state: string;
+    isAvailable: boolean;
+    /** Runtime identifier, e.g. "com.apple.CoreSimulator.SimRuntime.iOS-26-2" */
+    runtime: string;
+    /** Version of the runtime, e.g. "26.2" */
+    osVersion: string;
+}
+
+interface SimctlDeviceList {
+    devices?: Record<string, { udid: string; name: string; state: string; isAvailable?: boolean }[]>;
+}
+
+/**
+ * Parses the output of `xcrun simctl list devices -j` into the iOS simulators it lists.
+ * Simulators of other platforms, such as watchOS, are skipped. Throws on malformed output.
+ */
+export function parseSimctlDevices(json: string): SimulatorDevice[] {
+    const list = JSON.parse(json) as SimctlDeviceList;
+    const devices: SimulatorDevice[] = [];
+    for (const [runtime, runtimeDevices] of Object.entries(list.devices ?? {})) {
+        const match = /\.SimRuntime\.iOS-([\d-]+)$/.exec(runtime);
+        if (!match) {
+            continue;
+        }
+        const osVersion = match[1].replace(/-/g, ".");
+        for (const device of runtimeDevices) {
+            devices.push({
+                udid: device.udid,
+                name: device.name,
+                state: device.state,
+                isAvailable: device.isAvailable ?? false,
+                runtime,
+                osVersion,
+            });
+        }
+    }
+    return devices;
+}
+
+/**
+ * An iOS runtime as listed by `xcrun simctl list runtimes -j`
+ */
+export interface SimulatorRuntime {
+    /** e.g. "com.apple.CoreSimulator.SimRuntime.iOS-26-2" */
+    identifier: string;
+    /** e.g. "26.2" */
+    osVersion: string;
+    /** Names of the device types simulators of the runtime can be created with; undefined if not listed */
+    supportedDeviceTypes?: string[];
+}
+
+interface SimctlRuntimeList {
+    runtimes?: {
+        identifier: string;
+        version: string;
+        platform?: string;
+        isAvailable?: boolean;
+        supportedDeviceTypes?: { name: string }[];
+    }[];
+}
+
+/**
+ * Parses the output of `xcrun simctl list runtimes -j` into the installed iOS runtimes that are available.
+ * Runtimes of other platforms are skipped. Throws on malformed output.
+ */
+export function parseSimctlRuntimes(json: string): SimulatorRuntime[] {
+    const list = JSON.parse(json) as SimctlRuntimeList;
+    return (list.runtimes ?? [])
+        .filter((runtime) => runtime.isAvailable && /\.SimRuntime\.iOS-[\d-]+$/.test(runtime.identifier))
+        .map((runtime) => ({
+            identifier: runtime.identifier,
+            osVersion: runtime.version,
+            supportedDeviceTypes: runtime.supportedDeviceTypes?.map((deviceType) => deviceType.name),
+        }));
+}
+
+/**
+ * Parses device types per family of the form `family=device type name,...`,
+ * as set in the IOS_SIMULATOR_DEVICE_TYPES environment variable. Throws on malformed entries.
+ */
+export function parseSimulatorDeviceTypes(value: string): Record<DeviceFamily, string> {
+    const deviceTypes: Partial<Record<DeviceFamily, string>> = {};
+    for (const entry of value.split(",").map((part) => part.trim()).filter((part) => part.length > 0)) {
+        const separator = entry.indexOf("=");
+        const family = deviceFamilySchema.safeParse(entry.slice(0, separator).trim());
+        const deviceType = entry.slice(separator + 1).trim();
+        if (separator === -1 || !family.success || !deviceType) {
+            throw new Error(`Invalid IOS_SIMULATOR_DEVICE_TYPES entry "${entry}": expected iphone|ipad=device type name`);
+        }
+        deviceTypes[family.data] = deviceType;
+    }
+
+    const defaults = Object.fromEntries(
+        DEFAULT_IOS_SIMULATOR_DEVICE_TYPES.split(",").map((entry) => entry.split("="))
+    ) as Record<DeviceFamily, string>;
+    return { ...defaults, ...deviceTypes };
+}
+
+/**
+ * Compares dotted version numbers, e.g. "26.2" > "18.6"
+ */
+function compareVersions(a: string, b: string): number {
+    const partsA = a.split(".").map(Number);
+    const partsB = b.split(".").map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Returns true if a runtime version satisfies a requested version: "26" matches "26.0" and "26.2",
+ * "26.2" matches "26.2" only.
+ */
+function matchesVersion(osVersion: string, requested: string): boolean {
+    return osVersion === requested || osVersion.startsWith(`${requested}.`);
+}
+
+/**
+ * Structured view of a leased simulator returned by the status tool and endpoint
+ */
+export const simulatorSummarySchema = z.object({
+    udid: z.string().describe("UDID of the simulator"),
+    name: z.string().describe("Name of the simulator"),
+    os_version: z.string().describe("iOS version of the simulator"),
+    holder: z.string().optional().describe("Project and test using the simulator"),
+    since: z.string().describe("When the simulator was leased (ISO 8601)"),
+});
+
+export type SimulatorSummary = z.infer<typeof simulatorSummarySchema>;
+
+/**
+ * Snapshot of a leased simulator
+ */
+export interface SimulatorStatus {
+    udid: string;
+    name: string;
+    osVersion: string;
+    holder?: string;
+    /** When the simulator was leased (epoch milliseconds) */
+    since: number;
+}
+
+/**
+ * Builds the structured summary of a leased simulator
+ */
+export function toSimulatorSummary(status: SimulatorStatus): SimulatorSummary {
+    return {
+        udid: status.udid,
+        name: status.name,
+        os_version: status.osVersion,
+        holder: status.holder,
+        since: new Date(status.since).toISOString(),
+    };
+}
+
+/**
+ * A simulator leased to a caller until it calls `release`
+ */
+export interface SimulatorLease {
+    udid: string;
+    name: string;
+    osVersion: string;
+    release: () => void;
+}
+
+/**
+ * Options for creating a simulator pool
+ */
+export interface SimulatorPoolOptions {
+    /** Maximum number of simulators leased at once (default: 1) */
+    size?: number;
+    /** Device type per family (default: DEFAULT_IOS_SIMULATOR_DEVICE_TYPES) */
+    deviceTypes?: Record<DeviceFamily, string>;
+    /** How long to wait for a simulator to boot (default: 2 minutes) */
+    bootTimeoutMs?: number;
+    /** How often to check whether a simulator booted (default: 2 seconds) */
+    bootPollIntervalMs?: number;
+}
+
+/**
+ * Options for leasing a simulator
+ */
+export interface SimulatorLeaseOptions {
+    /** Family of the device (default: "iphone") */
+    deviceFamily?: DeviceFamily;
+    /** iOS version, e.g. "26.2", or "26" for the newest 26.x (default: the newest installed) */
+    osVersion?: string;
+    /** Aborting the signal while waiting for a simulator rejects with the signal's reason */
+    signal?: AbortSignal;
+    /** Description of who leases the simulator, for diagnostics (e.g. "project-1: testLogin") */
+    holder?: string;
+    /** Reports the creation of a simulator */
+    progress?: ProgressReporter;
+}
+
+/**
+ * Options for booting a simulator
+ */
+export interface SimulatorBootOptions {
+    signal?: AbortSignal;
+    progress?: ProgressReporter;
+}
+
+/**
+ * Caller waiting for a free place in the pool
+ */
+interface Waiter {
+    grant: () => void;
+}
+
+/**
+ * Pool of iOS simulators shared by the tests of all projects.
+ * Each test leases a simulator of the device family and iOS version it asks for, preferring a booted one.
+ * When no free simulator matches, one is created on the matching runtime and kept for later tests.
+ * At most `size` simulators are leased at once; further tests wait in FIFO order.
+ */
+export class IosSimulatorPool {
+    private readonly size: number;
+    private readonly deviceTypes: Record<DeviceFamily, string>;
+    private readonly bootTimeoutMs: number;
+    private readonly bootPollIntervalMs: number;
+    private readonly leases = new Map<string, SimulatorStatus>();
+    private readonly waiters: Waiter[] = [];
+    /** Names of the simulators being created, so concurrent leases don't reuse them */
+    private readonly creatingNames = new Set<string>();
+    /** Places taken by leases, including those still looking up or creating their simulator */
+    private reserved = 0;
+
+    constructor(options: SimulatorPoolOptions = {}) {
+        this.size = options.size ?? 1;
+        this.deviceTypes = options.deviceTypes ?? parseSimulatorDeviceTypes(DEFAULT_IOS_SIMULATOR_DEVICE_TYPES);
+        this.bootTimeoutMs = options.bootTimeoutMs ?? 120000;
+        this.bootPollIntervalMs = options.bootPollIntervalMs ?? 2000;
+    }
+
+    /**
+     * Gets the maximum number of simulators leased at once.
+     */
+    getSize(): number {
+        return this.size;
+    }
+
+    /**
+     * Leases a simulator of the requested family and iOS version, waiting behind earlier callers if
+     * the pool is full. The simulator may be shut down; call `ensureBooted` before using it.
+     * Throws when simulators can't be listed, no runtime matches the version, or creating a simulator fails.
+     */
+    async lease(options: SimulatorLeaseOptions = {}): Promise<SimulatorLease> {
+        const { deviceFamily = "iphone", osVersion, signal, holder, progress } = options;
+        await this.reserve(signal);
+
+        try {
+            const deviceType = this.deviceTypes[deviceFamily];
+            let devices: SimulatorDevice[];
+            let runtimes: SimulatorRuntime[];
+            try {
+                devices = await this.listDevices(signal);
+                runtimes = await this.listRuntimes(signal);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to list simulators: ${errorMessage}. Please ensure Xcode command line tools are installed.`);
+            }
+            const runtime = this.findRuntime(runtimes, deviceType, osVersion);
+
+            // The simulators of the device type on the runtime, including the ones the pool created
+            const candidates = devices.filter((device) =>
+                device.isAvailable
+                && device.runtime === runtime.identifier
+                && (device.name === deviceType || device.name.startsWith(`${deviceType} (${CREATED_NAME_SUFFIX} `))
+            );
+            const free = candidates.filter((device) => !this.leases.has(device.udid));
+            const device = free.find((candidate) => candidate.state === "Booted")
+                ?? free[0]
+                ?? await this.createDevice(deviceType, runtime, candidates, { signal, progress });
+
+            return this.grant(device, holder);
+        } catch (error) {
+            this.unreserve();
+            throw error;
+        }
+    }
+
+    /**
+     * Boots a leased simulator unless it is already booted, and waits until it is ready.
+     * Throws with a message suitable for the caller when its state can't be checked or it does not boot in time.
+     */
+    async ensureBooted(udid: string, options: SimulatorBootOptions = {}): Promise<void> {
+        const { signal, progress } = options;
+
+        let isBooted: boolean;
+        try {
+            isBooted = this.isBooted(await this.listDevices(signal), udid);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to check simulator status: ${errorMessage}`);
+        }
+        if (isBooted) {
+            return;
+        }
+
+        await progress?.report(`Booting simulator ${udid}`);
+        try {
+            await execAsync(`xcrun simctl boot ${udid}`, { signal });
+
+            // Wait for simulator to be ready
+            const startTime = Date.now();
+            while (Date.now() - startTime < this.bootTimeoutMs) {
+                await new Promise((resolve) => setTimeout(resolve, this.bootPollIntervalMs));
+                signal?.throwIfAborted();
+                try {
+                    if (this.isBooted(await this.listDevices(), udid)) {
+                        return;
+                    }
+                } catch {
+                    // Continue polling
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to boot simulator: ${errorMessage}`);
+        }
+
+        throw new Error(`Simulator failed to boot within ${this.bootTimeoutMs / 1000} seconds. Please check simulator logs.`);
+    }
+
+    /**
+     * Gets the leased simulators with their holders.
+     */
+    getStatus(): SimulatorStatus[] {
+        return Array.from(this.leases.values(), (lease) => ({ ...lease }));
+    }
+
+    /**
+     * Gets the number of callers waiting for a free place in the pool.
+     */
+    getWaiterCount(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Takes a place in the pool, waiting behind earlier callers if it is full.
+     */
+    private reserve(signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason as Error);
+        }
+        if (this.reserved < this.size) {
+            this.reserved++;
+            return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const waiter: Waiter = {
+                grant: () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve();
+                },
+            };
+            const onAbort = () => {
+                const index = this.waiters.indexOf(waiter);
+                if (index !== -1) {
+                    this.waiters.splice(index, 1);
+                    reject(signal?.reason as Error);
+                }
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Hands a place in the pool to the next waiter, or frees it if nobody is waiting.
+     */
+    private unreserve(): void {
+        const next = this.waiters.shift();
+        if (next) {
+            next.grant();
+            return;
+        }
+        this.reserved--;
+    }
+
+    private grant(device: SimulatorDevice, holder?: string): SimulatorLease {
+        this.leases.set(device.udid, {
+            udid: device.udid,
+            name: device.name,
+            osVersion: device.osVersion,
+            holder,
+            since: Date.now(),
+        });
+
+        let released = false;
+        return {
+            udid: device.udid,
+            name: device.name,
+            osVersion: device.osVersion,
+            release: () => {
+                if (!released) {
+                    released = true;
+                    this.leases.delete(device.udid);
+                    this.unreserve();
+                }
+            },
+        };
+    }
+
+    private async listDevices(signal?: AbortSignal): Promise<SimulatorDevice[]> {
+        const { stdout } = await execAsync("xcrun simctl list devices -j", { signal });
+        return parseSimctlDevices(stdout);
+    }
+
+    private async listRuntimes(signal?: AbortSignal): Promise<SimulatorRuntime[]> {
+        const { stdout } = await execAsync("xcrun simctl list runtimes -j", { signal });
+        return parseSimctlRuntimes(stdout);
+    }
+
+    private isBooted(devices: SimulatorDevice[], udid: string): boolean {
+        return devices.some((device) => device.udid === udid && device.state === "Booted");
+    }
+
+    /**
+     * Finds the newest installed runtime that supports the device type and matches the requested version,
+     * or the newest one supporting the device type when no version is requested.
+     */
+    private findRuntime(runtimes: SimulatorRuntime[], deviceType: string, osVersion?: string): SimulatorRuntime {
+        const supporting = runtimes
+            .filter((runtime) => !runtime.supportedDeviceTypes || runtime.supportedDeviceTypes.includes(deviceType))
+            .sort((a, b) => compareVersions(b.osVersion, a.osVersion));
+
+        const runtime = osVersion === undefined
+            ? supporting[0]
+            : supporting.find((candidate) => matchesVersion(candidate.osVersion, osVersion));
+        if (!runtime) {
+            const available = supporting.map((candidate) => `iOS ${candidate.osVersion}`).join(", ") || "none";
+            throw new Error(`No simulator runtime found for iOS ${osVersion ?? "(any)"} with ${deviceType}. Available runtimes: ${available}`);
+        }
+        return runtime;
+    }
+
+    /**
+     * Creates a simulator of the device type on the runtime, named after the device type
+     * with a number that no other simulator of the type uses.
+     */
+    private async createDevice(
+        deviceType: string,
+        runtime: SimulatorRuntime,
+        candidates: SimulatorDevice[],
+        options: SimulatorBootOptions
+    ): Promise<SimulatorDevice> {
+        const { signal, progress } = options;
+        const takenNames = new Set([...candidates.map((device) => device.name), ...this.creatingNames]);
+        let index = 1;
+        while (takenNames.has(`${deviceType} (${CREATED_NAME_SUFFIX} ${index})`)) {
+            index++;
+        }
+        const name = `${deviceType} (${CREATED_NAME_SUFFIX} ${index})`;
+        this.creatingNames.add(name);
+
+        let udid: string;
+        try {
+            await progress?.report(`Creating simulator ${name} with iOS ${runtime.osVersion}`);
+            const { stdout } = await execAsync(`xcrun simctl create "${name}" "${deviceType}" ${runtime.identifier}`, { signal });
+            udid = stdout.trim();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to create simulator ${name}: ${errorMessage}`);
+        } finally {
+            this.creatingNames.delete(name);
+        }
+
+        logger.info({
+            udid,
+            name,
+            os_version: runtime.osVersion,
+        }, "Created simulator");
+        return {
+            udid,
+            name,
+            state: "Shutdown",
+            isAvailable: true,
+            runtime: runtime.identifier,
+            osVersion: runtime.osVersion,
+        };
+    }
+}
+
+let defaultPool: IosSimulatorPool | undefined;
+
+/**
+ * Gets the pool of simulators sized with IOS_SIMULATOR_POOL_SIZE, with the device types of
+ * IOS_SIMULATOR_DEVICE_TYPES, creating it on first use.
+ */
+export function getIosSimulatorPool(): IosSimulatorPool {
+    if (!defaultPool) {
+        const size = process.env.IOS_SIMULATOR_POOL_SIZE ? Number(process.env.IOS_SIMULATOR_POOL_SIZE) : 1;
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error(`Invalid IOS_SIMULATOR_POOL_SIZE "${process.env.IOS_SIMULATOR_POOL_SIZE}": expected a positive integer`);
+        }
+        defaultPool = new IosSimulatorPool({
+            size,
+            deviceTypes: parseSimulatorDeviceTypes(process.env.IOS_SIMULATOR_DEVICE_TYPES || DEFAULT_IOS_SIMULATOR_DEVICE_TYPES),
+        });
+    }
+    return defaultPool;
+}
@@ -1,32 +1,211 @@
+/**
+ * Error a task is rejected with when it is cancelled before it starts
+ */
+export class TaskCancelledError extends Error {
+    constructor(message: string = "Task was cancelled") {
+        super(message);
+        this.name = "TaskCancelledError";
+    }
+}
+
+/**
+ * Error a task is rejected with when it waits in the queue or runs for longer than allowed
+ */
+export class TaskTimeoutError extends Error {
+    constructor(
+        readonly phase: "queued" | "running",
+        readonly timeoutMs: number
+    ) {
+        super(
+            phase === "queued"
+                ? `Task did not start within ${timeoutMs}ms`
+                : `Task did not finish within ${timeoutMs}ms`
+        );
+        this.name = "TaskTimeoutError";
+    }
+}
+
+/**
+ * Executes a task. When the task has an execution timeout, `signal` is aborted once it is exceeded.
+ */
+export type TaskExecutor<T, R> = (task: T, signal?: AbortSignal) => Promise<R>;
+
+/**
+ * Priority class of a task, from most to least urgent:
+ * - "interactive": quick calls a user is waiting on, such as asset searches
+ * - "normal": builds and test runs
+ * - "background": work nobody is waiting on
+ */
+export type TaskPriority = "interactive" | "normal" | "background";
+
+/**
+ * Rank of each priority class; higher ranks are dispatched first.
+ * Classes are ten aging intervals apart, so a waiting task only catches up with
+ * the next class after waiting ten intervals.
+ */
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+    background: 0,
+    normal: 10,
+    interactive: 20,
+};
+
+/**
+ * Number of fairness keys whose last dispatch is remembered; the least recently served are forgotten first
+ */
+const MAX_FAIRNESS_KEYS = 1000;
+
+/**
+ * Number of recent run durations per duration key that start time estimates are averaged over
+ */
+const DURATION_SAMPLE_SIZE = 20;
+
+/**
+ * Options for creating a task queue
+ */
+export interface TaskQueueOptions {
+    /**
+     * A waiting task moves up one priority rank for each interval it has waited, reaching
+     * the next priority class after ten intervals, so lower priority tasks are not starved
+     * (default: 60 seconds)
+     */
+    agingIntervalMs?: number;
+    /**
+     * Capacity of each named resource pool, e.g. `{ cpu: 2, "android-device": 1 }`.
+     * A task that needs resources only starts when each of its pools has a free slot.
+     */
+    resourcePools?: Record<string, number>;
+}
+
+/**
+ * Capacity and current use of a resource pool
+ */
+export interface ResourcePoolUsage {
+    capacity: number;
+    inUse: number;
+}
+
+/**
+ * Place of a waiting task in the queue
+ */
+export interface QueuedTaskStatus<T> {
+    task: T;
+    /** 1-based position in the order tasks are expected to start */
+    position: number;
+    queueLength: number;
+    priority: TaskPriority;
+    enqueuedAt: number;
+    /**
+     * Estimated start time (epoch milliseconds), based on the average recent durations of the running
+     * and earlier tasks. Undefined until the queue has seen a task finish.
+     */
+    estimatedStartAt?: number;
+}
+
+/**
+ * Options for enqueuing a task
+ */
+export interface EnqueueOptions<T = unknown> {
+    /**
+     * Aborting the signal removes the task from the queue if it has not started yet.
+     * Running tasks are not interrupted by the queue; the executor should observe the signal itself.
+     */
+    signal?: AbortSignal;
+    /**
+     * Priority class of the task (default: "normal")
+     */
+    priority?: TaskPriority;
+    /**
+     * Key the task is scheduled fairly on, such as a user or project ID.
+     * Among tasks of equal priority, the key served least recently goes first.
+     */
+    fairnessKey?: string;
+    /**
+     * Maximum time the task may run. When exceeded, the task is rejected with a TaskTimeoutError
+     * and the executor's signal is aborted; it keeps its worker until the executor settles.
+     */
+    timeoutMs?: number;
+    /**
+     * Maximum time the task may wait in the queue before it is removed and rejected with a TaskTimeoutError
+     */
+    maxQueueWaitMs?: number;
+    /**
+     * Resource pools the task takes one slot of while it runs. Unknown pools reject the task.
+     */
+    resources?: string[];
+    /**
+     * Key the task's run time is averaged on, such as the tool name, to estimate when later tasks start
+     */
+    durationKey?: string;
+    /**
+     * Called while the task waits, when it is enqueued and whenever its position changes
+     */
+    onQueueUpdate?: (status: QueuedTaskStatus<T>) => void;
+}
+
 /**
  * Internal task structure for queue management
  */
 interface QueuedTask<T, R> {
     task: T;
-    executor: (task: T) => Promise<R>;
+    executor: TaskExecutor<T, R>;
     resolve: (value: R) => void;
     reject: (error: Error) => void;
     projectId?: string;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+    queueWaitTimer?: NodeJS.Timeout;
+    timeoutMs?: number;
+    priority: TaskPriority;
+    fairnessKey: string;
+    enqueuedAt: number;
+    resources: string[];
+    durationKey: string;
+    onQueueUpdate?: (status: QueuedTaskStatus<T>) => void;
+    lastReportedPosition?: number;
+    startedAt?: number;
 }
 
 /**
  * Generic task queue that processes tasks concurrently with a configurable worker limit.
- * Tasks are processed in FIFO order, with up to `maxWorkers` tasks executing simultaneously.
+ * Up to `maxWorkers` tasks execute simultaneously. The next task is the one with the highest
+ * priority (raised by aging), then the least recently served fairness key, then the oldest.
+ * Tasks enqueued with default options are therefore processed in FIFO order.
  * When a projectId is provided, only one task per project executes at a time.
+ * Tasks that need resources also wait for a free slot in each of their resource pools.
+ * Run durations are recorded per duration key to estimate when waiting tasks will start.
  */
 export class TaskQueue<T, R> {
     private queue: QueuedTask<T, R>[] = [];
     private activeWorkers = 0;
     private activeTasksByProject = new Map<string, number>();
+    private readonly agingIntervalMs: number;
+    /** Dispatch sequence number of the last task started per fairness key, least recently served first */
+    private lastServedByKey = new Map<string, number>();
+    private dispatchCount = 0;
+    private readonly resourcePools = new Map<string, ResourcePoolUsage>();
+    private runningTasks = new Set<QueuedTask<T, R>>();
+    /** Most recent run durations per duration key, oldest first */
+    private durationsByKey = new Map<string, number[]>();
 
     /**
      * Creates a new TaskQueue instance.
      * @param maxWorkers Maximum number of concurrent tasks to process (default: 1)
+     * @param options Optional scheduling settings
      */
-    constructor(private readonly maxWorkers: number = 1) {
+    constructor(private readonly maxWorkers: number = 1, options: TaskQueueOptions = {}) {
         if (maxWorkers < 1) {
             throw new Error("maxWorkers must be at least 1");
         }
+        this.agingIntervalMs = options.agingIntervalMs ?? 60_000;
+        if (this.agingIntervalMs <= 0) {
+            throw new Error("agingIntervalMs must be positive");
+        }
+        for (const [name, capacity] of Object.entries(options.resourcePools ?? {})) {
+            if (!Number.isInteger(capacity) || capacity < 1) {
+                throw new Error(`Resource pool ${name} must have a capacity of at least 1`);
+            }
+            this.resourcePools.set(name, { capacity, inUse: 0 });
+        }
     }
 
     /**
@@ -34,52 +213,179 @@ export class TaskQueue<T, R> {
      * @param task The task to execute
      * @param executor Function that executes the task and returns a promise
      * @param projectId Optional project ID. If provided, only one task per project executes at a time.
+     * @param options Optional settings, such as an abort signal, priority and timeouts
      * @returns Promise that resolves with the task result or rejects with an error
      */
-    enqueue(task: T, executor: (task: T) => Promise<R>, projectId?: string): Promise<R> {
+    enqueue(task: T, executor: TaskExecutor<T, R>, projectId?: string, options: EnqueueOptions<T> = {}): Promise<R> {
+        const {
+            signal,
+            priority = "normal",
+            fairnessKey = "",
+            timeoutMs,
+            maxQueueWaitMs,
+            resources = [],
+            durationKey = "",
+            onQueueUpdate,
+        } = options;
+
         return new Promise<R>((resolve, reject) => {
-            this.queue.push({
+            if (signal?.aborted) {
+                reject(new TaskCancelledError());
+                return;
+            }
+            const unknownPool = resources.find((name) => !this.resourcePools.has(name));
+            if (unknownPool !== undefined) {
+                reject(new Error(`Unknown resource pool: ${unknownPool}`));
+                return;
+            }
+
+            const queuedTask: QueuedTask<T, R> = {
                 task,
                 executor,
                 resolve,
                 reject,
                 projectId,
-            });
+                signal,
+                timeoutMs,
+                priority,
+                fairnessKey,
+                enqueuedAt: Date.now(),
+                resources,
+                durationKey,
+                onQueueUpdate,
+            };
+
+            if (signal) {
+                queuedTask.onAbort = () => this.removeQueued(queuedTask, new TaskCancelledError());
+                signal.addEventListener("abort", queuedTask.onAbort, { once: true });
+            }
+            if (maxQueueWaitMs !== undefined) {
+                queuedTask.queueWaitTimer = setTimeout(
+                    () => this.removeQueued(queuedTask, new TaskTimeoutError("queued", maxQueueWaitMs)),
+                    maxQueueWaitMs
+                );
+            }
+
+            this.queue.push(queuedTask);
 
             // Trigger queue processing
             this.processQueue();
         });
     }
 
+    /**
+     * Removes a task that has not started yet and rejects it with the given error.
+     * Does nothing if the task already started.
+     */
+    private removeQueued(queuedTask: QueuedTask<T, R>, error: Error): void {
+        const index = this.queue.indexOf(queuedTask);
+        if (index === -1) {
+            return;
+        }
+
+        this.queue.splice(index, 1);
+        this.stopWaiting(queuedTask);
+        queuedTask.reject(error);
+        this.notifyQueueUpdates();
+    }
+
+    /**
+     * Detaches the abort listener and queue wait timer of a task that leaves the queue.
+     */
+    private stopWaiting(queuedTask: QueuedTask<T, R>): void {
+        if (queuedTask.signal && queuedTask.onAbort) {
+            queuedTask.signal.removeEventListener("abort", queuedTask.onAbort);
+        }
+        clearTimeout(queuedTask.queueWaitTimer);
+    }
+
+    /**
+     * Returns the effective priority rank of a waiting task: its class rank plus one per aging interval waited.
+     */
+    private getEffectiveRank(queuedTask: QueuedTask<T, R>, now: number): number {
+        return PRIORITY_RANK[queuedTask.priority] + Math.floor((now - queuedTask.enqueuedAt) / this.agingIntervalMs);
+    }
+
+    /**
+     * Finds the task to start next, or -1 if every waiting task is blocked by its project.
+     * Highest effective rank wins; ties go to the least recently served fairness key, then to the oldest task.
+     */
+    private selectNextTaskIndex(): number {
+        const now = Date.now();
+        let bestIndex = -1;
+        let bestRank = -Infinity;
+        let bestLastServed = Infinity;
+
+        for (let i = 0; i < this.queue.length; i++) {
+            const task = this.queue[i];
+
+            // Tasks with a project ID can run only if that project has no active tasks
+            if (task.projectId && (this.activeTasksByProject.get(task.projectId) ?? 0) > 0) {
+                continue;
+            }
+            // Tasks needing resources can run only if each of their pools has a free slot
+            if (!task.resources.every((name) => this.hasFreeSlot(name))) {
+                continue;
+            }
+
+            const rank = this.getEffectiveRank(task, now);
+            const lastServed = this.lastServedByKey.get(task.fairnessKey) ?? -1;
+            // Strict comparisons keep the earlier task on a full tie
+            if (rank > bestRank || (rank === bestRank && lastServed < bestLastServed)) {
+                bestIndex = i;
+                bestRank = rank;
+                bestLastServed = lastServed;
+            }
+        }
+
+        return bestIndex;
+    }
+
+    /**
+     * Returns true if the named resource pool has a slot that is not in use.
+     */
+    private hasFreeSlot(name: string): boolean {
+        const pool = this.resourcePools.get(name);
+        return pool !== undefined && pool.inUse < pool.capacity;
+    }
+
+    /**
+     * Takes (+1) or returns (-1) one slot of each resource pool a task needs.
+     */
+    private updateResourceUsage(resources: string[], delta: 1 | -1): void {
+        for (const name of resources) {
+            const pool = this.resourcePools.get(name);
+            if (pool) {
+                pool.inUse += delta;
+            }
+        }
+    }
+
+    /**
+     * Records that a task of the given fairness key started, moving the key to the back of the round robin.
+     */
+    private markServed(fairnessKey: string): void {
+        this.lastServedByKey.delete(fairnessKey);
+        this.lastServedByKey.set(fairnessKey, ++this.dispatchCount);
+
+        if (this.lastServedByKey.size > MAX_FAIRNESS_KEYS) {
+            const leastRecentlyServed = this.lastServedByKey.keys().next().value;
+            if (leastRecentlyServed !== undefined) {
+                this.lastServedByKey.delete(leastRecentlyServed);
+            }
+        }
+    }
+
     /**
      * Processes the queue by spawning workers up to maxWorkers limit.
-     * This method is called automatically when tasks are enqueued.
-     * Tasks are processed in FIFO order, but tasks can start if their project has no active tasks.
+     * This method is called automatically when tasks are enqueued and when tasks finish.
      */
     private processQueue(): void {
         // Don't spawn more workers if we're at the limit or queue is empty
         while (this.activeWorkers < this.maxWorkers && this.queue.length > 0) {
-            // Find the first task that can be executed
-            // - Tasks without projectId can always run (if we have capacity)
-            // - Tasks with projectId can run only if that project has 0 active tasks
-            let taskIndex = -1;
-            for (let i = 0; i < this.queue.length; i++) {
-                const task = this.queue[i];
-                if (!task.projectId) {
-                    // Task without project ID can run immediately
-                    taskIndex = i;
-                    break;
-                } else {
-                    // Task with project ID can run only if project has no active tasks
-                    const activeCount = this.activeTasksByProject.get(task.projectId) ?? 0;
-                    if (activeCount === 0) {
-                        taskIndex = i;
-                        break;
-                    }
-                }
-            }
+            const taskIndex = this.selectNextTaskIndex();
 
-            // If no task can be executed, break (they're all waiting for their projects)
+            // If no task can be executed, break (they're all waiting for their projects or resources)
             if (taskIndex === -1) {
                 break;
             }
@@ -90,16 +396,39 @@ export class TaskQueue<T, R> {
             }
 
             this.activeWorkers++;
+            this.markServed(queuedTask.fairnessKey);
+            queuedTask.startedAt = Date.now();
+            this.runningTasks.add(queuedTask);
+
+            // From here on, cancellation is up to the executor
+            this.stopWaiting(queuedTask);
 
             // If task has a project ID, increment the active count for that project
             if (queuedTask.projectId) {
                 const currentCount = this.activeTasksByProject.get(queuedTask.projectId) ?? 0;
                 this.activeTasksByProject.set(queuedTask.projectId, currentCount + 1);
             }
+            this.updateResourceUsage(queuedTask.resources, 1);
+
+            // Reject the task once it exceeds its execution timeout and tell the executor to stop
+            let executionTimer: NodeJS.Timeout | undefined;
+            let timeoutSignal: AbortSignal | undefined;
+            const { timeoutMs } = queuedTask;
+            if (timeoutMs !== undefined) {
+                const timeoutController = new AbortController();
+                timeoutSignal = timeoutController.signal;
+                executionTimer = setTimeout(() => {
+                    const error = new TaskTimeoutError("running", timeoutMs);
+                    timeoutController.abort(error);
+                    queuedTask.reject(error);
+                }, timeoutMs);
+            }
 
             // Execute the task asynchronously
-            queuedTask
-                .executor(queuedTask.task)
+            const execution = timeoutSignal
+                ? queuedTask.executor(queuedTask.task, timeoutSignal)
+                : queuedTask.executor(queuedTask.task);
+            execution
                 .then((result) => {
                     queuedTask.resolve(result);
                 })
@@ -107,7 +436,11 @@ export class TaskQueue<T, R> {
                     queuedTask.reject(error instanceof Error ? error : new Error(String(error)));
                 })
                 .finally(() => {
+                    clearTimeout(executionTimer);
                     this.activeWorkers--;
+                    this.runningTasks.delete(queuedTask);
+                    this.recordDuration(queuedTask.durationKey, Date.now() - (queuedTask.startedAt ?? Date.now()));
+                    this.updateResourceUsage(queuedTask.resources, -1);
 
                     // If task has a project ID, decrement the active count for that project
                     if (queuedTask.projectId) {
@@ -123,6 +456,128 @@ export class TaskQueue<T, R> {
                     this.processQueue();
                 });
         }
+
+        this.notifyQueueUpdates();
+    }
+
+    /**
+     * Records the run duration of a finished task, keeping the most recent samples per key.
+     */
+    private recordDuration(durationKey: string, durationMs: number): void {
+        const durations = this.durationsByKey.get(durationKey) ?? [];
+        durations.push(durationMs);
+        if (durations.length > DURATION_SAMPLE_SIZE) {
+            durations.shift();
+        }
+        this.durationsByKey.set(durationKey, durations);
+    }
+
+    /**
+     * Returns the average recent duration of tasks with the given key,
+     * falling back to the average over all keys, or undefined before any task finished.
+     */
+    private estimateDuration(durationKey: string): number | undefined {
+        const durations = this.durationsByKey.get(durationKey) ?? Array.from(this.durationsByKey.values()).flat();
+        if (durations.length === 0) {
+            return undefined;
+        }
+        return durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+    }
+
+    /**
+     * Sorts waiting tasks in the order they are expected to start: the dispatch order,
+     * ignoring whether their project or resources are currently busy.
+     */
+    private getDispatchOrder(now: number): QueuedTask<T, R>[] {
+        return this.queue
+            .map((task, index) => ({
+                task,
+                index,
+                rank: this.getEffectiveRank(task, now),
+                lastServed: this.lastServedByKey.get(task.fairnessKey) ?? -1,
+            }))
+            .sort((a, b) => b.rank - a.rank || a.lastServed - b.lastServed || a.index - b.index)
+            .map(({ task }) => task);
+    }
+
+    /**
+     * Estimates the start time of each waiting task by replaying the queue in dispatch order.
+     * Workers, resource pool slots and projects are modelled as slots that free up when the task
+     * holding them is expected to finish; each task starts once all of its slots are free.
+     */
+    private estimateStartTimes(ordered: QueuedTask<T, R>[], now: number): Map<QueuedTask<T, R>, number> {
+        const estimates = new Map<QueuedTask<T, R>, number>();
+        const slots = new Map<string, number[]>([["worker", Array<number>(this.maxWorkers).fill(now)]]);
+        for (const [name, pool] of this.resourcePools) {
+            slots.set(`pool:${name}`, Array<number>(pool.capacity).fill(now));
+        }
+        const slotGroupsOf = (task: QueuedTask<T, R>) => [
+            "worker",
+            ...task.resources.map((name) => `pool:${name}`),
+            ...(task.projectId ? [`project:${task.projectId}`] : []),
+        ];
+        // Takes the earliest free slot of each group until the given time
+        const occupy = (groups: string[], until: number) => {
+            for (const group of groups) {
+                const free = slots.get(group) ?? [now];
+                free[free.indexOf(Math.min(...free))] = until;
+                slots.set(group, free);
+            }
+        };
+
+        for (const task of this.runningTasks) {
+            const duration = this.estimateDuration(task.durationKey);
+            if (duration === undefined) {
+                return estimates;
+            }
+            occupy(slotGroupsOf(task), Math.max(now, (task.startedAt ?? now) + duration));
+        }
+        for (const task of ordered) {
+            const duration = this.estimateDuration(task.durationKey);
+            if (duration === undefined) {
+                return estimates;
+            }
+            const groups = slotGroupsOf(task);
+            const start = Math.max(...groups.map((group) => Math.min(...(slots.get(group) ?? [now]))));
+            estimates.set(task, start);
+            occupy(groups, start + duration);
+        }
+        return estimates;
+    }
+
+    /**
+     * Calls the queue update callback of each waiting task whose position changed.
+     */
+    private notifyQueueUpdates(): void {
+        if (!this.queue.some((task) => task.onQueueUpdate)) {
+            return;
+        }
+
+        const statuses = this.getQueuedTaskStatuses();
+        for (const [queuedTask, status] of statuses) {
+            if (queuedTask.onQueueUpdate && queuedTask.lastReportedPosition !== status.position) {
+                queuedTask.lastReportedPosition = status.position;
+                queuedTask.onQueueUpdate(status);
+            }
+        }
+    }
+
+    /**
+     * Builds the status of each waiting task, in dispatch order.
+     */
+    private getQueuedTaskStatuses(): Map<QueuedTask<T, R>, QueuedTaskStatus<T>> {
+        const now = Date.now();
+        const ordered = this.getDispatchOrder(now);
+        const estimates = this.estimateStartTimes(ordered, now);
+
+        return new Map(ordered.map((queuedTask, index) => [queuedTask, {
+            task: queuedTask.task,
+            position: index + 1,
+            queueLength: ordered.length,
+            priority: queuedTask.priority,
+            enqueuedAt: queuedTask.enqueuedAt,
+            estimatedStartAt: estimates.get(queuedTask),
+        }]));
     }
 
     /**
@@ -153,4 +608,42 @@ export class TaskQueue<T, R> {
     getActiveTasksByProject(): Map<string, number> {
         return new Map(this.activeTasksByProject);
     }
+
+    /**
+     * Gets the capacity and current use of each resource pool.
+     */
+    getResourcePools(): Map<string, ResourcePoolUsage> {
+        return new Map(Array.from(this.resourcePools, ([name, pool]) => [name, { ...pool }]));
+    }
+
+    /**
+     * Gets the waiting tasks in the order they are expected to start, with their estimated start times.
+     */
+    getQueuedTasks(): QueuedTaskStatus<T>[] {
+        return Array.from(this.getQueuedTaskStatuses().values());
+    }
+
+    /**
+     * Gets the average recent run duration in milliseconds per duration key.
+     */
+    getAverageDurations(): Map<string, number> {
+        return new Map(Array.from(this.durationsByKey.keys(), (key) => [key, this.estimateDuration(key) ?? 0]));
+    }
+}
+
+/**
+ * Parses resource pool capacities of the form `pool_name=capacity,...`,
+ * as set in the RESOURCE_POOLS environment variable. Throws on malformed entries.
+ */
+export function parseResourcePools(value: string): Record<string, number> {
+    const pools: Record<string, number> = {};
+    for (const entry of value.split(",").map((part) => part.trim()).filter((part) => part.length > 0)) {
+        const [name, capacity] = entry.split("=").map((part) => part.trim());
+        const size = Number(capacity);
+        if (!name || !Number.isInteger(size) || size < 1) {
+            throw new Error(`Invalid RESOURCE_POOLS entry "${entry}": expected pool_name=capacity`);
+        }
+        pools[name] = size;
+    }
+    return pools;
 }
@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { Storage } from "@google-cloud/storage";
+import { randomUUID } from "crypto";
+import { formatDeviceLogs, type DeviceLogs } from "../../skills/shared/device-logs.js";
+import { toJsonReport, toJUnitXml, type TestReport } from "../../skills/shared/test-report.js";
+import { logger } from "./Logger.js";
+import type { ToolResourceLink } from "./ToolRegistryUtils.js";
+
+/**
+ * Failed assertion or error of a test case
+ */
+export const testFailureSchema = z.object({
+    message: z.string().describe("Failure message"),
+    file: z.string().optional().describe("Source file of the failure"),
+    line: z.number().optional().describe("Line of the failure in the source file"),
+});
+
+export type TestFailure = z.infer<typeof testFailureSchema>;
+
+/**
+ * File a test case attached to its result, such as a screenshot
+ */
+export const testAttachmentSchema = z.object({
+    name: z.string().describe("Name the test gave the attachment"),
+    filename: z.string().describe("File name of the attachment in the result bundle"),
+    uniform_type_identifier: z.string().optional().describe("Type of the file, e.g. 'public.png'"),
+});
+
+/**
+ * Result of a single test case in a test run
+ */
+export const testCaseResultSchema = z.object({
+    class_name: z.string().describe("Fully qualified class of the test"),
+    test_name: z.string().describe("Test method"),
+    status: z
+        .enum(["passed", "failed", "ignored", "assumption_failure", "skipped", "expected_failure"])
+        .describe(
+            "Whether the test passed, failed, was ignored, was skipped because an assumption did not hold (Android) "
+            + "or by XCTSkip (iOS), or failed as expected (iOS)"
+        ),
+    duration_ms: z.number().optional().describe("How long the test ran, when measured"),
+    stack_trace: z.string().optional().describe("Stack trace of a failed test, or of the assumption that did not hold"),
+    failures: z.array(testFailureSchema).optional().describe("Failures of the test with their location, when the run reports them"),
+    attachments: z.array(testAttachmentSchema).optional().describe("Files the test attached to its result"),
+});
+
+export type TestCaseResult = z.infer<typeof testCaseResultSchema>;
+
+/**
+ * Formats the result of a test case as a summary line, e.g. "PASSED com.example.LoginTest#testLogin (1.2s)"
+ */
+export function formatTestCase(testCase: TestCaseResult): string {
+    const duration = testCase.duration_ms !== undefined ? ` (${(testCase.duration_ms / 1000).toFixed(1)}s)` : "";
+    return `${testCase.status.toUpperCase()} ${testCase.class_name}#${testCase.test_name}${duration}`;
+}
+
+/**
+ * Number of entries by severity in the device logs of a test run
+ */
+export const deviceLogSummarySchema = z.object({
+    fatal: z.number().describe("Fatal entries: logcat assertions, or faults on iOS"),
+    error: z.number(),
+    warning: z.number(),
+    info: z.number(),
+    debug: z.number(),
+    verbose: z.number(),
+    crashes: z.number().describe("Crashes of the app"),
+    anrs: z.number().describe("ANRs of the app (Android only)"),
+});
+
+/**
+ * Structured result of a remote test run, shared by the Android and iOS remote test tools.
+ * Frames are returned separately as image content blocks.
+ */
+export const testRunResultSchema = z.object({
+    success: z.boolean().describe("Whether the test passed"),
+    output: z.string().describe("Test output, or the extracted error logs when available"),
+    screenrecord: z.string().optional().describe("URL of the uploaded screen recording"),
+    frame_count: z.number().describe("Number of frames extracted from the screen recording"),
+    test_cases: z.array(testCaseResultSchema).optional().describe("Result of each test case, when the run reports them"),
+    junit_report: z.string().optional().describe("URL of the uploaded JUnit XML report"),
+    json_report: z.string().optional().describe("URL of the uploaded JSON report"),
+    device_logs: z.string().optional().describe("URL of the uploaded logs of the app, with its crashes and ANRs"),
+    device_log_summary: deviceLogSummarySchema.optional().describe("Number of log entries by severity, and of crashes and ANRs"),
+});
+
+export type TestRunResult = z.infer<typeof testRunResultSchema>;
+
+/**
+ * Uploads a file to the weekly expiring bucket, next to the screen recordings of the project,
+ * and returns its public URL.
+ */
+async function uploadToWeeklyExpiringBucket(projectId: string, extension: string, content: string, contentType: string): Promise<string> {
+    const storage = new Storage();
+    const bucketName =
+        process.env.GCS_BUCKET_WEEKLY_EXPIRING ||
+        "dev-pistachio-assets-weekly-expiring";
+
+    // Strip gs:// prefix if present
+    let finalBucketName = bucketName;
+    if (finalBucketName.startsWith("gs://")) {
+        finalBucketName = finalBucketName.substring(5);
+    }
+
+    const filename = `${randomUUID()}.${extension}`;
+    await storage.bucket(finalBucketName).file(`${projectId}/${filename}`).save(content, {
+        metadata: {
+            contentType,
+        },
+    });
+    return `https://storage.googleapis.com/${finalBucketName}/${projectId}/${filename}`;
+}
+
+/**
+ * Uploads the report of a test run as JUnit XML and JSON. Failures are logged and leave
+ * the report out of the result.
+ */
+export async function uploadTestReport(projectId: string, report: TestReport): Promise<{ junitUrl?: string; jsonUrl?: string }> {
+    const upload = async (extension: string, content: string, contentType: string) => {
+        try {
+            return await uploadToWeeklyExpiringBucket(projectId, extension, content, contentType);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn({
+                project_id: projectId,
+                report_format: extension,
+                error_message: errorMessage,
+            }, "Could not upload test report to GCS");
+            return undefined;
+        }
+    };
+    return {
+        junitUrl: await upload("xml", toJUnitXml(report), "application/xml"),
+        jsonUrl: await upload("json", toJsonReport(report), "application/json"),
+    };
+}
+
+/**
+ * Links to the uploaded reports of a test run, for the result of a test tool
+ */
+export function getTestReportLinks(urls: { junitUrl?: string; jsonUrl?: string }): ToolResourceLink[] {
+    return [
+        ...(urls.junitUrl ? [{ uri: urls.junitUrl, name: "report.xml", mimeType: "application/xml" }] : []),
+        ...(urls.jsonUrl ? [{ uri: urls.jsonUrl, name: "report.json", mimeType: "application/json" }] : []),
+    ];
+}
+
+/**
+ * Uploads the device logs of a test run as a text file. Failures are logged and leave
+ * the logs out of the result.
+ */
+export async function uploadDeviceLogs(projectId: string, logs: DeviceLogs): Promise<string | undefined> {
+    try {
+        return await uploadToWeeklyExpiringBucket(projectId, "log", formatDeviceLogs(logs), "text/plain");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn({
+            project_id: projectId,
+            error_message: errorMessage,
+        }, "Could not upload device logs to GCS");
+        return undefined;
+    }
+}
+
+/**
+ * Link to the uploaded device logs of a test run, for the result of a test tool
+ */
+export function getDeviceLogsLinks(url: string | undefined): ToolResourceLink[] {
+    return url ? [{ uri: url, name: "device.log", mimeType: "text/plain" }] : [];
+}
@@ -0,0 +1,488 @@
+import { z } from "zod";
+import type { ContentBlock, Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ProjectRole } from "./ServerStorageUtils.js";
+import type { ProgressReporter } from "./ProgressUtils.js";
+import type { TaskPriority, TaskQueue } from "./TaskQueueUtils.js";
+import type { JobManager } from "./JobManagerUtils.js";
+import { jobStatusSchema } from "./JobStoreUtils.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Base64-encoded image produced by a tool, e.g. a frame extracted from a screen recording
+ */
+export interface ToolImage {
+    data: string;
+    mimeType: string;
+}
+
+/**
+ * Link to a resource produced by a tool, e.g. an uploaded screen recording
+ */
+export interface ToolResourceLink {
+    uri: string;
+    name: string;
+    mimeType?: string;
+    description?: string;
+}
+
+/**
+ * Result returned by every tool handler.
+ * `output` is the text fallback; `structuredContent` must match the tool's output schema.
+ * Images and links are returned to the client as MCP image and resource_link content blocks.
+ */
+export interface ToolResult<O = Record<string, unknown>> {
+    output: string;
+    success: boolean;
+    structuredContent?: O;
+    images?: ToolImage[];
+    links?: ToolResourceLink[];
+    /**
+     * Content blocks returned as they are instead of the ones built from output, images and links,
+     * e.g. the stored result of a job
+     */
+    content?: ContentBlock[];
+}
+
+/**
+ * Result of running a tool through the registry, in MCP CallTool shape
+ */
+export type ToolCallResult = {
+    content: ContentBlock[];
+    structuredContent?: Record<string, unknown>;
+    isError: boolean;
+};
+
+/**
+ * Task queued for each tool call
+ */
+export interface ToolTask {
+    name: string;
+    args: unknown;
+    userId?: string;
+    progress?: ProgressReporter;
+    signal?: AbortSignal;
+}
+
+/**
+ * Per-call information passed to tool handlers alongside the arguments
+ */
+export interface ToolContext {
+    /** ID of the authenticated caller; undefined when authentication is disabled */
+    userId?: string;
+    /** Reports the steps of long-running calls; undefined when the client did not ask for progress */
+    progress?: ProgressReporter;
+    /** Aborted when the client cancels the call or disconnects; pass it to child processes */
+    signal?: AbortSignal;
+    /** Background jobs, for the tools that inspect and cancel them; undefined when jobs are disabled */
+    jobs?: JobManager;
+    /** Queue of tool calls, for the tool that reports on it */
+    queue?: TaskQueue<ToolTask, ToolCallResult>;
+}
+
+/**
+ * Declarative description of a tool.
+ * Tool modules export one of these and register it with a ToolRegistry.
+ */
+export interface ToolDefinition<S extends z.ZodObject = z.ZodObject, O extends z.ZodObject = z.ZodObject> {
+    name: string;
+    description: string;
+    inputSchema: S;
+    /**
+     * Schema of the structured content returned by successful calls
+     */
+    outputSchema?: O;
+    handler: (args: z.infer<S>, context: ToolContext) => Promise<ToolResult<z.infer<O>>>;
+    /**
+     * When true, calls carrying a `project_id` argument are serialized per project
+     * in the task queue.
+     */
+    requiresProjectLock?: boolean;
+    /**
+     * Minimum role the caller needs on the `project_id` project.
+     * Required for every tool whose input accepts a `project_id`.
+     */
+    projectRole?: ProjectRole;
+    /**
+     * Priority of calls in the task queue (default: "normal").
+     * Quick calls a user waits on, like searches, should be "interactive".
+     */
+    priority?: TaskPriority;
+    /**
+     * Default maximum run time of a call in milliseconds; no limit when unset.
+     * Can be overridden per tool with TOOL_TIMEOUTS_MS.
+     */
+    timeoutMs?: number;
+    /**
+     * Resource pools a call takes one slot of while it runs, e.g. ["cpu", "android-device"].
+     * Calls without resources are only limited by the total number of workers.
+     */
+    resources?: string[];
+    /**
+     * When true, the tool accepts an `as_job` argument that runs the call as a background job
+     * and returns a job ID right away. The listed output schema gains the job fields and its
+     * other fields become optional.
+     */
+    supportsJobs?: boolean;
+    /**
+     * When true, calls run right away instead of waiting in the task queue, so they answer
+     * even while every worker is busy. Only for quick calls that read or update server state.
+     */
+    bypassQueue?: boolean;
+}
+
+/**
+ * Input field added to tools that support jobs
+ */
+const jobRequestShape = {
+    as_job: z
+        .boolean()
+        .optional()
+        .describe("Return a job ID right away instead of waiting for the result. Poll it with get_job_status and get_job_result."),
+};
+
+/**
+ * Output fields added to tools that support jobs
+ */
+const jobHandleShape = {
+    job_id: z.string().optional().describe("ID of the background job, when started with as_job"),
+    job_status: jobStatusSchema.optional().describe("Status of the background job, when started with as_job"),
+};
+
+/**
+ * Maps a tool result onto MCP content blocks: a text summary, followed by
+ * one image block per image and one resource_link block per link. Content blocks the result
+ * already carries are returned unchanged.
+ */
+export function toContentBlocks(result: ToolResult<unknown>): ContentBlock[] {
+    if (result.content) {
+        return result.content;
+    }
+    const images = result.images ?? [];
+    const links = result.links ?? [];
+
+    const summary = [result.success ? result.output : `Error: ${result.output}`];
+    if (images.length > 0) {
+        summary.push(`Captured ${images.length} image${images.length === 1 ? "" : "s"}.`);
+    }
+    for (const link of links) {
+        summary.push(`${link.name}: ${link.uri}`);
+    }
+
+    return [
+        {
+            type: "text",
+            text: summary.filter((line) => line.length > 0).join("\n\n"),
+        },
+        ...images.map((image): ContentBlock => ({
+            type: "image",
+            data: image.data,
+            mimeType: image.mimeType,
+        })),
+        ...links.map((link): ContentBlock => ({
+            type: "resource_link",
+            uri: link.uri,
+            name: link.name,
+            mimeType: link.mimeType,
+            description: link.description,
+        })),
+    ];
+}
+
+/**
+ * Type-erased view of a registered tool, used for listing and dispatch
+ */
+interface RegisteredTool {
+    name: string;
+    description: string;
+    inputSchema: z.ZodObject;
+    outputSchema?: z.ZodObject;
+    requiresProjectLock: boolean;
+    projectRole?: ProjectRole;
+    priority: TaskPriority;
+    timeoutMs?: number;
+    resources: string[];
+    supportsJobs: boolean;
+    bypassQueue: boolean;
+    run: (args: unknown, context: ToolContext) => Promise<ToolResult<unknown>>;
+}
+
+/**
+ * Extracts project ID from tool arguments.
+ * Returns the project_id if present, undefined otherwise.
+ */
+export function extractProjectId(args: unknown): string | undefined {
+    if (args && typeof args === "object" && "project_id" in args) {
+        const projectId = (args as { project_id?: unknown }).project_id;
+        if (typeof projectId === "string") {
+            return projectId;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parses per-tool timeout overrides of the form `tool_name=milliseconds,...`,
+ * as set in the TOOL_TIMEOUTS_MS environment variable. Throws on malformed entries.
+ */
+export function parseToolTimeouts(value: string | undefined = process.env.TOOL_TIMEOUTS_MS): Record<string, number> {
+    const timeouts: Record<string, number> = {};
+    if (!value) {
+        return timeouts;
+    }
+
+    for (const entry of value.split(",").map((part) => part.trim()).filter((part) => part.length > 0)) {
+        const [name, ms] = entry.split("=").map((part) => part.trim());
+        const timeoutMs = Number(ms);
+        if (!name || !Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+            throw new Error(`Invalid TOOL_TIMEOUTS_MS entry "${entry}": expected tool_name=milliseconds`);
+        }
+        timeouts[name] = timeoutMs;
+    }
+    return timeouts;
+}
+
+/**
+ * Registry of MCP tools. Builds the `tools/list` response and dispatches `tools/call`
+ * requests with shared validation, logging and error wrapping.
+ */
+export class ToolRegistry {
+    private readonly tools = new Map<string, RegisteredTool>();
+
+    /**
+     * Registers a tool. Throws if a tool with the same name is already registered,
+     * or if the tool accepts a `project_id` without declaring the role it requires.
+     * @returns The registry, so registrations can be chained
+     */
+    register<S extends z.ZodObject, O extends z.ZodObject>(tool: ToolDefinition<S, O>): this {
+        if (this.tools.has(tool.name)) {
+            throw new Error(`Tool already registered: ${tool.name}`);
+        }
+        if ("project_id" in tool.inputSchema.shape && !tool.projectRole) {
+            throw new Error(`Tool ${tool.name} accepts project_id but declares no projectRole`);
+        }
+
+        const supportsJobs = tool.supportsJobs ?? false;
+        this.tools.set(tool.name, {
+            name: tool.name,
+            description: tool.description,
+            inputSchema: supportsJobs ? tool.inputSchema.extend(jobRequestShape) : tool.inputSchema,
+            outputSchema: supportsJobs && tool.outputSchema
+                ? tool.outputSchema.partial().extend(jobHandleShape)
+                : tool.outputSchema,
+            requiresProjectLock: tool.requiresProjectLock ?? false,
+            projectRole: tool.projectRole,
+            priority: tool.priority ?? "normal",
+            timeoutMs: tool.timeoutMs,
+            resources: tool.resources ?? [],
+            supportsJobs,
+            bypassQueue: tool.bypassQueue ?? false,
+            run: (args: unknown, context: ToolContext) => tool.handler(tool.inputSchema.parse(args), context),
+        });
+        return this;
+    }
+
+    /**
+     * Returns true if a tool with the given name is registered.
+     */
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    /**
+     * Gets the names of all registered tools, in registration order.
+     */
+    getToolNames(): string[] {
+        return Array.from(this.tools.keys());
+    }
+
+    /**
+     * Builds the tool entries for a `tools/list` response.
+     * Zod input and output schemas are converted to JSON Schema.
+     */
+    listTools(): Tool[] {
+        return Array.from(this.tools.values()).map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: z.toJSONSchema(tool.inputSchema, { io: "input" }) as Tool["inputSchema"],
+            outputSchema: tool.outputSchema
+                ? (z.toJSONSchema(tool.outputSchema, { io: "output" }) as Tool["outputSchema"])
+                : undefined,
+        }));
+    }
+
+    /**
+     * Returns the key a call should be serialized on in the task queue, if any.
+     * Only tools with `requiresProjectLock` are serialized, keyed by their `project_id` argument.
+     */
+    getProjectLockKey(name: string, args: unknown): string | undefined {
+        const tool = this.tools.get(name);
+        if (!tool || !tool.requiresProjectLock) {
+            return undefined;
+        }
+        return extractProjectId(args);
+    }
+
+    /**
+     * Returns the queue priority of a tool's calls; "normal" for unknown tools.
+     */
+    getPriority(name: string): TaskPriority {
+        return this.tools.get(name)?.priority ?? "normal";
+    }
+
+    /**
+     * Returns the default maximum run time of a tool's calls, or undefined if unlimited.
+     */
+    getTimeout(name: string): number | undefined {
+        return this.tools.get(name)?.timeoutMs;
+    }
+
+    /**
+     * Returns the resource pools a tool's calls need; none for unknown tools.
+     */
+    getResources(name: string): string[] {
+        return this.tools.get(name)?.resources ?? [];
+    }
+
+    /**
+     * Gets the names of the resource pools needed by any registered tool.
+     */
+    getResourceNames(): string[] {
+        return Array.from(new Set(Array.from(this.tools.values()).flatMap((tool) => tool.resources)));
+    }
+
+    /**
+     * Returns true if the tool's calls run outside the task queue.
+     */
+    bypassesQueue(name: string): boolean {
+        return this.tools.get(name)?.bypassQueue ?? false;
+    }
+
+    /**
+     * Returns true if the tool supports jobs.
+     */
+    supportsJobs(name: string): boolean {
+        return this.tools.get(name)?.supportsJobs ?? false;
+    }
+
+    /**
+     * Returns true if any registered tool supports jobs.
+     */
+    hasJobTools(): boolean {
+        return Array.from(this.tools.values()).some((tool) => tool.supportsJobs);
+    }
+
+    /**
+     * Returns true if the call asks to run as a background job with `as_job: true`.
+     */
+    isJobRequest(name: string, args: unknown): boolean {
+        return this.supportsJobs(name)
+            && typeof args === "object"
+            && args !== null
+            && (args as { as_job?: unknown }).as_job === true;
+    }
+
+    /**
+     * Returns the project a call operates on and the role the caller needs on it, if any.
+     */
+    getProjectAccessRequirement(name: string, args: unknown): { projectId: string; role: ProjectRole } | undefined {
+        const tool = this.tools.get(name);
+        const projectId = extractProjectId(args);
+        if (!tool?.projectRole || !projectId) {
+            return undefined;
+        }
+        return { projectId, role: tool.projectRole };
+    }
+
+    /**
+     * Validates the arguments and runs the named tool, logging the outcome.
+     * Validation and execution errors are returned as error results rather than thrown.
+     */
+    async callTool(name: string, args: unknown, context: ToolContext = {}): Promise<ToolCallResult> {
+        const startTime = Date.now();
+        const tool = this.tools.get(name);
+
+        if (!tool) {
+            const durationMs = Date.now() - startTime;
+            logger.error({
+                tool_name: name,
+                user_id: context.userId,
+                duration_ms: durationMs,
+                status: "unknown_tool",
+            }, "Unknown tool requested");
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error: Unknown tool: ${name}`,
+                    },
+                ],
+                isError: true,
+            };
+        }
+
+        try {
+            const result = await tool.run(args, context);
+            const durationMs = Date.now() - startTime;
+
+            // Structured content is validated so clients can rely on the declared output schema
+            const structuredContent =
+                tool.outputSchema && result.structuredContent !== undefined
+                    ? tool.outputSchema.parse(result.structuredContent)
+                    : undefined;
+
+            if (context.signal?.aborted) {
+                logger.info({
+                    tool_name: name,
+                    user_id: context.userId,
+                    duration_ms: durationMs,
+                    status: "cancelled",
+                }, "Tool call cancelled");
+            } else if (result.success) {
+                logger.info({
+                    tool_name: name,
+                    user_id: context.userId,
+                    duration_ms: durationMs,
+                    status: "success",
+                }, "Tool call completed successfully");
+            } else {
+                logger.warn({
+                    tool_name: name,
+                    user_id: context.userId,
+                    duration_ms: durationMs,
+                    status: "execution_error",
+                    reason: result.output,
+                }, "Tool call failed");
+            }
+
+            return {
+                content: toContentBlocks(result),
+                structuredContent,
+                isError: !result.success,
+            };
+        } catch (error) {
+            const durationMs = Date.now() - startTime;
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const errorStack = error instanceof Error ? error.stack : undefined;
+
+            logger.error({
+                tool_name: name,
+                user_id: context.userId,
+                duration_ms: durationMs,
+                status: "validation_error",
+                reason: errorMessage,
+                stack: errorStack,
+            }, "Tool call validation failed");
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error: ${errorMessage}`,
+                    },
+                ],
+                isError: true,
+            };
+        }
+    }
+}
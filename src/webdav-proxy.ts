@@ -4,6 +4,9 @@ import { join, resolve, normalize } from "path";
 import { homedir } from "os";
 import { statSync, existsSync } from "fs";
 import { logger } from "./utils/Logger.js";
+import { authenticateRequest, getUserId, loadTokenStore, type AuthenticatedRequest, type TokenStore } from "./utils/AuthUtils.js";
+import { checkProjectAccess } from "./utils/ProjectAccessUtils.js";
+import type { ProjectRole } from "./utils/ServerStorageUtils.js";
 import { URL } from "url";
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 8080;
@@ -17,6 +20,9 @@ const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 // Allowed HTTP methods for rclone sync
 const ALLOWED_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "PROPFIND", "OPTIONS", "MKCOL"]);
 
+// Methods that only read project files
+const READ_METHODS = new Set(["GET", "HEAD", "PROPFIND", "OPTIONS"]);
+
 // Blocked file extensions (explicitly blocked)
 const BLOCKED_EXTENSIONS = new Set([
     ".sh",
@@ -57,9 +63,22 @@ function isExtensionAllowed(path: string): boolean {
 }
 
 /**
- * Validates if a path is safe and within the projects root
+ * Returns the project role needed for an HTTP method: reads need "viewer", writes need "editor"
  */
-export function validatePath(requestPath: string): { valid: boolean; error?: string; resolvedPath?: string } {
+export function getRequiredProjectRole(method: string | undefined): ProjectRole {
+    return READ_METHODS.has(method || "") ? "viewer" : "editor";
+}
+
+/**
+ * Validates if a path is safe and within the projects root.
+ * Returns the project ID (first path segment) for paths inside a project.
+ */
+export function validatePath(requestPath: string): {
+    valid: boolean;
+    error?: string;
+    resolvedPath?: string;
+    projectId?: string;
+} {
     try {
         // Parse and normalize the path
         const url = new URL(requestPath, `http://localhost`);
@@ -94,8 +113,8 @@ export function validatePath(requestPath: string): { valid: boolean; error?: str
         // For PUT/DELETE operations, ensure the project directory exists
         // Extract project ID (first segment of path)
         const segments = pathname.split("/").filter((s) => s.length > 0);
-        if (segments.length > 0) {
-            const projectId = segments[0];
+        const projectId = segments.length > 0 ? segments[0] : undefined;
+        if (projectId) {
             const projectPath = join(PROJECTS_ROOT, projectId);
 
             if (!existsSync(projectPath)) {
@@ -125,6 +144,7 @@ export function validatePath(requestPath: string): { valid: boolean; error?: str
         return {
             valid: true,
             resolvedPath: normalizedResolved,
+            projectId,
         };
     } catch (error) {
         return {
@@ -135,9 +155,10 @@ export function validatePath(requestPath: string): { valid: boolean; error?: str
 }
 
 /**
- * Validates the request before proxying
+ * Validates the request before proxying.
+ * Authenticated requests must also target a project on which the user has the role the method requires.
  */
-function validateRequest(req: http.IncomingMessage): { valid: boolean; statusCode?: number; error?: string } {
+async function validateRequest(req: AuthenticatedRequest): Promise<{ valid: boolean; statusCode?: number; error?: string }> {
     // Check User-Agent
     const userAgent = req.headers["user-agent"] || "";
     if (!userAgent.toLowerCase().includes("rclone")) {
@@ -167,6 +188,31 @@ function validateRequest(req: http.IncomingMessage): { valid: boolean; statusCod
         };
     }
 
+    // Check the user's role on the project
+    const userId = getUserId(req.auth);
+    if (userId) {
+        if (!pathValidation.projectId) {
+            return {
+                valid: false,
+                statusCode: 403,
+                error: "Requests must target a project",
+            };
+        }
+
+        const accessError = await checkProjectAccess(
+            pathValidation.projectId,
+            userId,
+            getRequiredProjectRole(req.method)
+        );
+        if (accessError) {
+            return {
+                valid: false,
+                statusCode: 403,
+                error: accessError,
+            };
+        }
+    }
+
     // Check file extension for PUT requests (file uploads)
     if (req.method === "PUT" && req.url) {
         if (!isExtensionAllowed(req.url)) {
@@ -205,13 +251,17 @@ function proxyRequest(
     const target = new URL(targetUrl);
     const targetPath = req.url || "/";
 
+    // The bearer token is only meant for this proxy
+    const headers = { ...req.headers };
+    delete headers.authorization;
+
     const options: http.RequestOptions = {
         hostname: target.hostname,
         port: target.port || (target.protocol === "https:" ? 443 : 80),
         path: targetPath,
         method: req.method,
         headers: {
-            ...req.headers,
+            ...headers,
             host: target.host,
         },
     };
@@ -249,9 +299,18 @@ function proxyRequest(
 /**
  * Main request handler
  */
-function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+async function handleRequest(
+    req: AuthenticatedRequest,
+    res: http.ServerResponse,
+    tokenStore: TokenStore | undefined
+): Promise<void> {
+    // Without a token store, requests are not tied to a user and only path checks apply
+    if (tokenStore && !authenticateRequest(req, res, tokenStore)) {
+        return;
+    }
+
     // Validate request
-    const validation = validateRequest(req);
+    const validation = await validateRequest(req);
 
     if (!validation.valid) {
         const statusCode = validation.statusCode || 403;
@@ -260,6 +319,7 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): voi
                 method: req.method,
                 url: req.url,
                 user_agent: req.headers["user-agent"],
+                user_id: getUserId(req.auth),
                 status_code: statusCode,
                 error: validation.error,
                 remote_address: req.socket.remoteAddress,
@@ -281,7 +341,25 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): voi
  * Main server function
  */
 function main(): void {
-    const server = http.createServer(handleRequest);
+    const tokenStore = loadTokenStore();
+
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res, tokenStore).catch((error: unknown) => {
+            logger.error(
+                {
+                    error_message: error instanceof Error ? error.message : String(error),
+                    method: req.method,
+                    url: req.url,
+                },
+                "Error handling proxy request"
+            );
+
+            if (!res.headersSent) {
+                res.writeHead(500, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ error: "Internal Server Error" }));
+            }
+        });
+    });
 
     server.listen(PORT, "0.0.0.0", () => {
         logger.info(
@@ -290,6 +368,7 @@ function main(): void {
                 target_url: TARGET_URL,
                 projects_root: PROJECTS_ROOT,
                 max_file_size_mb: MAX_FILE_SIZE / 1024 / 1024,
+                auth_enabled: tokenStore !== undefined,
             },
             "WebDAV security proxy started"
         );